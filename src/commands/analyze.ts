@@ -9,6 +9,8 @@ import { createFMPClient } from "../services/fmp-client.js";
 import { FMPTradeSource } from "../services/fmp-trade-source.js";
 import { createGovernmentProvider } from "../data/government-provider.js";
 import { createEdgarProvider } from "../data/edgar-provider.js";
+import { createCommitteeActivityProvider } from "../data/committee-activity-provider.js";
+import { createPriceHistoryProvider } from "../data/price-history-provider.js";
 
 function createTradeProvider() {
   if (process.env.DATA_SOURCE === "fmp") {
@@ -25,8 +27,7 @@ function createMarketDataProvider(ttlMs: number) {
   }
   return createEdgarProvider();
 }
-import type { ScoringConfig } from "../scoring/types.js";
-import { DEFAULT_SCORING_CONFIG } from "../scoring/types.js";
+import { resolveProfileOption } from "../services/profile-service.js";
 import { loadSeenTradeKeys, saveSeenTradeKeys } from "../utils/storage.js";
 
 export const analyzeCommand = new Command("analyze")
@@ -36,6 +37,10 @@ export const analyzeCommand = new Command("analyze")
     "Minimum uniqueness score to show",
     "40"
   )
+  .option(
+    "--profile <name|file>",
+    "Scoring profile: a name in profiles/ or a YAML/JSON file (default: built-in weights)"
+  )
   .option(
     "--top <number>",
     "Limit to top N results (0 = all)",
@@ -63,6 +68,10 @@ export const analyzeCommand = new Command("analyze")
     "Market data cache TTL in days (default: 30)",
     "30"
   )
+  .option(
+    "--committee-activity <file>",
+    "Committee activity file for activity proximity scoring (default: data/committee-activity.json if present)"
+  )
   .option(
     "--json",
     "Output raw JSON instead of formatted text"
@@ -139,16 +148,22 @@ export const analyzeCommand = new Command("analyze")
         console.log("Market data fetching disabled (use without --no-market-data to enable)\n");
       }
 
-      const config: ScoringConfig = {
-        ...DEFAULT_SCORING_CONFIG,
-      };
+      const activityProvider = await createCommitteeActivityProvider(options.committeeActivity);
+      if (activityProvider) {
+        console.log(`Committee activity: ${activityProvider.getName()}\n`);
+      }
+
+      const config = await resolveProfileOption(options.profile);
+      console.log(`Scoring profile: ${config.profile?.name} (${config.profile?.hash})\n`);
 
       const report = await analyzeTrades(
         senateTrades,
         houseTrades,
         committeeData,
         marketDataProvider,
-        config
+        config,
+        activityProvider,
+        await createPriceHistoryProvider()
       );
 
       // Filter results by date if --since is provided (after analysis for proper context)
@@ -213,6 +228,9 @@ export const analyzeCommand = new Command("analyze")
       lines.push(reportTitle);
       lines.push("=".repeat(60));
       lines.push(`Generated: ${report.generatedAt}`);
+      if (report.config.profile) {
+        lines.push(`Scoring profile: ${report.config.profile.name} (${report.config.profile.hash})`);
+      }
 
       if (options.since) {
         lines.push(`Filtered to trades since: ${options.since}`);
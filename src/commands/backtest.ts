@@ -0,0 +1,252 @@
+import { Command } from "commander";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { loadTrades, loadStoredMarketData } from "../services/trade-service.js";
+import { loadCommitteeData, loadMemberResolver } from "../services/committee-service.js";
+import {
+  buildScoringInputs,
+  scoreInputs,
+  createPatternAnalyzer,
+  loadUnderlyingCloses,
+  withoutActivityProximity,
+} from "../services/analysis-service.js";
+import type { ScoringInput } from "../services/analysis-service.js";
+import { loadCompanyTickers, loadSymbolResolver } from "../services/symbol-service.js";
+import { computeTradePerformance, PERFORMANCE_HORIZONS, DEFAULT_BENCHMARK } from "../services/performance-service.js";
+import {
+  loadTradeLabels,
+  labelsFromPerformance,
+  runBacktest,
+} from "../services/backtest-service.js";
+import type { BacktestCandidate } from "../services/backtest-service.js";
+import { createPriceHistoryProvider } from "../data/price-history-provider.js";
+import type { SymbolResolver } from "../data/symbol-resolver.js";
+import type { ScoringConfig } from "../scoring/types.js";
+import { createCommitteeActivityProvider } from "../data/committee-activity-provider.js";
+import { loadScoringProfile, getDefaultScoringConfig } from "../services/profile-service.js";
+import { saveReport } from "../utils/storage.js";
+
+export const backtestCommand = new Command("backtest")
+  .description("Replay stored trades under candidate scoring configs and compare precision@K")
+  .option(
+    "--profile <profiles...>",
+    "Candidate scoring profiles: names in profiles/ or YAML/JSON files (merged onto the default)"
+  )
+  .option(
+    "--labels <file>",
+    "Ground truth label file (JSON [{tradeKey, label}] or CSV tradeKey,label) instead of forward returns"
+  )
+  .option(
+    "--prices-dir <dir>",
+    "Directory of per-symbol price files for forward-return labels and option moneyness (default: data/prices)"
+  )
+  .option(
+    "--benchmark <symbol>",
+    `Benchmark ticker for forward-return labels (default: ${DEFAULT_BENCHMARK})`,
+    DEFAULT_BENCHMARK
+  )
+  .option(
+    "--horizon <days>",
+    `Forward return horizon for labels: ${PERFORMANCE_HORIZONS.join(", ")}`,
+    "90"
+  )
+  .option(
+    "--min-excess <percent>",
+    "Excess return (in %) a trade must beat to be labeled positive",
+    "0"
+  )
+  .option(
+    "-k, --k <list>",
+    "Comma-separated K values for precision@K",
+    "10,25,50"
+  )
+  .option(
+    "--type <type>",
+    "Filter by trade type: purchase (includes exchange), sale, or all",
+    "purchase"
+  )
+  .option(
+    "--committee-activity <file>",
+    "Committee activity file for activity proximity scoring (default: data/committee-activity.json if present)"
+  )
+  .option("--json", "Output raw JSON")
+  .action(async (options) => {
+    try {
+      const ks = (options.k as string)
+        .split(",")
+        .map((k) => parseInt(k.trim(), 10))
+        .filter((k) => k > 0);
+      if (ks.length === 0) {
+        console.error(`❌ Invalid K values: ${options.k}`);
+        process.exit(1);
+      }
+
+      // Candidate configs (the default config is always included as the baseline)
+      const candidates: { name: string; config: ScoringConfig }[] = [
+        { name: "default", config: getDefaultScoringConfig() },
+      ];
+      for (const profile of (options.profile as string[] | undefined) ?? []) {
+        const config = await loadScoringProfile(profile);
+        candidates.push({ name: config.profile?.name ?? profile, config });
+      }
+
+      // Replay the stored trade history
+      const tradeData = await loadTrades();
+      if (!tradeData) {
+        console.error("❌ No trade data found. Run 'fetch:trades' first.");
+        process.exit(1);
+      }
+
+      // Patterns and trader histories come from every stored trade, as analyze
+      // builds them; --type only narrows the trades that get ranked
+      const tradeType = (options.type || "purchase").toLowerCase();
+      const matchesType = (trade: (typeof tradeData.senateTrades)[number]) => {
+        if (tradeType === "all") return true;
+        const type = (trade.type || "").toLowerCase();
+        if (tradeType === "purchase") return type.includes("purchase") || type.includes("exchange");
+        if (tradeType === "sale") return type.includes("sale");
+        return true;
+      };
+
+      const allTrades = [
+        ...tradeData.senateTrades.map((t) => ({ trade: t, chamber: "senate" as const })),
+        ...tradeData.houseTrades.map((t) => ({ trade: t, chamber: "house" as const })),
+      ];
+
+      // One symbol resolver per confidence threshold among the candidates
+      const companies = await loadCompanyTickers();
+      const symbolResolvers = new Map<number, SymbolResolver>();
+      for (const { config } of candidates) {
+        const { minConfidence } = config.symbolResolution;
+        if (!symbolResolvers.has(minConfidence)) {
+          symbolResolvers.set(minConfidence, await loadSymbolResolver(companies, minConfidence));
+        }
+      }
+      const symbols = [
+        ...new Set(
+          [...symbolResolvers.values()].flatMap((symbolResolver) =>
+            allTrades.map((t) => symbolResolver.getSymbol(t.trade)).filter((s): s is string => !!s)
+          )
+        ),
+      ];
+
+      const committeeData = await loadCommitteeData();
+      const marketDataMap = await loadStoredMarketData(symbols);
+      const activityProvider = await createCommitteeActivityProvider(options.committeeActivity);
+      const activities = activityProvider ? await activityProvider.getActivities() : [];
+      const priceProvider = await createPriceHistoryProvider(options.pricesDir);
+      const resolver = await loadMemberResolver(committeeData);
+
+      console.log(`🔁 Replaying ${allTrades.length} stored trades under ${candidates.length} config(s), ranking ${tradeType} trades`);
+      console.log(`   Market data: ${marketDataMap.size}/${symbols.length} symbols from stored snapshots`);
+      if (activityProvider) {
+        console.log(`   Committee activity: ${activities.length} records from ${activityProvider.getName()}`);
+      }
+
+      // Each candidate is replayed under its own symbol resolution and cluster
+      // settings, with rarity, clusters and trader histories as they stood when
+      // each trade was disclosed. Candidates that share those settings share inputs.
+      const replays = new Map<string, ScoringInput[]>();
+      const replay = async (config: ScoringConfig): Promise<ScoringInput[]> => {
+        const { minConfidence } = config.symbolResolution;
+        const key = `${minConfidence}|${config.cluster.windowDays}|${config.cluster.minMembers}`;
+        let inputs = replays.get(key);
+        if (!inputs) {
+          const symbolResolver = symbolResolvers.get(minConfidence)!;
+          inputs = buildScoringInputs(
+            allTrades,
+            committeeData,
+            createPatternAnalyzer(allTrades, committeeData, config, resolver, symbolResolver),
+            marketDataMap,
+            activities,
+            resolver,
+            symbolResolver,
+            await loadUnderlyingCloses(allTrades, priceProvider, symbolResolver),
+            true
+          ).filter((input) => matchesType(input.trade));
+          replays.set(key, inputs);
+        }
+        return inputs;
+      };
+
+      // Without an activity file, activity proximity is off in every candidate
+      const scoredCandidates: BacktestCandidate[] = [];
+      for (const { name, config } of candidates) {
+        scoredCandidates.push({
+          name,
+          config: activityProvider ? config : withoutActivityProximity(config),
+          inputs: await replay(config),
+        });
+      }
+
+      // Ground truth labels
+      let labels: Map<string, boolean>;
+      let labelSource: string;
+      if (options.labels) {
+        labels = await loadTradeLabels(options.labels);
+        labelSource = `labels file ${options.labels}`;
+      } else {
+        const horizonDays = parseInt(options.horizon, 10);
+        if (!PERFORMANCE_HORIZONS.includes(horizonDays)) {
+          console.error(`❌ Invalid horizon: ${options.horizon}. Use one of ${PERFORMANCE_HORIZONS.join(", ")}.`);
+          process.exit(1);
+        }
+        const minExcess = parseFloat(options.minExcess) / 100;
+        const benchmark = (options.benchmark as string).toUpperCase();
+        console.log(`   Prices: ${priceProvider.getName()} | Benchmark: ${benchmark}`);
+
+        const baseline = scoredCandidates[0];
+        const performances = await computeTradePerformance(
+          scoreInputs(baseline.inputs, baseline.config),
+          priceProvider,
+          benchmark
+        );
+        labels = labelsFromPerformance(performances, horizonDays, minExcess);
+        labelSource = `${horizonDays}-day excess return vs ${benchmark} > ${options.minExcess}%`;
+      }
+
+      const report = runBacktest(scoredCandidates, labels, labelSource, ks);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const nameWidth = Math.max(10, ...report.results.map((r) => r.name.length));
+      const lines: string[] = [];
+      lines.push("");
+      lines.push("=".repeat(70));
+      lines.push("SCORING CONFIG BACKTEST");
+      lines.push("=".repeat(70));
+      lines.push(`Generated: ${report.generatedAt}`);
+      lines.push(`Ground truth: ${report.labelSource}`);
+      lines.push(`Labeled trades: ${report.labeledTrades} of ${report.totalTrades} (${report.positives} positive)`);
+      lines.push(`Base rate: ${(report.baseRate * 100).toFixed(1)}%`);
+      lines.push("");
+      lines.push(`  ${"Config".padEnd(nameWidth)} ${ks.map((k) => `P@${k}`.padStart(14)).join(" ")}`);
+      for (const result of report.results) {
+        const cells = result.precisionAtK.map((p) =>
+          `${(p.precision * 100).toFixed(1)}% (${p.hits})`.padStart(14)
+        );
+        lines.push(`  ${result.name.padEnd(nameWidth)} ${cells.join(" ")}`);
+      }
+      lines.push("\n" + "=".repeat(70));
+
+      const output = lines.join("\n");
+      console.log(output);
+
+      // Save JSON report and formatted output
+      const reportPath = await saveReport("backtest", report);
+      console.log(`\nReport saved to ${reportPath}`);
+
+      const reportsDir = path.join(process.cwd(), "formatted-reports");
+      await fs.mkdir(reportsDir, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+      const outFile = `backtest-${timestamp}.txt`;
+      await fs.writeFile(path.join(reportsDir, outFile), output);
+      console.log(`📁 Saved to formatted-reports/${outFile}`);
+    } catch (error) {
+      console.error("❌ Backtest failed:", error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,25 @@
+import { Command } from "commander";
+import { openTradeStore, TRADE_DB_FILE } from "../data/trade-store.js";
+
+export const dbMigrateCommand = new Command("db:migrate")
+  .description("Import legacy JSON caches (trades.json, market-data-cache.json) into the SQLite trade store")
+  .action(async () => {
+    try {
+      const store = await openTradeStore();
+      try {
+        console.log(`Importing legacy JSON data into ${TRADE_DB_FILE}...`);
+        const result = await store.importLegacyJson();
+        const stats = store.getStats();
+
+        console.log("\n✅ Migration complete:");
+        console.log(`   - ${result.senateAdded} Senate, ${result.houseAdded} House trades added`);
+        console.log(`   - ${result.marketSnapshots} market data snapshots imported`);
+        console.log(`   - Store now holds ${stats.transactions} transactions across ${stats.filings} filings`);
+      } finally {
+        store.close();
+      }
+    } catch (error) {
+      console.error("❌ Migration failed:", error);
+      process.exit(1);
+    }
+  });
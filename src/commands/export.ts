@@ -0,0 +1,139 @@
+import { Command } from "commander";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { queryTrades, loadStoredMarketData } from "../services/trade-service.js";
+import { loadCommitteeData, loadMemberResolver } from "../services/committee-service.js";
+import {
+  buildScoringInputs,
+  scoreInputs,
+  createPatternAnalyzer,
+  loadUnderlyingCloses,
+  withoutActivityProximity,
+} from "../services/analysis-service.js";
+import { loadSymbolResolver } from "../services/symbol-service.js";
+import { createCommitteeActivityProvider } from "../data/committee-activity-provider.js";
+import { createPriceHistoryProvider } from "../data/price-history-provider.js";
+import { resolveProfileOption } from "../services/profile-service.js";
+import { getTradeKey } from "../data/trade-store.js";
+import {
+  EXPORT_DATASETS,
+  EXPORT_FORMATS,
+  buildExportTables,
+  toCsv,
+  toNdjson,
+  toXlsx,
+  type ExportDataset,
+  type ExportFormat,
+} from "../services/export-service.js";
+
+function parseList<T extends string>(value: string, allowed: readonly T[], label: string): T[] {
+  const items = value.split(",").map((v) => v.trim().toLowerCase()).filter(Boolean);
+  if (items.includes("all")) return [...allowed];
+  const invalid = items.filter((v) => !allowed.includes(v as T));
+  if (invalid.length > 0 || items.length === 0) {
+    throw new Error(`Invalid ${label}: ${invalid.join(", ") || value}. Use ${allowed.join(", ")} or all.`);
+  }
+  return items as T[];
+}
+
+export const exportCommand = new Command("export")
+  .description("Export scored trades, raw trades, members and committee relevance as CSV, NDJSON or XLSX")
+  .option("--format <formats>", `Comma-separated formats: ${EXPORT_FORMATS.join(", ")} or all`, "csv")
+  .option("--dataset <datasets>", `Comma-separated datasets: ${EXPORT_DATASETS.join(", ")} or all`, "all")
+  .option("--out <dir>", "Output directory", "exports")
+  .option("--chamber <chamber>", "Filter by chamber (senate, house)")
+  .option("--trader <name>", "Filter by trader name")
+  .option("--symbol <symbol>", "Filter by stock symbol")
+  .option("--since <date>", "Only trades on or after this transaction date (YYYY-MM-DD)")
+  .option("--until <date>", "Only trades on or before this transaction date (YYYY-MM-DD)")
+  .option("--profile <name|file>", "Scoring profile: a name in profiles/ or a YAML/JSON file (default: built-in weights)")
+  .option("--committee-activity <file>", "Committee activity file for activity proximity scoring (default: data/committee-activity.json if present)")
+  .action(async (options) => {
+    try {
+      const formats = parseList<ExportFormat>(options.format, EXPORT_FORMATS, "format");
+      const datasets = parseList<ExportDataset>(options.dataset, EXPORT_DATASETS, "dataset");
+
+      const chamberFilter = options.chamber?.toLowerCase();
+      if (chamberFilter && chamberFilter !== "senate" && chamberFilter !== "house") {
+        console.error(`❌ Invalid chamber: ${options.chamber}. Use senate or house.`);
+        process.exit(1);
+      }
+      for (const date of [options.since, options.until]) {
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          console.error(`❌ Invalid date: ${date}. Use YYYY-MM-DD.`);
+          process.exit(1);
+        }
+      }
+
+      // Score against the full history (rarity, conviction and clusters need
+      // every trade), then keep the trades matching the filters
+      const [allTrades, filtered, committeeData] = await Promise.all([
+        queryTrades({ order: "desc" }),
+        queryTrades({
+          chamber: chamberFilter,
+          trader: options.trader,
+          symbol: options.symbol,
+          since: options.since,
+          until: options.until,
+          order: "desc",
+        }),
+        loadCommitteeData(),
+      ]);
+
+      if (!allTrades) {
+        console.error("❌ No trade data found. Run 'fetch:trades' first.");
+        process.exit(1);
+      }
+      if (!committeeData) {
+        console.warn("⚠️  No committee data — run fetch:committees for committee relevance and member details.");
+      }
+
+      let config = await resolveProfileOption(options.profile);
+      const symbolResolver = await loadSymbolResolver(undefined, config.symbolResolution.minConfidence);
+      const symbols = [...new Set(allTrades.map((t) => symbolResolver.getSymbol(t.trade)).filter((s): s is string => !!s))];
+      const marketDataMap = await loadStoredMarketData(symbols);
+      const activityProvider = await createCommitteeActivityProvider(options.committeeActivity);
+      const activities = activityProvider ? await activityProvider.getActivities() : [];
+      if (!activityProvider) config = withoutActivityProximity(config);
+      const underlyingCloses = await loadUnderlyingCloses(allTrades, await createPriceHistoryProvider(), symbolResolver);
+
+      const resolver = await loadMemberResolver(committeeData);
+      const inputs = buildScoringInputs(
+        allTrades,
+        committeeData,
+        createPatternAnalyzer(allTrades, committeeData, config, resolver, symbolResolver),
+        marketDataMap,
+        activities,
+        resolver,
+        symbolResolver,
+        underlyingCloses
+      );
+
+      const keep = new Set((filtered ?? []).map(({ trade }) => getTradeKey(trade)));
+      const scored = scoreInputs(inputs.filter((input) => keep.has(getTradeKey(input.trade))), config);
+      const tables = buildExportTables(scored, datasets, committeeData, resolver);
+
+      const outDir = path.resolve(process.cwd(), options.out as string);
+      await fs.mkdir(outDir, { recursive: true });
+      const date = new Date().toISOString().split("T")[0];
+
+      console.log(`\n📤 Exporting ${scored.length} trades (profile ${config.profile?.name})`);
+      for (const format of formats) {
+        if (format === "xlsx") {
+          const file = path.join(outDir, `congress-trades-${date}.xlsx`);
+          await fs.writeFile(file, toXlsx(tables));
+          console.log(`   ${tables.map((t) => t.dataset).join(", ")} → ${file}`);
+          continue;
+        }
+        for (const table of tables) {
+          const file = path.join(outDir, `${table.dataset}-${date}.${format}`);
+          await fs.writeFile(file, format === "csv" ? toCsv(table) : toNdjson(table), "utf-8");
+          console.log(`   ${table.dataset} (${table.rows.length} rows) → ${file}`);
+        }
+      }
+      console.log("\n✅ Export complete.");
+    } catch (error) {
+      console.error("❌ Export failed:", error);
+      process.exit(1);
+    }
+  });
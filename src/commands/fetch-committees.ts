@@ -1,12 +1,32 @@
 import { Command } from "commander";
-import { fetchAllCommitteeData } from "../services/committee-service.js";
+import {
+  fetchAllCommitteeData,
+  importMembershipSnapshot,
+  loadMembershipSnapshots,
+} from "../services/committee-service.js";
 import { getDataAge, formatDuration } from "../utils/storage.js";
 
 export const fetchCommitteesCommand = new Command("fetch:committees")
   .description("Fetch and store current committee data and membership")
   .option("-f, --force", "Force fetch even if data is recent")
+  .option("--import <file>", "Import an archived committee-membership file (JSON or YAML) instead of fetching")
+  .option("--as-of <date>", "Date of the imported membership file (YYYY-MM-DD)")
   .action(async (options) => {
     try {
+      if (options.import) {
+        if (!options.asOf) {
+          console.error("❌ --import requires --as-of <YYYY-MM-DD>");
+          process.exit(1);
+        }
+        const snapshot = await importMembershipSnapshot(options.import, options.asOf);
+        const snapshots = await loadMembershipSnapshots();
+        console.log(
+          `✅ Imported membership snapshot for ${snapshot.asOf} (${Object.keys(snapshot.membership).length} committees)`
+        );
+        console.log(`   ${snapshots.length} snapshots from ${snapshots[0].asOf} to ${snapshots[snapshots.length - 1].asOf}`);
+        return;
+      }
+
       // Check if we have recent data
       const age = await getDataAge("committee-data.json");
 
@@ -30,6 +50,7 @@ export const fetchCommitteesCommand = new Command("fetch:committees")
         `   - ${Object.keys(data.membership).length} committee membership records`
       );
       console.log(`   - ${data.sectorMappings.length} sector mappings`);
+      console.log(`   - ${data.history?.length ?? 0} archived membership snapshots`);
     } catch (error) {
       console.error("❌ Failed to fetch committee data:", error);
       process.exit(1);
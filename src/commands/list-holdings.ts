@@ -0,0 +1,148 @@
+import { Command } from "commander";
+import { queryTrades } from "../services/trade-service.js";
+import { loadCommitteeData, loadMemberResolver } from "../services/committee-service.js";
+import { HoldingsEngine, HOLDING_OWNERS, type Holding, type EstimatedValue } from "../data/holdings-engine.js";
+
+export const listHoldingsCommand = new Command("list:holdings")
+  .description("Display estimated member holdings reconstructed from recorded trades")
+  .option("--chamber <chamber>", "Filter by chamber (senate, house)")
+  .option("--trader <name>", "Filter by trader name")
+  .option("--symbol <symbol>", "Filter by stock symbol")
+  .option("--owner <owner>", "Filter by owner (self, spouse, joint, dependent)")
+  .option("--as-of <date>", "Replay trades on or before this transaction date (YYYY-MM-DD)")
+  .option("--include-closed", "Include positions sold down to zero")
+  .option("--unmatched", "List sales with no recorded purchase before them instead")
+  .option("--limit <n>", "Limit number of rows shown", "50")
+  .option("--json", "Output raw JSON")
+  .action(async (options) => {
+    try {
+      const chamberFilter = options.chamber?.toLowerCase();
+      if (chamberFilter && chamberFilter !== "senate" && chamberFilter !== "house") {
+        console.error(`❌ Invalid chamber: ${options.chamber}. Use senate or house.`);
+        process.exit(1);
+      }
+      if (options.asOf && !/^\d{4}-\d{2}-\d{2}$/.test(options.asOf)) {
+        console.error(`❌ Invalid date: ${options.asOf}. Use YYYY-MM-DD.`);
+        process.exit(1);
+      }
+      const ownerFilter = options.owner
+        ? HOLDING_OWNERS.find((o) => o.toLowerCase() === String(options.owner).toLowerCase())
+        : undefined;
+      if (options.owner && !ownerFilter) {
+        console.error(`❌ Invalid owner: ${options.owner}. Use self, spouse, joint or dependent.`);
+        process.exit(1);
+      }
+
+      // Positions are per member and ticker, so trader, symbol and chamber
+      // filters can run in SQL without cutting a position's history short
+      const storedTrades = await queryTrades({
+        chamber: chamberFilter,
+        trader: options.trader,
+        symbol: options.symbol,
+        until: options.asOf,
+        order: "asc",
+      });
+
+      if (!storedTrades) {
+        console.error("❌ No trade data found. Run 'fetch:trades' first.");
+        process.exit(1);
+      }
+
+      const resolver = await loadMemberResolver(await loadCommitteeData());
+      const engine = new HoldingsEngine(
+        storedTrades.map(({ trade, chamber }) => ({
+          trade,
+          chamber,
+          bioguideId: resolver.resolve(trade, chamber) ?? undefined,
+        }))
+      );
+
+      const limit = parseInt(options.limit, 10);
+      const byOwner = (h: Holding) => !ownerFilter || h.owner === ownerFilter;
+
+      if (options.unmatched) {
+        const sales = engine.getUnmatchedSales({ asOf: options.asOf })
+          .filter((s) => byOwner(s.holding))
+          .slice(0, limit);
+
+        if (options.json) {
+          console.log(JSON.stringify(sales.map(({ holding, trade, ...sale }) => ({
+            member: holding.member,
+            chamber: holding.chamber,
+            bioguideId: holding.bioguideId ?? null,
+            owner: holding.owner,
+            symbol: holding.symbol,
+            date: sale.date,
+            type: trade.type,
+            amount: trade.amount,
+          })), null, 2));
+          return;
+        }
+
+        console.log("\n" + "═".repeat(100));
+        console.log("  SALES WITH NO RECORDED PURCHASE");
+        console.log("═".repeat(100));
+        if (sales.length === 0) {
+          console.log("\n  No unmatched sales found.\n");
+          return;
+        }
+        console.log("");
+        for (const { holding, trade, date } of sales) {
+          console.log(
+            `  ${date}  ${holding.symbol.padEnd(8)} ${formatCell(holding.member, 24)} ${holding.owner.padEnd(10)} ${formatCell(trade.type ?? "", 14)} ${trade.amount ?? ""}`
+          );
+        }
+        console.log("\n" + "═".repeat(100));
+        console.log(`  Showing ${sales.length} sales — bought before the recorded history starts, or never disclosed`);
+        console.log("═".repeat(100) + "\n");
+        return;
+      }
+
+      const holdings = engine.getHoldings({ asOf: options.asOf, includeClosed: options.includeClosed })
+        .filter(byOwner)
+        .slice(0, limit);
+
+      if (options.json) {
+        console.log(JSON.stringify(holdings.map(({ events, ...holding }) => holding), null, 2));
+        return;
+      }
+
+      console.log("\n" + "═".repeat(100));
+      console.log(`  ESTIMATED HOLDINGS${options.asOf ? ` AS OF ${options.asOf}` : ""}`);
+      console.log("═".repeat(100));
+
+      if (holdings.length === 0) {
+        console.log("\n  No holdings found matching the criteria.\n");
+        return;
+      }
+
+      console.log("");
+      console.log(`  ${"Symbol".padEnd(8)} ${"Member".padEnd(24)} ${"Owner".padEnd(10)} ${"Estimate".padEnd(30)} ${"Opened".padEnd(11)} Last`);
+      for (const h of holdings) {
+        const unmatched = h.unmatchedSales ? `  ⚠️  ${h.unmatchedSales} unmatched` : "";
+        console.log(
+          `  ${h.symbol.padEnd(8)} ${formatCell(h.member, 24)} ${h.owner.padEnd(10)} ${formatEstimate(h.value).padEnd(30)} ${(h.openedDate ?? "—").padEnd(11)} ${h.lastActivityDate}${unmatched}`
+        );
+      }
+
+      const total = holdings.reduce((sum, h) => sum + h.value.mid, 0);
+      console.log("\n" + "═".repeat(100));
+      console.log(`  Showing ${holdings.length} positions · ~$${total.toLocaleString("en-US")} at range midpoints`);
+      console.log("  Estimates are dollars bought less dollars sold; price changes aren't modeled");
+      console.log("═".repeat(100) + "\n");
+    } catch (error) {
+      console.error("❌ Failed to list holdings:", error);
+      process.exit(1);
+    }
+  });
+
+function formatEstimate(value: EstimatedValue): string {
+  return `~$${value.mid.toLocaleString("en-US")} ($${value.low.toLocaleString("en-US")}–$${value.high.toLocaleString("en-US")})`;
+}
+
+function formatCell(text: string, width: number): string {
+  if (text.length > width) {
+    return text.substring(0, width - 3) + "...";
+  }
+  return text.padEnd(width);
+}
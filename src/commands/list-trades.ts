@@ -1,16 +1,16 @@
 import { Command } from "commander";
-import { loadTrades } from "../services/trade-service.js";
+import { queryTrades } from "../services/trade-service.js";
 import {
   loadCommitteeData,
-  findMemberByName,
-  getMemberCommittees,
+  loadMemberResolver,
+  getMemberCommitteesOn,
   getCommitteeById,
 } from "../services/committee-service.js";
 import {
   inferStockSector,
   hasRelevantCommitteeExposure,
 } from "../mappings/committee-sectors.js";
-import type { FMPTrade, CommitteeData, MarketSector } from "../types/index.js";
+import type { MarketSector } from "../types/index.js";
 
 interface TradeSummary {
   trader: string;
@@ -31,17 +31,42 @@ export const listTradesCommand = new Command("list:trades")
   .option("--chamber <chamber>", "Filter by chamber (senate, house)")
   .option("--trader <name>", "Filter by trader name")
   .option("--symbol <symbol>", "Filter by stock symbol")
+  .option("--since <date>", "Only trades on or after this transaction date (YYYY-MM-DD)")
+  .option("--until <date>", "Only trades on or before this transaction date (YYYY-MM-DD)")
   .option("--relevant-only", "Show only trades with committee relevance")
   .option("--limit <n>", "Limit number of trades shown", "50")
   .option("--json", "Output raw JSON")
   .action(async (options) => {
     try {
-      const [tradeData, committeeData] = await Promise.all([
-        loadTrades(),
+      const chamberFilter = options.chamber?.toLowerCase();
+      if (chamberFilter && chamberFilter !== "senate" && chamberFilter !== "house") {
+        console.error(`❌ Invalid chamber: ${options.chamber}. Use senate or house.`);
+        process.exit(1);
+      }
+      for (const date of [options.since, options.until]) {
+        if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+          console.error(`❌ Invalid date: ${date}. Use YYYY-MM-DD.`);
+          process.exit(1);
+        }
+      }
+
+      // Chamber, trader, symbol and date filters run in SQL; --relevant-only needs
+      // committee data, so the limit is applied after that filter instead.
+      const limit = parseInt(options.limit, 10);
+      const [storedTrades, committeeData] = await Promise.all([
+        queryTrades({
+          chamber: chamberFilter,
+          trader: options.trader,
+          symbol: options.symbol,
+          since: options.since,
+          until: options.until,
+          order: "desc",
+          limit: options.relevantOnly ? undefined : limit,
+        }),
         loadCommitteeData(),
       ]);
 
-      if (!tradeData) {
+      if (!storedTrades) {
         console.error("❌ No trade data found. Run 'fetch:trades' first.");
         process.exit(1);
       }
@@ -51,40 +76,17 @@ export const listTradesCommand = new Command("list:trades")
         console.warn("   Run 'fetch:committees' for full analysis.\n");
       }
 
-      // Combine trades with chamber info
-      const allTrades: { trade: FMPTrade; chamber: "Senate" | "House" }[] = [
-        ...tradeData.senateTrades.map((t) => ({ trade: t, chamber: "Senate" as const })),
-        ...tradeData.houseTrades.map((t) => ({ trade: t, chamber: "House" as const })),
-      ];
-
-      // Sort by date descending
-      allTrades.sort((a, b) => {
-        const dateA = a.trade.transactionDate || "";
-        const dateB = b.trade.transactionDate || "";
-        return dateB.localeCompare(dateA);
-      });
+      const resolver = await loadMemberResolver(committeeData);
+      const allTrades = storedTrades.map(({ trade, chamber }) => ({
+        trade,
+        chamber: chamber === "senate" ? "Senate" as const : "House" as const,
+        bioguideId: resolver.resolve(trade, chamber),
+      }));
 
       // Build trade summaries
       const summaries: TradeSummary[] = [];
 
-      for (const { trade, chamber } of allTrades) {
-        // Filter by chamber
-        if (options.chamber) {
-          if (options.chamber.toLowerCase() !== chamber.toLowerCase()) continue;
-        }
-
-        // Filter by trader name
-        if (options.trader) {
-          const traderLower = options.trader.toLowerCase();
-          const fullName = `${trade.firstName || ""} ${trade.lastName || ""}`.toLowerCase();
-          if (!fullName.includes(traderLower)) continue;
-        }
-
-        // Filter by symbol
-        if (options.symbol) {
-          if (trade.symbol?.toUpperCase() !== options.symbol.toUpperCase()) continue;
-        }
-
+      for (const { trade, chamber, bioguideId } of allTrades) {
         // Infer stock sectors from description
         const inferredSectors = inferStockSector(
           trade.assetDescription || "",
@@ -96,25 +98,17 @@ export const listTradesCommand = new Command("list:trades")
         let relevantCommittees: string[] = [];
         let hasCommitteeOverlap = false;
 
-        if (committeeData && trade.firstName && trade.lastName) {
-          const bioguideId = findMemberByName(
-            trade.firstName,
-            trade.lastName,
-            committeeData.membership
-          );
-
-          if (bioguideId) {
-            traderCommittees = getMemberCommittees(bioguideId, committeeData.membership);
-
-            if (inferredSectors.length > 0 && traderCommittees.length > 0) {
-              const relevance = hasRelevantCommitteeExposure(
-                traderCommittees,
-                inferredSectors,
-                committeeData.sectorMappings
-              );
-              hasCommitteeOverlap = relevance.relevant;
-              relevantCommittees = relevance.committees;
-            }
+        if (committeeData && bioguideId) {
+          traderCommittees = getMemberCommitteesOn(bioguideId, committeeData, trade.transactionDate);
+
+          if (inferredSectors.length > 0 && traderCommittees.length > 0) {
+            const relevance = hasRelevantCommitteeExposure(
+              traderCommittees,
+              inferredSectors,
+              committeeData.sectorMappings
+            );
+            hasCommitteeOverlap = relevance.relevant;
+            relevantCommittees = relevance.committees;
           }
         }
 
@@ -136,7 +130,7 @@ export const listTradesCommand = new Command("list:trades")
         });
 
         // Apply limit
-        if (summaries.length >= parseInt(options.limit, 10)) break;
+        if (summaries.length >= limit) break;
       }
 
       if (options.json) {
@@ -0,0 +1,63 @@
+import { Command } from "commander";
+import { openTradeStore } from "../data/trade-store.js";
+import { loadCommitteeData, loadMemberResolver, MEMBER_OVERRIDES_FILE } from "../services/committee-service.js";
+import { saveReport } from "../utils/storage.js";
+
+export const membersResolveCommand = new Command("members:resolve")
+  .description("Resolve stored filing names to bioguide IDs and list the ones that don't match")
+  .option("--json", "Output unresolved names as JSON")
+  .action(async (options) => {
+    try {
+      const committeeData = await loadCommitteeData();
+      if (!committeeData?.legislators) {
+        console.error("❌ No legislator data found. Run 'fetch:committees' first.");
+        process.exit(1);
+      }
+
+      const store = await openTradeStore();
+      const trades = store.queryTrades();
+      store.close();
+
+      const resolver = await loadMemberResolver(committeeData);
+      const byName = new Map<string, string | null>();
+      for (const { trade, chamber } of trades) {
+        const bioguideId = resolver.resolve(trade, chamber);
+        byName.set(`${chamber}|${trade.firstName ?? ""}|${trade.lastName ?? ""}|${trade.office ?? ""}`, bioguideId);
+      }
+
+      const unresolved = resolver.getUnresolved();
+      if (options.json) {
+        console.log(JSON.stringify(unresolved, null, 2));
+        return;
+      }
+
+      const resolvedNames = [...byName.values()].filter((id) => id !== null).length;
+      const members = new Set([...byName.values()].filter((id): id is string => id !== null));
+      console.log(`\n🪪 Resolved ${resolvedNames} of ${byName.size} filing names to ${members.size} members`);
+
+      if (unresolved.length === 0) {
+        console.log("   Every filing name matched a bioguide ID.");
+        return;
+      }
+
+      const unresolvedTrades = unresolved.reduce((sum, u) => sum + u.occurrences, 0);
+      console.log(`\n⚠️  ${unresolved.length} unresolved names (${unresolvedTrades} trades):\n`);
+      for (const u of unresolved) {
+        const chamber = u.chamber === "senate" ? "Sen." : u.chamber === "house" ? "Rep." : "";
+        const office = u.office ? ` [${u.office}]` : "";
+        console.log(`  ${chamber} ${u.firstName} ${u.lastName}${office} — ${u.occurrences} trades`);
+        for (const bioguide of u.candidates) {
+          const name = resolver.getLegislator(bioguide)?.name.official_full ?? "";
+          console.log(`      candidate: ${bioguide} ${name}`);
+        }
+      }
+
+      const reportPath = await saveReport("unresolved-members", unresolved);
+      console.log(`\nReport saved to ${reportPath}`);
+      console.log(`Pin names in data/${MEMBER_OVERRIDES_FILE}, e.g.`);
+      console.log(`  [{ "firstName": "${unresolved[0].firstName}", "lastName": "${unresolved[0].lastName}", "bioguide": "X000000" }]`);
+    } catch (error) {
+      console.error("❌ Error resolving members:", error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,158 @@
+import { Command } from "commander";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AnalysisReport, AnalyzedTrade } from "../services/analysis-service.js";
+import { diffReports } from "../services/diff-service.js";
+import type { ReportDiff } from "../services/diff-service.js";
+import { buildDiffPage } from "../output/html.js";
+import { findReportDate } from "../output/index-page.js";
+import { listReports, loadData } from "../utils/storage.js";
+
+const DEFAULT_WEB_DIR = "output/web";
+
+/**
+ * Load a saved report from a path, or by filename from reports/
+ */
+async function loadReport(source: string): Promise<AnalysisReport> {
+  let content: string;
+  try {
+    content = await fs.readFile(source, "utf-8");
+  } catch {
+    const stored = await loadData<AnalysisReport>(path.basename(source), "reports");
+    if (!stored) throw new Error(`Report not found: ${source}`);
+    return stored.data;
+  }
+  // Saved reports are wrapped in { fetchedAt, data }
+  const raw = JSON.parse(content);
+  const report = (raw.data ?? raw) as AnalysisReport;
+  if (!Array.isArray(report.scoredTrades)) throw new Error(`Not an analysis report: ${source}`);
+  return report;
+}
+
+function describeTrade(analyzed: AnalyzedTrade): string {
+  const { trade } = analyzed;
+  const name = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+  return `${(trade.symbol || "N/A").padEnd(6)} ${formatCell(trade.type || "", 14)} ${formatCell(name, 22)} ${trade.transactionDate || ""}`;
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+function formatDiff(diff: ReportDiff, limit: number): string {
+  const lines: string[] = [];
+  const cap = <T>(rows: T[]) => (limit > 0 ? rows.slice(0, limit) : rows);
+  const more = (total: number) => (limit > 0 && total > limit ? [`  … ${total - limit} more`] : []);
+
+  lines.push("");
+  lines.push("=".repeat(80));
+  lines.push("REPORT DIFF");
+  lines.push("=".repeat(80));
+  for (const [label, summary] of [["Before", diff.before], ["After", diff.after]] as const) {
+    lines.push(`${label}: ${summary.source} (${summary.generatedAt}, ${summary.totalTrades} trades${summary.profile ? `, profile ${summary.profile}` : ""})`);
+  }
+  lines.push(`New: ${diff.added.length} | Dropped: ${diff.dropped.length} | Rescored: ${diff.changed.length} | Unchanged: ${diff.unchanged}`);
+
+  lines.push(`\n🆕 NEW TRADES:\n`);
+  if (diff.added.length === 0) lines.push("  None.");
+  for (const t of cap(diff.added)) lines.push(`  ${String(t.score.overallScore).padStart(5)}  ${describeTrade(t)}`);
+  lines.push(...more(diff.added.length));
+
+  lines.push(`\n🗑️  DROPPED TRADES:\n`);
+  if (diff.dropped.length === 0) lines.push("  None.");
+  for (const t of cap(diff.dropped)) lines.push(`  ${String(t.score.overallScore).padStart(5)}  ${describeTrade(t)}`);
+  lines.push(...more(diff.dropped.length));
+
+  lines.push(`\n📊 SCORE CHANGES:\n`);
+  if (diff.changed.length === 0) lines.push("  None.");
+  for (const change of cap(diff.changed)) {
+    lines.push(
+      `  ${`${change.overall.before} → ${change.overall.after}`.padStart(12)} ${formatDelta(change.overall.delta).padStart(7)}  ${describeTrade(change.after)}`
+    );
+    const factors = Object.entries(change.factors).map(([field, d]) => `${field.replace(/Score$/, "")} ${formatDelta(d.delta)}`);
+    if (factors.length) lines.push(`  ${"".padStart(20)}  factors: ${factors.join(", ")}`);
+    const flags = [...change.flagsSet.map((f) => `+${f}`), ...change.flagsCleared.map((f) => `-${f}`)];
+    if (flags.length) lines.push(`  ${"".padStart(20)}  flags: ${flags.join(", ")}`);
+  }
+  lines.push(...more(diff.changed.length));
+
+  lines.push("\n" + "=".repeat(80));
+  return lines.join("\n");
+}
+
+export const reportDiffCommand = new Command("report:diff")
+  .description("Compare two saved analysis reports: new and dropped trades, score and flag changes")
+  .argument("[before]", "Older report (path or reports/ filename; default: second most recent unique-trades report)")
+  .argument("[after]", "Newer report (path or reports/ filename; default: most recent unique-trades report)")
+  .option("--min-delta <points>", "Ignore score changes of this many points or fewer", "0")
+  .option("--limit <n>", "Rows shown per section in the console (0 for all)", "20")
+  .option("--json", "Output raw JSON")
+  .option("--html", "Write an HTML page beside the newer report's weekly HTML report")
+  .option("--date <YYYY-MM-DD>", "Weekly report directory for --html (default: the one report:html rendered the newer report into)")
+  .option("--out <dir>", `HTML output directory (default: ${DEFAULT_WEB_DIR})`, DEFAULT_WEB_DIR)
+  .action(async (beforeArg: string | undefined, afterArg: string | undefined, options) => {
+    try {
+      const minDelta = parseFloat(options.minDelta);
+      if (!Number.isFinite(minDelta) || minDelta < 0) {
+        console.error(`❌ Invalid --min-delta: ${options.minDelta}`);
+        process.exit(1);
+      }
+      if (options.date && !/^\d{4}-\d{2}-\d{2}$/.test(options.date)) {
+        console.error(`❌ Invalid --date: ${options.date}. Use YYYY-MM-DD.`);
+        process.exit(1);
+      }
+
+      // Default to the latest report(s) in reports/
+      const saved = (await listReports()).filter((f) => f.startsWith("unique-trades"));
+      const before = beforeArg ?? saved[1];
+      const after = afterArg ?? saved[0];
+      if (!before || !after) {
+        console.error("❌ Need two saved reports. Run 'analyze' twice or pass report paths.");
+        process.exit(1);
+      }
+
+      const [beforeReport, afterReport] = await Promise.all([loadReport(before), loadReport(after)]);
+      const diff = diffReports(
+        { report: beforeReport, source: before },
+        { report: afterReport, source: after },
+        { minDelta }
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(diff, null, 2));
+      } else {
+        console.log(formatDiff(diff, parseInt(options.limit, 10)));
+      }
+
+      if (options.html) {
+        // Weekly reports live in <out>/<YYYY-MM-DD>/report.html, named for the day report:html ran
+        const webDir = path.resolve(process.cwd(), options.out as string);
+        let date: string | null = options.date ?? (await findReportDate(webDir, diff.after.generatedAt));
+        if (!date) {
+          date = diff.after.generatedAt.split("T")[0];
+          console.error(`⚠️  No weekly HTML report of ${after} in the manifest; pass --date to place the diff beside one.`);
+        }
+        const dateDir = path.join(webDir, date);
+        await fs.mkdir(dateDir, { recursive: true });
+        const hasReport = await fs.access(path.join(dateDir, "report.html")).then(() => true, () => false);
+        const html = buildDiffPage({
+          diff,
+          reportUrl: hasReport ? "report.html" : undefined,
+          indexUrl: "../index.html",
+        });
+        const outFile = path.join(dateDir, "diff.html");
+        await fs.writeFile(outFile, html, "utf-8");
+        console.error(`📄 Diff page written to ${path.relative(process.cwd(), outFile)}`);
+      }
+    } catch (error) {
+      console.error("❌ Report diff failed:", error);
+      process.exit(1);
+    }
+  });
+
+function formatCell(text: string, width: number): string {
+  if (text.length > width) {
+    return text.substring(0, width - 3) + "...";
+  }
+  return text.padEnd(width);
+}
@@ -1,15 +1,25 @@
 import { Command } from "commander";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { loadTrades, fetchTrades, getDefaultTargetDate } from "../services/trade-service.js";
-import { loadCommitteeData, buildPartyMap, findMemberByName, getMemberParty } from "../services/committee-service.js";
-import { analyzeTrades } from "../services/analysis-service.js";
+import { loadTrades, fetchTrades, getDefaultTargetDate, queryTrades } from "../services/trade-service.js";
+import {
+  loadCommitteeData,
+  loadMemberResolver,
+  buildPartyMap,
+  getMemberParty,
+  getMemberCommittees,
+} from "../services/committee-service.js";
+import { analyzeTrades, createPatternAnalyzer } from "../services/analysis-service.js";
 import type { AnalysisReport } from "../services/analysis-service.js";
 import { createFMPProvider } from "../data/fmp-provider.js";
 import { createFMPClient } from "../services/fmp-client.js";
 import { FMPTradeSource } from "../services/fmp-trade-source.js";
 import { createGovernmentProvider } from "../data/government-provider.js";
 import { createEdgarProvider } from "../data/edgar-provider.js";
+import { createCommitteeActivityProvider } from "../data/committee-activity-provider.js";
+import { createPriceHistoryProvider } from "../data/price-history-provider.js";
+import { HoldingsEngine, type Holding } from "../data/holdings-engine.js";
+import { resolveProfileOption } from "../services/profile-service.js";
 
 function createTradeProvider() {
   if (process.env.DATA_SOURCE === "fmp") {
@@ -24,10 +34,33 @@ function createMarketDataProvider(cacheOnly: boolean) {
   }
   return createEdgarProvider(cacheOnly);
 }
-import { buildHtmlReport, buildPartyPage, buildMemberPage } from "../output/html.js";
+import {
+  buildHtmlReport,
+  buildPartyPage,
+  buildMemberPage,
+  buildTradePage,
+  buildSymbolPage,
+  memberPageFile,
+  selectReportCards,
+  symbolPageFile,
+  tradePageFile,
+  type MemberTrade,
+} from "../output/html.js";
 import { buildIndexPage, loadManifest, upsertManifest, rebuildManifest } from "../output/index-page.js";
+import {
+  FEED_MIN_SCORE,
+  feedFiles,
+  pageFeedName,
+  partyFeedName,
+  reportFeedChannel,
+  tradeFeedItem,
+  upsertFeedItems,
+  writeFeeds,
+  type FeedChannel,
+} from "../output/feeds.js";
 import { publishOutput } from "../publish.js";
 import { loadData, getLatestReport } from "../utils/storage.js";
+import { getTradeKey } from "../data/trade-store.js";
 import type { FMPTrade } from "../types/index.js";
 
 const DEFAULT_WEB_DIR = "output/web";
@@ -68,15 +101,19 @@ export const reportHtmlCommand = new Command("report:html")
     `Output directory for HTML files (default: ${DEFAULT_WEB_DIR})`,
     DEFAULT_WEB_DIR
   )
+  .option("--committee-activity <file>", "Committee activity file for activity proximity scoring (default: data/committee-activity.json if present)")
+  .option("--profile <name|file>", "Scoring profile: a name in profiles/ or a YAML/JSON file (default: built-in weights)")
   .option("--render-only", "Re-render HTML from the last saved analysis without re-fetching or re-analyzing")
   .option("--rebuild-index", "Rebuild index.html from the manifest (prunes deleted reports) without generating a new report")
   .option("--publish", "Sync output/web to S3 and invalidate CloudFront after generating")
   .option("--bucket <name>", "S3 bucket name (or set S3_BUCKET env var)")
   .option("--region <region>", "AWS region (default: us-east-1 or AWS_REGION env var)")
   .option("--prefix <prefix>", "S3 key prefix (optional)")
+  .option("--site-url <url>", "Public site URL for absolute feed links (or set SITE_URL env var)")
   .action(async (options) => {
     try {
       const webDir = path.resolve(process.cwd(), options.out as string);
+      const siteUrl = (options.siteUrl as string | undefined) ?? process.env.SITE_URL;
       await fs.mkdir(webDir, { recursive: true });
 
       // ── Rebuild-index-only shortcut ──────────────────────────────────────
@@ -85,6 +122,7 @@ export const reportHtmlCommand = new Command("report:html")
         const manifest = await rebuildManifest(webDir);
         const indexHtml = buildIndexPage(manifest);
         await fs.writeFile(path.join(webDir, "index.html"), indexHtml, "utf-8");
+        await writeFeeds(webDir, new Map([["reports", reportFeedChannel(manifest)]]), siteUrl);
         console.log(`✅ index.html rebuilt (${manifest.length} report${manifest.length !== 1 ? "s" : ""})`);
         if (options.publish) {
           await publishOutput({ localDir: webDir, bucket: options.bucket, region: options.region, prefix: options.prefix });
@@ -102,15 +140,12 @@ export const reportHtmlCommand = new Command("report:html")
         ? buildPartyMap(committeeData.legislators)
         : null;
 
-      function resolveParty(trade: FMPTrade): string | undefined {
-        if (!partyMap || !committeeData || !trade.firstName || !trade.lastName) return undefined;
-        const id = findMemberByName(
-          trade.firstName,
-          trade.lastName,
-          committeeData.membership,
-          committeeData.legislators
-        );
-        return id ? getMemberParty(id, partyMap) ?? undefined : undefined;
+      const resolver = await loadMemberResolver(committeeData);
+
+      function toMemberTrade({ trade, chamber }: { trade: FMPTrade; chamber: "senate" | "house" }): MemberTrade {
+        const bioguideId = resolver.resolve(trade, chamber) ?? undefined;
+        const party = bioguideId && partyMap ? getMemberParty(bioguideId, partyMap) : undefined;
+        return { trade, party, bioguideId, chamber };
       }
 
       let report: AnalysisReport;
@@ -158,33 +193,38 @@ export const reportHtmlCommand = new Command("report:html")
           console.log("Market data: cache-only (no API calls — using --no-fetch-trades)");
         }
 
+        const activityProvider = await createCommitteeActivityProvider(options.committeeActivity);
+        if (activityProvider) {
+          console.log(`Committee activity: ${activityProvider.getName()}`);
+        }
+
+        const config = await resolveProfileOption(options.profile);
+        console.log(`Scoring profile: ${config.profile?.name} (${config.profile?.hash})`);
+
         console.log("\nRunning analysis...");
         report = await analyzeTrades(
           tradeData.senateTrades,
           tradeData.houseTrades,
           committeeData,
-          marketDataProvider
+          marketDataProvider,
+          config,
+          activityProvider,
+          await createPriceHistoryProvider()
         );
       }
 
-      // ── Load trade data for sales section ───────────────────────────────
-      const tradeData = await loadTrades();
-      const allTrades = tradeData
-        ? [...tradeData.senateTrades, ...tradeData.houseTrades]
-        : [];
-
-      const salesTrades = allTrades
-        .filter((t) => (t.type || "").toLowerCase().includes("sale"))
-        .sort((a, b) => (b.transactionDate ?? "").localeCompare(a.transactionDate ?? ""))
-        .map((trade) => ({ trade, party: resolveParty(trade) }));
-
-      const purchaseTrades = allTrades
-        .filter((t) => {
-          const type = (t.type || "").toLowerCase();
-          return type.includes("purchase") || type.includes("exchange");
-        })
-        .sort((a, b) => (b.transactionDate ?? "").localeCompare(a.transactionDate ?? ""))
-        .map((trade) => ({ trade, party: resolveParty(trade) }));
+      // ── Load trade data for sales/purchases sections ────────────────────
+      const [storedSales, storedPurchases, storedExchanges] = await Promise.all([
+        queryTrades({ type: "sale", order: "desc" }),
+        queryTrades({ type: "purchase", order: "desc" }),
+        queryTrades({ type: "exchange", order: "desc" }),
+      ]);
+
+      const salesTrades = (storedSales ?? []).map(toMemberTrade);
+
+      const purchaseTrades = [...(storedPurchases ?? []), ...(storedExchanges ?? [])]
+        .sort((a, b) => (b.trade.transactionDate ?? "").localeCompare(a.trade.transactionDate ?? ""))
+        .map(toMemberTrade);
 
       // ── Build exchange map for TradingView links ─────────────────────────
       const exchangeMap = await loadExchangeMap();
@@ -210,31 +250,94 @@ export const reportHtmlCommand = new Command("report:html")
       const allPartyTrades = [...purchaseTrades, ...salesTrades]
         .sort((a, b) => (b.trade.transactionDate ?? "").localeCompare(a.trade.transactionDate ?? ""));
 
+      const tradesBySymbol = new Map<string, MemberTrade[]>();
+      for (const item of allPartyTrades) {
+        if (!item.trade.symbol) continue;
+        if (!tradesBySymbol.has(item.trade.symbol)) tradesBySymbol.set(item.trade.symbol, []);
+        tradesBySymbol.get(item.trade.symbol)!.push(item);
+      }
+
+      // Symbol pages live in a shared symbols/ directory beside the date dirs,
+      // so each ticker keeps one URL that later reports overwrite
+      const symbolsDir = path.join(webDir, "symbols");
+      await fs.mkdir(symbolsDir, { recursive: true });
+      const symbolPageUrls = new Map(
+        [...tradesBySymbol.keys()].map((symbol) => [symbol, `../symbols/${symbolPageFile(symbol)}`])
+      );
+
       // ── Member pages (built first so we know which files exist) ─────────
-      type MemberKey = string;
-      const memberMap = new Map<MemberKey, {
+      // One page per bioguide ID, so filing-name variants share a page
+      const memberMap = new Map<string, {
         name: string; chamber: string; party: string | undefined;
-        trades: Array<{ trade: FMPTrade; party: string | undefined }>;
+        trades: MemberTrade[];
       }>();
 
       for (const item of allPartyTrades) {
         const { trade } = item;
         if (!trade.firstName && !trade.lastName) continue;
-        const name = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
-        const key = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
-        if (!memberMap.has(key)) {
+        const filingName = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+        const memberFile = memberPageFile(filingName, item.bioguideId);
+        if (!memberMap.has(memberFile)) {
+          const legislator = item.bioguideId ? resolver.getLegislator(item.bioguideId) : undefined;
+          const name = legislator?.name.official_full ?? filingName;
           const chamber = report.scoredTrades.find(
-            (t) => `${t.trade.firstName ?? ""} ${t.trade.lastName ?? ""}`.trim() === name
+            (t) => `${t.trade.firstName ?? ""} ${t.trade.lastName ?? ""}`.trim() === filingName
           )?.chamber === "senate" ? "Sen." : "Rep.";
-          memberMap.set(key, { name, chamber, party: item.party, trades: [] });
+          memberMap.set(memberFile, { name, chamber, party: item.party, trades: [] });
+        }
+        memberMap.get(memberFile)!.trades.push(item);
+      }
+
+      const { topPurchases, committeeRelevant } = selectReportCards(report);
+      const cardTradeFiles = new Set([...topPurchases, ...committeeRelevant].map((t) => tradePageFile(t.trade)));
+
+      // ── Feeds of new high-score trades, per member and per party ────────
+      const feedUpdates = new Map<string, FeedChannel>();
+      function addFeedItem(name: string, title: string, pagePath: string, item: FeedChannel["items"][number]) {
+        if (!feedUpdates.has(name)) {
+          feedUpdates.set(name, { title, description: `Trades scoring ${FEED_MIN_SCORE}+`, path: pagePath, items: [] });
         }
-        memberMap.get(key)!.trades.push(item);
+        feedUpdates.get(name)!.items.push(item);
+      }
+      for (const analyzed of report.scoredTrades) {
+        if (analyzed.score.overallScore < FEED_MIN_SCORE) continue;
+        const filingName = `${analyzed.trade.firstName ?? ""} ${analyzed.trade.lastName ?? ""}`.trim();
+        const memberFile = memberPageFile(filingName, analyzed.trader.bioguideId);
+        const tradeFile = tradePageFile(analyzed.trade);
+        const item = tradeFeedItem(
+          analyzed,
+          `${dateStr}/${cardTradeFiles.has(tradeFile) ? tradeFile : memberMap.has(memberFile) ? memberFile : reportFile}`,
+          report.generatedAt
+        );
+        const member = memberMap.get(memberFile);
+        addFeedItem(pageFeedName(memberFile), `${member ? `${member.chamber} ${member.name}` : filingName} — Congress Trades`, `${dateStr}/${memberFile}`, item);
+        const partyFeed = partyFeedName(analyzed.trader.party);
+        if (partyFeed) {
+          const partyName = partyFeed.replace("party-", "");
+          addFeedItem(partyFeed, `${partyName.charAt(0).toUpperCase()}${partyName.slice(1)} Trades — Congress Trades`, `${dateStr}/${partyFeed}.html`, item);
+        }
+      }
+      const feeds = await upsertFeedItems(webDir, feedUpdates);
+      const pageFeedUrls = (name: string) => {
+        if (!feeds.has(name)) return undefined;
+        const files = feedFiles(name);
+        return { atom: `../${files.atom}`, json: `../${files.json}` };
+      };
+
+      // ── Estimated holdings, replayed from every recorded trade ──────────
+      const holdingsEngine = new HoldingsEngine(
+        allPartyTrades.flatMap(({ trade, chamber, bioguideId }) => (chamber ? [{ trade, chamber, bioguideId }] : []))
+      );
+      const holdingsByMember = new Map<string, Holding[]>();
+      for (const holding of holdingsEngine.getHoldings()) {
+        const memberFile = memberPageFile(holding.member, holding.bioguideId);
+        if (!holdingsByMember.has(memberFile)) holdingsByMember.set(memberFile, []);
+        holdingsByMember.get(memberFile)!.push(holding);
       }
 
       const memberPageFiles = new Set<string>();
       let memberCount = 0;
-      for (const [key, member] of memberMap) {
-        const memberFile = `member-${key}.html`;
+      for (const [memberFile, member] of memberMap) {
         memberPageFiles.add(memberFile);
         const memberHtml = buildMemberPage({
           memberName: member.name,
@@ -247,12 +350,76 @@ export const reportHtmlCommand = new Command("report:html")
           reportUrl: reportFile,
           indexUrl: "../index.html",
           exchangeMap,
+          symbolPageUrls,
+          feedUrls: pageFeedUrls(pageFeedName(memberFile)),
+          holdings: holdingsByMember.get(memberFile),
         });
         await fs.writeFile(path.join(dateDir, memberFile), memberHtml, "utf-8");
         memberCount++;
       }
       console.log(`   Members → ${memberCount} pages generated`);
 
+      // ── Symbol pages (every congressional trade in each ticker) ─────────
+      const patternAnalyzer = createPatternAnalyzer(
+        [...(storedSales ?? []), ...(storedPurchases ?? []), ...(storedExchanges ?? [])],
+        committeeData,
+        report.config,
+        resolver
+      );
+      const memberCommittees = new Map<string, string[]>();
+      for (const { bioguideId } of allPartyTrades) {
+        if (bioguideId && committeeData && !memberCommittees.has(bioguideId)) {
+          memberCommittees.set(bioguideId, getMemberCommittees(bioguideId, committeeData.membership));
+        }
+      }
+
+      for (const [symbol, trades] of tradesBySymbol) {
+        const symbolHtml = buildSymbolPage({
+          symbol,
+          trades,
+          pattern: patternAnalyzer.getPattern(symbol),
+          memberCommittees,
+          dateLabel: label,
+          reportUrl: `../${reportRelPath}`,
+          indexUrl: "../index.html",
+          exchangeMap,
+          memberPageFiles,
+          memberPageBase: `../${dateStr}/`,
+        });
+        await fs.writeFile(path.join(symbolsDir, symbolPageFile(symbol)), symbolHtml, "utf-8");
+      }
+      console.log(`   Symbols → ${tradesBySymbol.size} pages generated`);
+
+      // ── Trade pages (one per card, with the full score breakdown) ───────
+      const tradePageFiles = new Set<string>();
+      for (const analyzed of [...topPurchases, ...committeeRelevant]) {
+        const tradeFile = tradePageFile(analyzed.trade);
+        if (tradePageFiles.has(tradeFile)) continue;
+        tradePageFiles.add(tradeFile);
+
+        const filingName = `${analyzed.trade.firstName ?? ""} ${analyzed.trade.lastName ?? ""}`.trim();
+        const memberFile = memberPageFile(filingName, analyzed.trader.bioguideId);
+        const tradeKey = getTradeKey(analyzed.trade);
+        const symbolTrades = (analyzed.trade.symbol ? tradesBySymbol.get(analyzed.trade.symbol) : undefined) ?? [];
+        const isMember = (t: MemberTrade) =>
+          memberPageFile(`${t.trade.firstName ?? ""} ${t.trade.lastName ?? ""}`.trim(), t.bioguideId) === memberFile;
+
+        const tradeHtml = buildTradePage({
+          analyzed,
+          config: report.config,
+          memberTrades: symbolTrades.filter((t) => isMember(t) && getTradeKey(t.trade) !== tradeKey),
+          otherTrades: symbolTrades.filter((t) => !isMember(t)),
+          dateLabel: label,
+          reportUrl: reportFile,
+          indexUrl: "../index.html",
+          exchangeMap,
+          memberPageFiles,
+          symbolPageUrls,
+        });
+        await fs.writeFile(path.join(dateDir, tradeFile), tradeHtml, "utf-8");
+      }
+      console.log(`   Trades → ${tradePageFiles.size} pages generated`);
+
       // ── Party pages ──────────────────────────────────────────────────────
       const partyGroups: Array<{ key: string; label: string; file: string }> = [
         { key: "r", label: "Republican", file: "party-republican.html" },
@@ -277,6 +444,8 @@ export const reportHtmlCommand = new Command("report:html")
           indexUrl: "../index.html",
           exchangeMap,
           memberPageFiles,
+          symbolPageUrls,
+          feedUrls: pageFeedUrls(pageFeedName(pg.file)),
         });
         await fs.writeFile(path.join(dateDir, pg.file), partyHtml, "utf-8");
         console.log(`   ${pg.label} → ${pg.file} (${filtered.length} trades)`);
@@ -295,6 +464,8 @@ export const reportHtmlCommand = new Command("report:html")
         exchangeMap,
         partyPageUrls,
         memberPageFiles,
+        tradePageFiles,
+        symbolPageUrls,
       });
 
       await fs.writeFile(path.join(dateDir, reportFile), html, "utf-8");
@@ -307,12 +478,21 @@ export const reportHtmlCommand = new Command("report:html")
         file: reportRelPath,
         totalTrades: report.totalTradesAnalyzed,
         topSymbols,
+        reportGeneratedAt: report.generatedAt,
       });
 
       const indexHtml = buildIndexPage(manifest);
       await fs.writeFile(path.join(webDir, "index.html"), indexHtml, "utf-8");
       console.log(`   Index → ${path.join(webDir, "index.html")} (${manifest.length} report${manifest.length !== 1 ? "s" : ""})`);
 
+      // ── Feeds ────────────────────────────────────────────────────────────
+      feeds.set("reports", reportFeedChannel(manifest));
+      const feedCount = await writeFeeds(webDir, feeds, siteUrl);
+      console.log(`   Feeds → ${feedCount} Atom + JSON Feed pairs in ${path.join(webDir, "feeds")}`);
+      if (!siteUrl) {
+        console.log("   (feed links are relative — pass --site-url or set SITE_URL for absolute links)");
+      }
+
       // ── Publish to S3 ────────────────────────────────────────────────────
       if (options.publish) {
         console.log("\n🚀 Publishing to S3...");
@@ -0,0 +1,149 @@
+import { Command } from "commander";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AnalysisReport } from "../services/analysis-service.js";
+import {
+  computeTradePerformance,
+  buildPerformanceReport,
+  PERFORMANCE_HORIZONS,
+  DEFAULT_BENCHMARK,
+} from "../services/performance-service.js";
+import type { GroupPerformance } from "../services/performance-service.js";
+import { createPriceHistoryProvider } from "../data/price-history-provider.js";
+import { getLatestReport, loadData, saveReport } from "../utils/storage.js";
+
+function formatPct(value: number): string {
+  const pct = (value * 100).toFixed(1);
+  return value >= 0 ? `+${pct}%` : `${pct}%`;
+}
+
+function formatGroupRow(group: GroupPerformance, labelWidth: number): string {
+  return (
+    `  ${group.label.padEnd(labelWidth)} ` +
+    `${String(group.trades).padStart(6)} ` +
+    `${formatPct(group.avgReturn).padStart(10)} ` +
+    `${formatPct(group.avgExcessReturn).padStart(10)} ` +
+    `${(group.hitRate * 100).toFixed(0).padStart(7)}%`
+  );
+}
+
+export const reportPerformanceCommand = new Command("report:performance")
+  .description("Rank members and score buckets by realized excess return after their trades")
+  .option(
+    "--prices-dir <dir>",
+    "Directory of per-symbol price files (SYMBOL.csv or SYMBOL.json, default: data/prices)"
+  )
+  .option(
+    "--benchmark <symbol>",
+    `Benchmark ticker for excess return (default: ${DEFAULT_BENCHMARK})`,
+    DEFAULT_BENCHMARK
+  )
+  .option(
+    "--horizon <days>",
+    `Forward return horizon used for ranking: ${PERFORMANCE_HORIZONS.join(", ")}`,
+    "90"
+  )
+  .option(
+    "--min-trades <number>",
+    "Minimum realized trades for a member to be ranked",
+    "3"
+  )
+  .option(
+    "--top <number>",
+    "Show top N members",
+    "20"
+  )
+  .option("--json", "Output raw JSON")
+  .action(async (options) => {
+    try {
+      const horizonDays = parseInt(options.horizon, 10);
+      if (!PERFORMANCE_HORIZONS.includes(horizonDays)) {
+        console.error(`❌ Invalid horizon: ${options.horizon}. Use one of ${PERFORMANCE_HORIZONS.join(", ")}.`);
+        process.exit(1);
+      }
+
+      // Load the last saved analysis
+      const filename = await getLatestReport("unique-trades");
+      const stored = filename ? await loadData<AnalysisReport>(filename, "reports") : null;
+      if (!stored?.data) {
+        console.error("❌ No saved analysis found. Run 'analyze' first.");
+        process.exit(1);
+      }
+      const analysis = stored.data;
+
+      const priceProvider = await createPriceHistoryProvider(options.pricesDir);
+      const benchmark = (options.benchmark as string).toUpperCase();
+
+      console.log(`📈 Measuring ${analysis.scoredTrades.length} trades from ${filename}`);
+      console.log(`   Prices: ${priceProvider.getName()} | Benchmark: ${benchmark}\n`);
+
+      const performances = await computeTradePerformance(analysis.scoredTrades, priceProvider, benchmark);
+      const report = buildPerformanceReport(
+        performances,
+        benchmark,
+        horizonDays,
+        parseInt(options.minTrades, 10)
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const topN = parseInt(options.top, 10);
+      const members = topN > 0 ? report.byMember.slice(0, topN) : report.byMember;
+      const labelWidth = Math.max(12, ...members.map((m) => m.label.length));
+      const header =
+        `  ${"".padEnd(labelWidth)} ${"Trades".padStart(6)} ${"Return".padStart(10)} ` +
+        `${"Excess".padStart(10)} ${"Hit rate".padStart(8)}`;
+
+      const lines: string[] = [];
+      lines.push("");
+      lines.push("=".repeat(70));
+      lines.push(`TRADE PERFORMANCE REPORT (${horizonDays}-day, vs ${benchmark})`);
+      lines.push("=".repeat(70));
+      lines.push(`Generated: ${report.generatedAt}`);
+      lines.push(`Trades with prices: ${performances.length}`);
+      lines.push(`Trades realized at ${horizonDays} days: ${report.tradesMeasured}`);
+      lines.push("Excess return is signed by trade direction (sales gain when the stock lags the benchmark)");
+
+      lines.push(`\n🏛️  MEMBERS BY EXCESS RETURN (min ${options.minTrades} trades):\n`);
+      if (members.length === 0) {
+        lines.push("  No members with enough realized trades.");
+      } else {
+        lines.push(header);
+        for (const member of members) {
+          lines.push(formatGroupRow(member, labelWidth));
+        }
+      }
+
+      lines.push(`\n🎯 SCORE BUCKETS BY EXCESS RETURN:\n`);
+      if (report.byScoreBucket.length === 0) {
+        lines.push("  No realized trades.");
+      } else {
+        lines.push(header);
+        for (const bucket of report.byScoreBucket) {
+          lines.push(formatGroupRow(bucket, labelWidth));
+        }
+      }
+
+      lines.push("\n" + "=".repeat(70));
+
+      const output = lines.join("\n");
+      console.log(output);
+
+      // Save JSON report and formatted output
+      const reportPath = await saveReport("performance", report);
+      console.log(`\nReport saved to ${reportPath}`);
+
+      const reportsDir = path.join(process.cwd(), "formatted-reports");
+      await fs.mkdir(reportsDir, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+      const outFile = `performance-${horizonDays}d-${timestamp}.txt`;
+      await fs.writeFile(path.join(reportsDir, outFile), output);
+      console.log(`📁 Saved to formatted-reports/${outFile}`);
+    } catch (error) {
+      console.error("❌ Performance report failed:", error);
+      process.exit(1);
+    }
+  });
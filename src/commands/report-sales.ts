@@ -1,59 +1,39 @@
 import { Command } from "commander";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { loadTrades } from "../services/trade-service.js";
+import { queryTrades } from "../services/trade-service.js";
+import type { FMPTrade } from "../types/index.js";
 import {
   loadCommitteeData,
-  findMemberByName,
+  loadMemberResolver,
 } from "../services/committee-service.js";
-import type { FMPTrade } from "../types/index.js";
 
 export const reportSalesCommand = new Command("report:sales")
   .description("Generate a formatted report of all sales")
   .action(async () => {
     try {
-      const [tradeData, committeeData] = await Promise.all([
-        loadTrades(),
+      const [storedSales, committeeData] = await Promise.all([
+        queryTrades({ type: "sale", order: "desc" }),
         loadCommitteeData(),
       ]);
 
-      if (!tradeData) {
+      if (!storedSales) {
         console.error("❌ No trade data found. Run 'fetch:trades' first.");
         process.exit(1);
       }
 
-      // Combine all trades
-      const allTrades: { trade: FMPTrade; chamber: "Senate" | "House" }[] = [
-        ...tradeData.senateTrades.map((t) => ({ trade: t, chamber: "Senate" as const })),
-        ...tradeData.houseTrades.map((t) => ({ trade: t, chamber: "House" as const })),
-      ];
-
-      // Filter for sales only
-      const sales = allTrades.filter(({ trade }) => {
-        const type = (trade.type || "").toLowerCase();
-        return type.includes("sale");
-      });
-
-      // Sort by date descending
-      sales.sort((a, b) => {
-        const dateA = a.trade.transactionDate || "";
-        const dateB = b.trade.transactionDate || "";
-        return dateB.localeCompare(dateA);
-      });
+      // Sales only, newest first (filtered and sorted by the trade store)
+      const sales = storedSales.map(({ trade, chamber }) => ({
+        trade,
+        chamber: chamber === "senate" ? "Senate" as const : "House" as const,
+      }));
 
       // Get party affiliation helper
-      const getParty = (firstName: string, lastName: string): string => {
-        if (!committeeData) return "";
-        const bioguideId = findMemberByName(
-          firstName,
-          lastName,
-          committeeData.membership,
-          committeeData.legislators
-        );
+      const resolver = await loadMemberResolver(committeeData);
+      const getParty = (trade: FMPTrade, chamber: "senate" | "house"): string => {
+        const bioguideId = resolver.resolve(trade, chamber);
         if (!bioguideId) return "";
-        const legislator = committeeData.legislators?.find(
-          (l) => l.id.bioguide === bioguideId
-        );
+        const legislator = resolver.getLegislator(bioguideId);
         if (!legislator) return "";
         const party = legislator.terms?.[legislator.terms.length - 1]?.party;
         if (party === "Republican") return "R";
@@ -87,7 +67,7 @@ export const reportSalesCommand = new Command("report:sales")
         }
 
         const name = `${trade.firstName || ""} ${trade.lastName || ""}`.trim();
-        const party = getParty(trade.firstName || "", trade.lastName || "");
+        const party = getParty(trade, chamber === "Senate" ? "senate" : "house");
         const partyLabel = party ? ` (${party})` : "";
         const chamberLabel = chamber === "Senate" ? "Sen" : "Rep";
 
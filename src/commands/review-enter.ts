@@ -0,0 +1,120 @@
+import { Command } from "commander";
+import * as readline from "node:readline";
+import { openTradeStore, type QueuedPaperFiling } from "../data/trade-store.js";
+import {
+  AMOUNT_RANGES,
+  OWNERS,
+  TRANSACTION_TYPES,
+  loadManualTransactions,
+  parseManualTransaction,
+} from "../services/review-service.js";
+import type { FMPTrade } from "../types/index.js";
+
+/** Pick a value by its number in the list or by typing it out */
+function choose(answer: string, choices: readonly string[], fallback?: string): string | undefined {
+  if (!answer) return fallback;
+  const index = parseInt(answer, 10);
+  if (String(index) === answer && index >= 1 && index <= choices.length) return choices[index - 1];
+  return choices.find((c) => c.toLowerCase() === answer.toLowerCase()) ?? answer;
+}
+
+const numbered = (choices: readonly string[]) => choices.map((c, i) => `${i + 1}) ${c}`).join("  ");
+
+/**
+ * Prompt for the filing's transactions one at a time until a blank date (or
+ * end of input) is entered. Reads stdin line by line so piped answers work too.
+ */
+async function promptTransactions(filing: QueuedPaperFiling): Promise<FMPTrade[]> {
+  const rl = readline.createInterface({ input: process.stdin });
+  const lines = rl[Symbol.asyncIterator]();
+  const ask = async (prompt: string): Promise<string> => {
+    process.stdout.write(prompt);
+    const line = await lines.next();
+    return line.done ? "" : line.value.trim();
+  };
+
+  const trades: FMPTrade[] = [];
+  try {
+    console.log(`\nOpen ${filing.link} and enter each transaction (blank date to finish).`);
+    for (;;) {
+      console.log(`\nTransaction ${trades.length + 1}`);
+      const transactionDate = await ask("  Date (YYYY-MM-DD or MM/DD/YYYY): ");
+      if (!transactionDate) break;
+
+      const owner = choose(await ask(`  Owner ${numbered(OWNERS)} [1]: `), OWNERS, OWNERS[0]);
+      const symbol = (await ask("  Ticker (blank if none): ")) || undefined;
+      const assetDescription = await ask("  Asset name: ");
+      const assetType = (await ask("  Asset type [Stock]: ")) || undefined;
+      const type = choose(await ask(`  Type ${numbered(TRANSACTION_TYPES)}: `), TRANSACTION_TYPES);
+      console.log(`  ${AMOUNT_RANGES.map((a, i) => `${i + 1}) ${a}`).join("\n  ")}`);
+      const amount = choose(await ask("  Amount: "), AMOUNT_RANGES);
+      const comment = (await ask("  Comment (optional): ")) || undefined;
+
+      const parsed = parseManualTransaction({ transactionDate, owner, symbol, assetDescription, assetType, type, amount, comment });
+      if (!parsed.trade) {
+        console.log(`  ⚠️  Not added:\n${parsed.issues}`);
+        continue;
+      }
+      const t = parsed.trade;
+      trades.push(t);
+      console.log(`  ✅ ${t.transactionDate} ${t.symbol || t.assetDescription} ${t.type} ${t.amount} (${t.owner})`);
+    }
+  } finally {
+    rl.close();
+  }
+  return trades;
+}
+
+export const reviewEnterCommand = new Command("review:enter")
+  .description("Enter the transactions of a queued paper filing by hand")
+  .argument("<id>", "Review queue ID (see review:list)")
+  .option("--file <path>", "Read the transactions from a JSON array instead of prompting")
+  .option("--skip", "Mark the filing reviewed without entering transactions (e.g. an empty or duplicate filing)")
+  .action(async (idArg: string, options) => {
+    try {
+      const id = parseInt(idArg, 10);
+      if (isNaN(id) || String(id) !== idArg) {
+        console.error(`❌ Invalid review queue ID: ${idArg}. Run 'review:list' to see queued filings.`);
+        process.exit(1);
+      }
+
+      const store = await openTradeStore();
+      try {
+        const filing = store.getPaperFiling(id);
+        if (!filing) {
+          console.error(`❌ No paper filing #${id} in the review queue. Run 'review:list' to see queued filings.`);
+          process.exit(1);
+        }
+
+        const member = `${filing.chamber === "senate" ? "Sen." : "Rep."} ${filing.firstName} ${filing.lastName}`;
+        console.log(`\n📄 #${filing.id} ${member}${filing.filedDate ? ` — filed ${filing.filedDate}` : ""}`);
+        if (filing.status !== "pending") {
+          console.log(`   Already ${filing.status}${filing.reviewedAt ? ` on ${filing.reviewedAt.slice(0, 10)}` : ""}; new transactions are added to it.`);
+        }
+
+        if (options.skip) {
+          store.skipPaperFiling(id);
+          console.log("   Marked skipped.");
+          return;
+        }
+
+        const trades = options.file ? await loadManualTransactions(options.file) : await promptTransactions(filing);
+        if (trades.length === 0) {
+          console.log("\nNo transactions entered; the filing stays in the queue.");
+          return;
+        }
+
+        const added = store.enterPaperFilingTrades(id, trades);
+        const duplicates = trades.length - added.length;
+        console.log(
+          `\n💾 Stored ${added.length} manual transaction(s) for ${member}` +
+          (duplicates > 0 ? ` (${duplicates} already stored)` : "")
+        );
+      } finally {
+        store.close();
+      }
+    } catch (error) {
+      console.error("❌ Error entering paper filing:", error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,44 @@
+import { Command } from "commander";
+import { openTradeStore } from "../data/trade-store.js";
+
+export const reviewListCommand = new Command("review:list")
+  .description("List paper filings queued for manual transaction entry")
+  .option("--all", "Include filings already entered or skipped")
+  .option("--json", "Output the queue as JSON")
+  .action(async (options) => {
+    try {
+      const store = await openTradeStore();
+      const filings = store.listPaperFilings(options.all ? undefined : "pending");
+      store.close();
+
+      if (options.json) {
+        console.log(JSON.stringify(filings, null, 2));
+        return;
+      }
+
+      if (filings.length === 0) {
+        console.log(options.all ? "\n📄 The review queue is empty." : "\n📄 No paper filings awaiting manual entry.");
+        return;
+      }
+
+      const label = options.all ? "queued" : "awaiting manual entry";
+      console.log(`\n📄 ${filings.length} paper filings ${label}:\n`);
+      for (const f of filings) {
+        const chamber = f.chamber === "senate" ? "Sen." : "Rep.";
+        const filed = f.filedDate ? ` — filed ${f.filedDate}` : "";
+        const status = options.all
+          ? ` [${f.status}${f.status === "entered" ? `, ${f.transactionsEntered} transactions` : ""}]`
+          : "";
+        console.log(`  #${f.id} ${chamber} ${f.firstName} ${f.lastName}${filed}${status}`);
+        console.log(`      ${f.reason}`);
+        console.log(`      ${f.link}`);
+      }
+
+      if (!options.all) {
+        console.log(`\nEnter a filing's transactions with 'review:enter <id>' (or --file <path>, or --skip if it has none).`);
+      }
+    } catch (error) {
+      console.error("❌ Error listing review queue:", error);
+      process.exit(1);
+    }
+  });
@@ -7,6 +7,8 @@ import { FMPTradeSource } from "../services/fmp-trade-source.js";
 import { createGovernmentProvider } from "../data/government-provider.js";
 import { FMPMarketDataProvider } from "../data/fmp-provider.js";
 import { createEdgarProvider } from "../data/edgar-provider.js";
+import { createCommitteeActivityProvider } from "../data/committee-activity-provider.js";
+import { createPriceHistoryProvider } from "../data/price-history-provider.js";
 
 function createTradeProvider() {
   if (process.env.DATA_SOURCE === "fmp") {
@@ -24,7 +26,7 @@ function createMarketDataProvider(ttlMs: number) {
   return createEdgarProvider();
 }
 import { getDataAge, formatDuration } from "../utils/storage.js";
-import { DEFAULT_SCORING_CONFIG } from "../scoring/types.js";
+import { resolveProfileOption } from "../services/profile-service.js";
 
 export const runCommand = new Command("run")
   .description("Run the full pipeline: fetch data and analyze trades")
@@ -45,6 +47,10 @@ export const runCommand = new Command("run")
     "Minimum uniqueness score to show",
     "40"
   )
+  .option(
+    "--profile <name|file>",
+    "Scoring profile: a name in profiles/ or a YAML/JSON file (default: built-in weights)"
+  )
   .option(
     "--top <number>",
     "Show top N results",
@@ -59,6 +65,10 @@ export const runCommand = new Command("run")
     "Market data cache TTL in days (default: 30)",
     "30"
   )
+  .option(
+    "--committee-activity <file>",
+    "Committee activity file for activity proximity scoring (default: data/committee-activity.json if present)"
+  )
   .option("--json", "Output raw JSON")
   .action(async (options) => {
     try {
@@ -125,12 +135,22 @@ export const runCommand = new Command("run")
         console.log("   Market data fetching disabled\n");
       }
 
+      const activityProvider = await createCommitteeActivityProvider(options.committeeActivity);
+      if (activityProvider) {
+        console.log(`   Committee activity: ${activityProvider.getName()}\n`);
+      }
+
+      const config = await resolveProfileOption(options.profile);
+      console.log(`   Scoring profile: ${config.profile?.name} (${config.profile?.hash})\n`);
+
       const report = await analyzeTrades(
         tradeData.senateTrades,
         tradeData.houseTrades,
         committeeData,
         marketDataProvider,
-        DEFAULT_SCORING_CONFIG
+        config,
+        activityProvider,
+        await createPriceHistoryProvider()
       );
 
       if (options.json) {
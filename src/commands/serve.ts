@@ -0,0 +1,42 @@
+import { Command } from "commander";
+import { openTradeStore } from "../data/trade-store.js";
+import { loadCommitteeData, loadMemberResolver } from "../services/committee-service.js";
+import { createApiSources, startApiServer } from "../services/api-service.js";
+
+export const serveCommand = new Command("serve")
+  .description("Start a local JSON API over stored trades, members and the latest analysis")
+  .option("-p, --port <number>", "Port to listen on", "3000")
+  .option("--host <host>", "Interface to bind", "127.0.0.1")
+  .option("--cors <origin>", "Allow cross-origin requests from this origin (e.g. http://localhost:5173 or *)")
+  .action(async (options) => {
+    try {
+      const port = parseInt(options.port, 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        console.error(`❌ Invalid port: ${options.port}`);
+        process.exit(1);
+      }
+
+      const store = await openTradeStore();
+      const committeeData = await loadCommitteeData();
+      if (!committeeData) {
+        console.warn("⚠️  No committee data found. /members and /committees routes will be unavailable.");
+        console.warn("   Run 'fetch:committees' to enable them.\n");
+      }
+
+      const server = await startApiServer(createApiSources(store, committeeData, await loadMemberResolver(committeeData)), port, options.host, options.cors);
+      const address = server.address();
+      const boundPort = typeof address === "object" && address ? address.port : port;
+      console.log(`🌐 API listening on http://${options.host}:${boundPort}`);
+      console.log("   Routes: /trades, /members/:bioguide, /scores/top, /committees/:id/trades");
+      console.log("   Press Ctrl+C to stop.");
+
+      process.once("SIGINT", () => {
+        server.close();
+        store.close();
+        process.exit(0);
+      });
+    } catch (error) {
+      console.error("❌ Error starting server:", error);
+      process.exit(1);
+    }
+  });
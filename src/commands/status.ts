@@ -1,5 +1,6 @@
 import { Command } from "commander";
 import { getDataAge, formatDuration, listReports } from "../utils/storage.js";
+import { openTradeStore } from "../data/trade-store.js";
 
 export const statusCommand = new Command("status")
   .description("Show status of cached data and reports")
@@ -20,11 +21,24 @@ export const statusCommand = new Command("status")
     console.log("");
 
     // Check trade data
-    const tradeAge = await getDataAge("trades.json");
-    if (tradeAge.exists) {
-      console.log("✅ Trade Data:");
-      console.log(`   Last fetched: ${tradeAge.fetchedAt}`);
-      console.log(`   Age: ${formatDuration(tradeAge.ageMs || 0)}`);
+    const store = await openTradeStore();
+    const tradeStats = store.getStats();
+    store.close();
+    if (tradeStats.transactions > 0) {
+      console.log("✅ Trade Data (trades.db):");
+      console.log(`   ${tradeStats.senateTransactions} Senate, ${tradeStats.houseTransactions} House transactions`);
+      console.log(`   ${tradeStats.filings} filings (${tradeStats.amendments} amended), ${tradeStats.members} members, ${tradeStats.marketSnapshots} market data snapshots`);
+      if (tradeStats.manualTransactions > 0) {
+        console.log(`   ${tradeStats.manualTransactions} transactions entered by hand from paper filings`);
+      }
+      if (tradeStats.pendingPaperFilings > 0) {
+        console.log(`   ${tradeStats.pendingPaperFilings} paper filings awaiting manual entry (run 'review:list')`);
+      }
+      if (tradeStats.lastUpdatedAt) {
+        const ageMs = Date.now() - new Date(tradeStats.lastUpdatedAt).getTime();
+        console.log(`   Last updated: ${tradeStats.lastUpdatedAt}`);
+        console.log(`   Age: ${formatDuration(ageMs)}`);
+      }
     } else {
       console.log("❌ Trade Data: Not fetched");
       console.log("   Run 'fetch:trades' to fetch");
@@ -0,0 +1,93 @@
+import { Command } from "commander";
+import { openTradeStore } from "../data/trade-store.js";
+import { createEdgarProvider } from "../data/edgar-provider.js";
+import type { SymbolResolution } from "../data/symbol-resolver.js";
+import { loadCompanyTickers, loadSymbolResolver, SYMBOL_CORRECTIONS_FILE } from "../services/symbol-service.js";
+import { DEFAULT_SCORING_CONFIG } from "../scoring/types.js";
+import { saveReport } from "../utils/storage.js";
+
+export const symbolsResolveCommand = new Command("symbols:resolve")
+  .description("Resolve tickers for stored trades filed without one and list the descriptions that don't match")
+  .option("--fetch", "Refresh EDGAR company names before resolving")
+  .option(
+    "--min-confidence <n>",
+    "Leave matches below this confidence unresolved and list them for review (0-1)",
+    String(DEFAULT_SCORING_CONFIG.symbolResolution.minConfidence)
+  )
+  .option("--json", "Output resolutions and unresolved descriptions as JSON")
+  .action(async (options) => {
+    try {
+      const minConfidence = parseFloat(options.minConfidence);
+      if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+        console.error(`❌ Invalid --min-confidence: ${options.minConfidence}. Use a number from 0 to 1.`);
+        process.exit(1);
+      }
+
+      const companies = options.fetch
+        ? await createEdgarProvider().getCompanyTickers(true)
+        : await loadCompanyTickers();
+      if (companies.length === 0) {
+        console.warn("⚠️  No EDGAR company names cached. Run with --fetch; only manual corrections apply.");
+      }
+
+      const store = await openTradeStore();
+      const trades = store.queryTrades();
+      store.close();
+
+      const resolver = await loadSymbolResolver(companies, minConfidence);
+      const byDescription = new Map<string, { assetDescription: string; trades: number } & SymbolResolution>();
+      let missing = 0;
+      for (const { trade } of trades) {
+        if (trade.symbol) continue;
+        missing++;
+        const resolution = resolver.resolve(trade);
+        if (!resolution) continue;
+        const description = trade.assetDescription!.trim();
+        const entry = byDescription.get(description.toLowerCase());
+        if (entry) entry.trades++;
+        else byDescription.set(description.toLowerCase(), { assetDescription: description, trades: 1, ...resolution });
+      }
+
+      const resolutions = [...byDescription.values()].sort((a, b) => a.confidence - b.confidence || b.trades - a.trades);
+      const allUnresolved = resolver.getUnresolved();
+      const unresolved = allUnresolved.filter((u) => !u.candidate);
+      const lowConfidence = allUnresolved.filter((u) => u.candidate);
+      if (options.json) {
+        console.log(JSON.stringify({ resolutions, lowConfidence, unresolved }, null, 2));
+        return;
+      }
+
+      const resolvedTrades = resolutions.reduce((sum, r) => sum + r.trades, 0);
+      console.log(`\n🔎 Resolved tickers for ${resolvedTrades} of ${missing} trades filed without one (${companies.length} EDGAR companies)`);
+
+      if (lowConfidence.length > 0) {
+        console.log(`\n⚠️  ${lowConfidence.length} matches below ${minConfidence} confidence, left unresolved:\n`);
+        for (const { candidate: c, assetDescription, occurrences } of lowConfidence) {
+          console.log(`  ${c!.symbol.padEnd(6)} ${c!.confidence.toFixed(2)} ${c!.source.padEnd(6)} ${assetDescription} — ${occurrences} trades`);
+          if (c!.matchedName) console.log(`      matched: ${c!.matchedName}`);
+        }
+      }
+
+      if (allUnresolved.length === 0) {
+        console.log("   Every asset description matched a ticker.");
+        return;
+      }
+
+      if (unresolved.length > 0) {
+        const unresolvedTrades = unresolved.reduce((sum, u) => sum + u.occurrences, 0);
+        console.log(`\n❓ ${unresolved.length} unresolved descriptions (${unresolvedTrades} trades):\n`);
+        for (const u of unresolved) {
+          const type = u.assetType ? ` [${u.assetType}]` : "";
+          console.log(`  ${u.assetDescription}${type} — ${u.occurrences} trades`);
+        }
+      }
+
+      const reportPath = await saveReport("unresolved-symbols", allUnresolved);
+      console.log(`\nReport saved to ${reportPath}`);
+      console.log(`Pin tickers in data/${SYMBOL_CORRECTIONS_FILE} (null for assets with no ticker), e.g.`);
+      console.log(`  [{ "assetDescription": ${JSON.stringify(allUnresolved[0].assetDescription)}, "symbol": "XYZ" }]`);
+    } catch (error) {
+      console.error("❌ Error resolving symbols:", error);
+      process.exit(1);
+    }
+  });
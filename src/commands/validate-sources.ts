@@ -0,0 +1,168 @@
+import { Command } from "commander";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { TradeSourceProvider } from "../data/trade-source.js";
+import { createGovernmentProvider } from "../data/government-provider.js";
+import { StockWatcherProvider } from "../data/stock-watcher-provider.js";
+import { createFixtureTradeSource } from "../data/fixture-provider.js";
+import { createFMPClient } from "../services/fmp-client.js";
+import { FMPTradeSource } from "../services/fmp-trade-source.js";
+import { loadCommitteeData, loadMemberResolver } from "../services/committee-service.js";
+import { compareSources, PARITY_FIELDS } from "../services/parity-service.js";
+import type { ParityTrade, SourceParityReport, SourceSnapshot } from "../services/parity-service.js";
+import { saveReport } from "../utils/storage.js";
+
+const LIVE_SOURCES = ["fmp", "government", "stockwatcher"];
+
+/**
+ * A live source by name, or a snapshot file (TradeData JSON)
+ */
+function createSource(spec: string): TradeSourceProvider {
+  switch (spec.toLowerCase()) {
+    case "fmp":
+      return new FMPTradeSource(createFMPClient());
+    case "government":
+      return createGovernmentProvider();
+    case "stockwatcher":
+      return new StockWatcherProvider();
+    default:
+      return createFixtureTradeSource(spec);
+  }
+}
+
+async function loadSnapshot(spec: string, sinceDate: Date, save: boolean): Promise<SourceSnapshot> {
+  const source = createSource(spec);
+  console.log(`📥 Loading ${source.getName()}...`);
+  const data = {
+    senateTrades: await source.fetchSenateTrades(sinceDate),
+    houseTrades: await source.fetchHouseTrades(sinceDate),
+  };
+  if (save && LIVE_SOURCES.includes(spec.toLowerCase())) {
+    const snapshotPath = await saveReport(`source-snapshot-${spec.toLowerCase()}`, data);
+    console.log(`   Snapshot saved to ${snapshotPath}`);
+  }
+  return { name: source.getName(), data };
+}
+
+function describeTrade({ chamber, member, trade }: ParityTrade): string {
+  return `${(trade.transactionDate || "?").padEnd(10)} ${(trade.symbol || "--").padEnd(6)} ${formatCell(trade.type || "", 14)} ${formatCell(`${member} (${chamber})`, 30)} ${trade.amount || ""}`;
+}
+
+function formatSummary(report: SourceParityReport, limit: number): string {
+  const lines: string[] = [];
+  const cap = <T>(rows: T[]) => (limit > 0 ? rows.slice(0, limit) : rows);
+  const more = (total: number) => (limit > 0 && total > limit ? [`  … ${total - limit} more`] : []);
+
+  lines.push("");
+  lines.push("=".repeat(80));
+  lines.push("SOURCE PARITY REPORT");
+  lines.push("=".repeat(80));
+  lines.push(`Generated: ${report.generatedAt}${report.since ? ` | Transactions since ${report.since}` : ""}`);
+  lines.push(`Baseline:  ${report.baseline.name} (${report.baseline.senateTrades} senate, ${report.baseline.houseTrades} house)`);
+  lines.push(`Candidate: ${report.candidate.name} (${report.candidate.senateTrades} senate, ${report.candidate.houseTrades} house)`);
+  lines.push(
+    `Matched: ${report.matched} (${report.identical} identical) | Missing from candidate: ${report.missing.length} | Extra in candidate: ${report.extra.length}`
+  );
+  lines.push(`Field disagreements: ${PARITY_FIELDS.map((f) => `${f} ${report.disagreementCounts[f]}`).join(", ")}`);
+
+  lines.push(`\n❌ MISSING FROM CANDIDATE:\n`);
+  if (report.missing.length === 0) lines.push("  None.");
+  for (const t of cap(report.missing)) lines.push(`  ${describeTrade(t)}`);
+  lines.push(...more(report.missing.length));
+
+  lines.push(`\n➕ EXTRA IN CANDIDATE:\n`);
+  if (report.extra.length === 0) lines.push("  None.");
+  for (const t of cap(report.extra)) lines.push(`  ${describeTrade(t)}`);
+  lines.push(...more(report.extra.length));
+
+  lines.push(`\n⚠️  FIELD DISAGREEMENTS:\n`);
+  if (report.disagreements.length === 0) lines.push("  None.");
+  for (const d of cap(report.disagreements)) {
+    lines.push(
+      `  ${d.field.padEnd(7)} ${formatCell(`${d.member} (${d.chamber})`, 30)} ${(d.baselineTrade.symbol || "--").padEnd(6)} ${d.baseline ?? "(none)"} → ${d.candidate ?? "(none)"}`
+    );
+  }
+  lines.push(...more(report.disagreements.length));
+
+  const gaps = report.members.filter((m) => m.coverage < 1);
+  lines.push(`\n🏛️  MEMBER COVERAGE (${report.members.length - gaps.length} of ${report.members.length} members at full parity):\n`);
+  if (gaps.length === 0) lines.push("  All members match.");
+  for (const m of cap(gaps)) {
+    lines.push(
+      `  ${formatCell(`${m.member} (${m.chamber})`, 34)} ${String(m.baselineTrades).padStart(5)} baseline ${String(m.candidateTrades).padStart(5)} candidate ${String(m.matched).padStart(5)} matched ${`${(m.coverage * 100).toFixed(0)}%`.padStart(5)}`
+    );
+  }
+  lines.push(...more(gaps.length));
+
+  lines.push("\n" + "=".repeat(80));
+  return lines.join("\n");
+}
+
+export const validateSourcesCommand = new Command("validate:sources")
+  .description("Compare trades from two sources: missing and extra trades, field disagreements and member coverage")
+  .option("--baseline <source>", `Reference source: ${LIVE_SOURCES.join(", ")}, or a snapshot JSON file`, "fmp")
+  .option("--candidate <source>", `Source checked against the baseline: ${LIVE_SOURCES.join(", ")}, or a snapshot JSON file`, "government")
+  .option("--since <date>", "Compare transactions on or after this date (YYYY-MM-DD, default: 90 days ago)")
+  .option("--save-snapshots", "Save live sources' trades to reports/ for offline re-runs")
+  .option("--limit <n>", "Rows shown per section in the summary (0 for all)", "20")
+  .option("--json", "Output raw JSON")
+  .action(async (options) => {
+    try {
+      let sinceDate: Date;
+      if (options.since) {
+        sinceDate = new Date(options.since);
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(options.since) || isNaN(sinceDate.getTime())) {
+          console.error(`❌ Invalid date: ${options.since}. Use YYYY-MM-DD.`);
+          process.exit(1);
+        }
+      } else {
+        sinceDate = new Date();
+        sinceDate.setDate(sinceDate.getDate() - 90);
+      }
+      const since = sinceDate.toISOString().split("T")[0];
+
+      for (const spec of [options.baseline, options.candidate] as string[]) {
+        if (LIVE_SOURCES.includes(spec.toLowerCase())) continue;
+        const exists = await fs.access(spec).then(() => true, () => false);
+        if (!exists) {
+          console.error(`❌ Unknown source: ${spec}. Use ${LIVE_SOURCES.join(", ")} or a snapshot file path.`);
+          process.exit(1);
+        }
+      }
+
+      // Sources are fetched one after the other; live scrapers are rate limited
+      const baseline = await loadSnapshot(options.baseline, sinceDate, !!options.saveSnapshots);
+      const candidate = await loadSnapshot(options.candidate, sinceDate, !!options.saveSnapshots);
+
+      const resolver = await loadMemberResolver(await loadCommitteeData());
+      const report = compareSources(baseline, candidate, { since, resolver });
+
+      const reportPath = await saveReport("source-parity", report);
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+      }
+
+      const output = formatSummary(report, parseInt(options.limit, 10));
+      console.log(output);
+      console.log(`\nReport saved to ${reportPath}`);
+
+      const reportsDir = path.join(process.cwd(), "formatted-reports");
+      await fs.mkdir(reportsDir, { recursive: true });
+      const timestamp = new Date().toISOString().replace(/[:.]/g, "-").slice(0, 19);
+      const outFile = `source-parity-${timestamp}.txt`;
+      await fs.writeFile(path.join(reportsDir, outFile), output);
+      console.log(`📁 Saved to formatted-reports/${outFile}`);
+    } catch (error) {
+      console.error("❌ Source validation failed:", error);
+      process.exit(1);
+    }
+  });
+
+function formatCell(text: string, width: number): string {
+  if (text.length > width) {
+    return text.substring(0, width - 3) + "...";
+  }
+  return text.padEnd(width);
+}
@@ -0,0 +1,33 @@
+import { Command } from "commander";
+import { queryTrades } from "../services/trade-service.js";
+import { alertWatchlistMatches, loadWatchlist } from "../services/watch-service.js";
+
+export const watchCheckCommand = new Command("watch:check")
+  .description("Check stored trades against the watchlist and write alerts")
+  .option("--watchlist <file>", "Watchlist file (default: data/watchlist.yaml)")
+  .option("--since <date>", "Only check trades on or after this date (YYYY-MM-DD)")
+  .action(async (options) => {
+    try {
+      if (options.since && !/^\d{4}-\d{2}-\d{2}$/.test(options.since)) {
+        console.error(`❌ Invalid --since date: ${options.since}. Use YYYY-MM-DD.`);
+        process.exit(1);
+      }
+
+      const watchlist = await loadWatchlist(options.watchlist);
+      if (!watchlist) {
+        console.error("❌ No watchlist found. Create data/watchlist.yaml or pass --watchlist <file>.");
+        process.exit(1);
+      }
+
+      const trades = await queryTrades({ since: options.since, order: "desc" });
+      if (!trades) {
+        console.error("❌ No trade data found. Run 'fetch:trades' first.");
+        process.exit(1);
+      }
+
+      await alertWatchlistMatches(trades, watchlist.file);
+    } catch (error) {
+      console.error("❌ Error checking watchlist:", error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,62 @@
+/**
+ * Asset Class Classifier
+ *
+ * Maps a trade's filed asset type and description to a normalized asset
+ * class. House PTRs carry one of the HOUSE_ASSET_TYPE_CODES (expanded to
+ * titles like "Government Securities and Agency Debt"); Senate eFD rows use
+ * types like "Corporate Bond" or "Non-Public Stock". Generic types ("Stock",
+ * "Other Securities", none) are refined from the description, since filers
+ * often report Treasury bills, ETFs and bonds as plain stock.
+ */
+
+import type { AssetClass } from "../scoring/types.js";
+
+/** Rules on the filed asset type, first match wins */
+const TYPE_RULES: Array<[RegExp, AssetClass]> = [
+  [/not publicly traded|non-public|private equity|hedge fund|ownership interest/i, "privateEquity"],
+  [/option|warrant|stock appreciation right/i, "option"],
+  [/crypto/i, "crypto"],
+  [/government securit|treasur/i, "treasury"],
+  [/municipal/i, "municipalBond"],
+  [/exchange traded|\betf\b|mutual fund|529/i, "fund"],
+  [/corporate (?:securities|bond)|asset-backed|\bbonds?\b/i, "corporateBond"],
+  [/reit|real property|real estate|statutory trust|farm/i, "realEstate"],
+];
+
+/** Filed types too generic to trust on their own */
+const GENERIC_TYPE = /^(?:stocks?(?: \(including adrs\))?|other securities|securities|other|st)?$/i;
+
+/** Rules on the description of generically typed trades, first match wins */
+const DESCRIPTION_RULES: Array<[RegExp, AssetClass]> = [
+  [/\b(?:call|put)\s+options?\b/i, "option"],
+  [/private placement|not publicly traded|non-public|private equity|hedge fund|limited partnership|membership interest/i, "privateEquity"],
+  [/\b(?:etfs?|etns?|ishares|spdr|funds?)\b/i, "fund"],
+  [/\btreasur(?:y|ies)\b|\bt-bills?\b|\bt-notes?\b/i, "treasury"],
+  [/\bmunicipal\b|\bgeneral obligation\b|\brevenue bonds?\b|\bschool dist(?:rict)?\b/i, "municipalBond"],
+  [/\b(?:bitcoin|ethereum|solana|dogecoin|cryptocurrency)\b/i, "crypto"],
+  [/\bbonds?\b|\bnotes? due\b|\bdebentures?\b|\bsenior notes?\b|\d%\s+(?:notes?|due)\b/i, "corporateBond"],
+  [/\breit\b|real estate|real property|rental property/i, "realEstate"],
+];
+
+/**
+ * Classify a trade's asset. Unrecognized specific types (bank accounts,
+ * annuities, collectibles, ...) are "other"; unrecognized generic ones are stock.
+ */
+export function classifyAsset(
+  assetType: string | null | undefined,
+  assetDescription?: string | null
+): AssetClass {
+  const type = (assetType || "").trim();
+  for (const [pattern, assetClass] of TYPE_RULES) {
+    if (pattern.test(type)) return assetClass;
+  }
+
+  const isGeneric = GENERIC_TYPE.test(type);
+  if (!isGeneric && !/stock|\badrs?\b|restricted stock/i.test(type)) return "other";
+
+  const description = assetDescription || "";
+  for (const [pattern, assetClass] of DESCRIPTION_RULES) {
+    if (pattern.test(description)) return assetClass;
+  }
+  return "stock";
+}
@@ -0,0 +1,171 @@
+/**
+ * File-based Committee Activity Provider
+ *
+ * Loads committee hearings, markups and reports from a local JSON file.
+ * Accepts either the normalized CommitteeActivity format or a cached
+ * Congress.gov API export (committee meeting / committee report details).
+ *
+ * Normalized format (array, or wrapped as { fetchedAt, data: [...] }):
+ *   [{ "committeeId": "HSIF", "type": "hearing", "date": "2026-03-12", "title": "...", "url": "..." }]
+ *
+ * Congress.gov export format:
+ *   { "committeeMeetings": [{ "date", "title", "type", "committees": [{ "systemCode": "hsif00" }] }],
+ *     "committeeReports":  [{ "issueDate", "title", "citation", "committees": [{ "systemCode": "hsif00" }] }] }
+ */
+
+import * as fs from "node:fs/promises";
+import { z } from "zod";
+import type { CommitteeActivity } from "../scoring/types.js";
+import type { CommitteeActivityProvider } from "./types.js";
+import { getDataFilePath } from "../utils/storage.js";
+
+export const COMMITTEE_ACTIVITY_FILE = "committee-activity.json";
+
+const CommitteeActivitySchema = z.object({
+  committeeId: z.string(),
+  type: z.enum(["hearing", "markup", "report"]),
+  date: z.string(),
+  title: z.string(),
+  url: z.string().optional(),
+});
+
+const CongressGovCommitteeRefSchema = z.object({
+  systemCode: z.string(),
+  name: z.string().optional(),
+});
+
+const CongressGovMeetingSchema = z.object({
+  date: z.string(),
+  title: z.string().optional(),
+  type: z.string().optional(),
+  url: z.string().optional(),
+  committees: z.array(CongressGovCommitteeRefSchema).default([]),
+});
+
+const CongressGovReportSchema = z.object({
+  issueDate: z.string().optional(),
+  updateDate: z.string().optional(),
+  title: z.string().optional(),
+  citation: z.string().optional(),
+  url: z.string().optional(),
+  committees: z.array(CongressGovCommitteeRefSchema).default([]),
+});
+
+const CongressGovExportSchema = z.object({
+  committeeMeetings: z.array(CongressGovMeetingSchema).optional(),
+  committeeReports: z.array(CongressGovReportSchema).optional(),
+});
+
+/**
+ * Convert a Congress.gov committee system code to the thomas_id format used
+ * by committee membership data ("hsif00" → "HSIF", "hsif14" → "HSIF14")
+ */
+export function systemCodeToCommitteeId(systemCode: string): string {
+  const code = systemCode.trim().toUpperCase();
+  return code.endsWith("00") ? code.slice(0, -2) : code;
+}
+
+/**
+ * Map a Congress.gov meeting type to an activity type.
+ * Business meetings are where markups happen, so they count as markups.
+ */
+function toMeetingActivityType(type: string | undefined): CommitteeActivity["type"] {
+  const normalized = (type || "").toLowerCase();
+  if (normalized.includes("markup") || normalized.includes("meeting")) {
+    return "markup";
+  }
+  return "hearing";
+}
+
+/**
+ * Parse committee activity from any supported file format
+ */
+export function parseCommitteeActivity(raw: unknown): CommitteeActivity[] {
+  // Unwrap { fetchedAt, data } as written by saveData()
+  const content =
+    raw && typeof raw === "object" && !Array.isArray(raw) && "data" in raw
+      ? (raw as { data: unknown }).data
+      : raw;
+
+  if (Array.isArray(content)) {
+    return z.array(CommitteeActivitySchema).parse(content);
+  }
+
+  const exported = CongressGovExportSchema.parse(content);
+  const activities: CommitteeActivity[] = [];
+
+  for (const meeting of exported.committeeMeetings ?? []) {
+    for (const committee of meeting.committees) {
+      activities.push({
+        committeeId: systemCodeToCommitteeId(committee.systemCode),
+        type: toMeetingActivityType(meeting.type),
+        date: meeting.date.slice(0, 10),
+        title: meeting.title || "Committee meeting",
+        url: meeting.url,
+      });
+    }
+  }
+
+  for (const report of exported.committeeReports ?? []) {
+    const date = report.issueDate || report.updateDate;
+    if (!date) continue;
+
+    for (const committee of report.committees) {
+      activities.push({
+        committeeId: systemCodeToCommitteeId(committee.systemCode),
+        type: "report",
+        date: date.slice(0, 10),
+        title: report.title || report.citation || "Committee report",
+        url: report.url,
+      });
+    }
+  }
+
+  return activities;
+}
+
+export class FileCommitteeActivityProvider implements CommitteeActivityProvider {
+  private filePath: string;
+  private activities: CommitteeActivity[] | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  getName(): string {
+    return `committee activity file (${this.filePath})`;
+  }
+
+  async getActivities(since?: string): Promise<CommitteeActivity[]> {
+    if (!this.activities) {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      this.activities = parseCommitteeActivity(JSON.parse(content));
+    }
+
+    if (!since) {
+      return this.activities;
+    }
+    return this.activities.filter((a) => a.date >= since);
+  }
+}
+
+/**
+ * Create a committee activity provider.
+ * Uses the given file, or data/committee-activity.json if it exists.
+ * Returns null if no activity file is available.
+ */
+export async function createCommitteeActivityProvider(
+  filePath?: string
+): Promise<CommitteeActivityProvider | null> {
+  if (filePath) {
+    return new FileCommitteeActivityProvider(filePath);
+  }
+
+  const defaultPath = await getDataFilePath(COMMITTEE_ACTIVITY_FILE);
+  try {
+    await fs.access(defaultPath);
+    return new FileCommitteeActivityProvider(defaultPath);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Committee Membership History
+ *
+ * Turns dated committee-membership snapshots into assignments with start and
+ * end dates, so a trade can be judged against the committees its member sat
+ * on when it was made rather than today's seats.
+ *
+ * Dates come from the snapshots themselves: an assignment starts at the first
+ * snapshot it appears in and ends at the first later snapshot it's missing
+ * from. Assignments already present in the earliest snapshot have no known
+ * start, so trades before the earliest snapshot fall back to that snapshot.
+ * A change of role (e.g. a member becoming chair) starts a new assignment.
+ */
+
+import type { CommitteeMember, CommitteeMembershipResponse, CommitteeMembershipSnapshot } from "../types/index.js";
+import type { CommitteeRole } from "../scoring/types.js";
+
+export interface CommitteeAssignment {
+  bioguide: string;
+  committeeId: string;
+  /** First snapshot date the member was on the committee (null = on or before the earliest snapshot) */
+  start: string | null;
+  /** First snapshot date the member was no longer on it, exclusive (null = still serving) */
+  end: string | null;
+  role: CommitteeRole;
+  /** Roster title, e.g. "Chairman" */
+  title?: string;
+}
+
+/**
+ * Classify a roster entry's role. Titles vary ("Chair", "Chairman",
+ * "Chairwoman", "Vice Chair"); untitled rank-1 members lead their party's
+ * side, so they're treated as chair (majority) or ranking member (minority).
+ */
+export function getCommitteeRole(member: CommitteeMember): CommitteeRole {
+  const title = member.title?.toLowerCase() ?? "";
+  if (title.includes("ranking")) return "rankingMember";
+  if (title.includes("vice")) return "viceChair";
+  if (/^chair(man|woman)?$/.test(title)) return "chair";
+  if (!title && member.rank === 1) {
+    if (member.party === "majority") return "chair";
+    if (member.party === "minority") return "rankingMember";
+  }
+  return "member";
+}
+
+export class CommitteeHistory {
+  private assignments = new Map<string, CommitteeAssignment[]>();
+  private snapshots: CommitteeMembershipSnapshot[];
+
+  constructor(snapshots: CommitteeMembershipSnapshot[]) {
+    this.snapshots = [...snapshots].sort((a, b) => a.asOf.localeCompare(b.asOf));
+
+    // Open assignments keyed by "<bioguide>|<committee>"
+    const open = new Map<string, CommitteeAssignment>();
+
+    this.snapshots.forEach((snapshot, index) => {
+      const present = new Set<string>();
+
+      for (const [committeeId, members] of Object.entries(snapshot.membership)) {
+        for (const member of members) {
+          if (!member.bioguide) continue;
+          const key = `${member.bioguide}|${committeeId}`;
+          present.add(key);
+
+          const role = getCommitteeRole(member);
+          const current = open.get(key);
+          if (current && current.role !== role) {
+            current.end = snapshot.asOf;
+            open.delete(key);
+          }
+
+          if (!open.has(key)) {
+            const assignment: CommitteeAssignment = {
+              bioguide: member.bioguide,
+              committeeId,
+              start: index === 0 ? null : snapshot.asOf,
+              end: null,
+              role,
+              ...(member.title ? { title: member.title } : {}),
+            };
+            open.set(key, assignment);
+            if (!this.assignments.has(member.bioguide)) {
+              this.assignments.set(member.bioguide, []);
+            }
+            this.assignments.get(member.bioguide)!.push(assignment);
+          }
+        }
+      }
+
+      for (const [key, assignment] of open) {
+        if (!present.has(key)) {
+          assignment.end = snapshot.asOf;
+          open.delete(key);
+        }
+      }
+    });
+  }
+
+  /**
+   * Date range covered by the snapshots, or null if there are none
+   */
+  getCoverage(): { from: string; to: string; snapshots: number } | null {
+    if (this.snapshots.length === 0) return null;
+    return {
+      from: this.snapshots[0].asOf,
+      to: this.snapshots[this.snapshots.length - 1].asOf,
+      snapshots: this.snapshots.length,
+    };
+  }
+
+  /**
+   * All of a member's assignments, past and present
+   */
+  getAssignments(bioguideId: string): CommitteeAssignment[] {
+    return this.assignments.get(bioguideId) ?? [];
+  }
+
+  /**
+   * A member's assignments at a date (YYYY-MM-DD). Without a date, the
+   * latest snapshot's assignments are returned.
+   */
+  getAssignmentsOn(bioguideId: string, date?: string | null): CommitteeAssignment[] {
+    const day = date?.slice(0, 10);
+    return this.getAssignments(bioguideId).filter((a) =>
+      day
+        ? (a.start === null || a.start <= day) && (a.end === null || day < a.end)
+        : a.end === null
+    );
+  }
+
+  /**
+   * Committees a member sat on at a date (latest snapshot without one)
+   */
+  getCommittees(bioguideId: string, date?: string | null): string[] {
+    return [...new Set(this.getAssignmentsOn(bioguideId, date).map((a) => a.committeeId))];
+  }
+
+  /**
+   * A member's leadership roles by committee at a date (plain membership omitted)
+   */
+  getRoles(bioguideId: string, date?: string | null): Record<string, CommitteeRole> {
+    const roles: Record<string, CommitteeRole> = {};
+    for (const assignment of this.getAssignmentsOn(bioguideId, date)) {
+      if (assignment.role !== "member") {
+        roles[assignment.committeeId] = assignment.role;
+      }
+    }
+    return roles;
+  }
+}
+
+/**
+ * Create a history from archived snapshots, falling back to the current
+ * membership alone (equivalent to ignoring trade dates) when there are none
+ */
+export function createCommitteeHistory(
+  committeeData: { membership: CommitteeMembershipResponse; history?: CommitteeMembershipSnapshot[] } | null
+): CommitteeHistory {
+  if (committeeData?.history && committeeData.history.length > 0) {
+    return new CommitteeHistory(committeeData.history);
+  }
+  return new CommitteeHistory(committeeData ? [{ asOf: "", membership: committeeData.membership }] : []);
+}
@@ -11,6 +11,10 @@
  * - Industrials, Real Estate, Technology, Utilities
  *
  * Industry names updated to match FMP's exact naming convention.
+ *
+ * Subcommittees with a narrower jurisdiction than their parent are mapped
+ * separately, keyed by the congress-legislators subcommittee ID (parent
+ * thomas_id + subcommittee thomas_id, e.g. "HSIF14").
  */
 
 // ============================================
@@ -24,6 +28,8 @@ export interface CommitteeSectorTaxonomy {
   sectors: string[];
   /** FMP industries this committee has jurisdiction over */
   industries: string[];
+  /** Parent committee ID, set for subcommittees */
+  parentId?: string;
 }
 
 // ============================================
@@ -411,11 +417,180 @@ export const HOUSE_COMMITTEE_TAXONOMY: CommitteeSectorTaxonomy[] = [
   },
 ];
 
+// ============================================
+// Subcommittees
+// ============================================
+
+export const SUBCOMMITTEE_TAXONOMY: CommitteeSectorTaxonomy[] = [
+  // Senate
+  {
+    committeeId: "SSBK04",
+    committeeName: "Banking, Housing, and Urban Affairs - Securities, Insurance, and Investment",
+    parentId: "SSBK",
+    sectors: [],
+    industries: [
+      "Asset Management",
+      "Financial - Capital Markets",
+      "Financial - Data & Stock Exchanges",
+      "Insurance - Diversified",
+      "Insurance - Property & Casualty",
+      "Insurance - Life",
+    ],
+  },
+  {
+    committeeId: "SSBK08",
+    committeeName: "Banking, Housing, and Urban Affairs - Financial Institutions and Consumer Protection",
+    parentId: "SSBK",
+    sectors: [],
+    industries: ["Banks - Regional", "Banks - Diversified", "Banks", "Financial - Credit Services"],
+  },
+  {
+    committeeId: "SSBK09",
+    committeeName: "Banking, Housing, and Urban Affairs - Housing, Transportation, and Community Development",
+    parentId: "SSBK",
+    sectors: ["Real Estate"],
+    industries: ["Financial - Mortgages"],
+  },
+  {
+    committeeId: "SSCM26",
+    committeeName: "Commerce, Science, and Transportation - Communications, Media, and Broadband",
+    parentId: "SSCM",
+    sectors: ["Communication Services"],
+    industries: ["Telecommunications Services", "Internet Content & Information", "Entertainment"],
+  },
+  {
+    committeeId: "SSEG01",
+    committeeName: "Energy and Natural Resources - Energy",
+    parentId: "SSEG",
+    sectors: ["Energy", "Utilities"],
+    industries: ["Oil & Gas Exploration & Production", "Oil & Gas Integrated", "Regulated Electric", "Solar"],
+  },
+  {
+    committeeId: "SSFI10",
+    committeeName: "Finance - Health Care",
+    parentId: "SSFI",
+    sectors: ["Healthcare"],
+    industries: ["Medical - Healthcare Plans", "Drug Manufacturers - General", "Medical - Care Facilities"],
+  },
+  {
+    committeeId: "SSHR12",
+    committeeName: "Health, Education, Labor, and Pensions - Primary Health and Retirement Security",
+    parentId: "SSHR",
+    sectors: ["Healthcare"],
+    industries: ["Medical - Care Facilities", "Medical - Healthcare Plans"],
+  },
+
+  // House
+  {
+    committeeId: "HSAG22",
+    committeeName: "Agriculture - Commodity Markets, Digital Assets, and Rural Development",
+    parentId: "HSAG",
+    sectors: [],
+    industries: ["Financial - Capital Markets", "Financial - Data & Stock Exchanges", "Agricultural Farm Products"],
+  },
+  {
+    committeeId: "HSAG29",
+    committeeName: "Agriculture - Livestock, Dairy, and Poultry",
+    parentId: "HSAG",
+    sectors: [],
+    industries: ["Agricultural Farm Products", "Packaged Foods"],
+  },
+  {
+    committeeId: "HSAS25",
+    committeeName: "Armed Services - Tactical Air and Land Forces",
+    parentId: "HSAS",
+    sectors: [],
+    industries: ["Aerospace & Defense"],
+  },
+  {
+    committeeId: "HSAS28",
+    committeeName: "Armed Services - Seapower and Projection Forces",
+    parentId: "HSAS",
+    sectors: [],
+    industries: ["Aerospace & Defense"],
+  },
+  {
+    committeeId: "HSAS29",
+    committeeName: "Armed Services - Strategic Forces",
+    parentId: "HSAS",
+    sectors: [],
+    industries: ["Aerospace & Defense"],
+  },
+  {
+    committeeId: "HSBA04",
+    committeeName: "Financial Services - Housing and Insurance",
+    parentId: "HSBA",
+    sectors: ["Real Estate"],
+    industries: [
+      "Insurance - Diversified",
+      "Insurance - Property & Casualty",
+      "Insurance - Life",
+      "Financial - Mortgages",
+    ],
+  },
+  {
+    committeeId: "HSBA16",
+    committeeName: "Financial Services - Capital Markets",
+    parentId: "HSBA",
+    sectors: [],
+    industries: ["Asset Management", "Financial - Capital Markets", "Financial - Data & Stock Exchanges"],
+  },
+  {
+    committeeId: "HSBA20",
+    committeeName: "Financial Services - Financial Institutions",
+    parentId: "HSBA",
+    sectors: [],
+    industries: ["Banks - Regional", "Banks - Diversified", "Banks", "Financial - Credit Services"],
+  },
+  {
+    committeeId: "HSIF03",
+    committeeName: "Energy and Commerce - Energy",
+    parentId: "HSIF",
+    sectors: ["Energy", "Utilities"],
+    industries: ["Oil & Gas Exploration & Production", "Oil & Gas Integrated", "Regulated Electric", "Solar"],
+  },
+  {
+    committeeId: "HSIF14",
+    committeeName: "Energy and Commerce - Health",
+    parentId: "HSIF",
+    sectors: ["Healthcare"],
+    industries: [
+      "Drug Manufacturers - General",
+      "Drug Manufacturers - Specialty & Generic",
+      "Biotechnology",
+      "Medical - Care Facilities",
+      "Medical - Devices",
+      "Medical - Healthcare Plans",
+    ],
+  },
+  {
+    committeeId: "HSIF16",
+    committeeName: "Energy and Commerce - Communications and Technology",
+    parentId: "HSIF",
+    sectors: ["Communication Services"],
+    industries: ["Telecommunications Services", "Internet Content & Information", "Communication Equipment"],
+  },
+  {
+    committeeId: "HSIF17",
+    committeeName: "Energy and Commerce - Commerce, Manufacturing, and Trade",
+    parentId: "HSIF",
+    sectors: [],
+    industries: ["Auto - Manufacturers", "Auto - Parts", "Internet Retail", "Specialty Retail"],
+  },
+  {
+    committeeId: "HSWM02",
+    committeeName: "Ways and Means - Health",
+    parentId: "HSWM",
+    sectors: ["Healthcare"],
+    industries: ["Medical - Healthcare Plans", "Medical - Care Facilities"],
+  },
+];
+
 // ============================================
 // Lookup Functions
 // ============================================
 
-const ALL_COMMITTEES = [...SENATE_COMMITTEE_TAXONOMY, ...HOUSE_COMMITTEE_TAXONOMY];
+const ALL_COMMITTEES = [...SENATE_COMMITTEE_TAXONOMY, ...HOUSE_COMMITTEE_TAXONOMY, ...SUBCOMMITTEE_TAXONOMY];
 
 // Build lookup maps
 const committeeMap = new Map<string, CommitteeSectorTaxonomy>();
@@ -437,6 +612,21 @@ export function getCommitteeIndustries(committeeId: string): string[] {
   return committeeMap.get(committeeId)?.industries ?? [];
 }
 
+/**
+ * Get a committee's name ("Energy and Commerce - Health" for subcommittees)
+ */
+export function getCommitteeName(committeeId: string): string | null {
+  return committeeMap.get(committeeId)?.committeeName ?? null;
+}
+
+/**
+ * Get the parent committee of a mapped subcommittee (null for full committees
+ * and unmapped subcommittees)
+ */
+export function getParentCommittee(committeeId: string): string | null {
+  return committeeMap.get(committeeId)?.parentId ?? null;
+}
+
 /**
  * Check if a committee has jurisdiction over a stock's sector/industry
  */
@@ -0,0 +1,137 @@
+/**
+ * STOCK Act Compliance Analyzer
+ *
+ * Measures the lag between each transaction and its disclosure, and flags
+ * transactions disclosed after the STOCK Act's 45-day deadline.
+ * No external API calls - works entirely from stored trade data.
+ */
+
+import type { FMPTrade } from "../types/index.js";
+import { getFilingDelayDays, toIsoDate } from "../utils/dates.js";
+
+/** Days after a transaction by which the STOCK Act requires it to be disclosed */
+export const STOCK_ACT_DEADLINE_DAYS = 45;
+
+export interface FilingDelay {
+  trade: FMPTrade;
+  chamber: "senate" | "house";
+  /** Member's bioguide ID, when resolved */
+  bioguideId?: string;
+  /** Days from transaction to disclosure */
+  delayDays: number;
+  isLate: boolean;
+}
+
+export interface ComplianceStats {
+  /** Transactions with both a transaction date and a disclosure date */
+  transactions: number;
+  lateTransactions: number;
+  /** Share of transactions disclosed late (0-1) */
+  lateRate: number;
+  averageDelayDays: number;
+  maxDelayDays: number;
+}
+
+export interface MemberCompliance extends ComplianceStats {
+  member: string;
+  chamber: "senate" | "house";
+  bioguideId?: string;
+  /** Distinct filings with at least one late transaction */
+  lateFilings: number;
+}
+
+export class FilingComplianceAnalyzer {
+  private delays: FilingDelay[] = [];
+
+  constructor(
+    trades: { trade: FMPTrade; chamber: "senate" | "house"; trader?: { bioguideId?: string } }[],
+    private deadlineDays = STOCK_ACT_DEADLINE_DAYS
+  ) {
+    for (const { trade, chamber, trader } of trades) {
+      const delayDays = getFilingDelayDays(trade.transactionDate, toIsoDate(trade.dateRecieved));
+      // Negative delays are data errors (disclosure before the trade), not compliance signals
+      if (delayDays === null || delayDays < 0) continue;
+      this.delays.push({ trade, chamber, bioguideId: trader?.bioguideId, delayDays, isLate: delayDays > deadlineDays });
+    }
+  }
+
+  getDeadlineDays(): number {
+    return this.deadlineDays;
+  }
+
+  /**
+   * Filing delay per transaction (transactions without usable dates are omitted)
+   */
+  getDelays(): FilingDelay[] {
+    return this.delays;
+  }
+
+  /**
+   * Transactions disclosed after the deadline, latest first
+   */
+  getLateTransactions(): FilingDelay[] {
+    return this.delays.filter((d) => d.isLate).sort((a, b) => b.delayDays - a.delayDays);
+  }
+
+  /**
+   * Per-member compliance, sorted by late transactions then worst delay.
+   * Members are grouped by bioguide ID, or by filing name if unresolved.
+   */
+  getMemberStats(): MemberCompliance[] {
+    const byMember = new Map<string, FilingDelay[]>();
+    for (const delay of this.delays) {
+      const name = `${delay.trade.firstName ?? ""} ${delay.trade.lastName ?? ""}`.trim();
+      const key = delay.bioguideId ?? `${delay.chamber}|${name.toLowerCase()}`;
+      if (!byMember.has(key)) {
+        byMember.set(key, []);
+      }
+      byMember.get(key)!.push(delay);
+    }
+
+    return [...byMember.values()]
+      .map((delays) => {
+        const { trade, chamber, bioguideId } = delays[0];
+        const lateFilings = new Set(
+          delays.filter((d) => d.isLate).map((d) => d.trade.link ?? d.trade.dateRecieved ?? "")
+        );
+        return {
+          member: `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim(),
+          chamber,
+          bioguideId,
+          lateFilings: lateFilings.size,
+          ...summarize(delays),
+        };
+      })
+      .sort((a, b) => b.lateTransactions - a.lateTransactions || b.maxDelayDays - a.maxDelayDays);
+  }
+
+  /**
+   * Members with at least one late transaction
+   */
+  getLateFilers(): MemberCompliance[] {
+    return this.getMemberStats().filter((m) => m.lateTransactions > 0);
+  }
+
+  /**
+   * Compliance aggregated per chamber
+   */
+  getChamberStats(): Record<"senate" | "house", ComplianceStats> {
+    return {
+      senate: summarize(this.delays.filter((d) => d.chamber === "senate")),
+      house: summarize(this.delays.filter((d) => d.chamber === "house")),
+    };
+  }
+}
+
+function summarize(delays: FilingDelay[]): ComplianceStats {
+  const lateTransactions = delays.filter((d) => d.isLate).length;
+  const total = delays.reduce((sum, d) => sum + d.delayDays, 0);
+
+  return {
+    transactions: delays.length,
+    lateTransactions,
+    lateRate: delays.length > 0 ? lateTransactions / delays.length : 0,
+    averageDelayDays: delays.length > 0 ? Math.round(total / delays.length) : 0,
+    maxDelayDays: delays.reduce((max, d) => Math.max(max, d.delayDays), 0),
+  };
+}
@@ -18,6 +18,7 @@ import type { MarketDataProvider, CacheConfig } from "./types.js";
 import { DEFAULT_CACHE_CONFIG } from "./types.js";
 import { loadData, saveData } from "../utils/storage.js";
 import { sicToSector } from "./sic-to-sector.js";
+import type { CompanyTicker } from "./symbol-resolver.js";
 
 const TICKERS_URL = "https://www.sec.gov/files/company_tickers.json";
 const SUBMISSIONS_URL = "https://data.sec.gov/submissions";
@@ -26,6 +27,8 @@ const FACTS_URL = "https://data.sec.gov/api/xbrl/companyfacts";
 // 7-day TTL for the ticker→CIK map (new companies are rare)
 const TICKER_MAP_TTL_MS = 7 * 24 * 60 * 60 * 1000;
 const TICKER_MAP_FILE = "edgar-ticker-cik.json";
+/** Company names for each ticker, used to resolve trades filed without a ticker */
+export const COMPANY_TICKERS_FILE = "edgar-company-tickers.json";
 const MARKET_CACHE_FILE = "market-data-cache.json";
 
 // 100 ms between SEC API requests → well under 10 req/sec
@@ -49,6 +52,7 @@ export class EdgarMarketDataProvider implements MarketDataProvider {
   private cacheConfig: CacheConfig;
   private cacheOnly: boolean;
   private tickerMap: Map<string, number> = new Map(); // ticker → CIK
+  private companies: CompanyTicker[] = [];
   private marketCache: CachedMarketData = {};
 
   constructor(cacheConfig: CacheConfig = DEFAULT_CACHE_CONFIG, cacheOnly = false) {
@@ -89,18 +93,20 @@ export class EdgarMarketDataProvider implements MarketDataProvider {
     return String(cik).padStart(10, "0");
   }
 
-  /** Load or refresh the ticker → CIK map */
-  private async ensureTickerMap(): Promise<void> {
-    if (this.tickerMap.size > 0) return;
+  /** Load or refresh the ticker → CIK map and company names */
+  private async ensureTickerMap(refresh = false): Promise<void> {
+    if (this.tickerMap.size > 0 && !refresh) return;
 
-    // Try disk cache first
-    const stored = await loadData<Record<string, number>>(TICKER_MAP_FILE);
-    if (stored?.data && stored.fetchedAt) {
+    // Try disk cache first (caches written before company names were kept are refetched)
+    const stored = refresh ? null : await loadData<Record<string, number>>(TICKER_MAP_FILE);
+    const storedCompanies = refresh ? null : await loadData<CompanyTicker[]>(COMPANY_TICKERS_FILE);
+    if (stored?.data && stored.fetchedAt && storedCompanies?.data) {
       const age = Date.now() - new Date(stored.fetchedAt).getTime();
       if (age < TICKER_MAP_TTL_MS) {
         for (const [ticker, cik] of Object.entries(stored.data)) {
           this.tickerMap.set(ticker.toUpperCase(), cik);
         }
+        this.companies = storedCompanies.data;
         console.log(`  [EDGAR] Loaded ${this.tickerMap.size} ticker→CIK mappings from cache`);
         return;
       }
@@ -110,15 +116,25 @@ export class EdgarMarketDataProvider implements MarketDataProvider {
     console.log("  [EDGAR] Fetching ticker→CIK map from SEC...");
     const raw = await this.secFetch(TICKERS_URL) as Record<string, TickerEntry>;
     const plain: Record<string, number> = {};
+    this.tickerMap.clear();
+    this.companies = [];
     for (const entry of Object.values(raw)) {
       const ticker = entry.ticker.toUpperCase();
       this.tickerMap.set(ticker, entry.cik_str);
+      this.companies.push({ ticker, cik: entry.cik_str, title: entry.title });
       plain[ticker] = entry.cik_str;
     }
     await saveData(TICKER_MAP_FILE, plain);
+    await saveData(COMPANY_TICKERS_FILE, this.companies);
     console.log(`  [EDGAR] Cached ${this.tickerMap.size} ticker→CIK mappings`);
   }
 
+  /** Every EDGAR-listed ticker with its company name, in SEC order (largest first) */
+  async getCompanyTickers(refresh = false): Promise<CompanyTicker[]> {
+    await this.ensureTickerMap(refresh);
+    return this.companies;
+  }
+
   /** Load market data cache from disk */
   async loadCache(): Promise<void> {
     const stored = await loadData<CachedMarketData>(MARKET_CACHE_FILE);
@@ -0,0 +1,64 @@
+/**
+ * Fixture Trade Source Provider
+ *
+ * Serves trades from a saved snapshot file instead of a live source, so
+ * sources can be compared offline and runs can be reproduced. A snapshot is
+ * TradeData ({ senateTrades, houseTrades }), optionally wrapped in the
+ * { fetchedAt, data } envelope that saveData writes.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import { FMPTradesResponseSchema } from "../types/index.js";
+import type { FMPTrade, TradeData } from "../types/index.js";
+import type { TradeSourceProvider } from "./trade-source.js";
+import { toIsoDate } from "../utils/dates.js";
+
+const SnapshotSchema = z.object({
+  senateTrades: FMPTradesResponseSchema.default([]),
+  houseTrades: FMPTradesResponseSchema.default([]),
+});
+
+export class FixtureTradeSource implements TradeSourceProvider {
+  private data: TradeData | null = null;
+
+  constructor(private filePath: string) {}
+
+  getName(): string {
+    return `Fixture (${path.basename(this.filePath)})`;
+  }
+
+  async fetchSenateTrades(sinceDate: Date): Promise<FMPTrade[]> {
+    return since((await this.load()).senateTrades, sinceDate);
+  }
+
+  async fetchHouseTrades(sinceDate: Date): Promise<FMPTrade[]> {
+    return since((await this.load()).houseTrades, sinceDate);
+  }
+
+  private async load(): Promise<TradeData> {
+    if (!this.data) {
+      const raw = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+      const parsed = SnapshotSchema.safeParse(raw?.data ?? raw);
+      if (!parsed.success) {
+        throw new Error(`Invalid trade snapshot ${this.filePath}: ${parsed.error.issues[0]?.message}`);
+      }
+      this.data = parsed.data;
+    }
+    return this.data;
+  }
+}
+
+/** Trades on or after the date (undated trades are kept) */
+function since(trades: FMPTrade[], sinceDate: Date): FMPTrade[] {
+  const cutoff = sinceDate.toISOString().split("T")[0];
+  return trades.filter((t) => {
+    const date = toIsoDate(t.transactionDate);
+    return !date || date >= cutoff;
+  });
+}
+
+export function createFixtureTradeSource(filePath: string): FixtureTradeSource {
+  return new FixtureTradeSource(filePath);
+}
@@ -226,6 +226,7 @@ export class FMPMarketDataProvider implements MarketDataProvider {
         industry: profile.industry ?? null,
         averageVolume: profile.volAvg ?? profile.averageVolume ?? null,
         exchange: profile.exchange ?? profile.exchangeShortName ?? null,
+        price: profile.price ?? null,
       };
     } catch (error) {
       console.warn(`  Error fetching ${symbol}:`, error);
@@ -13,7 +13,8 @@ import { inflateRawSync } from "zlib";
 import { createHash } from "crypto";
 import { parseHousePtrPdf, expandHouseAssetType, type HousePtrTransaction } from "./house-pdf-parser.js";
 import type { FMPTrade } from "../types/index.js";
-import type { TradeSourceProvider } from "./trade-source.js";
+import type { TradeSourceProvider, FilingAmendment, PaperFiling } from "./trade-source.js";
+import type { AmendmentAudit } from "./trade-store.js";
 import { loadData, saveData } from "../utils/storage.js";
 
 // ── Constants ─────────────────────────────────────────────────────────────
@@ -23,6 +24,8 @@ const HOUSE_PTR_URL = (year: number, docId: string) =>
   `https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/${year}/${docId}.pdf`;
 const SENATE_HOME_URL = "https://efdsearch.senate.gov/search/home/";
 const SENATE_SEARCH_URL = "https://efdsearch.senate.gov/search/report/data/";
+const SENATE_PTR_URL = (guid: string) => `https://efdsearch.senate.gov/search/view/ptr/${guid}/`;
+const SENATE_PAPER_URL = (guid: string) => `https://efdsearch.senate.gov/search/view/paper/${guid}/`;
 
 const HOUSE_SEEN_FILE = "house-seen-docids.json";
 const SENATE_SEEN_FILE = "senate-seen-guids.json";
@@ -41,7 +44,15 @@ interface ChamberReport {
   ptrsSkipped: number;     // already seen
   ptrsErrored: number;
   tradesExtracted: number;
+  paperFilingsQueued: number; // unparseable filings queued for manual entry
   flagged: FlaggedItem[];
+  amendments: AmendmentAudit[];
+}
+
+function emptyChamberReport(): ChamberReport {
+  return {
+    ptrsProcessed: 0, ptrsSkipped: 0, ptrsErrored: 0, tradesExtracted: 0, paperFilingsQueued: 0, flagged: [], amendments: [],
+  };
 }
 
 interface FlaggedItem {
@@ -123,7 +134,8 @@ function toFMPTrade(
   lastName: string,
   chamber: "senate" | "house",
   ptrLink: string,
-  dateReceived?: string
+  dateReceived?: string,
+  office?: string
 ): FMPTrade {
   const amountRange = parseAmountRange(tx.amount);
   const amountStr = tx.amount ?? undefined;
@@ -131,7 +143,7 @@ function toFMPTrade(
   return {
     firstName,
     lastName,
-    office: undefined,
+    office,
     link: ptrLink,
     dateRecieved: dateReceived,
     transactionDate: tx.transactionDate
@@ -159,7 +171,7 @@ function reformatDate(d: string): string {
 // ╚══════════════════════════════════════════════════════════════════════════╝
 
 async function fetchHouseIndexDocIds(year: number, sinceDate: Date): Promise<
-  Array<{ docId: string; firstName: string; lastName: string; filingDate: string; year: number }>
+  Array<{ docId: string; firstName: string; lastName: string; stateDst: string; filingDate: string; year: number }>
 > {
   log("House", `Downloading ${year} filing index ZIP...`);
   const resp = await fetchWithUA(HOUSE_INDEX_URL(year));
@@ -177,9 +189,9 @@ async function fetchHouseIndexDocIds(year: number, sinceDate: Date): Promise<
     return [];
   }
 
-  // Parse XML: <Member><Last>..</Last><First>..</First><FilingType>P</FilingType><FilingDate>M/D/YYYY</FilingDate><DocID>N</DocID></Member>
+  // Parse XML: <Member><Last>..</Last><First>..</First><FilingType>P</FilingType><StateDst>CA11</StateDst><FilingDate>M/D/YYYY</FilingDate><DocID>N</DocID></Member>
   const members: Array<{
-    docId: string; firstName: string; lastName: string; filingDate: string; year: number;
+    docId: string; firstName: string; lastName: string; stateDst: string; filingDate: string; year: number;
   }> = [];
 
   const memberRe = /<Member>([\s\S]*?)<\/Member>/g;
@@ -202,6 +214,7 @@ async function fetchHouseIndexDocIds(year: number, sinceDate: Date): Promise<
       docId: getTag("DocID"),
       firstName: getTag("First"),
       lastName: getTag("Last"),
+      stateDst: getTag("StateDst"),
       filingDate,
       year,
     });
@@ -240,8 +253,9 @@ function extractXmlFromZip(zipBuf: Buffer): string | null {
 }
 
 async function processHousePtr(
-  entry: { docId: string; firstName: string; lastName: string; filingDate: string; year: number },
-  chamberReport: ChamberReport
+  entry: { docId: string; firstName: string; lastName: string; stateDst: string; filingDate: string; year: number },
+  chamberReport: ChamberReport,
+  amendments: FilingAmendment[]
 ): Promise<FMPTrade[]> {
   const ptrUrl = HOUSE_PTR_URL(entry.year, entry.docId);
   log("House", `Processing PTR ${entry.docId}: ${entry.lastName}, ${entry.firstName}`);
@@ -289,12 +303,20 @@ async function processHousePtr(
     : splitMemberName(parsed.memberName ?? `${entry.firstName} ${entry.lastName}`);
 
   const trades = parsed.transactions.map(tx =>
-    toFMPTrade(tx, firstName, lastName, "house", ptrUrl, entry.filingDate)
+    // StateDst ("CA11") lets the member resolver tell same-name members apart
+    toFMPTrade(tx, firstName, lastName, "house", ptrUrl, entry.filingDate, entry.stateDst || undefined)
   );
 
   chamberReport.ptrsProcessed++;
   chamberReport.tradesExtracted += trades.length;
 
+  if (parsed.isAmendment) {
+    log("House", "  📝 Amended filing — will replace the PTR it supersedes");
+    amendments.push({
+      chamber: "house", link: ptrUrl, docId: entry.docId, firstName, lastName, filingDate: entry.filingDate,
+    });
+  }
+
   const txSummary = trades
     .map(t => `${t.symbol || "???"} ${t.type || "?"} ${t.amount || "?"}`)
     .join(", ");
@@ -350,10 +372,19 @@ async function acceptSenatEfdTerms(): Promise<string | null> {
   return `${cookieHeader}; sessionid=${sessionCookie}`;
 }
 
+/** A PTR from the eFD search; paper filings are scanned images with no transaction table */
+interface SenatePtrEntry {
+  guid: string;
+  firstName: string;
+  lastName: string;
+  filedDate: string;
+  paper: boolean;
+}
+
 async function fetchSenatePtrGuids(
   cookie: string,
   sinceDate: Date
-): Promise<Array<{ guid: string; firstName: string; lastName: string; filedDate: string }>> {
+): Promise<SenatePtrEntry[]> {
   // The AJAX search API returns JSON with PTR (report type 11) filings, sorted
   // newest-first. It's paginated server-side (DataTables-style limit/offset),
   // so a single fixed-size page silently drops anything past it whenever more
@@ -361,7 +392,7 @@ async function fetchSenatePtrGuids(
   // a short page confirms we've reached the end (or an old-enough filing does).
   const pageSize = 200;
   const maxPages = 25; // 5,000 filings — far beyond any realistic window
-  const results: Array<{ guid: string; firstName: string; lastName: string; filedDate: string }> = [];
+  const results: SenatePtrEntry[] = [];
 
   for (let page = 0; page < maxPages; page++) {
     const offset = page * pageSize;
@@ -396,7 +427,7 @@ async function fetchSenatePtrGuids(
     for (const row of data) {
       const r = row as { first_name?: string; last_name?: string; filed_date?: string; link?: string[] };
       const link = r.link?.[0] || r.link?.[1] || "";
-      const guidM = link.match(/\/ptr\/([a-f0-9-]+)\//);
+      const guidM = link.match(/\/(ptr|paper)\/([a-f0-9-]+)\//);
       if (!guidM) continue;
 
       const filedDate = r.filed_date || "";
@@ -406,10 +437,11 @@ async function fetchSenatePtrGuids(
       }
 
       results.push({
-        guid: guidM[1],
+        guid: guidM[2],
         firstName: r.first_name || "",
         lastName: r.last_name || "",
         filedDate,
+        paper: guidM[1] === "paper",
       });
     }
 
@@ -422,6 +454,7 @@ async function fetchSenatePtrGuids(
 function parseSenatePtrPage(html: string): {
   memberName?: string;
   filingDate?: string;
+  isAmendment: boolean;
   transactions: Array<{
     transactionDate: string;
     owner: string;
@@ -443,6 +476,9 @@ function parseSenatePtrPage(html: string): {
   const filingM = html.match(/Filed (\d{2}\/\d{2}\/\d{4})/);
   const filingDate = filingM ? filingM[1] : undefined;
 
+  // Amended reports are titled "Periodic Transaction Report for MM/DD/YYYY (Amendment N)"
+  const isAmendment = /Periodic Transaction Report[^<]*?\(Amendment\b/i.test(html);
+
   // Strip tags for text parsing
   const text = html
     .replace(/<script[\s\S]*?<\/script>/gi, "")
@@ -462,7 +498,7 @@ function parseSenatePtrPage(html: string): {
   const txListStart = text.indexOf("List of transactions added to this report");
   if (txListStart < 0) {
     flags.push("No transaction list found in PTR page");
-    return { memberName, filingDate, transactions, flags };
+    return { memberName, filingDate, isAmendment, transactions, flags };
   }
 
   const txSection = text.slice(txListStart);
@@ -511,15 +547,43 @@ function parseSenatePtrPage(html: string): {
     flags.push("No transactions found in PTR page — review manually");
   }
 
-  return { memberName, filingDate, transactions, flags };
+  return { memberName, filingDate, isAmendment, transactions, flags };
+}
+
+/**
+ * Queue a Senate PTR with no parseable transactions for manual entry.
+ * Paper filings are only scanned page images, so they are queued unfetched.
+ */
+function queueSenatePaperFiling(
+  entry: SenatePtrEntry,
+  link: string,
+  reason: string,
+  chamberReport: ChamberReport,
+  paperFilings: PaperFiling[],
+  names: { firstName: string; lastName: string } = entry
+) {
+  log("Senate", `  📄 Queued for manual entry: ${reason}`);
+  chamberReport.paperFilingsQueued++;
+  chamberReport.flagged.push({ docId: entry.guid, member: `${names.firstName} ${names.lastName}`, issues: [reason] });
+  paperFilings.push({
+    chamber: "senate",
+    docId: entry.guid,
+    firstName: names.firstName,
+    lastName: names.lastName,
+    link,
+    filedDate: entry.filedDate || undefined,
+    reason,
+  });
 }
 
 async function processSenatePtr(
-  entry: { guid: string; firstName: string; lastName: string; filedDate: string },
+  entry: SenatePtrEntry,
   cookie: string,
-  chamberReport: ChamberReport
+  chamberReport: ChamberReport,
+  amendments: FilingAmendment[],
+  paperFilings: PaperFiling[]
 ): Promise<FMPTrade[]> {
-  const ptrUrl = `https://efdsearch.senate.gov/search/view/ptr/${entry.guid}/`;
+  const ptrUrl = SENATE_PTR_URL(entry.guid);
   log("Senate", `Processing PTR ${entry.guid}: ${entry.lastName}, ${entry.firstName}`);
 
   let html: string;
@@ -568,12 +632,23 @@ async function processSenatePtr(
   chamberReport.ptrsProcessed++;
   chamberReport.tradesExtracted += trades.length;
 
+  if (parsed.isAmendment) {
+    log("Senate", "  📝 Amended filing — will replace the PTR it supersedes");
+    amendments.push({
+      chamber: "senate", link: ptrUrl, docId: entry.guid, firstName, lastName,
+      filingDate: parsed.filingDate ?? entry.filedDate,
+    });
+  }
+
   const txSummary = trades
     .map(t => `${t.symbol || "???"} ${t.type || "?"} ${t.amount || "?"}`)
     .join(", ");
   log("Senate", `  ✅ ${trades.length} trade(s): ${txSummary.slice(0, 80)}`);
 
-  if (parsed.flags.length > 0) {
+  if (trades.length === 0) {
+    // Nothing to store until the filing is entered by hand (review:enter)
+    queueSenatePaperFiling(entry, ptrUrl, parsed.flags.join("; "), chamberReport, paperFilings, { firstName, lastName });
+  } else if (parsed.flags.length > 0) {
     log("Senate", `  ⚠️  Flags: ${parsed.flags.join("; ")}`);
     chamberReport.flagged.push({ docId: entry.guid, member: `${firstName} ${lastName}`, issues: parsed.flags });
   }
@@ -587,13 +662,51 @@ async function processSenatePtr(
 
 export class GovernmentProvider implements TradeSourceProvider {
   private lastRunReport: ScrapeRunReport | null = null;
+  private amendments: FilingAmendment[] = [];
+  private paperFilings: PaperFiling[] = [];
+  private startedChambers = new Set<"house" | "senate">();
 
   getName(): string { return "Government (House Clerk + Senate eFD)"; }
 
+  /**
+   * Start a chamber's section of the run report. Both chambers share one
+   * report per run; whichever chamber is fetched first starts it.
+   */
+  private startChamberReport(chamber: "house" | "senate"): ChamberReport {
+    if (!this.lastRunReport || this.startedChambers.has(chamber)) {
+      this.lastRunReport = { runAt: new Date().toISOString(), house: emptyChamberReport(), senate: emptyChamberReport() };
+      this.amendments = [];
+      this.paperFilings = [];
+      this.startedChambers.clear();
+    }
+    this.startedChambers.add(chamber);
+    return this.lastRunReport[chamber];
+  }
+
+  getAmendments(): FilingAmendment[] {
+    return this.amendments;
+  }
+
+  getPaperFilings(): PaperFiling[] {
+    return this.paperFilings;
+  }
+
+  recordAmendmentAudit(audits: AmendmentAudit[]): void {
+    if (!this.lastRunReport) return;
+    for (const audit of audits) {
+      this.lastRunReport[audit.chamber].amendments.push(audit);
+      if (!audit.supersededLink) {
+        this.lastRunReport[audit.chamber].flagged.push({
+          docId: audit.amendmentLink,
+          member: audit.member,
+          issues: ["Amended PTR did not match an earlier filing — stored as new trades"],
+        });
+      }
+    }
+  }
+
   async fetchSenateTrades(sinceDate: Date): Promise<FMPTrade[]> {
-    const chamberReport: ChamberReport = {
-      ptrsProcessed: 0, ptrsSkipped: 0, ptrsErrored: 0, tradesExtracted: 0, flagged: [],
-    };
+    const chamberReport = this.startChamberReport("senate");
 
     log("Senate", `Fetching trades since ${sinceDate.toISOString().split("T")[0]}`);
 
@@ -619,28 +732,28 @@ export class GovernmentProvider implements TradeSourceProvider {
     for (const entry of entries) {
       if (seen.has(entry.guid)) { chamberReport.ptrsSkipped++; continue; }
 
+      if (entry.paper) {
+        log("Senate", `Paper PTR ${entry.guid}: ${entry.lastName}, ${entry.firstName}`);
+        chamberReport.ptrsProcessed++;
+        queueSenatePaperFiling(entry, SENATE_PAPER_URL(entry.guid), "Paper filing (scanned images)", chamberReport, this.paperFilings);
+        seen.add(entry.guid);
+        continue;
+      }
+
       await new Promise(r => setTimeout(r, delay));
-      const entryTrades = await processSenatePtr(entry, cookie, chamberReport);
+      const entryTrades = await processSenatePtr(entry, cookie, chamberReport, this.amendments, this.paperFilings);
       trades.push(...entryTrades);
       seen.add(entry.guid);
     }
 
     await saveSeen(SENATE_SEEN_FILE, seen);
-    this.lastRunReport = { ...this.lastRunReport!, senate: chamberReport } as ScrapeRunReport;
 
     log("Senate", `Done: ${chamberReport.ptrsProcessed} processed, ${chamberReport.tradesExtracted} trades, ${chamberReport.flagged.length} flagged`);
     return trades;
   }
 
   async fetchHouseTrades(sinceDate: Date): Promise<FMPTrade[]> {
-    const chamberReport: ChamberReport = {
-      ptrsProcessed: 0, ptrsSkipped: 0, ptrsErrored: 0, tradesExtracted: 0, flagged: [],
-    };
-    this.lastRunReport = {
-      runAt: new Date().toISOString(),
-      house: chamberReport,
-      senate: { ptrsProcessed: 0, ptrsSkipped: 0, ptrsErrored: 0, tradesExtracted: 0, flagged: [] },
-    };
+    const chamberReport = this.startChamberReport("house");
 
     log("House", `Fetching trades since ${sinceDate.toISOString().split("T")[0]}`);
 
@@ -654,7 +767,7 @@ export class GovernmentProvider implements TradeSourceProvider {
       : [currentYear];
 
     const allEntries: Array<{
-      docId: string; firstName: string; lastName: string; filingDate: string; year: number;
+      docId: string; firstName: string; lastName: string; stateDst: string; filingDate: string; year: number;
     }> = [];
 
     for (const year of years) {
@@ -680,14 +793,13 @@ export class GovernmentProvider implements TradeSourceProvider {
       );
 
       await new Promise(r => setTimeout(r, 800)); // 800ms between PDF fetches
-      const entryTrades = await processHousePtr(entry, chamberReport);
+      const entryTrades = await processHousePtr(entry, chamberReport, this.amendments);
       trades.push(...entryTrades);
       seen.add(entry.docId);
     }
     process.stdout.write("\n");
 
     await saveSeen(HOUSE_SEEN_FILE, seen);
-    this.lastRunReport!.house = chamberReport;
 
     log("House", `Done: ${chamberReport.ptrsProcessed} processed, ${chamberReport.tradesExtracted} trades, ${chamberReport.flagged.length} flagged, ${chamberReport.ptrsErrored} errors`);
 
@@ -695,7 +807,7 @@ export class GovernmentProvider implements TradeSourceProvider {
   }
 
   /** Save and print the run report */
-  async saveRunReport(dataDir = "data"): Promise<string> {
+  async saveRunReport(): Promise<string> {
     if (!this.lastRunReport) return "";
     const report = this.lastRunReport;
     const filename = `scrape-report-${report.runAt.slice(0, 10)}.json`;
@@ -712,6 +824,9 @@ export class GovernmentProvider implements TradeSourceProvider {
       console.log(`  PTRs skipped (seen): ${r.ptrsSkipped}`);
       console.log(`  PTRs errored: ${r.ptrsErrored}`);
       console.log(`  Trades extracted: ${r.tradesExtracted}`);
+      if (r.paperFilingsQueued > 0) {
+        console.log(`  Queued for manual entry: ${r.paperFilingsQueued} (run review:list)`);
+      }
       if (r.flagged.length > 0) {
         console.log(`  Flagged for review (${r.flagged.length}):`);
         for (const f of r.flagged) {
@@ -720,6 +835,15 @@ export class GovernmentProvider implements TradeSourceProvider {
       } else {
         console.log("  No items flagged.");
       }
+      if (r.amendments.length > 0) {
+        console.log(`  Amended filings (${r.amendments.length}):`);
+        for (const a of r.amendments) {
+          const target = a.supersededLink ? `replaced ${a.supersededLink}` : "no earlier filing matched";
+          console.log(`    • ${a.member}: ${target} (${a.removed.length} removed, ${a.added.length} added, ${a.unchanged} unchanged)`);
+          for (const t of a.removed) console.log(`        - ${t}`);
+          for (const t of a.added) console.log(`        + ${t}`);
+        }
+      }
     }
 
     console.log("\n" + "═".repeat(60));
@@ -0,0 +1,209 @@
+/**
+ * Estimated Holdings Engine
+ *
+ * Replays each member's disclosed purchases and sales per owner and ticker to
+ * approximate what they hold. Disclosures give dollar ranges, not share
+ * counts, so a position is tracked as a low/mid/high estimate of the dollars
+ * put in: purchases add their range, partial sales subtract it (never below
+ * zero) and a full sale closes the position. Price changes aren't modeled.
+ *
+ * A sale with nothing recorded to sell was bought before the data starts (or
+ * the purchase wasn't disclosed), so it's flagged rather than counted.
+ * No external API calls - works entirely from stored trade data.
+ */
+
+import type { FMPTrade } from "../types/index.js";
+import { getTradeDirection, parseAmountRange } from "../utils/trades.js";
+
+export const HOLDING_OWNERS = ["Self", "Spouse", "Joint", "Dependent"] as const;
+
+export type HoldingOwner = (typeof HOLDING_OWNERS)[number];
+
+/** Dollar estimate: range bounds and the midpoint */
+export interface EstimatedValue {
+  low: number;
+  mid: number;
+  high: number;
+}
+
+export interface HoldingEvent {
+  date: string;
+  /** "sellAll" is a full sale, which closes the position */
+  action: "buy" | "sell" | "sellAll";
+  /** Disclosed amount of the transaction */
+  amount: EstimatedValue;
+  /** Estimated position after the transaction */
+  position: EstimatedValue;
+  /** Sale with no recorded purchase before it */
+  unmatched: boolean;
+  trade: FMPTrade;
+}
+
+export interface Holding {
+  /** Member key: bioguide ID, or chamber and filing name if unresolved */
+  memberKey: string;
+  member: string;
+  chamber: "senate" | "house";
+  bioguideId?: string;
+  owner: HoldingOwner;
+  symbol: string;
+  assetDescription?: string;
+  /** Estimated position after the last replayed transaction */
+  value: EstimatedValue;
+  /** First purchase of the current (or last) open period */
+  openedDate: string | null;
+  lastActivityDate: string;
+  isOpen: boolean;
+  /** Sales with no recorded purchase before them */
+  unmatchedSales: number;
+  events: HoldingEvent[];
+}
+
+export interface HoldingsQuery {
+  memberKey?: string;
+  /** Replay transactions on or before this date (YYYY-MM-DD); all when omitted */
+  asOf?: string;
+  /** Include positions that were sold down to zero */
+  includeClosed?: boolean;
+}
+
+interface PositionTrades {
+  memberKey: string;
+  chamber: "senate" | "house";
+  bioguideId?: string;
+  owner: HoldingOwner;
+  symbol: string;
+  trades: FMPTrade[];
+}
+
+const ZERO: EstimatedValue = { low: 0, mid: 0, high: 0 };
+
+/**
+ * Normalize a disclosed owner ("self", "SP", "JT", "Dependent Child", ...)
+ */
+export function getHoldingOwner(owner: string | null | undefined): HoldingOwner {
+  const o = (owner ?? "").trim().toLowerCase();
+  if (o === "sp" || o.includes("spouse")) return "Spouse";
+  if (o === "jt" || o.includes("joint")) return "Joint";
+  if (o === "dc" || o.includes("child") || o.includes("dependent")) return "Dependent";
+  return "Self";
+}
+
+/**
+ * Estimate a disclosed amount range ("$1,001 - $15,000") with its midpoint
+ */
+function getAmountEstimate(amount: string | null | undefined): EstimatedValue | null {
+  const range = parseAmountRange(amount);
+  return range ? { ...range, mid: Math.round((range.low + range.high) / 2) } : null;
+}
+
+function memberName(trade: FMPTrade): string {
+  return `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+}
+
+export class HoldingsEngine {
+  private positions = new Map<string, PositionTrades>();
+
+  constructor(trades: { trade: FMPTrade; chamber: "senate" | "house"; bioguideId?: string }[]) {
+    for (const { trade, chamber, bioguideId } of trades) {
+      if (!trade.symbol || !trade.transactionDate || !getTradeDirection(trade.type)) continue;
+
+      const memberKey = bioguideId ?? `${chamber}|${memberName(trade).toLowerCase()}`;
+      const owner = getHoldingOwner(trade.owner);
+      const symbol = trade.symbol.toUpperCase();
+      const key = `${memberKey}|${owner}|${symbol}`;
+      if (!this.positions.has(key)) {
+        this.positions.set(key, { memberKey, chamber, bioguideId, owner, symbol, trades: [] });
+      }
+      this.positions.get(key)!.trades.push(trade);
+    }
+  }
+
+  /**
+   * Estimated positions, largest first
+   */
+  getHoldings(query: HoldingsQuery = {}): Holding[] {
+    const holdings: Holding[] = [];
+    for (const position of this.positions.values()) {
+      if (query.memberKey && position.memberKey !== query.memberKey) continue;
+      const holding = replay(position, query.asOf);
+      if (!holding) continue;
+      if (!holding.isOpen && !query.includeClosed) continue;
+      holdings.push(holding);
+    }
+    return holdings.sort((a, b) => b.value.mid - a.value.mid || a.symbol.localeCompare(b.symbol));
+  }
+
+  /**
+   * Sales with no recorded purchase before them, latest first
+   */
+  getUnmatchedSales(query: Omit<HoldingsQuery, "includeClosed"> = {}): Array<HoldingEvent & { holding: Holding }> {
+    return this.getHoldings({ ...query, includeClosed: true })
+      .flatMap((holding) => holding.events.filter((e) => e.unmatched).map((e) => ({ ...e, holding })))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  }
+}
+
+/**
+ * Replay a position's transactions in date order (buys before sales on the
+ * same day, since a same-day round trip needs the purchase first)
+ */
+function replay(position: PositionTrades, asOf?: string): Holding | null {
+  const trades = position.trades
+    .filter((t) => !asOf || t.transactionDate! <= asOf)
+    .sort((a, b) =>
+      a.transactionDate!.localeCompare(b.transactionDate!) ||
+      (getTradeDirection(a.type) === "buy" ? 0 : 1) - (getTradeDirection(b.type) === "buy" ? 0 : 1)
+    );
+  if (trades.length === 0) return null;
+
+  let value = { ...ZERO };
+  // Tracked apart from the value so a purchase with no disclosed amount
+  // still opens the position
+  let held = false;
+  let openedDate: string | null = null;
+  const events: HoldingEvent[] = [];
+
+  for (const trade of trades) {
+    const parsed = getAmountEstimate(trade.amount);
+    const amount = parsed ?? { ...ZERO };
+    const date = trade.transactionDate!;
+
+    if (getTradeDirection(trade.type) === "buy") {
+      if (!held) openedDate = date;
+      held = true;
+      value = { low: value.low + amount.low, mid: value.mid + amount.mid, high: value.high + amount.high };
+      events.push({ date, action: "buy", amount, position: value, unmatched: false, trade });
+      continue;
+    }
+
+    const unmatched = !held;
+    const full = (trade.type ?? "").toLowerCase().includes("full");
+    value = full
+      ? { ...ZERO }
+      : {
+          low: Math.max(0, value.low - amount.high),
+          mid: Math.max(0, value.mid - amount.mid),
+          high: Math.max(0, value.high - amount.low),
+        };
+    if (full || (parsed && value.high === 0)) held = false;
+    events.push({ date, action: full ? "sellAll" : "sell", amount, position: value, unmatched, trade });
+  }
+
+  const latest = trades[trades.length - 1];
+  return {
+    memberKey: position.memberKey,
+    member: memberName(latest),
+    chamber: position.chamber,
+    bioguideId: position.bioguideId,
+    owner: position.owner,
+    symbol: position.symbol,
+    assetDescription: [...trades].reverse().find((t) => t.assetDescription)?.assetDescription,
+    value,
+    openedDate,
+    lastActivityDate: latest.transactionDate!,
+    isOpen: held,
+    unmatchedSales: events.filter((e) => e.unmatched).length,
+    events,
+  };
+}
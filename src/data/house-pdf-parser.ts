@@ -116,11 +116,16 @@ export interface ParsedPtr {
   memberName?: string;
   district?: string;
   filingId?: string;
+  /** True if the header marks this PTR as an amendment of an earlier filing */
+  isAmendment?: boolean;
   transactions: HousePtrTransaction[];
   /** Issues that warrant manual review */
   flags: string[];
 }
 
+// Header text marking an amended PTR ("Amendment", "Filing Status: Amended", "PTR Amendment")
+const AMENDMENT_HEADER_RE = /^(?:filing (?:status|type):?\s*)?(?:ptr\s+)?amend(?:ed|ment)\b/i;
+
 // ── RC4 ───────────────────────────────────────────────────────────────────
 function rc4(key: Buffer, data: Buffer): Buffer {
   const S = new Uint8Array(256);
@@ -606,5 +611,9 @@ export async function parseHousePtrPdf(pdfBytes: Buffer): Promise<ParsedPtr> {
     flags.push("No transactions parsed — review raw PDF manually");
   }
 
-  return { memberName, district, filingId, transactions, flags };
+  // Amendments re-report the original filing's transactions; the caller
+  // reconciles them against the filing they supersede
+  const isAmendment = blocks.some(({ text }) => AMENDMENT_HEADER_RE.test(text.trim()));
+
+  return { memberName, district, filingId, isAmendment, transactions, flags };
 }
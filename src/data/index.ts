@@ -8,7 +8,16 @@ export * from "./types.js";
 export * from "./fmp-provider.js";
 export * from "./edgar-provider.js";
 export * from "./trade-source.js";
+export * from "./fixture-provider.js";
 export * from "./government-provider.js";
 export * from "./pattern-analyzer.js";
+export * from "./compliance-analyzer.js";
 export * from "./sector-map.js";
 export * from "./committee-sector-taxonomy.js";
+export * from "./committee-activity-provider.js";
+export * from "./price-history-provider.js";
+export * from "./member-resolver.js";
+export * from "./committee-history.js";
+export * from "./holdings-engine.js";
+export * from "./asset-classifier.js";
+export * from "./symbol-resolver.js";
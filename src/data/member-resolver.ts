@@ -0,0 +1,372 @@
+/**
+ * Member Identity Resolver
+ *
+ * Maps the member names on filings to bioguide IDs. Filings spell names
+ * inconsistently ("Hon. Thomas H. Tuberville", "Tommy Tuberville", "Rudy
+ * Yakym III"), so matching uses every name variant in congress-legislators
+ * (first, middle, nickname, official full name), a table of common
+ * nicknames, initials, chamber, and state/district when the filing has one.
+ * Names that still can't be resolved are collected for review and can be
+ * pinned with manual overrides.
+ */
+
+import type { CommitteeMembershipResponse, FMPTrade, Legislator } from "../types/index.js";
+
+type Chamber = "senate" | "house";
+
+/** A manual mapping from a filing name to a bioguide ID */
+export interface MemberOverride {
+  firstName: string;
+  lastName: string;
+  /** Limit the override to one chamber */
+  chamber?: Chamber;
+  bioguide: string;
+}
+
+export type ResolutionMethod = "override" | "name" | "nickname" | "initial" | "district";
+
+export interface MemberResolution {
+  bioguide: string;
+  method: ResolutionMethod;
+}
+
+/** A filing name no legislator could be matched to */
+export interface UnresolvedMember {
+  chamber: Chamber | null;
+  firstName: string;
+  lastName: string;
+  office: string | null;
+  /** Trades seen under this name */
+  occurrences: number;
+  /** Bioguide IDs with a matching last name, for writing an override */
+  candidates: string[];
+}
+
+interface Identity {
+  bioguide: string;
+  firstNames: Set<string>;
+  lastNames: Set<string>;
+  chambers: Set<Chamber>;
+  /** Latest state and district per chamber, from legislator terms */
+  seats: { chamber: Chamber; state: string; district: number | null }[];
+}
+
+const TITLES = new Set(["hon", "honorable", "the", "dr", "mr", "mrs", "ms", "rep", "sen", "senator", "representative"]);
+const SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv", "v", "md", "phd"]);
+
+/** Common given-name nicknames, both directions are matched */
+const NICKNAMES: Record<string, string[]> = {
+  abraham: ["abe"],
+  albert: ["al"],
+  alexander: ["alex"],
+  alexandria: ["alex"],
+  andrew: ["andy", "drew"],
+  anthony: ["tony"],
+  benjamin: ["ben"],
+  bradley: ["brad"],
+  catherine: ["cathy", "kate", "katie"],
+  charles: ["chuck", "charlie", "chip"],
+  christopher: ["chris"],
+  daniel: ["dan", "danny"],
+  david: ["dave"],
+  deborah: ["debbie", "deb"],
+  donald: ["don"],
+  douglas: ["doug"],
+  edward: ["ed", "eddie", "ted"],
+  elizabeth: ["liz", "beth", "betsy", "libby"],
+  frederick: ["fred"],
+  gerald: ["jerry"],
+  gregory: ["greg"],
+  harold: ["hal"],
+  henry: ["hank"],
+  james: ["jim", "jimmy", "jamie"],
+  jeffrey: ["jeff"],
+  jennifer: ["jen", "jenny"],
+  john: ["jack", "johnny"],
+  jonathan: ["jon"],
+  joseph: ["joe"],
+  joshua: ["josh"],
+  katherine: ["kathy", "kate", "katie"],
+  kenneth: ["ken"],
+  kimberly: ["kim"],
+  lawrence: ["larry"],
+  margaret: ["maggie", "peggy"],
+  matthew: ["matt"],
+  michael: ["mike"],
+  mitchell: ["mitch"],
+  nicholas: ["nick"],
+  patricia: ["pat", "patty"],
+  patrick: ["pat"],
+  peter: ["pete"],
+  randolph: ["randy"],
+  raymond: ["ray"],
+  richard: ["rick", "dick", "rich"],
+  robert: ["bob", "bobby", "rob"],
+  ronald: ["ron"],
+  samuel: ["sam"],
+  stephen: ["steve"],
+  steven: ["steve"],
+  susan: ["sue"],
+  theodore: ["ted"],
+  thomas: ["tom", "tommy"],
+  timothy: ["tim"],
+  william: ["bill", "billy", "will"],
+};
+
+const NICKNAME_GROUPS = new Map<string, Set<string>>();
+for (const [name, nicknames] of Object.entries(NICKNAMES)) {
+  for (const variant of [name, ...nicknames]) {
+    const group = NICKNAME_GROUPS.get(variant) ?? new Set<string>();
+    group.add(name);
+    nicknames.forEach((n) => group.add(n));
+    NICKNAME_GROUPS.set(variant, group);
+  }
+}
+
+/** Lowercase, strip accents and punctuation, split into tokens */
+function tokenize(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, (nick) => ` ${nick.slice(1, -1)} `)
+    .replace(/["'’.,]/g, " ")
+    .split(/[\s-]+/)
+    .filter((t) => t.length > 0);
+}
+
+function stripTitles(tokens: string[]): string[] {
+  const start = tokens.findIndex((t) => !TITLES.has(t));
+  return start < 0 ? [] : tokens.slice(start);
+}
+
+function stripSuffixes(tokens: string[]): string[] {
+  const result = [...tokens];
+  while (result.length > 1 && SUFFIXES.has(result[result.length - 1])) {
+    result.pop();
+  }
+  return result;
+}
+
+function lastNameMatches(filingLast: string[], identityLast: string[]): boolean {
+  if (filingLast.length === 0 || identityLast.length === 0) return false;
+  if (filingLast.join("") === identityLast.join("")) return true;
+  // Compound surnames filed in part ("Schultz" for "Wasserman Schultz") or in full
+  return filingLast.every((t) => identityLast.includes(t)) || identityLast.every((t) => filingLast.includes(t));
+}
+
+/** Parse "CA11", "CA-11", "NY" or "TXAL" from a filing's office field */
+function parseOffice(office: string | null | undefined): { state: string; district: number | null } | null {
+  const match = (office ?? "").trim().toUpperCase().match(/^([A-Z]{2})(?:[-\s]?(\d{1,2}|AL))?$/);
+  if (!match) return null;
+  const district = match[2] && match[2] !== "AL" ? parseInt(match[2], 10) : match[2] === "AL" ? 0 : null;
+  return { state: match[1], district };
+}
+
+export class MemberResolver {
+  private identities: Identity[] = [];
+  private legislators = new Map<string, Legislator>();
+  private cache = new Map<string, MemberResolution | null>();
+  private unresolved = new Map<string, UnresolvedMember>();
+  private resolvedTrades = new WeakMap<FMPTrade, string | null>();
+
+  constructor(
+    legislators: Legislator[],
+    membership: CommitteeMembershipResponse = {},
+    private overrides: MemberOverride[] = []
+  ) {
+    const byId = new Map<string, Identity>();
+    const getIdentity = (bioguide: string) => {
+      if (!byId.has(bioguide)) {
+        byId.set(bioguide, { bioguide, firstNames: new Set(), lastNames: new Set(), chambers: new Set(), seats: [] });
+      }
+      return byId.get(bioguide)!;
+    };
+
+    for (const legislator of legislators) {
+      const identity = getIdentity(legislator.id.bioguide);
+      this.legislators.set(legislator.id.bioguide, legislator);
+      const { first, middle, nickname, last, official_full } = legislator.name;
+      for (const variant of [first, middle, nickname]) {
+        const tokens = tokenize(variant);
+        if (tokens[0]) identity.firstNames.add(tokens[0]);
+      }
+      identity.lastNames.add(tokenize(last).join(" "));
+
+      // "Thomas H. Tuberville" style official names add a first-name variant
+      const official = stripSuffixes(tokenize(official_full));
+      if (official.length > 1) identity.firstNames.add(official[0]);
+
+      for (const chamber of ["senate", "house"] as const) {
+        const terms = legislator.terms.filter((t) => (t.type === "sen") === (chamber === "senate"));
+        const latest = terms[terms.length - 1];
+        if (!latest) continue;
+        identity.chambers.add(chamber);
+        identity.seats.push({ chamber, state: latest.state, district: latest.district ?? null });
+      }
+    }
+
+    // Committee rosters cover members missing from legislator data
+    for (const [committeeId, members] of Object.entries(membership)) {
+      const chamber = committeeId.startsWith("S") ? "senate" : committeeId.startsWith("H") ? "house" : null;
+      for (const member of members) {
+        if (!member.bioguide) continue;
+        const tokens = stripSuffixes(stripTitles(tokenize(member.name)));
+        if (tokens.length < 2) continue;
+        const identity = getIdentity(member.bioguide);
+        identity.firstNames.add(tokens[0]);
+        if (identity.lastNames.size === 0) identity.lastNames.add(tokens[tokens.length - 1]);
+        if (chamber && !this.legislators.has(member.bioguide)) identity.chambers.add(chamber);
+      }
+    }
+
+    this.identities = [...byId.values()];
+  }
+
+  /**
+   * Resolve the member of a trade to a bioguide ID, or null if unresolved.
+   * Chamber is optional; without it both chambers are searched.
+   */
+  resolve(trade: FMPTrade, chamber?: Chamber): string | null {
+    // Each trade is counted once however often it's looked up
+    if (this.resolvedTrades.has(trade)) return this.resolvedTrades.get(trade)!;
+    const bioguide = this.resolveName(trade.firstName ?? "", trade.lastName ?? "", chamber, trade.office)?.bioguide ?? null;
+    this.resolvedTrades.set(trade, bioguide);
+    return bioguide;
+  }
+
+  /**
+   * Resolve a filing name, recording it as unresolved if no single
+   * legislator matches
+   */
+  resolveName(
+    firstName: string,
+    lastName: string,
+    chamber?: Chamber,
+    office?: string | null
+  ): MemberResolution | null {
+    const key = [chamber ?? "", firstName, lastName, office ?? ""].join("|").toLowerCase();
+    if (this.cache.has(key)) {
+      const cached = this.cache.get(key)!;
+      const unresolved = this.unresolved.get(key);
+      if (unresolved) unresolved.occurrences++;
+      return cached;
+    }
+
+    const { resolution, candidates } = this.match(firstName, lastName, chamber, office);
+    this.cache.set(key, resolution);
+    if (!resolution && (firstName || lastName)) {
+      this.unresolved.set(key, {
+        chamber: chamber ?? null,
+        firstName,
+        lastName,
+        office: office ?? null,
+        occurrences: 1,
+        candidates,
+      });
+    }
+    return resolution;
+  }
+
+  /** Legislator record for a bioguide ID */
+  getLegislator(bioguide: string): Legislator | undefined {
+    return this.legislators.get(bioguide);
+  }
+
+  /** Filing names that couldn't be resolved, most frequent first */
+  getUnresolved(): UnresolvedMember[] {
+    return [...this.unresolved.values()].sort(
+      (a, b) => b.occurrences - a.occurrences || a.lastName.localeCompare(b.lastName)
+    );
+  }
+
+  private match(
+    firstName: string,
+    lastName: string,
+    chamber: Chamber | undefined,
+    office: string | null | undefined
+  ): { resolution: MemberResolution | null; candidates: string[] } {
+    const firstTokens = stripTitles(tokenize(firstName));
+    const lastTokens = stripSuffixes(tokenize(lastName).filter((t) => !TITLES.has(t)));
+
+    const override = this.overrides.find(
+      (o) =>
+        (!o.chamber || !chamber || o.chamber === chamber) &&
+        tokenize(o.firstName).join(" ") === firstTokens.join(" ") &&
+        stripSuffixes(tokenize(o.lastName)).join(" ") === lastTokens.join(" ")
+    );
+    if (override) {
+      return { resolution: { bioguide: override.bioguide, method: "override" }, candidates: [] };
+    }
+
+    const candidates = this.identities.filter(
+      (identity) =>
+        (!chamber || identity.chambers.size === 0 || identity.chambers.has(chamber)) &&
+        [...identity.lastNames].some((last) => lastNameMatches(lastTokens, last.split(" ")))
+    );
+    const candidateIds = candidates.map((c) => c.bioguide);
+    if (candidates.length === 0) {
+      return { resolution: null, candidates: [] };
+    }
+
+    // Narrow by state/district when the filing has one
+    const seat = parseOffice(office);
+    const seated = seat
+      ? candidates.filter((c) =>
+          c.seats.some(
+            (s) =>
+              (!chamber || s.chamber === chamber) &&
+              s.state === seat.state &&
+              (seat.district === null || s.chamber === "senate" || s.district === seat.district)
+          )
+        )
+      : candidates;
+
+    const ranked = seated
+      .map((identity) => ({ identity, level: firstNameLevel(firstTokens, identity.firstNames) }))
+      .filter((r) => r.level > 0)
+      .sort((a, b) => b.level - a.level);
+
+    if (ranked.length > 0 && (ranked.length === 1 || ranked[0].level > ranked[1].level)) {
+      const method: ResolutionMethod = ranked[0].level === 3 ? "name" : ranked[0].level === 2 ? "nickname" : "initial";
+      return { resolution: { bioguide: ranked[0].identity.bioguide, method }, candidates: candidateIds };
+    }
+
+    // A filing seat that leaves one same-surname member is enough on its own
+    if (seat && ranked.length === 0 && seated.length === 1) {
+      return { resolution: { bioguide: seated[0].bioguide, method: "district" }, candidates: candidateIds };
+    }
+
+    return { resolution: null, candidates: candidateIds };
+  }
+}
+
+/**
+ * How well filing given names match an identity: 3 exact variant,
+ * 2 nickname, 1 initial, 0 none. Any given-name token can match, so
+ * "A. Mitchell" matches a member who goes by their middle name.
+ */
+function firstNameLevel(filingTokens: string[], firstNames: Set<string>): number {
+  let best = 0;
+  for (const token of filingTokens) {
+    if (SUFFIXES.has(token)) continue;
+    if (token.length === 1) {
+      if ([...firstNames].some((name) => name.startsWith(token))) best = Math.max(best, 1);
+      continue;
+    }
+    if (firstNames.has(token)) return 3;
+    const group = NICKNAME_GROUPS.get(token);
+    if (group && [...firstNames].some((name) => group.has(name))) best = Math.max(best, 2);
+  }
+  return best;
+}
+
+/**
+ * Create a resolver from committee data (legislators plus committee rosters)
+ */
+export function createMemberResolver(
+  committeeData: { legislators?: Legislator[]; membership: CommitteeMembershipResponse } | null,
+  overrides: MemberOverride[] = []
+): MemberResolver {
+  return new MemberResolver(committeeData?.legislators ?? [], committeeData?.membership ?? {}, overrides);
+}
@@ -0,0 +1,84 @@
+/**
+ * Option Contract Parser
+ *
+ * Extracts call/put, strike, expiration and contract count from the free-text
+ * asset descriptions of option transactions. House PTRs (asset type "OP")
+ * describe the contract in prose ("Purchased 20 call options with a strike
+ * price of $150 and an expiration date of 1/17/2025"); Senate eFD "Stock
+ * Option" rows use labeled fields ("Option Type: Call Strike price: $150.00
+ * Expires: 01/17/2025").
+ */
+
+import type { OptionDetails } from "../scoring/types.js";
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const DATE_PATTERN = String.raw`\d{1,2}\/\d{1,2}\/\d{2,4}|\d{4}-\d{2}-\d{2}|[A-Z][a-z]{2,8}\.? \d{1,2},? \d{4}`;
+
+const KIND_RE = /\b(call|put)s?\b/i;
+const STRIKE_RE = /strike(?:\s+price)?(?:\s+of)?\s*:?\s*\$?\s*([\d,]+(?:\.\d+)?)/i;
+// "$150 call" or compact broker style "150.00 C" (a bare "20 call" is a contract count)
+const STRIKE_BEFORE_KIND_RE = /(?:\$\s*([\d,]+(?:\.\d+)?)|\b(\d+\.\d+))\s*(?:calls?|puts?|c|p)\b/i;
+const EXPIRATION_RE = new RegExp(
+  String.raw`(?:expir(?:es|ation|ing|y)(?:\s+date)?(?:\s+of)?|exp\.?)\s*:?\s*(${DATE_PATTERN})`,
+  "i"
+);
+const ANY_DATE_RE = new RegExp(`(${DATE_PATTERN})`);
+const CONTRACTS_RE = /(?<![$\d.,])([\d,]+)\s+(?:(?:call|put)\s+)?(?:option\s+)?(?:contracts?|options?|calls?|puts?)\b/i;
+
+/** Normalize "1/17/25", "01/17/2025", "2025-01-17" or "Jan 17, 2025" to YYYY-MM-DD */
+function normalizeDate(raw: string): string | null {
+  const us = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+
+  const named = raw.match(/^([A-Z][a-z]{2,8})\.? (\d{1,2}),? (\d{4})$/);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase());
+    if (month < 0) return null;
+    return `${named[3]}-${String(month + 1).padStart(2, "0")}-${named[2].padStart(2, "0")}`;
+  }
+  return null;
+}
+
+function parseNumber(raw: string): number | null {
+  const value = parseFloat(raw.replace(/,/g, ""));
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Parse option contract details from an asset description.
+ * Returns null if the trade isn't an option or nothing could be extracted.
+ */
+export function parseOptionDetails(
+  assetDescription: string | null | undefined,
+  assetType?: string | null
+): OptionDetails | null {
+  const text = (assetDescription || "").replace(/\s+/g, " ").trim();
+  const isOptionType = (assetType || "").toLowerCase().includes("option");
+  if (!text || (!isOptionType && !/\b(?:call|put)\s+options?\b/i.test(text))) {
+    return null;
+  }
+
+  const kindMatch = text.match(KIND_RE);
+  const kind = kindMatch ? (kindMatch[1].toLowerCase() as OptionDetails["kind"]) : null;
+
+  const strikeMatch = text.match(STRIKE_RE) ?? text.match(STRIKE_BEFORE_KIND_RE);
+  const strikeText = strikeMatch?.slice(1).find((group) => group !== undefined);
+  const strike = strikeText ? parseNumber(strikeText) : null;
+
+  const expirationMatch = text.match(EXPIRATION_RE) ?? text.match(ANY_DATE_RE);
+  const expiration = expirationMatch ? normalizeDate(expirationMatch[1]) : null;
+
+  const contractsMatch = text.match(CONTRACTS_RE);
+  const contracts = contractsMatch ? parseNumber(contractsMatch[1]) : null;
+
+  if (!kind && strike === null && !expiration) {
+    return null;
+  }
+
+  return { kind, strike, expiration, contracts };
+}
@@ -1,91 +1,205 @@
 /**
  * Congressional Trading Pattern Analyzer
  *
- * Analyzes trading patterns from congressional trade data.
+ * Analyzes trading patterns from congressional trade data, including
+ * clusters of different members trading the same stock in a short window.
+ * Patterns can also be taken as of a date, from only the trades disclosed by
+ * then, so backtests don't score trades with information from the future.
  * No external API calls - works entirely from cached trade data.
  */
 
-import type { CongressionalTradingPattern } from "../scoring/types.js";
+import type {
+  CongressionalTradingPattern,
+  ClusterMember,
+  TradingCluster,
+} from "../scoring/types.js";
+import { DEFAULT_SCORING_CONFIG } from "../scoring/types.js";
+import { getTradeDirection } from "../utils/trades.js";
 import type { TradingPatternAnalyzer } from "./types.js";
+import { toIsoDate } from "../utils/dates.js";
 import type { FMPTrade } from "../types/index.js";
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Trades within this many days of the reference date count as recent */
+const RECENT_DAYS = 90;
+
+/**
+ * Date a trade became public: its filing's received date, or the transaction
+ * date when the filing date is unknown
+ */
+export function getDisclosureDate(trade: FMPTrade): string | null {
+  return toIsoDate(trade.dateRecieved) ?? toIsoDate(trade.transactionDate);
+}
+
+export interface PatternAnalyzerOptions {
+  /** Max days between the first and last trade of a cluster */
+  clusterWindowDays?: number;
+  /** Distinct members needed to form a cluster */
+  minClusterMembers?: number;
+  /** Party and committees of a trade's member, for cluster composition */
+  resolveMember?: (trade: FMPTrade) => { bioguideId?: string; party?: string; committees: string[] } | null;
+  /** Stable ID of a trade's member; defaults to the filing name */
+  getTraderId?: (trade: FMPTrade) => string;
+  /** Ticker of a trade, including resolved ones; defaults to the filed symbol */
+  getSymbol?: (trade: FMPTrade) => string | null;
+}
+
 export class CongressionalPatternAnalyzer implements TradingPatternAnalyzer {
+  private symbolTrades = new Map<string, FMPTrade[]>();
   private patterns = new Map<string, CongressionalTradingPattern>();
+  private clusters: TradingCluster[] = [];
+  /** Point-in-time patterns, keyed by symbol and as-of date */
+  private patternsAsOf = new Map<string, CongressionalTradingPattern>();
 
   /**
    * Build patterns from trade data
    */
-  constructor(allTrades: FMPTrade[]) {
+  constructor(allTrades: FMPTrade[], private options: PatternAnalyzerOptions = {}) {
     this.buildPatterns(allTrades);
   }
 
   private buildPatterns(trades: FMPTrade[]): void {
     // Group trades by symbol
-    const symbolTrades = new Map<string, FMPTrade[]>();
-
     for (const trade of trades) {
-      if (!trade.symbol) continue;
+      const filed = this.options.getSymbol ? this.options.getSymbol(trade) : trade.symbol;
+      if (!filed) continue;
 
-      const symbol = trade.symbol.toUpperCase();
-      if (!symbolTrades.has(symbol)) {
-        symbolTrades.set(symbol, []);
+      const symbol = filed.toUpperCase();
+      if (!this.symbolTrades.has(symbol)) {
+        this.symbolTrades.set(symbol, []);
       }
-      symbolTrades.get(symbol)!.push(trade);
+      this.symbolTrades.get(symbol)!.push(trade);
     }
 
     // Calculate patterns
     const now = new Date();
-    const ninetyDaysAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-
-    for (const [symbol, symbolTradeList] of symbolTrades) {
-      // Count unique traders
-      const traders = new Set<string>();
-      let recentTrades = 0;
-
-      for (const trade of symbolTradeList) {
-        const traderId = `${trade.firstName}-${trade.lastName}`.toLowerCase();
-        traders.add(traderId);
-
-        // Count recent trades
-        if (trade.transactionDate) {
-          const tradeDate = new Date(trade.transactionDate);
-          if (tradeDate >= ninetyDaysAgo) {
-            recentTrades++;
-          }
+    for (const [symbol, symbolTradeList] of this.symbolTrades) {
+      const pattern = this.buildPattern(symbol, symbolTradeList, now);
+      this.clusters.push(...(pattern.clusters ?? []));
+      this.patterns.set(symbol, pattern);
+    }
+  }
+
+  private buildPattern(symbol: string, trades: FMPTrade[], referenceDate: Date): CongressionalTradingPattern {
+    const recentSince = new Date(referenceDate.getTime() - RECENT_DAYS * MS_PER_DAY);
+
+    // Count unique traders
+    const traders = new Set<string>();
+    let recentTrades = 0;
+
+    for (const trade of trades) {
+      traders.add(this.getTraderId(trade));
+
+      // Count recent trades
+      if (trade.transactionDate) {
+        const tradeDate = new Date(trade.transactionDate);
+        if (tradeDate >= recentSince && tradeDate <= referenceDate) {
+          recentTrades++;
+        }
+      }
+    }
+
+    return {
+      symbol,
+      totalTrades: trades.length,
+      uniqueTraders: traders.size,
+      recentTrades,
+      clusters: this.findClusters(symbol, trades),
+    };
+  }
+
+  /**
+   * Find bursts of different members trading a symbol in the same direction.
+   * Each cluster starts at the earliest unclustered trade and takes every
+   * trade within the window after it; it counts if enough members took part.
+   */
+  private findClusters(symbol: string, trades: FMPTrade[]): TradingCluster[] {
+    const windowDays = this.options.clusterWindowDays ?? DEFAULT_SCORING_CONFIG.cluster.windowDays;
+    const minMembers = this.options.minClusterMembers ?? DEFAULT_SCORING_CONFIG.cluster.minMembers;
+    const clusters: TradingCluster[] = [];
+
+    for (const direction of ["buy", "sell"] as const) {
+      const dated = trades
+        .filter((t) => getTradeDirection(t.type) === direction && t.transactionDate)
+        .map((t) => ({ trade: t, time: new Date(t.transactionDate!).getTime() }))
+        .filter((t) => !isNaN(t.time))
+        .sort((a, b) => a.time - b.time);
+
+      let start = 0;
+      while (start < dated.length) {
+        let end = start;
+        while (end + 1 < dated.length && dated[end + 1].time - dated[start].time <= windowDays * MS_PER_DAY) {
+          end++;
+        }
+
+        const window = dated.slice(start, end + 1).map((d) => d.trade);
+        const members = this.getClusterMembers(window);
+        if (members.length >= minMembers) {
+          clusters.push(buildCluster(symbol, direction, window, members));
+          start = end + 1;
+        } else {
+          start++;
         }
       }
+    }
+
+    return clusters;
+  }
+
+  private getTraderId(trade: FMPTrade): string {
+    return this.options.getTraderId?.(trade) ?? `${trade.firstName}-${trade.lastName}`.toLowerCase();
+  }
+
+  private getClusterMembers(trades: FMPTrade[]): ClusterMember[] {
+    const members = new Map<string, ClusterMember>();
+    for (const trade of trades) {
+      const traderId = this.getTraderId(trade);
+      if (members.has(traderId)) continue;
 
-      this.patterns.set(symbol, {
-        symbol,
-        totalTrades: symbolTradeList.length,
-        uniqueTraders: traders.size,
-        recentTrades,
+      const info = this.options.resolveMember?.(trade) ?? null;
+      members.set(traderId, {
+        firstName: trade.firstName || "",
+        lastName: trade.lastName || "",
+        bioguideId: info?.bioguideId,
+        party: info?.party,
+        committees: info?.committees ?? [],
       });
     }
+    return [...members.values()];
   }
 
   /**
-   * Get pattern for a single symbol
+   * Get pattern for a single symbol, optionally as of a date (YYYY-MM-DD):
+   * only trades disclosed on or before it are counted or clustered
    */
-  getPattern(symbol: string): CongressionalTradingPattern {
+  getPattern(symbol: string, asOf?: string): CongressionalTradingPattern {
     const upper = symbol.toUpperCase();
-    return (
-      this.patterns.get(upper) || {
-        symbol: upper,
-        totalTrades: 0,
-        uniqueTraders: 0,
-        recentTrades: 0,
-      }
-    );
+    const empty = { symbol: upper, totalTrades: 0, uniqueTraders: 0, recentTrades: 0 };
+    if (!asOf) {
+      return this.patterns.get(upper) || empty;
+    }
+
+    const key = `${upper}|${asOf}`;
+    let pattern = this.patternsAsOf.get(key);
+    if (!pattern) {
+      const disclosed = (this.symbolTrades.get(upper) ?? []).filter((t) => {
+        const disclosedOn = getDisclosureDate(t);
+        return disclosedOn !== null && disclosedOn <= asOf;
+      });
+      pattern = disclosed.length > 0 ? this.buildPattern(upper, disclosed, new Date(asOf)) : empty;
+      this.patternsAsOf.set(key, pattern);
+    }
+    return pattern;
   }
 
   /**
    * Get patterns for multiple symbols
    */
-  getPatternsBatch(symbols: string[]): Map<string, CongressionalTradingPattern> {
+  getPatternsBatch(symbols: string[], asOf?: string): Map<string, CongressionalTradingPattern> {
     const results = new Map<string, CongressionalTradingPattern>();
     for (const symbol of symbols) {
-      results.set(symbol, this.getPattern(symbol));
+      results.set(symbol, this.getPattern(symbol, asOf));
     }
     return results;
   }
@@ -121,6 +235,15 @@ export class CongressionalPatternAnalyzer implements TradingPatternAnalyzer {
     };
   }
 
+  /**
+   * All detected clusters, most recent first
+   */
+  getClusters(): TradingCluster[] {
+    return [...this.clusters].sort(
+      (a, b) => b.endDate.localeCompare(a.endDate) || b.members.length - a.members.length
+    );
+  }
+
   /**
    * Get the rarest symbols (traded least frequently)
    */
@@ -130,3 +253,32 @@ export class CongressionalPatternAnalyzer implements TradingPatternAnalyzer {
       .slice(0, limit);
   }
 }
+
+function buildCluster(
+  symbol: string,
+  direction: TradingCluster["direction"],
+  trades: FMPTrade[],
+  members: ClusterMember[]
+): TradingCluster {
+  const dates = trades.map((t) => t.transactionDate!).sort();
+  const parties = [...new Set(members.map((m) => m.party).filter((p): p is string => !!p))];
+
+  const committeeCounts = new Map<string, number>();
+  for (const member of members) {
+    for (const committeeId of new Set(member.committees)) {
+      committeeCounts.set(committeeId, (committeeCounts.get(committeeId) ?? 0) + 1);
+    }
+  }
+
+  return {
+    symbol,
+    direction,
+    startDate: dates[0],
+    endDate: dates[dates.length - 1],
+    members,
+    tradeCount: trades.length,
+    parties,
+    isCrossParty: parties.length > 1,
+    sharedCommittees: [...committeeCounts].filter(([, n]) => n >= 2).map(([id]) => id),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * File-based Price History Provider
+ *
+ * Loads daily closing prices from a local directory with one file per symbol:
+ *   data/prices/INTC.csv   - CSV with a header row containing "Date" and "Close"
+ *                            (or "Adj Close", preferred when present), as exported
+ *                            by Yahoo Finance, Stooq, etc.
+ *   data/prices/SPY.json   - [{ "date": "2026-01-02", "close": 590.12 }, ...]
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import type { PriceHistoryProvider, PricePoint } from "./types.js";
+import { getDataFilePath } from "../utils/storage.js";
+
+export const PRICES_DIR = "prices";
+
+const PricePointSchema = z.object({
+  date: z.string(),
+  close: z.number(),
+});
+
+/**
+ * Parse a price CSV into price points sorted by date ascending.
+ * Rows with a missing or non-numeric close (e.g. "null" on holidays) are skipped.
+ */
+export function parsePriceCsv(content: string): PricePoint[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const dateIdx = header.indexOf("date");
+  const adjCloseIdx = header.findIndex((h) => h === "adj close" || h === "adj_close" || h === "adjclose");
+  const closeIdx = adjCloseIdx >= 0 ? adjCloseIdx : header.indexOf("close");
+
+  if (dateIdx < 0 || closeIdx < 0) {
+    throw new Error(`Price CSV must have "Date" and "Close" columns (found: ${header.join(", ")})`);
+  }
+
+  const points: PricePoint[] = [];
+  for (const line of lines.slice(1)) {
+    const cols = line.split(",");
+    const date = (cols[dateIdx] || "").trim().slice(0, 10);
+    const close = parseFloat(cols[closeIdx] || "");
+    if (date && !isNaN(close)) {
+      points.push({ date, close });
+    }
+  }
+
+  return points.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parse price JSON (array, or wrapped as { fetchedAt, data: [...] }) into price points
+ */
+export function parsePriceJson(raw: unknown): PricePoint[] {
+  const content =
+    raw && typeof raw === "object" && !Array.isArray(raw) && "data" in raw
+      ? (raw as { data: unknown }).data
+      : raw;
+
+  return z
+    .array(PricePointSchema)
+    .parse(content)
+    .map((p) => ({ date: p.date.slice(0, 10), close: p.close }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Last close on or before a date (the previous trading day for weekends/holidays)
+ */
+export function closeOnOrBefore(history: PricePoint[], date: string): PricePoint | null {
+  let found: PricePoint | null = null;
+  for (const point of history) {
+    if (point.date > date) break;
+    found = point;
+  }
+  return found;
+}
+
+export class FilePriceHistoryProvider implements PriceHistoryProvider {
+  private dir: string;
+  private cache: Map<string, PricePoint[] | null> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  getName(): string {
+    return `price files (${this.dir})`;
+  }
+
+  async getPriceHistory(symbol: string): Promise<PricePoint[] | null> {
+    const key = symbol.toUpperCase();
+    if (this.cache.has(key)) {
+      return this.cache.get(key)!;
+    }
+
+    const history = await this.loadHistory(key);
+    this.cache.set(key, history);
+    return history;
+  }
+
+  private async loadHistory(symbol: string): Promise<PricePoint[] | null> {
+    try {
+      const csv = await fs.readFile(path.join(this.dir, `${symbol}.csv`), "utf-8");
+      return parsePriceCsv(csv);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    try {
+      const json = await fs.readFile(path.join(this.dir, `${symbol}.json`), "utf-8");
+      return parsePriceJson(JSON.parse(json));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Create a price history provider.
+ * Uses the given directory, or data/prices by default.
+ */
+export async function createPriceHistoryProvider(dir?: string): Promise<PriceHistoryProvider> {
+  return new FilePriceHistoryProvider(dir ?? (await getDataFilePath(PRICES_DIR)));
+}
@@ -9,6 +9,8 @@ import type { CommitteeSectorMap } from "../scoring/types.js";
 import {
   getCommitteeSectors,
   getCommitteeIndustries,
+  getCommitteeName,
+  getParentCommittee,
   hasCommitteeOverlap,
 } from "./committee-sector-taxonomy.js";
 
@@ -21,6 +23,14 @@ export class CommitteeSectorMapImpl implements CommitteeSectorMap {
     return getCommitteeIndustries(committeeId);
   }
 
+  getCommitteeName(committeeId: string): string | null {
+    return getCommitteeName(committeeId);
+  }
+
+  getParentCommittee(committeeId: string): string | null {
+    return getParentCommittee(committeeId);
+  }
+
   hasOverlap(
     committeeId: string,
     sector: string | null,
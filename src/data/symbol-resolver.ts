@@ -0,0 +1,282 @@
+/**
+ * Ticker Symbol Resolver
+ *
+ * Fills in the ticker for trades filed without one. Many PTR rows only carry
+ * an asset description ("Apple Inc. - Common Stock", "Berkshire Hathaway Inc.
+ * Class B"), which leaves market cap and rarity unscored. Descriptions are
+ * matched against EDGAR company names (company_tickers.json) after stripping
+ * security-type words, share classes and corporate suffixes, falling back to
+ * fuzzy matching within companies that share the first name token.
+ *
+ * Every resolution carries its source and a 0-1 confidence; matches below the
+ * resolver's minimum confidence are left unresolved and reported with their
+ * candidate. Descriptions that resolve wrongly or not at all can be pinned
+ * with manual corrections.
+ */
+
+import type { FMPTrade } from "../types/index.js";
+
+/** An EDGAR company_tickers.json entry */
+export interface CompanyTicker {
+  ticker: string;
+  cik: number;
+  title: string;
+}
+
+/** A manual mapping from an asset description to a ticker */
+export interface SymbolCorrection {
+  assetDescription: string;
+  /** null marks the asset as having no ticker (bonds, private funds, ...) */
+  symbol: string | null;
+}
+
+export type SymbolSource = "correction" | "description" | "name" | "fuzzy";
+
+export interface SymbolResolution {
+  symbol: string;
+  source: SymbolSource;
+  /** 1 for manual corrections; lower for ambiguous and fuzzy name matches */
+  confidence: number;
+  /** EDGAR company name matched, for name and fuzzy matches */
+  matchedName?: string;
+}
+
+/** An asset description no ticker could be matched to */
+export interface UnresolvedSymbol {
+  assetDescription: string;
+  assetType: string | null;
+  /** Trades seen with this description */
+  occurrences: number;
+  /** Best match, left out for falling below the minimum confidence */
+  candidate?: SymbolResolution;
+}
+
+/** Fuzzy matches below this similarity are rejected */
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+
+/** Security-type words that follow the company name in descriptions */
+const SECURITY_WORDS = new Set([
+  "common", "stock", "stocks", "shares", "share", "ordinary", "ord", "com", "cmn", "cs",
+  "adr", "ads", "sponsored", "depositary", "depository", "receipts",
+  "call", "put", "option", "options", "units", "unit",
+]);
+
+/** Corporate-form words, dropped from both descriptions and EDGAR names */
+const CORPORATE_SUFFIXES = new Set([
+  "inc", "incorporated", "corp", "corporation", "co", "company", "ltd", "limited",
+  "plc", "llc", "lp", "ag", "sa", "nv", "se", "the", "holdings", "holding", "group",
+]);
+
+/** Descriptions of assets that have no exchange ticker */
+const NON_EQUITY = /\b(treasury|t-bill|municipal|bonds?|notes? due|certificate of deposit|money market|cusip|mortgage|annuity|529)\b/i;
+
+/** Lowercase, strip accents and punctuation, split into tokens */
+function tokenize(value: string): string[] {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 0);
+}
+
+/**
+ * Share class named in a description: "Class B", "Cl A", "Series C"
+ */
+export function getShareClass(description: string): string | null {
+  const match = description.match(/\b(?:class|cl|series)\s+([A-Z])\b/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Normalize a company name or asset description for matching:
+ * "Apple Inc. - Common Stock" → "apple", "Berkshire Hathaway Inc. Class B" → "berkshire hathaway"
+ */
+export function normalizeCompanyName(value: string): string {
+  // Security details usually follow " - " or a comma
+  const name = value.split(/\s+-\s+|,\s*(?=(?:common|class|cl|series|ordinary|ads?r?|sponsored)\b)/i)[0];
+  // "American" is only a security word in "American Depositary Shares/Receipts"
+  const tokens = tokenize(
+    name
+      .replace(/\([^)]*\)/g, " ")
+      .replace(/\b(?:class|cl|series)\s+[a-z]\b/gi, " ")
+      .replace(/\bamerican\s+deposit[ao]ry\b/gi, " ")
+  );
+  return tokens.filter((t) => !SECURITY_WORDS.has(t) && !CORPORATE_SUFFIXES.has(t)).join(" ");
+}
+
+/** Dice coefficient over character bigrams */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) ?? 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+export class SymbolResolver {
+  private tickers = new Set<string>();
+  /** Normalized name → companies, in EDGAR order (largest first) */
+  private byName = new Map<string, CompanyTicker[]>();
+  /** First name token → normalized names, for fuzzy matching */
+  private byFirstToken = new Map<string, string[]>();
+  private corrections = new Map<string, string | null>();
+  private cache = new Map<string, SymbolResolution | null>();
+  private unresolved = new Map<string, UnresolvedSymbol>();
+  private resolvedTrades = new WeakMap<FMPTrade, SymbolResolution | null>();
+
+  constructor(
+    companies: CompanyTicker[],
+    corrections: SymbolCorrection[] = [],
+    private minConfidence = 0
+  ) {
+    for (const company of companies) {
+      this.tickers.add(company.ticker.toUpperCase());
+      const name = normalizeCompanyName(company.title);
+      if (!name) continue;
+      if (!this.byName.has(name)) {
+        this.byName.set(name, []);
+        const first = name.split(" ")[0];
+        if (!this.byFirstToken.has(first)) this.byFirstToken.set(first, []);
+        this.byFirstToken.get(first)!.push(name);
+      }
+      this.byName.get(name)!.push(company);
+    }
+    for (const correction of corrections) {
+      this.corrections.set(correction.assetDescription.trim().toLowerCase(), correction.symbol?.toUpperCase() ?? null);
+    }
+  }
+
+  /**
+   * Resolve the ticker of a trade filed without one, or null if the trade
+   * already has a ticker or none could be matched with enough confidence
+   */
+  resolve(trade: FMPTrade): SymbolResolution | null {
+    if (trade.symbol) return null;
+    // Each trade is counted once however often it's looked up
+    if (this.resolvedTrades.has(trade)) return this.resolvedTrades.get(trade)!;
+    const resolution = trade.assetDescription
+      ? this.resolveDescription(trade.assetDescription, trade.assetType)
+      : null;
+    this.resolvedTrades.set(trade, resolution);
+    return resolution;
+  }
+
+  /**
+   * The trade's filed ticker, or the resolved one
+   */
+  getSymbol(trade: FMPTrade): string | null {
+    return trade.symbol || this.resolve(trade)?.symbol || null;
+  }
+
+  /**
+   * Resolve an asset description, recording it as unresolved if nothing
+   * matches or the match falls below the minimum confidence
+   */
+  resolveDescription(description: string, assetType?: string | null): SymbolResolution | null {
+    const key = description.trim().toLowerCase();
+    if (this.cache.has(key)) {
+      const unresolved = this.unresolved.get(key);
+      if (unresolved) unresolved.occurrences++;
+      return this.cache.get(key)!;
+    }
+
+    const match = this.match(description, assetType);
+    if (match && match.confidence < this.minConfidence) {
+      this.cache.set(key, null);
+      this.unresolved.set(key, { assetDescription: description.trim(), assetType: assetType ?? null, occurrences: 1, candidate: match });
+      return null;
+    }
+
+    this.cache.set(key, match);
+    if (!match && !this.corrections.has(key) && !NON_EQUITY.test(`${description} ${assetType ?? ""}`)) {
+      this.unresolved.set(key, { assetDescription: description.trim(), assetType: assetType ?? null, occurrences: 1 });
+    }
+    return match;
+  }
+
+  /** Descriptions that couldn't be resolved, most frequent first */
+  getUnresolved(): UnresolvedSymbol[] {
+    return [...this.unresolved.values()].sort(
+      (a, b) => b.occurrences - a.occurrences || a.assetDescription.localeCompare(b.assetDescription)
+    );
+  }
+
+  private match(description: string, assetType: string | null | undefined): SymbolResolution | null {
+    const key = description.trim().toLowerCase();
+    if (this.corrections.has(key)) {
+      const symbol = this.corrections.get(key)!;
+      return symbol ? { symbol, source: "correction", confidence: 1 } : null;
+    }
+
+    // A ticker spelled out in the description: "Apple Inc. (AAPL)", "NYSE: XOM"
+    const spelled = description.match(/\(([A-Z][A-Z0-9.-]{0,5})\)|\b(?:NYSE|NASDAQ|Ticker):\s*([A-Z][A-Z0-9.-]{0,5})\b/);
+    const spelledTicker = (spelled?.[1] ?? spelled?.[2])?.replace(".", "-");
+    if (spelledTicker && this.tickers.has(spelledTicker)) {
+      return { symbol: spelledTicker, source: "description", confidence: 0.95 };
+    }
+
+    if (NON_EQUITY.test(`${description} ${assetType ?? ""}`)) return null;
+
+    const name = normalizeCompanyName(description);
+    if (!name) return null;
+    const shareClass = getShareClass(description);
+
+    const exact = this.byName.get(name);
+    if (exact) return this.pick(exact, shareClass, "name", 0.9);
+
+    // Fuzzy: best similarity among names sharing the first token
+    let best: string | null = null;
+    let bestScore = 0;
+    for (const candidate of this.byFirstToken.get(name.split(" ")[0]) ?? []) {
+      const score = similarity(name, candidate);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+    if (!best || bestScore < FUZZY_MATCH_THRESHOLD) return null;
+    return this.pick(this.byName.get(best)!, shareClass, "fuzzy", Math.round(bestScore * 0.85 * 100) / 100);
+  }
+
+  /**
+   * Choose among the tickers of one company: the named share class when the
+   * ticker shows it (BRK-B), otherwise EDGAR's first listing. Picking between
+   * listings lowers confidence.
+   */
+  private pick(companies: CompanyTicker[], shareClass: string | null, source: SymbolSource, confidence: number): SymbolResolution {
+    const byClass = shareClass
+      ? companies.find((c) => new RegExp(`[-.]${shareClass}$`, "i").test(c.ticker))
+      : undefined;
+    const company = byClass ?? companies[0];
+    const ambiguous = !byClass && companies.length > 1;
+    return {
+      symbol: company.ticker.toUpperCase(),
+      source,
+      confidence: ambiguous ? Math.round(confidence * 0.8 * 100) / 100 : confidence,
+      matchedName: company.title,
+    };
+  }
+}
+
+export function createSymbolResolver(
+  companies: CompanyTicker[] = [],
+  corrections: SymbolCorrection[] = [],
+  minConfidence = 0
+): SymbolResolver {
+  return new SymbolResolver(companies, corrections, minConfidence);
+}
@@ -1,7 +1,53 @@
 import type { FMPTrade } from "../types/index.js";
+import type { AmendmentAudit } from "./trade-store.js";
+
+/**
+ * An amended PTR. Its transactions replace those of the filing it supersedes.
+ */
+export interface FilingAmendment {
+  chamber: "senate" | "house";
+  /** PTR link of the amendment (matches FMPTrade.link of its transactions) */
+  link: string;
+  /** Source document ID (House DocID / Senate eFD GUID) */
+  docId: string;
+  firstName: string;
+  lastName: string;
+  filingDate?: string;
+  /** Link of the superseded filing, when the source identifies it */
+  supersedesLink?: string;
+}
+
+/**
+ * A filing the source could not parse (e.g. a scanned Senate paper PTR).
+ * It is queued for review so its transactions can be entered by hand.
+ */
+export interface PaperFiling {
+  chamber: "senate" | "house";
+  /** Source document ID (House DocID / Senate eFD GUID) */
+  docId: string;
+  firstName: string;
+  lastName: string;
+  /** Link to the filing's images, set as FMPTrade.link of the transactions entered for it */
+  link: string;
+  filedDate?: string;
+  /** Why the filing needs manual entry */
+  reason: string;
+}
 
 export interface TradeSourceProvider {
   fetchSenateTrades(sinceDate: Date): Promise<FMPTrade[]>;
   fetchHouseTrades(sinceDate: Date): Promise<FMPTrade[]>;
   getName(): string;
+
+  /** Amended filings seen during the last fetch (sources without amendment data omit this) */
+  getAmendments?(): FilingAmendment[];
+
+  /** Record how amendments were reconciled into the store, for the source's run report */
+  recordAmendmentAudit?(audits: AmendmentAudit[]): void;
+
+  /** Filings seen during the last fetch that need manual entry (sources that parse everything omit this) */
+  getPaperFilings?(): PaperFiling[];
+
+  /** Persist the source's run report for the last fetch, returning its filename */
+  saveRunReport?(): Promise<string>;
 }
@@ -0,0 +1,907 @@
+/**
+ * SQLite Trade Store
+ *
+ * Embedded SQLite database holding every ingested PTR transaction, replacing
+ * the single data/trades.json blob. Trades are normalized into members,
+ * filings and transactions, with indexes on symbol, member and transaction
+ * date so commands can query just the rows they need instead of parsing the
+ * whole history into memory.
+ *
+ * The legacy JSON caches (trades.json, market-data-cache.json) are imported
+ * by importLegacyJson() — run automatically the first time an empty store is
+ * opened, or explicitly via the db:migrate command.
+ */
+
+import Database from "better-sqlite3";
+import type { FMPTrade, TradeData } from "../types/index.js";
+import type { MarketData } from "../scoring/types.js";
+import type { FilingAmendment, PaperFiling } from "./trade-source.js";
+import { getDataFilePath, loadData } from "../utils/storage.js";
+import { toIsoDate } from "../utils/dates.js";
+
+export const TRADE_DB_FILE = "trades.db";
+const LEGACY_TRADES_FILE = "trades.json";
+const LEGACY_MARKET_CACHE_FILE = "market-data-cache.json";
+
+export type Chamber = "senate" | "house";
+
+export interface StoredTrade {
+  trade: FMPTrade;
+  chamber: Chamber;
+}
+
+/** A member as named in the stored filings */
+export interface StoredMember {
+  chamber: Chamber;
+  firstName: string;
+  lastName: string;
+}
+
+/**
+ * Filters for queryTrades(). All fields are optional and combined with AND.
+ */
+export interface TradeQuery {
+  chamber?: Chamber;
+  /** Exact symbol match (case-insensitive) */
+  symbol?: string;
+  /** Substring match against "firstName lastName" (case-insensitive) */
+  trader?: string;
+  /** Exact match against any of these stored member names */
+  members?: StoredMember[];
+  /** Substring match against the transaction type, e.g. "sale" or "purchase" */
+  type?: string;
+  /** Inclusive lower bound on transaction date (YYYY-MM-DD) */
+  since?: string;
+  /** Inclusive upper bound on transaction date (YYYY-MM-DD) */
+  until?: string;
+  /** Sort by transaction date; insertion order when omitted */
+  order?: "asc" | "desc";
+  limit?: number;
+  /** Rows to skip before returning results (for pagination) */
+  offset?: number;
+}
+
+/**
+ * What changed when an amended filing replaced the filing it supersedes
+ */
+export interface AmendmentAudit {
+  chamber: Chamber;
+  member: string;
+  amendmentLink: string;
+  /** Link of the superseded filing, or null if no earlier filing matched */
+  supersededLink: string | null;
+  /** Transactions only in the superseded filing (removed from the store) */
+  removed: string[];
+  /** Transactions only in the amendment (added to the store) */
+  added: string[];
+  /** Transactions reported identically in both filings */
+  unchanged: number;
+}
+
+export type PaperFilingStatus = "pending" | "entered" | "skipped";
+
+/** A filing in the manual review queue */
+export interface QueuedPaperFiling extends PaperFiling {
+  id: number;
+  status: PaperFilingStatus;
+  queuedAt: string;
+  /** When the filing was entered or skipped */
+  reviewedAt: string | null;
+  transactionsEntered: number;
+}
+
+export interface TradeStoreStats {
+  transactions: number;
+  senateTransactions: number;
+  houseTransactions: number;
+  filings: number;
+  /** Filings that amend (and replaced the transactions of) an earlier filing */
+  amendments: number;
+  members: number;
+  marketSnapshots: number;
+  /** Transactions entered by hand from paper filings */
+  manualTransactions: number;
+  /** Paper filings waiting in the review queue */
+  pendingPaperFilings: number;
+  lastUpdatedAt: string | null;
+}
+
+// Identical rows in one filing (e.g. two equal lots bought the same day) are
+// separate transactions, told apart by their lot: the row's ordinal among
+// the filing's rows with the same trade key
+const TRANSACTIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS transactions (
+    id                INTEGER PRIMARY KEY,
+    trade_key         TEXT NOT NULL,
+    lot               INTEGER NOT NULL DEFAULT 0,
+    chamber           TEXT NOT NULL,
+    member_id         INTEGER NOT NULL REFERENCES members(id),
+    filing_id         INTEGER NOT NULL REFERENCES filings(id),
+    transaction_date  TEXT,
+    owner             TEXT,
+    asset_description TEXT,
+    asset_type        TEXT,
+    type              TEXT,
+    amount            TEXT,
+    comment           TEXT,
+    symbol            TEXT,
+    provenance        TEXT,
+    UNIQUE (chamber, trade_key, lot)
+  );
+`;
+
+const TRANSACTION_COLUMNS =
+  "id, trade_key, lot, chamber, member_id, filing_id, transaction_date, owner, " +
+  "asset_description, asset_type, type, amount, comment, symbol, provenance";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS members (
+    id         INTEGER PRIMARY KEY,
+    chamber    TEXT NOT NULL,
+    first_name TEXT NOT NULL,
+    last_name  TEXT NOT NULL,
+    UNIQUE (chamber, first_name, last_name)
+  );
+
+  CREATE TABLE IF NOT EXISTS filings (
+    id            INTEGER PRIMARY KEY,
+    filing_key    TEXT NOT NULL UNIQUE,
+    chamber       TEXT NOT NULL,
+    member_id     INTEGER NOT NULL REFERENCES members(id),
+    link          TEXT,
+    office        TEXT,
+    date_received TEXT,
+    is_amendment  INTEGER NOT NULL DEFAULT 0,
+    amends_filing_id        INTEGER REFERENCES filings(id),
+    superseded_by_filing_id INTEGER REFERENCES filings(id)
+  );
+
+  ${TRANSACTIONS_TABLE}
+
+  CREATE INDEX IF NOT EXISTS idx_transactions_symbol ON transactions(symbol);
+  CREATE INDEX IF NOT EXISTS idx_transactions_member ON transactions(member_id);
+  CREATE INDEX IF NOT EXISTS idx_transactions_date   ON transactions(transaction_date);
+
+  CREATE TABLE IF NOT EXISTS market_data_snapshots (
+    symbol         TEXT NOT NULL,
+    snapshot_date  TEXT NOT NULL,
+    market_cap     REAL,
+    sector         TEXT,
+    industry       TEXT,
+    average_volume REAL,
+    exchange       TEXT,
+    price          REAL,
+    PRIMARY KEY (symbol, snapshot_date)
+  );
+
+  CREATE TABLE IF NOT EXISTS paper_filings (
+    id                   INTEGER PRIMARY KEY,
+    chamber              TEXT NOT NULL,
+    doc_id               TEXT NOT NULL,
+    first_name           TEXT NOT NULL,
+    last_name            TEXT NOT NULL,
+    link                 TEXT NOT NULL,
+    filed_date           TEXT,
+    reason               TEXT NOT NULL,
+    status               TEXT NOT NULL DEFAULT 'pending',
+    queued_at            TEXT NOT NULL,
+    reviewed_at          TEXT,
+    transactions_entered INTEGER NOT NULL DEFAULT 0,
+    UNIQUE (chamber, doc_id)
+  );
+`;
+
+interface TransactionRow {
+  chamber: Chamber;
+  first_name: string;
+  last_name: string;
+  link: string | null;
+  office: string | null;
+  date_received: string | null;
+  transaction_date: string | null;
+  owner: string | null;
+  asset_description: string | null;
+  asset_type: string | null;
+  type: string | null;
+  amount: string | null;
+  comment: string | null;
+  symbol: string | null;
+  provenance: "manual" | null;
+}
+
+interface PaperFilingRow {
+  id: number;
+  chamber: Chamber;
+  doc_id: string;
+  first_name: string;
+  last_name: string;
+  link: string;
+  filed_date: string | null;
+  reason: string;
+  status: PaperFilingStatus;
+  queued_at: string;
+  reviewed_at: string | null;
+  transactions_entered: number;
+}
+
+/**
+ * Generate a unique key for a trade to detect duplicates
+ */
+export function getTradeKey(trade: FMPTrade): string {
+  return [
+    trade.firstName || "",
+    trade.lastName || "",
+    trade.transactionDate || "",
+    trade.symbol || "",
+    trade.type || "",
+    trade.amount || "",
+    trade.owner || "",
+  ].join("|");
+}
+
+// Columns added after the first release; stores created earlier are upgraded on open
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  filings: {
+    is_amendment: "INTEGER NOT NULL DEFAULT 0",
+    amends_filing_id: "INTEGER REFERENCES filings(id)",
+    superseded_by_filing_id: "INTEGER REFERENCES filings(id)",
+  },
+  transactions: {
+    provenance: "TEXT",
+    lot: "INTEGER NOT NULL DEFAULT 0",
+  },
+  market_data_snapshots: {
+    price: "REAL",
+  },
+};
+
+
+/** The same transaction as reported in an original filing and its amendment */
+function getAmendmentMatchKey(trade: FMPTrade): string {
+  return [trade.transactionDate || "", (trade.symbol || trade.assetDescription || "").toLowerCase()].join("|");
+}
+
+function summarizeTrade(trade: FMPTrade): string {
+  return [
+    trade.transactionDate || "?",
+    trade.symbol || trade.assetDescription || "?",
+    trade.type || "?",
+    trade.amount || "?",
+    `(${trade.owner || "?"})`,
+  ].join(" ");
+}
+
+/** A filing is identified by its PTR link; FMP rows without one fall back to member + received date. */
+function getFilingKey(trade: FMPTrade, chamber: Chamber): string {
+  if (trade.link) return trade.link;
+  return [chamber, trade.firstName || "", trade.lastName || "", trade.dateRecieved || ""].join("|");
+}
+
+function rowToPaperFiling(row: PaperFilingRow): QueuedPaperFiling {
+  return {
+    id: row.id,
+    chamber: row.chamber,
+    docId: row.doc_id,
+    firstName: row.first_name,
+    lastName: row.last_name,
+    link: row.link,
+    ...(row.filed_date ? { filedDate: row.filed_date } : {}),
+    reason: row.reason,
+    status: row.status,
+    queuedAt: row.queued_at,
+    reviewedAt: row.reviewed_at,
+    transactionsEntered: row.transactions_entered,
+  };
+}
+
+function rowToTrade(row: TransactionRow): FMPTrade {
+  const trade: FMPTrade = {
+    firstName: row.first_name || undefined,
+    lastName: row.last_name || undefined,
+    office: row.office ?? undefined,
+    link: row.link ?? undefined,
+    dateRecieved: row.date_received ?? undefined,
+    transactionDate: row.transaction_date ?? undefined,
+    owner: row.owner ?? undefined,
+    assetDescription: row.asset_description ?? undefined,
+    assetType: row.asset_type ?? undefined,
+    type: row.type ?? undefined,
+    amount: row.amount ?? undefined,
+    comment: row.comment ?? undefined,
+    symbol: row.symbol ?? undefined,
+    provenance: row.provenance ?? undefined,
+  };
+  // Drop undefined keys so round-tripped trades compare equal to the originals
+  for (const key of Object.keys(trade) as (keyof FMPTrade)[]) {
+    if (trade[key] === undefined) delete trade[key];
+  }
+  return trade;
+}
+
+const SELECT_TRANSACTIONS = `
+  SELECT t.chamber, m.first_name, m.last_name, f.link, f.office, f.date_received,
+         t.transaction_date, t.owner, t.asset_description, t.asset_type, t.type,
+         t.amount, t.comment, t.symbol, t.provenance
+  FROM transactions t
+  JOIN members m ON m.id = t.member_id
+  JOIN filings f ON f.id = t.filing_id
+`;
+
+/** WHERE clauses and parameters for a trade query */
+function buildTradeFilters(query: TradeQuery): { where: string[]; params: (string | number)[] } {
+  const where: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (query.chamber) {
+    where.push("t.chamber = ?");
+    params.push(query.chamber);
+  }
+  if (query.symbol) {
+    where.push("UPPER(t.symbol) = ?");
+    params.push(query.symbol.toUpperCase());
+  }
+  if (query.trader) {
+    where.push("LOWER(m.first_name || ' ' || m.last_name) LIKE ?");
+    params.push(`%${query.trader.toLowerCase()}%`);
+  }
+  if (query.members) {
+    if (query.members.length === 0) {
+      where.push("0");
+    } else {
+      where.push(`(${query.members.map(() => "(m.chamber = ? AND m.first_name = ? AND m.last_name = ?)").join(" OR ")})`);
+      for (const member of query.members) {
+        params.push(member.chamber, member.firstName, member.lastName);
+      }
+    }
+  }
+  if (query.type) {
+    where.push("LOWER(t.type) LIKE ?");
+    params.push(`%${query.type.toLowerCase()}%`);
+  }
+  if (query.since) {
+    where.push("t.transaction_date >= ?");
+    params.push(query.since);
+  }
+  if (query.until) {
+    where.push("t.transaction_date <= ?");
+    params.push(query.until);
+  }
+
+  return { where, params };
+}
+
+export class SqliteTradeStore {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    this.db = new Database(filePath);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("foreign_keys = ON");
+    this.db.exec(SCHEMA);
+    this.upgradeSchema();
+    this.upgradeTransactionKey();
+  }
+
+  private upgradeSchema(): void {
+    for (const [table, added] of Object.entries(ADDED_COLUMNS)) {
+      const columns = new Set(
+        (this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name)
+      );
+      for (const [name, definition] of Object.entries(added)) {
+        if (!columns.has(name)) {
+          this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stores created before lots were keyed on (chamber, trade_key) alone,
+   * which drops identical rows of one filing. SQLite can't change a table
+   * constraint in place, so the table is rebuilt under the current key.
+   */
+  private upgradeTransactionKey(): void {
+    const table = this.db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'")
+      .get() as { sql: string };
+    if (/UNIQUE \(chamber, trade_key, lot\)/.test(table.sql)) return;
+
+    const run = this.db.transaction(() => {
+      this.db.exec(`
+        ALTER TABLE transactions RENAME TO transactions_before_lots;
+        ${TRANSACTIONS_TABLE}
+        INSERT INTO transactions (${TRANSACTION_COLUMNS})
+          SELECT ${TRANSACTION_COLUMNS} FROM transactions_before_lots;
+        DROP TABLE transactions_before_lots;
+      `);
+      this.db.exec(SCHEMA);
+    });
+    run();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /** True if no transactions have been stored yet */
+  isEmpty(): boolean {
+    const row = this.db.prepare("SELECT 1 FROM transactions LIMIT 1").get();
+    return row === undefined;
+  }
+
+  private getMemberId(chamber: Chamber, trade: FMPTrade): number {
+    const firstName = trade.firstName || "";
+    const lastName = trade.lastName || "";
+    this.db
+      .prepare("INSERT OR IGNORE INTO members (chamber, first_name, last_name) VALUES (?, ?, ?)")
+      .run(chamber, firstName, lastName);
+    const row = this.db
+      .prepare("SELECT id FROM members WHERE chamber = ? AND first_name = ? AND last_name = ?")
+      .get(chamber, firstName, lastName) as { id: number };
+    return row.id;
+  }
+
+  private getFilingId(chamber: Chamber, memberId: number, trade: FMPTrade): number {
+    const filingKey = getFilingKey(trade, chamber);
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO filings (filing_key, chamber, member_id, link, office, date_received)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(filingKey, chamber, memberId, trade.link ?? null, trade.office ?? null, trade.dateRecieved ?? null);
+    const row = this.db
+      .prepare("SELECT id FROM filings WHERE filing_key = ?")
+      .get(filingKey) as { id: number };
+    return row.id;
+  }
+
+  /**
+   * Insert trades, skipping any already stored (same chamber, trade key and lot).
+   * Returns the number of newly added transactions.
+   */
+  insertTrades(chamber: Chamber, trades: FMPTrade[]): number {
+    return this.insertNewTrades(chamber, trades).length;
+  }
+
+  /**
+   * Insert trades like insertTrades, returning the trades that were newly added.
+   * Repeats of a trade key within one filing are kept as separate lots.
+   */
+  insertNewTrades(chamber: Chamber, trades: FMPTrade[]): FMPTrade[] {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO transactions
+         (trade_key, lot, chamber, member_id, filing_id, transaction_date, owner,
+          asset_description, asset_type, type, amount, comment, symbol, provenance)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    const run = this.db.transaction((batch: FMPTrade[]) => {
+      const added: FMPTrade[] = [];
+      const lots = new Map<string, number>();
+      for (const trade of batch) {
+        const memberId = this.getMemberId(chamber, trade);
+        const filingId = this.getFilingId(chamber, memberId, trade);
+        const tradeKey = getTradeKey(trade);
+        const lotKey = `${filingId}|${tradeKey}`;
+        const lot = lots.get(lotKey) ?? 0;
+        lots.set(lotKey, lot + 1);
+        const result = insert.run(
+          tradeKey,
+          lot,
+          chamber,
+          memberId,
+          filingId,
+          trade.transactionDate ?? null,
+          trade.owner ?? null,
+          trade.assetDescription ?? null,
+          trade.assetType ?? null,
+          trade.type ?? null,
+          trade.amount ?? null,
+          trade.comment ?? null,
+          trade.symbol ?? null,
+          trade.provenance ?? null
+        );
+        if (result.changes > 0) added.push(trade);
+      }
+      return added;
+    });
+
+    const added = run(trades);
+    this.touch();
+    return added;
+  }
+
+  /**
+   * Store an amended filing: find the filing it supersedes, remove that
+   * filing's transactions and insert the amendment's in their place.
+   *
+   * The superseded filing is the source-supplied link when given, otherwise
+   * the member's earlier, not-yet-superseded filing in the same chamber that
+   * shares the most transactions (same date and asset) with the amendment.
+   * If nothing matches, the amendment's transactions are stored as new.
+   * Returns the audit and the transactions only in the amendment.
+   */
+  applyAmendment(amendment: FilingAmendment, trades: FMPTrade[]): AmendmentAudit & { addedTrades: FMPTrade[] } {
+    const { chamber } = amendment;
+    const member = `${amendment.firstName} ${amendment.lastName}`.trim();
+
+    const run = this.db.transaction((): AmendmentAudit & { addedTrades: FMPTrade[] } => {
+      const memberId = this.getMemberId(chamber, amendment);
+      const amendmentId = this.getFilingId(chamber, memberId, {
+        ...amendment,
+        link: amendment.link,
+        dateRecieved: amendment.filingDate,
+      });
+      this.db.prepare("UPDATE filings SET is_amendment = 1 WHERE id = ?").run(amendmentId);
+
+      const superseded = this.findSupersededFiling(amendment, memberId, amendmentId, trades);
+      // Compare against what the store held for both filings, so re-applying
+      // an amendment on a later run reports it as unchanged
+      const replacedIds = superseded ? [superseded.id, amendmentId] : [amendmentId];
+      const placeholders = replacedIds.map(() => "?").join(", ");
+      const previous = (this.db
+        .prepare(`${SELECT_TRANSACTIONS} WHERE t.filing_id IN (${placeholders}) ORDER BY t.id`)
+        .all(...replacedIds) as TransactionRow[]).map(rowToTrade);
+      this.db.prepare(`DELETE FROM transactions WHERE filing_id IN (${placeholders})`).run(...replacedIds);
+
+      if (superseded) {
+        this.db.prepare("UPDATE filings SET superseded_by_filing_id = ? WHERE id = ?").run(amendmentId, superseded.id);
+        this.db.prepare("UPDATE filings SET amends_filing_id = ? WHERE id = ?").run(superseded.id, amendmentId);
+      }
+      this.insertTrades(chamber, trades);
+
+      const previousKeys = new Set(previous.map(getTradeKey));
+      const currentKeys = new Set(trades.map(getTradeKey));
+      const addedTrades = trades.filter((t) => !previousKeys.has(getTradeKey(t)));
+      return {
+        chamber,
+        member,
+        amendmentLink: amendment.link,
+        supersededLink: superseded?.link ?? null,
+        removed: previous.filter((t) => !currentKeys.has(getTradeKey(t))).map(summarizeTrade),
+        added: addedTrades.map(summarizeTrade),
+        unchanged: trades.filter((t) => previousKeys.has(getTradeKey(t))).length,
+        addedTrades,
+      };
+    });
+
+    return run();
+  }
+
+  private findSupersededFiling(
+    amendment: FilingAmendment,
+    memberId: number,
+    amendmentId: number,
+    trades: FMPTrade[]
+  ): { id: number; link: string | null } | null {
+    // Already reconciled on an earlier run: keep the original link
+    const applied = this.db
+      .prepare(
+        `SELECT f.id, f.link FROM filings a JOIN filings f ON f.id = a.amends_filing_id WHERE a.id = ?`
+      )
+      .get(amendmentId) as { id: number; link: string | null } | undefined;
+    if (applied) return applied;
+
+    if (amendment.supersedesLink) {
+      const row = this.db
+        .prepare("SELECT id, link FROM filings WHERE filing_key = ?")
+        .get(amendment.supersedesLink) as { id: number; link: string | null } | undefined;
+      return row ?? null;
+    }
+
+    const amendmentDate = toIsoDate(amendment.filingDate);
+    const amendmentKeys = new Set(trades.map(getAmendmentMatchKey));
+    const candidates = this.db
+      .prepare(
+        `SELECT id, link, date_received FROM filings
+         WHERE chamber = ? AND member_id = ? AND id != ? AND superseded_by_filing_id IS NULL`
+      )
+      .all(amendment.chamber, memberId, amendmentId) as { id: number; link: string | null; date_received: string | null }[];
+
+    let best: { id: number; link: string | null; overlap: number; date: string } | null = null;
+    for (const candidate of candidates) {
+      const date = toIsoDate(candidate.date_received) ?? "";
+      if (amendmentDate && date && date > amendmentDate) continue;
+
+      const rows = this.db
+        .prepare(`${SELECT_TRANSACTIONS} WHERE t.filing_id = ?`)
+        .all(candidate.id) as TransactionRow[];
+      const overlap = rows.filter((row) => amendmentKeys.has(getAmendmentMatchKey(rowToTrade(row)))).length;
+      if (overlap === 0) continue;
+
+      if (!best || overlap > best.overlap || (overlap === best.overlap && date > best.date)) {
+        best = { id: candidate.id, link: candidate.link, overlap, date };
+      }
+    }
+
+    return best ? { id: best.id, link: best.link } : null;
+  }
+
+  /**
+   * Replace the stored trades for both chambers in a single transaction
+   * (used by refresh mode). Manually entered trades are kept, since no
+   * source will return them again.
+   */
+  replaceAllTrades(data: TradeData): void {
+    const run = this.db.transaction(() => {
+      const manual = this.db
+        .prepare(`${SELECT_TRANSACTIONS} WHERE t.provenance = 'manual' ORDER BY t.id`)
+        .all() as TransactionRow[];
+      this.db.exec("DELETE FROM transactions; DELETE FROM filings; DELETE FROM members;");
+      this.insertTrades("senate", data.senateTrades);
+      this.insertTrades("house", data.houseTrades);
+      for (const chamber of ["senate", "house"] as const) {
+        this.insertTrades(chamber, manual.filter((row) => row.chamber === chamber).map(rowToTrade));
+      }
+    });
+    run();
+  }
+
+  /** Query trades matching the given filters */
+  queryTrades(query: TradeQuery = {}): StoredTrade[] {
+    const { where, params } = buildTradeFilters(query);
+
+    let sql = SELECT_TRANSACTIONS;
+    if (where.length > 0) sql += ` WHERE ${where.join(" AND ")}`;
+    sql += query.order
+      ? ` ORDER BY COALESCE(t.transaction_date, '') ${query.order === "asc" ? "ASC" : "DESC"}, t.id`
+      : " ORDER BY t.id";
+    if ((query.limit && query.limit > 0) || query.offset) {
+      sql += " LIMIT ?";
+      params.push(query.limit && query.limit > 0 ? query.limit : -1);
+    }
+    if (query.offset && query.offset > 0) {
+      sql += " OFFSET ?";
+      params.push(query.offset);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as TransactionRow[];
+    return rows.map((row) => ({ trade: rowToTrade(row), chamber: row.chamber }));
+  }
+
+  /** Count trades matching the given filters (order, limit and offset are ignored) */
+  countTrades(query: TradeQuery = {}): number {
+    const { where, params } = buildTradeFilters(query);
+    let sql = "SELECT COUNT(*) AS count FROM transactions t JOIN members m ON m.id = t.member_id";
+    if (where.length > 0) sql += ` WHERE ${where.join(" AND ")}`;
+    return (this.db.prepare(sql).get(...params) as { count: number }).count;
+  }
+
+  /** Every member with stored trades */
+  listMembers(): StoredMember[] {
+    const rows = this.db
+      .prepare("SELECT chamber, first_name, last_name FROM members ORDER BY last_name, first_name")
+      .all() as { chamber: Chamber; first_name: string; last_name: string }[];
+    return rows.map((row) => ({ chamber: row.chamber, firstName: row.first_name, lastName: row.last_name }));
+  }
+
+  /** Load every stored trade, split by chamber */
+  loadTradeData(): TradeData {
+    const stored = this.queryTrades();
+    return {
+      senateTrades: stored.filter((s) => s.chamber === "senate").map((s) => s.trade),
+      houseTrades: stored.filter((s) => s.chamber === "house").map((s) => s.trade),
+    };
+  }
+
+  /**
+   * Add filings to the manual review queue, ignoring any already queued
+   * (same chamber + document ID). Returns the number newly queued.
+   */
+  queuePaperFilings(filings: PaperFiling[], queuedAt = new Date().toISOString()): number {
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO paper_filings
+         (chamber, doc_id, first_name, last_name, link, filed_date, reason, queued_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const run = this.db.transaction((batch: PaperFiling[]) => {
+      let queued = 0;
+      for (const f of batch) {
+        queued += insert.run(f.chamber, f.docId, f.firstName, f.lastName, f.link, f.filedDate ?? null, f.reason, queuedAt).changes;
+      }
+      return queued;
+    });
+    return run(filings);
+  }
+
+  /** Queued paper filings, oldest first; every status when none is given */
+  listPaperFilings(status?: PaperFilingStatus): QueuedPaperFiling[] {
+    const rows = (status
+      ? this.db.prepare("SELECT * FROM paper_filings WHERE status = ? ORDER BY id").all(status)
+      : this.db.prepare("SELECT * FROM paper_filings ORDER BY id").all()) as PaperFilingRow[];
+    return rows.map(rowToPaperFiling);
+  }
+
+  getPaperFiling(id: number): QueuedPaperFiling | null {
+    const row = this.db.prepare("SELECT * FROM paper_filings WHERE id = ?").get(id) as PaperFilingRow | undefined;
+    return row ? rowToPaperFiling(row) : null;
+  }
+
+  /**
+   * Store transactions entered by hand for a queued paper filing and mark it
+   * entered. Member, link and filing date come from the queue entry and the
+   * trades are stored with manual provenance. Returns the newly added trades.
+   */
+  enterPaperFilingTrades(id: number, trades: FMPTrade[]): FMPTrade[] {
+    const filing = this.getPaperFiling(id);
+    if (!filing) throw new Error(`No paper filing #${id} in the review queue`);
+
+    const run = this.db.transaction((): FMPTrade[] => {
+      const added = this.insertNewTrades(
+        filing.chamber,
+        trades.map((trade) => ({
+          ...trade,
+          firstName: filing.firstName,
+          lastName: filing.lastName,
+          link: filing.link,
+          dateRecieved: filing.filedDate,
+          provenance: "manual" as const,
+        }))
+      );
+      this.db
+        .prepare(
+          `UPDATE paper_filings
+           SET status = 'entered', reviewed_at = ?, transactions_entered = transactions_entered + ?
+           WHERE id = ?`
+        )
+        .run(new Date().toISOString(), added.length, id);
+      return added;
+    });
+    return run();
+  }
+
+  /** Mark a queued paper filing as reviewed with nothing to enter */
+  skipPaperFiling(id: number): void {
+    const result = this.db
+      .prepare("UPDATE paper_filings SET status = 'skipped', reviewed_at = ? WHERE id = ?")
+      .run(new Date().toISOString(), id);
+    if (result.changes === 0) throw new Error(`No paper filing #${id} in the review queue`);
+  }
+
+  /** Most recent transaction date across both chambers, or null if none */
+  getMostRecentTransactionDate(): string | null {
+    const row = this.db
+      .prepare("SELECT MAX(transaction_date) AS latest FROM transactions WHERE transaction_date IS NOT NULL")
+      .get() as { latest: string | null };
+    return row.latest;
+  }
+
+  /**
+   * Record a market data snapshot per symbol. One snapshot is kept per
+   * symbol per day; later writes on the same day overwrite earlier ones.
+   */
+  saveMarketDataSnapshots(data: Map<string, MarketData>, snapshotDate = new Date().toISOString().slice(0, 10)): number {
+    const upsert = this.db.prepare(
+      `INSERT OR REPLACE INTO market_data_snapshots
+         (symbol, snapshot_date, market_cap, sector, industry, average_volume, exchange, price)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const run = this.db.transaction((entries: [string, MarketData][]) => {
+      for (const [symbol, md] of entries) {
+        upsert.run(
+          symbol.toUpperCase(),
+          snapshotDate,
+          md.marketCap,
+          md.sector,
+          md.industry,
+          md.averageVolume,
+          md.exchange ?? null,
+          md.price ?? null
+        );
+      }
+    });
+    run([...data.entries()]);
+    return data.size;
+  }
+
+  /** Latest market data snapshot for a symbol */
+  getLatestMarketData(symbol: string): MarketData | null {
+    const row = this.db
+      .prepare(
+        `SELECT market_cap, sector, industry, average_volume, exchange, price
+         FROM market_data_snapshots WHERE symbol = ?
+         ORDER BY snapshot_date DESC LIMIT 1`
+      )
+      .get(symbol.toUpperCase()) as
+      | {
+          market_cap: number | null;
+          sector: string | null;
+          industry: string | null;
+          average_volume: number | null;
+          exchange: string | null;
+          price: number | null;
+        }
+      | undefined;
+    if (!row) return null;
+    return {
+      marketCap: row.market_cap,
+      sector: row.sector,
+      industry: row.industry,
+      averageVolume: row.average_volume,
+      exchange: row.exchange,
+      price: row.price,
+    };
+  }
+
+  getStats(): TradeStoreStats {
+    const count = (sql: string) => (this.db.prepare(sql).get() as { n: number }).n;
+    const lastUpdated = this.db
+      .prepare("SELECT value FROM meta WHERE key = 'last_updated_at'")
+      .get() as { value: string } | undefined;
+    return {
+      transactions: count("SELECT COUNT(*) AS n FROM transactions"),
+      senateTransactions: count("SELECT COUNT(*) AS n FROM transactions WHERE chamber = 'senate'"),
+      houseTransactions: count("SELECT COUNT(*) AS n FROM transactions WHERE chamber = 'house'"),
+      filings: count("SELECT COUNT(*) AS n FROM filings"),
+      amendments: count("SELECT COUNT(*) AS n FROM filings WHERE amends_filing_id IS NOT NULL"),
+      members: count("SELECT COUNT(*) AS n FROM members"),
+      marketSnapshots: count("SELECT COUNT(*) AS n FROM market_data_snapshots"),
+      manualTransactions: count("SELECT COUNT(*) AS n FROM transactions WHERE provenance = 'manual'"),
+      pendingPaperFilings: count("SELECT COUNT(*) AS n FROM paper_filings WHERE status = 'pending'"),
+      lastUpdatedAt: lastUpdated?.value ?? null,
+    };
+  }
+
+  private touch(): void {
+    this.db
+      .prepare("INSERT OR REPLACE INTO meta (key, value) VALUES ('last_updated_at', ?)")
+      .run(new Date().toISOString());
+  }
+
+  /**
+   * Import the legacy JSON caches (data/trades.json and
+   * data/market-data-cache.json). Safe to re-run: already-stored trades are
+   * skipped by their trade key.
+   */
+  async importLegacyJson(): Promise<{ senateAdded: number; houseAdded: number; marketSnapshots: number }> {
+    let senateAdded = 0;
+    let houseAdded = 0;
+    let marketSnapshots = 0;
+
+    const trades = await loadData<TradeData>(LEGACY_TRADES_FILE);
+    if (trades?.data) {
+      senateAdded = this.insertTrades("senate", trades.data.senateTrades ?? []);
+      houseAdded = this.insertTrades("house", trades.data.houseTrades ?? []);
+    }
+
+    type CacheEntry = { data: MarketData; fetchedAt: string };
+    const market = await loadData<Record<string, CacheEntry>>(LEGACY_MARKET_CACHE_FILE);
+    if (market?.data) {
+      const byDate = new Map<string, Map<string, MarketData>>();
+      for (const [symbol, entry] of Object.entries(market.data)) {
+        if (!entry?.data) continue;
+        const date = (entry.fetchedAt || market.fetchedAt).slice(0, 10);
+        if (!byDate.has(date)) byDate.set(date, new Map());
+        byDate.get(date)!.set(symbol, entry.data);
+      }
+      for (const [date, entries] of byDate) {
+        marketSnapshots += this.saveMarketDataSnapshots(entries, date);
+      }
+    }
+
+    return { senateAdded, houseAdded, marketSnapshots };
+  }
+}
+
+/**
+ * Open the trade store in the data directory. The first time an empty store
+ * is opened, any legacy data/trades.json is imported automatically.
+ */
+export async function openTradeStore(filename = TRADE_DB_FILE): Promise<SqliteTradeStore> {
+  const store = new SqliteTradeStore(await getDataFilePath(filename));
+  if (store.isEmpty()) {
+    const imported = await store.importLegacyJson();
+    if (imported.senateAdded + imported.houseAdded > 0) {
+      console.log(
+        `📦 Migrated legacy ${LEGACY_TRADES_FILE} into ${filename}: ` +
+        `${imported.senateAdded} Senate, ${imported.houseAdded} House trades`
+      );
+    }
+  }
+  return store;
+}
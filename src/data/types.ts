@@ -5,7 +5,11 @@
  * Implementations can use different sources (FMP, Yahoo, cache, etc.)
  */
 
-import type { MarketData, CongressionalTradingPattern } from "../scoring/types.js";
+import type {
+  MarketData,
+  CongressionalTradingPattern,
+  CommitteeActivity,
+} from "../scoring/types.js";
 
 /**
  * Interface for fetching market data
@@ -28,19 +32,60 @@ export interface MarketDataProvider {
   getName(): string;
 }
 
+/**
+ * Daily closing price for a symbol
+ */
+export interface PricePoint {
+  /** Trading date (YYYY-MM-DD) */
+  date: string;
+  close: number;
+}
+
+/**
+ * Interface for fetching historical prices
+ */
+export interface PriceHistoryProvider {
+  /**
+   * Get daily closing prices for a symbol, sorted by date ascending.
+   * Returns null if no history is available for the symbol.
+   */
+  getPriceHistory(symbol: string): Promise<PricePoint[] | null>;
+
+  /**
+   * Get provider name for logging
+   */
+  getName(): string;
+}
+
+/**
+ * Interface for fetching committee activity (hearings, markups, reports)
+ */
+export interface CommitteeActivityProvider {
+  /**
+   * Get committee activity, optionally limited to activity on or after a date
+   */
+  getActivities(since?: string): Promise<CommitteeActivity[]>;
+
+  /**
+   * Get provider name for logging
+   */
+  getName(): string;
+}
+
 /**
  * Interface for analyzing congressional trading patterns
  */
 export interface TradingPatternAnalyzer {
   /**
-   * Analyze how often congress trades a particular symbol
+   * Analyze how often congress trades a particular symbol, counting only
+   * trades disclosed on or before asOf (YYYY-MM-DD) when given
    */
-  getPattern(symbol: string): CongressionalTradingPattern;
+  getPattern(symbol: string, asOf?: string): CongressionalTradingPattern;
 
   /**
    * Get patterns for multiple symbols
    */
-  getPatternsBatch(symbols: string[]): Map<string, CongressionalTradingPattern>;
+  getPatternsBatch(symbols: string[], asOf?: string): Map<string, CongressionalTradingPattern>;
 }
 
 /**
@@ -12,6 +12,19 @@ import { listCommitteesCommand } from "./commands/list-committees.js";
 import { listTradesCommand } from "./commands/list-trades.js";
 import { reportSalesCommand } from "./commands/report-sales.js";
 import { reportHtmlCommand } from "./commands/report-html.js";
+import { dbMigrateCommand } from "./commands/db-migrate.js";
+import { reportPerformanceCommand } from "./commands/report-performance.js";
+import { backtestCommand } from "./commands/backtest.js";
+import { watchCheckCommand } from "./commands/watch-check.js";
+import { serveCommand } from "./commands/serve.js";
+import { membersResolveCommand } from "./commands/members-resolve.js";
+import { exportCommand } from "./commands/export.js";
+import { listHoldingsCommand } from "./commands/list-holdings.js";
+import { reportDiffCommand } from "./commands/report-diff.js";
+import { validateSourcesCommand } from "./commands/validate-sources.js";
+import { symbolsResolveCommand } from "./commands/symbols-resolve.js";
+import { reviewListCommand } from "./commands/review-list.js";
+import { reviewEnterCommand } from "./commands/review-enter.js";
 
 // Load environment variables
 config();
@@ -34,6 +47,19 @@ program.addCommand(listCommitteesCommand);
 program.addCommand(listTradesCommand);
 program.addCommand(reportSalesCommand);
 program.addCommand(reportHtmlCommand);
+program.addCommand(dbMigrateCommand);
+program.addCommand(reportPerformanceCommand);
+program.addCommand(backtestCommand);
+program.addCommand(watchCheckCommand);
+program.addCommand(serveCommand);
+program.addCommand(membersResolveCommand);
+program.addCommand(exportCommand);
+program.addCommand(listHoldingsCommand);
+program.addCommand(reportDiffCommand);
+program.addCommand(validateSourcesCommand);
+program.addCommand(symbolsResolveCommand);
+program.addCommand(reviewListCommand);
+program.addCommand(reviewEnterCommand);
 
 // Parse arguments
 program.parse();
@@ -0,0 +1,245 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AnalyzedTrade } from "../services/analysis-service.js";
+import type { ReportManifestEntry } from "./index-page.js";
+import { getTradeDirection } from "../utils/trades.js";
+import { tradePageFile } from "./html.js";
+
+/** Trades at or above this score go into member and party feeds */
+export const FEED_MIN_SCORE = 70;
+
+/** Items kept per feed; older ones drop off */
+export const MAX_FEED_ITEMS = 50;
+
+const FEEDS_DIR = "feeds";
+const FEED_STATE_FILE = "items.json";
+const SITE_TITLE = "Congress Trades";
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  /** Page the item links to, relative to the web root */
+  path: string;
+  /** ISO timestamp */
+  date: string;
+  summary: string;
+}
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  /** HTML page the feed mirrors, relative to the web root */
+  path: string;
+  items: FeedItem[];
+}
+
+/** Feed file paths relative to the web root, e.g. feeds/reports.atom */
+export function feedFiles(name: string): { atom: string; json: string } {
+  return {
+    atom: `${FEEDS_DIR}/${name}.atom`,
+    json: `${FEEDS_DIR}/${name}.feed.json`,
+  };
+}
+
+/**
+ * Feed name for a member or party page, e.g. "member-s000001.html" →
+ * "member-s000001", so each page's feed sits under the same name
+ */
+export function pageFeedName(pageFile: string): string {
+  return pageFile.replace(/\.html$/, "");
+}
+
+/** Feed name for a party, matching the party page filenames */
+export function partyFeedName(party: string | undefined): string | null {
+  const p = (party ?? "").toLowerCase();
+  if (!p) return null;
+  if (p.startsWith("r")) return "party-republican";
+  if (p.startsWith("d")) return "party-democrat";
+  return "party-independent";
+}
+
+/**
+ * Resolve a web-root-relative path for use in a feed. With a site URL the
+ * link is absolute; without one it's relative to the feeds/ directory.
+ */
+function feedUrl(relPath: string, siteUrl?: string): string {
+  if (siteUrl) return new URL(relPath, siteUrl.endsWith("/") ? siteUrl : `${siteUrl}/`).toString();
+  return `../${relPath}`;
+}
+
+function escXml(s: string): string {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Feed rendering
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function buildAtomFeed(name: string, channel: FeedChannel, siteUrl?: string): string {
+  const updated = channel.items[0]?.date ?? new Date(0).toISOString();
+  const entries = channel.items.map((item) => `
+  <entry>
+    <id>${escXml(item.id)}</id>
+    <title>${escXml(item.title)}</title>
+    <updated>${escXml(item.date)}</updated>
+    <link rel="alternate" type="text/html" href="${escXml(feedUrl(item.path, siteUrl))}"/>
+    <summary>${escXml(item.summary)}</summary>
+  </entry>`);
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>urn:congress-trades:feed:${escXml(name)}</id>
+  <title>${escXml(channel.title)}</title>
+  <subtitle>${escXml(channel.description)}</subtitle>
+  <updated>${escXml(updated)}</updated>
+  <author><name>${SITE_TITLE}</name></author>
+  <link rel="self" type="application/atom+xml" href="${escXml(feedUrl(feedFiles(name).atom, siteUrl))}"/>
+  <link rel="alternate" type="text/html" href="${escXml(feedUrl(channel.path, siteUrl))}"/>${entries.join("")}
+</feed>
+`;
+}
+
+export function buildJsonFeed(name: string, channel: FeedChannel, siteUrl?: string): string {
+  return JSON.stringify(
+    {
+      version: "https://jsonfeed.org/version/1.1",
+      title: channel.title,
+      description: channel.description,
+      home_page_url: feedUrl(channel.path, siteUrl),
+      feed_url: feedUrl(feedFiles(name).json, siteUrl),
+      items: channel.items.map((item) => ({
+        id: item.id,
+        url: feedUrl(item.path, siteUrl),
+        title: item.title,
+        summary: item.summary,
+        content_text: item.summary,
+        date_published: item.date,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Feed items
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Report archive feed: one item per manifest entry, newest first */
+export function reportFeedChannel(entries: ReportManifestEntry[]): FeedChannel {
+  return {
+    title: SITE_TITLE,
+    description: "Weekly analysis of unique congressional stock trades",
+    path: "index.html",
+    items: [...entries]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .slice(0, MAX_FEED_ITEMS)
+      .map((e) => ({
+        id: `urn:congress-trades:report:${e.date}`,
+        title: e.dateLabel,
+        path: e.file,
+        date: `${e.date}T00:00:00.000Z`,
+        summary: `${e.totalTrades} trades analyzed${e.topSymbols.length ? ` — top: ${e.topSymbols.join(", ")}` : ""}`,
+      })),
+  };
+}
+
+/**
+ * Feed item for a scored trade, linking to `pagePath` (its trade page, or
+ * the member page when it has none)
+ */
+export function tradeFeedItem(analyzed: AnalyzedTrade, pagePath: string, date: string): FeedItem {
+  const { trade, score } = analyzed;
+  const name = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+  const chamber = analyzed.chamber === "senate" ? "Sen." : "Rep.";
+  const direction = getTradeDirection(trade.type);
+  const verb = direction === "buy" ? "bought" : direction === "sell" ? "sold" : (trade.type ?? "traded").toLowerCase();
+
+  const flags = [
+    score.flags.hasCommitteeRelevance ? "committee oversight" : "",
+    score.flags.isRareStock ? "rarely traded" : "",
+    score.flags.isHighConviction ? "high conviction" : "",
+    score.flags.isNearCommitteeActivity ? "near committee activity" : "",
+    score.flags.isClustered ? "clustered" : "",
+    score.flags.isLateFiling ? "late filing" : "",
+    score.flags.isPrivatePlacement ? "private placement" : "",
+  ].filter(Boolean);
+
+  return {
+    id: `urn:congress-trades:trade:${tradePageFile(trade).replace(/^trade-|\.html$/g, "")}`,
+    title: `${chamber} ${name} ${verb} ${trade.symbol ?? "N/A"} (${trade.amount ?? "amount unknown"}) — score ${score.overallScore}`,
+    path: pagePath,
+    date,
+    summary: [
+      trade.assetDescription,
+      trade.transactionDate ? `traded ${trade.transactionDate}` : "",
+      flags.join(", "),
+    ].filter(Boolean).join(" · "),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Persistence
+// ─────────────────────────────────────────────────────────────────────────────
+
+async function loadFeedState(webDir: string): Promise<Record<string, FeedChannel>> {
+  try {
+    const raw = await fs.readFile(path.join(webDir, FEEDS_DIR, FEED_STATE_FILE), "utf-8");
+    return JSON.parse(raw) as Record<string, FeedChannel>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Merge new items into the stored member and party feeds (feeds/items.json)
+ * and return every stored feed. Items are deduplicated by ID, newest first,
+ * capped at MAX_FEED_ITEMS.
+ */
+export async function upsertFeedItems(
+  webDir: string,
+  updates: Map<string, FeedChannel>
+): Promise<Map<string, FeedChannel>> {
+  const state = await loadFeedState(webDir);
+
+  for (const [name, update] of updates) {
+    const existing = state[name]?.items ?? [];
+    const byId = new Map(existing.map((item) => [item.id, item]));
+    for (const item of update.items) {
+      // Keep the original date so re-running a report doesn't bump old items
+      byId.set(item.id, { ...item, date: byId.get(item.id)?.date ?? item.date });
+    }
+    state[name] = {
+      ...update,
+      items: [...byId.values()]
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .slice(0, MAX_FEED_ITEMS),
+    };
+  }
+
+  await fs.mkdir(path.join(webDir, FEEDS_DIR), { recursive: true });
+  await fs.writeFile(path.join(webDir, FEEDS_DIR, FEED_STATE_FILE), JSON.stringify(state, null, 2));
+  return new Map(Object.entries(state));
+}
+
+/**
+ * Write Atom and JSON Feed files for each feed into <webDir>/feeds/.
+ * Returns the number of feeds written.
+ */
+export async function writeFeeds(
+  webDir: string,
+  feeds: Map<string, FeedChannel>,
+  siteUrl?: string
+): Promise<number> {
+  await fs.mkdir(path.join(webDir, FEEDS_DIR), { recursive: true });
+  for (const [name, channel] of feeds) {
+    const files = feedFiles(name);
+    await fs.writeFile(path.join(webDir, files.atom), buildAtomFeed(name, channel, siteUrl), "utf-8");
+    await fs.writeFile(path.join(webDir, files.json), buildJsonFeed(name, channel, siteUrl), "utf-8");
+  }
+  return feeds.size;
+}
@@ -1,9 +1,26 @@
+import { createHash } from "node:crypto";
 import type { AnalysisReport, AnalyzedTrade } from "../services/analysis-service.js";
+import { formatOptionTerms } from "../services/analysis-service.js";
 import type { FMPTrade } from "../types/index.js";
-import { SENATE_COMMITTEE_TAXONOMY, HOUSE_COMMITTEE_TAXONOMY } from "../data/committee-sector-taxonomy.js";
+import type { CongressionalTradingPattern, ScoringConfig, ScoringFactor, TradingCluster } from "../scoring/types.js";
+import { ASSET_CLASS_LABELS, COMMITTEE_ROLE_LABELS } from "../scoring/types.js";
+import type { AssetClass } from "../scoring/types.js";
+import { classifyAsset } from "../data/asset-classifier.js";
+import { FACTOR_SCORE_KEYS } from "../scoring/uniqueness-scorer.js";
+import { getTradeDirection, parseAmountRange } from "../utils/trades.js";
+import { getTradeKey } from "../data/trade-store.js";
+import { toIsoDate } from "../utils/dates.js";
+import {
+  SENATE_COMMITTEE_TAXONOMY,
+  HOUSE_COMMITTEE_TAXONOMY,
+  SUBCOMMITTEE_TAXONOMY,
+} from "../data/committee-sector-taxonomy.js";
+import { FilingComplianceAnalyzer, type MemberCompliance } from "../data/compliance-analyzer.js";
+import type { FlagName, ReportDiff, ReportSummary } from "../services/diff-service.js";
+import type { Holding } from "../data/holdings-engine.js";
 
 const COMMITTEE_NAMES = new Map<string, string>(
-  [...SENATE_COMMITTEE_TAXONOMY, ...HOUSE_COMMITTEE_TAXONOMY].map(
+  [...SENATE_COMMITTEE_TAXONOMY, ...HOUSE_COMMITTEE_TAXONOMY, ...SUBCOMMITTEE_TAXONOMY].map(
     (c) => [c.committeeId, c.committeeName]
   )
 );
@@ -30,6 +47,24 @@ function tradingViewUrl(symbol: string, exchange: string | null | undefined): st
   return `https://www.tradingview.com/chart/?symbol=${encodeURIComponent(query)}`;
 }
 
+/**
+ * Symbol link: the symbol's page when one was generated, otherwise its
+ * TradingView chart
+ */
+function symbolLinkHtml(
+  symbol: string | undefined,
+  exchangeMap: Map<string, string>,
+  symbolPageUrls?: Map<string, string>
+): string | null {
+  if (!symbol) return null;
+  const pageUrl = symbolPageUrls?.get(symbol);
+  if (pageUrl) {
+    return `<a class="symbol-link" href="${esc(pageUrl)}">${esc(symbol)}</a>`;
+  }
+  const tvUrl = tradingViewUrl(symbol, exchangeMap.get(symbol));
+  return `<a class="symbol-link" href="${esc(tvUrl)}" target="_blank" rel="noopener noreferrer">${esc(symbol)}</a>`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Helpers
 // ─────────────────────────────────────────────────────────────────────────────
@@ -85,6 +120,26 @@ function typeClass(type: string | undefined): string {
   return "";
 }
 
+/** Committee IDs as abbreviations with the full name on hover */
+function committeeAbbrsHtml(ids: string[]): string {
+  return ids
+    .map((id) => {
+      const fullName = COMMITTEE_NAMES.get(id);
+      return fullName
+        ? `<abbr class="committee-abbr" title="${esc(fullName)}">${esc(id)}</abbr>`
+        : esc(id);
+    })
+    .join(", ");
+}
+
+/** Feed discovery <link> tags for a page's head */
+function feedLinksHtml(title: string, feedUrls?: FeedUrls): string {
+  if (!feedUrls) return "";
+  return `
+  <link rel="alternate" type="application/atom+xml" title="${esc(title)}" href="${esc(feedUrls.atom)}">
+  <link rel="alternate" type="application/feed+json" title="${esc(title)}" href="${esc(feedUrls.json)}">`;
+}
+
 /** Link to the original PTR filing (House Clerk PDF or Senate eFD page), when known. */
 function filingLinkHtml(trade: FMPTrade): string {
   if (!trade.link) return "";
@@ -95,20 +150,98 @@ function filingLinkHtml(trade: FMPTrade): string {
 // Card rendering
 // ─────────────────────────────────────────────────────────────────────────────
 
-function renderTradeCard(analyzed: AnalyzedTrade, exchangeMap: Map<string, string>, memberPageFiles?: Set<string>): string {
-  const { trade, trader, score } = analyzed;
-  const rawSym = trade.symbol || "N/A";
-  const sym = esc(rawSym);
-  const exchange = trade.symbol ? exchangeMap.get(trade.symbol) : undefined;
-  const tvUrl = trade.symbol ? tradingViewUrl(trade.symbol, exchange) : null;
-  const symHtml = tvUrl
-    ? `<a class="symbol-link" href="${esc(tvUrl)}" target="_blank" rel="noopener noreferrer">${sym}</a>`
-    : `<span>${sym}</span>`;
+/**
+ * Score explanation list items. Cards show only the flagged factors; with
+ * `complete`, every explanation the scorer produced is listed.
+ */
+function renderScoreDetails(score: AnalyzedTrade["score"], complete = false): string[] {
+  const details: string[] = [];
+  if (score.explanation.marketCap) {
+    const cap = score.explanation.marketCap;
+    const capM = (cap.value / 1_000_000).toFixed(0);
+    details.push(`<li>Market cap: $${capM}M <em>(${esc(cap.category)})</em></li>`);
+  }
+  if (score.explanation.conviction && (complete || score.flags.isHighConviction)) {
+    const m = score.explanation.conviction.multiplier.toFixed(1);
+    details.push(`<li>Conviction: ${m}× typical trade</li>`);
+  }
+  if (score.explanation.rarity) {
+    const r = score.explanation.rarity;
+    details.push(`<li>Rarity: ${esc(r.category)} (${r.totalCongressTrades} congress trade${r.totalCongressTrades !== 1 ? "s" : ""})</li>`);
+  }
+  if ((complete || score.flags.hasCommitteeRelevance) && score.explanation.committeeRelevance) {
+    const rel = score.explanation.committeeRelevance;
+    const sector = [rel.stockSector, rel.stockIndustry].filter(Boolean).join(" / ");
+    details.push(`<li class="detail-warning">Committee oversight: ${esc(sector)}</li>`);
+    if (rel.role) {
+      const name = rel.role.name ?? COMMITTEE_NAMES.get(rel.role.committeeId) ?? rel.role.committeeId;
+      details.push(`<li class="detail-warning">Role: ${esc(COMMITTEE_ROLE_LABELS[rel.role.role])}, ${esc(name)}</li>`);
+    }
+    for (const match of rel.matches?.filter((m) => m.level === "subcommittee") ?? []) {
+      const name = match.name ?? COMMITTEE_NAMES.get(match.committeeId) ?? match.committeeId;
+      details.push(`<li class="detail-warning">Subcommittee: ${esc(name)}</li>`);
+    }
+    if (rel.overlappingCommittees.length) {
+      details.push(`<li class="detail-warning">Committees: ${committeeAbbrsHtml(rel.overlappingCommittees)}</li>`);
+    }
+  }
+  if ((complete || score.flags.isNearCommitteeActivity) && score.explanation.activityProximity) {
+    const act = score.explanation.activityProximity;
+    const days = Math.abs(act.daysFromTrade);
+    const timing = act.daysFromTrade === 0
+      ? "same day as trade"
+      : `${days} day${days !== 1 ? "s" : ""} ${act.daysFromTrade > 0 ? "after" : "before"} trade`;
+    const title = act.url
+      ? `<a href="${esc(act.url)}" target="_blank" rel="noopener">${esc(act.title)}</a>`
+      : esc(act.title);
+    details.push(`<li class="detail-warning">Committee ${esc(act.activityType)} ${esc(act.activityDate)} (${timing}, ${esc(act.committeeId)}): ${title}</li>`);
+  }
+  if ((complete || score.flags.isClustered) && score.explanation.cluster) {
+    const cl = score.explanation.cluster;
+    const composition = [cl.isCrossParty ? "cross-party" : "", ...cl.sharedCommittees].filter(Boolean).join(", ");
+    details.push(`<li class="detail-warning">Cluster ${esc(cl.startDate)} – ${esc(cl.endDate)} with ${esc(cl.otherMembers.join(", "))}${composition ? ` (${esc(composition)})` : ""}</li>`);
+  }
+  if ((complete || score.flags.isLateFiling) && score.explanation.lateFiling) {
+    const late = score.explanation.lateFiling;
+    const status = late.daysLate > 0 ? `${late.daysLate} days late` : `within the ${late.deadlineDays}-day deadline`;
+    details.push(`<li${late.daysLate > 0 ? ' class="detail-warning"' : ""}>Disclosed ${esc(late.disclosureDate)}: ${late.delayDays} days after trade (${status})</li>`);
+  }
+  if ((complete || score.flags.isDerivative) && score.explanation.derivative) {
+    const option = score.explanation.derivative.option;
+    details.push(`<li>Asset type: ${esc(score.explanation.derivative.assetType)}${option ? ` — ${esc(formatOptionTerms(option))}` : ""}</li>`);
+  }
+  if ((complete || score.flags.isIndirectOwnership) && score.explanation.ownership) {
+    details.push(`<li>Ownership: ${esc(score.explanation.ownership.owner)}</li>`);
+  }
+  if (score.explanation.assetClass) {
+    const ac = score.explanation.assetClass;
+    const rule = ac.excluded ? " — excluded from scoring" : ac.multiplier !== 1 ? ` — score ×${ac.multiplier}` : "";
+    details.push(`<li${score.flags.isPrivatePlacement ? ' class="detail-warning"' : ""}>Asset class: ${esc(ASSET_CLASS_LABELS[ac.assetClass])}${rule}</li>`);
+  }
+
+  return details;
+}
+
+function renderTradeCard(
+  analyzed: AnalyzedTrade,
+  exchangeMap: Map<string, string>,
+  memberPageFiles?: Set<string>,
+  tradePageFiles?: Set<string>,
+  symbolPageUrls?: Map<string, string>
+): string {
+  const { trade, trader, score, symbolResolution: resolved } = analyzed;
+  const resolvedHtml = resolved
+    ? symbolLinkHtml(resolved.symbol, exchangeMap, symbolPageUrls)
+    : null;
+  const symHtml = symbolLinkHtml(trade.symbol, exchangeMap, symbolPageUrls)
+    ?? (resolved && resolvedHtml
+      ? `<span class="symbol-resolved" title="Resolved from the asset description (${esc(resolved.source)}, ${Math.round(resolved.confidence * 100)}% confidence)">${resolvedHtml}</span>`
+      : "<span>N/A</span>");
   const desc = esc(trade.assetDescription || "");
   const filingLink = filingLinkHtml(trade);
   const rawName = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
   const name = esc(rawName);
-  const memberFile = rawName ? `member-${memberKey(rawName)}.html` : null;
+  const memberFile = rawName ? memberPageFile(rawName, trader.bioguideId) : null;
   const memberUrl = memberFile && memberPageFiles?.has(memberFile) ? memberFile : null;
   const nameHtml = memberUrl
     ? `<a href="${esc(memberUrl)}">${name}</a>`
@@ -137,44 +270,17 @@ function renderTradeCard(analyzed: AnalyzedTrade, exchangeMap: Map<string, strin
     badges.push('<span class="badge badge-smallcap" title="Small or micro-cap stock (market cap below $2B) — less analyst coverage">Small Cap</span>');
   if (score.flags.isIndirectOwnership)
     badges.push('<span class="badge badge-indirect" title="Trade made via a spouse or family member rather than directly by the member">Indirect</span>');
+  if (score.flags.isNearCommitteeActivity)
+    badges.push('<span class="badge badge-activity" title="Trade falls close to a hearing, markup, or report by a committee the member serves on that oversees this stock\'s sector">Near Hearing</span>');
+  if (score.flags.isClustered)
+    badges.push('<span class="badge badge-cluster" title="Several members traded this stock in the same direction within a short window">Cluster</span>');
+  if (score.flags.isLateFiling)
+    badges.push('<span class="badge badge-late" title="Disclosed after the STOCK Act\'s 45-day deadline">Late Filing</span>');
+  if (score.flags.isPrivatePlacement)
+    badges.push('<span class="badge badge-private" title="Not publicly traded: private stock, private equity or hedge fund interest">Private</span>');
 
   // Score explanation lines
-  const details: string[] = [];
-  if (score.explanation.marketCap) {
-    const cap = score.explanation.marketCap;
-    const capM = (cap.value / 1_000_000).toFixed(0);
-    details.push(`<li>Market cap: $${capM}M <em>(${esc(cap.category)})</em></li>`);
-  }
-  if (score.explanation.conviction && score.flags.isHighConviction) {
-    const m = score.explanation.conviction.multiplier.toFixed(1);
-    details.push(`<li>Conviction: ${m}× typical trade</li>`);
-  }
-  if (score.explanation.rarity) {
-    const r = score.explanation.rarity;
-    details.push(`<li>Rarity: ${esc(r.category)} (${r.totalCongressTrades} congress trade${r.totalCongressTrades !== 1 ? "s" : ""})</li>`);
-  }
-  if (score.flags.hasCommitteeRelevance && score.explanation.committeeRelevance) {
-    const rel = score.explanation.committeeRelevance;
-    const sector = [rel.stockSector, rel.stockIndustry].filter(Boolean).join(" / ");
-    details.push(`<li class="detail-warning">Committee oversight: ${esc(sector)}</li>`);
-    if (rel.overlappingCommittees.length) {
-      const abbrs = rel.overlappingCommittees
-        .map((id) => {
-          const fullName = COMMITTEE_NAMES.get(id);
-          return fullName
-            ? `<abbr class="committee-abbr" title="${esc(fullName)}">${esc(id)}</abbr>`
-            : esc(id);
-        })
-        .join(", ");
-      details.push(`<li class="detail-warning">Committees: ${abbrs}</li>`);
-    }
-  }
-  if (score.flags.isDerivative && score.explanation.derivative) {
-    details.push(`<li>Asset type: ${esc(score.explanation.derivative.assetType)}</li>`);
-  }
-  if (score.flags.isIndirectOwnership && score.explanation.ownership) {
-    details.push(`<li>Ownership: ${esc(score.explanation.ownership.owner)}</li>`);
-  }
+  const details = renderScoreDetails(score);
 
   const detailsHtml = details.length
     ? `<ul class="trade-details">${details.join("")}</ul>`
@@ -184,8 +290,13 @@ function renderTradeCard(analyzed: AnalyzedTrade, exchangeMap: Map<string, strin
     ? `<div class="badge-row">${badges.join("")}</div>`
     : "";
 
+  const tradeFile = tradePageFile(trade);
+  const tradeLink = tradePageFiles?.has(tradeFile)
+    ? `<a class="trade-link" href="${esc(tradeFile)}">Score breakdown →</a>`
+    : "";
+
   return `
-<article class="trade-card">
+<article class="trade-card" data-asset-class="${classifyAsset(trade.assetType, trade.assetDescription)}">
   <div class="card-top">
     <div class="symbol-block">
       <span class="symbol">${symHtml}</span>
@@ -204,26 +315,22 @@ function renderTradeCard(analyzed: AnalyzedTrade, exchangeMap: Map<string, strin
   </div>
   ${badgesHtml}
   ${detailsHtml}
+  ${tradeLink}
 </article>`;
 }
 
 function renderSaleRow(
-  trade: FMPTrade,
-  party: string | undefined,
+  { trade, party, bioguideId }: MemberTrade,
   exchangeMap: Map<string, string>,
-  memberPageFiles?: Set<string>
+  memberPageFiles?: Set<string>,
+  symbolPageUrls?: Map<string, string>,
+  memberPageBase = ""
 ): string {
-  const rawSym = trade.symbol || "N/A";
-  const sym = esc(rawSym);
-  const exchange = trade.symbol ? exchangeMap.get(trade.symbol) : undefined;
-  const tvUrl = trade.symbol ? tradingViewUrl(trade.symbol, exchange) : null;
-  const symCell = tvUrl
-    ? `<a class="symbol-link" href="${esc(tvUrl)}" target="_blank" rel="noopener noreferrer">${sym}</a>`
-    : sym;
+  const symCell = symbolLinkHtml(trade.symbol, exchangeMap, symbolPageUrls) ?? "N/A";
   const rawName = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
   const name = esc(rawName);
-  const memberFile = rawName ? `member-${memberKey(rawName)}.html` : null;
-  const memberUrl = memberFile && memberPageFiles?.has(memberFile) ? memberFile : null;
+  const memberFile = rawName ? memberPageFile(rawName, bioguideId) : null;
+  const memberUrl = memberFile && memberPageFiles?.has(memberFile) ? memberPageBase + memberFile : null;
   const nameHtml = memberUrl ? `<a href="${esc(memberUrl)}">${name}</a>` : name;
   const pLabel = partyLabel(party);
   const pClass = partyClass(party);
@@ -234,7 +341,7 @@ function renderSaleRow(
   const filingLink = filingLinkHtml(trade);
 
   return `
-<tr>
+<tr data-asset-class="${classifyAsset(trade.assetType, trade.assetDescription)}">
   <td class="sale-date">${date}</td>
   <td class="sale-sym">${symCell}</td>
   <td class="sale-amount">${amount}</td>
@@ -243,6 +350,63 @@ function renderSaleRow(
 </tr>`;
 }
 
+function renderClusterRow(
+  cluster: TradingCluster,
+  exchangeMap: Map<string, string>,
+  memberPageFiles?: Set<string>,
+  symbolPageUrls?: Map<string, string>,
+  memberPageBase = ""
+): string {
+  const symCell = symbolLinkHtml(cluster.symbol, exchangeMap, symbolPageUrls)!;
+  const window = cluster.startDate === cluster.endDate
+    ? esc(cluster.startDate)
+    : `${esc(cluster.startDate)} – ${esc(cluster.endDate)}`;
+  const members = cluster.members
+    .map((m) => {
+      const rawName = `${m.firstName} ${m.lastName}`.trim();
+      const memberFile = memberPageFile(rawName, m.bioguideId);
+      const nameHtml = memberPageFiles?.has(memberFile)
+        ? `<a href="${esc(memberPageBase + memberFile)}">${esc(rawName)}</a>`
+        : esc(rawName);
+      const pLabel = partyLabel(m.party);
+      return `${nameHtml}${pLabel ? ` <span class="party-tag ${partyClass(m.party)}">${pLabel}</span>` : ""}`;
+    })
+    .join(", ");
+  const composition: string[] = [];
+  if (cluster.isCrossParty) {
+    composition.push('<span class="badge badge-cluster" title="Members from more than one party">Cross-Party</span>');
+  }
+  if (cluster.sharedCommittees.length > 0) {
+    composition.push(`<span class="detail-warning">Same committee: ${committeeAbbrsHtml(cluster.sharedCommittees)}</span>`);
+  }
+
+  return `
+<tr>
+  <td class="sale-date">${window}</td>
+  <td class="sale-sym">${symCell}</td>
+  <td class="sale-amount"><span class="trade-type ${cluster.direction === "buy" ? "type-buy" : "type-sell"}">${cluster.direction === "buy" ? "Buy" : "Sell"}</span></td>
+  <td class="sale-trader">${members}</td>
+  <td class="sale-desc">${composition.join(" ")}</td>
+</tr>`;
+}
+
+function renderLateFilerRow(filer: MemberCompliance, memberPageFiles?: Set<string>): string {
+  const name = esc(filer.member);
+  const memberFile = filer.member ? memberPageFile(filer.member, filer.bioguideId) : null;
+  const memberUrl = memberFile && memberPageFiles?.has(memberFile) ? memberFile : null;
+  const nameHtml = memberUrl ? `<a href="${esc(memberUrl)}">${name}</a>` : name;
+  const chamber = filer.chamber === "senate" ? "Sen." : "Rep.";
+
+  return `
+<tr>
+  <td class="sale-trader">${chamber} ${nameHtml}</td>
+  <td class="sale-amount">${filer.lateTransactions} of ${filer.transactions} (${Math.round(filer.lateRate * 100)}%)</td>
+  <td class="sale-amount">${filer.lateFilings}</td>
+  <td class="sale-amount">${filer.averageDelayDays} days</td>
+  <td class="sale-amount">${filer.maxDelayDays} days</td>
+</tr>`;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // CSS
 // ─────────────────────────────────────────────────────────────────────────────
@@ -386,6 +550,7 @@ const CSS = `
   .symbol { font-size: 1.1rem; font-weight: 800; letter-spacing: 0.04em; }
   .symbol-link { color: var(--accent); text-decoration: none; }
   .symbol-link:hover { text-decoration: underline; }
+  .symbol-resolved .symbol-link { text-decoration: underline dotted; }
   .trade-type {
     font-size: 0.7rem;
     font-weight: 600;
@@ -407,11 +572,15 @@ const CSS = `
   .score-high { background: rgba(166,227,161,0.2); color: var(--score-high); }
   .score-med  { background: rgba(249,226,175,0.2); color: var(--score-med); }
   .score-low  { background: rgba(108,112,134,0.15); color: var(--score-low); }
+  .delta-up   { color: var(--green); font-weight: 600; }
+  .delta-down { color: var(--red); font-weight: 600; }
 
   .asset-desc { font-size: 0.78rem; color: var(--subtext); }
 
   .filing-link { font-size: 0.72rem; color: var(--muted); white-space: nowrap; }
   .filing-link:hover { color: var(--accent); text-decoration: underline; }
+  .trade-link { font-size: 0.75rem; color: var(--accent); align-self: flex-end; }
+  .trade-link:hover { text-decoration: underline; }
 
   .trader-row { display: flex; align-items: center; gap: 0.5rem; }
   .trader-name { font-size: 0.88rem; font-weight: 600; }
@@ -478,6 +647,10 @@ const CSS = `
   .badge-derivative { background: rgba(148,226,213,0.2); color: var(--teal); }
   .badge-smallcap   { background: rgba(249,226,175,0.2); color: var(--yellow); }
   .badge-indirect   { background: rgba(108,112,134,0.2); color: var(--muted); }
+  .badge-activity   { background: rgba(243,139,168,0.2); color: var(--red); }
+  .badge-cluster    { background: rgba(137,180,250,0.2); color: var(--accent); }
+  .badge-late       { background: rgba(250,179,135,0.2); color: var(--peach); }
+  .badge-private    { background: rgba(203,166,247,0.2); color: var(--mauve); }
 
   .trade-details {
     list-style: none;
@@ -579,6 +752,27 @@ const CSS = `
   .tab-panel { display: none; }
   .tab-panel.active { display: block; }
 
+  /* Asset class filter */
+  .asset-filter {
+    display: flex;
+    gap: 0.4rem;
+    flex-wrap: wrap;
+    margin: -0.75rem 0 1.25rem;
+  }
+  .asset-filter-btn {
+    font-size: 0.75rem;
+    font-weight: 600;
+    padding: 0.2rem 0.6rem;
+    border-radius: 999px;
+    border: 1px solid var(--border);
+    background: none;
+    color: var(--muted);
+    cursor: pointer;
+  }
+  .asset-filter-btn:hover { color: var(--text); }
+  .asset-filter-btn.active { color: var(--accent); border-color: var(--accent); }
+  [data-asset-class][hidden] { display: none; }
+
   /* Responsive */
   @media (max-width: 600px) {
     .site-header { flex-direction: column; align-items: flex-start; }
@@ -630,6 +824,18 @@ const JS = `
   var savedTab = (function(){ try { return localStorage.getItem('congress-tab'); } catch(e){ return null; } })();
   var firstTab = tabBtns.length ? tabBtns[0].dataset.tab : null;
   activateTab(savedTab && document.getElementById(savedTab) ? savedTab : firstTab);
+
+  // Asset class filter (empty value shows every class)
+  var filterBtns = document.querySelectorAll('.asset-filter-btn');
+  function applyAssetFilter(value) {
+    filterBtns.forEach(function(b) { b.classList.toggle('active', b.dataset.assetFilter === value); });
+    document.querySelectorAll('[data-asset-class]').forEach(function(el) {
+      el.hidden = !!value && el.dataset.assetClass !== value;
+    });
+  }
+  filterBtns.forEach(function(b) {
+    b.addEventListener('click', function() { applyAssetFilter(b.dataset.assetFilter); });
+  });
 })();
 `;
 
@@ -637,12 +843,47 @@ const JS = `
 // Main page builder
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Filter buttons for the asset classes among the trades, with trade counts.
+ * Omitted when every trade is in one class.
+ */
+function assetFilterHtml(trades: MemberTrade[]): string {
+  const counts = new Map<AssetClass, number>();
+  for (const { trade } of trades) {
+    const assetClass = classifyAsset(trade.assetType, trade.assetDescription);
+    counts.set(assetClass, (counts.get(assetClass) ?? 0) + 1);
+  }
+  if (counts.size < 2) return "";
+
+  const buttons = (Object.keys(ASSET_CLASS_LABELS) as AssetClass[])
+    .filter((c) => counts.has(c))
+    .map((c) => `<button class="asset-filter-btn" data-asset-filter="${c}">${esc(ASSET_CLASS_LABELS[c])} (${counts.get(c)})</button>`);
+  return `<div class="asset-filter" role="group" aria-label="Asset class">
+    <button class="asset-filter-btn active" data-asset-filter="">All asset classes</button>
+    ${buttons.join("\n    ")}
+  </div>`;
+}
+
+/** A trade with its member's party and bioguide ID (when resolved) */
+export interface MemberTrade {
+  trade: FMPTrade;
+  party: string | undefined;
+  bioguideId?: string;
+  chamber?: "senate" | "house";
+}
+
+/** Atom and JSON Feed URLs, relative to the page that links them */
+export interface FeedUrls {
+  atom: string;
+  json: string;
+}
+
 export interface HtmlReportOptions {
   report: AnalysisReport;
   /** All sales trades (sorted by date descending) */
-  salesTrades: Array<{ trade: FMPTrade; party: string | undefined }>;
+  salesTrades: MemberTrade[];
   /** All purchase trades (sorted by date descending) */
-  purchaseTrades: Array<{ trade: FMPTrade; party: string | undefined }>;
+  purchaseTrades: MemberTrade[];
   /** Title date label, e.g. "Week of April 13, 2026" */
   dateLabel: string;
   /** Link back to the index page */
@@ -653,32 +894,66 @@ export interface HtmlReportOptions {
   partyPageUrls?: { republican?: string; democrat?: string; independent?: string };
   /** Set of member page filenames that exist (relative to this report's location) */
   memberPageFiles?: Set<string>;
+  /** Set of trade page filenames that exist (relative to this report's location) */
+  tradePageFiles?: Set<string>;
+  /** Symbol → URL of its generated symbol page (relative to this report's location) */
+  symbolPageUrls?: Map<string, string>;
+}
+
+/** Trades shown as cards in the report: top purchases and committee-relevant trades */
+export function selectReportCards(report: AnalysisReport): { topPurchases: AnalyzedTrade[]; committeeRelevant: AnalyzedTrade[] } {
+  // Top purchases (sorted by score desc)
+  const topPurchases = [...report.scoredTrades]
+    .filter((t) => {
+      const type = (t.trade.type || "").toLowerCase();
+      return type.includes("purchase") || type.includes("exchange");
+    })
+    .sort((a, b) => b.score.overallScore - a.score.overallScore)
+    .slice(0, 30);
+
+  // Committee-relevant trades (any type)
+  const committeeRelevant = report.summary.byCommitteeRelevance.slice(0, 20);
+
+  return { topPurchases, committeeRelevant };
+}
+
+/** Trade page filename: a short hash of the trade key, stable across reports */
+export function tradePageFile(trade: FMPTrade): string {
+  return `trade-${createHash("sha1").update(getTradeKey(trade)).digest("hex").slice(0, 12)}.html`;
+}
+
+/** Symbol page filename, e.g. "BRK.B.html" (pages live in a shared symbols/ directory) */
+export function symbolPageFile(symbol: string): string {
+  return `${symbol.toUpperCase().replace(/[^A-Z0-9.-]+/g, "-")}.html`;
 }
 
-/** Compute the filename key for a member name (same formula used in report-html.ts) */
 function memberKey(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
 }
 
+/** Member page filename: keyed on bioguide ID, or the filing name if unresolved */
+export function memberPageFile(name: string, bioguideId?: string): string {
+  return `member-${memberKey(bioguideId ?? name)}.html`;
+}
+
 export function buildHtmlReport(opts: HtmlReportOptions): string {
   const {
     report, salesTrades, purchaseTrades, dateLabel, indexUrl,
     exchangeMap = new Map(),
     partyPageUrls,
     memberPageFiles,
+    tradePageFiles,
+    symbolPageUrls,
   } = opts;
 
-  // Top purchases (score >= 40, sorted by score desc)
-  const topPurchases = [...report.scoredTrades]
-    .filter((t) => {
-      const type = (t.trade.type || "").toLowerCase();
-      return type.includes("purchase") || type.includes("exchange");
-    })
-    .sort((a, b) => b.score.overallScore - a.score.overallScore)
-    .slice(0, 30);
+  const { topPurchases, committeeRelevant } = selectReportCards(report);
 
-  // Committee-relevant trades (any type)
-  const committeeRelevant = report.summary.byCommitteeRelevance.slice(0, 20);
+  // Clusters of members trading the same stock, most recent first
+  const clusters = report.summary.clusters.slice(0, 30);
+
+  // Members who disclosed trades after the STOCK Act deadline
+  const compliance = new FilingComplianceAnalyzer(report.scoredTrades, report.config.lateFiling.deadlineDays);
+  const lateFilers = compliance.getLateFilers();
 
   const dateRange = (() => {
     const dates = report.scoredTrades
@@ -746,8 +1021,12 @@ export function buildHtmlReport(opts: HtmlReportOptions): string {
     ${committeeRelevant.length > 0 ? `<button class="tab-btn" data-tab="tab-committee" role="tab">Committee-Relevant (${committeeRelevant.length})</button>` : ""}
     <button class="tab-btn" data-tab="tab-purchases" role="tab">Recent Purchases (${purchaseTrades.length})</button>
     <button class="tab-btn" data-tab="tab-sales" role="tab">Recent Sales (${salesTrades.length})</button>
+    ${clusters.length > 0 ? `<button class="tab-btn" data-tab="tab-clusters" role="tab">Coordinated Activity (${clusters.length})</button>` : ""}
+    ${lateFilers.length > 0 ? `<button class="tab-btn" data-tab="tab-late" role="tab">Late Filers (${lateFilers.length})</button>` : ""}
   </div>
 
+  ${assetFilterHtml([...purchaseTrades, ...salesTrades])}
+
   <!-- Tab: Top Purchases -->
   <div class="tab-panel" id="tab-top" role="tabpanel">
     <section class="section">
@@ -756,7 +1035,7 @@ export function buildHtmlReport(opts: HtmlReportOptions): string {
         <span class="section-count">${topPurchases.length} trades</span>
       </div>
       <div class="card-grid">
-        ${topPurchases.map((t) => renderTradeCard(t, exchangeMap, memberPageFiles)).join("\n        ")}
+        ${topPurchases.map((t) => renderTradeCard(t, exchangeMap, memberPageFiles, tradePageFiles, symbolPageUrls)).join("\n        ")}
       </div>
     </section>
   </div>
@@ -770,7 +1049,7 @@ export function buildHtmlReport(opts: HtmlReportOptions): string {
         <span class="section-count">${committeeRelevant.length} trades — traders with committee oversight of the stock's sector</span>
       </div>
       <div class="card-grid">
-        ${committeeRelevant.map((t) => renderTradeCard(t, exchangeMap, memberPageFiles)).join("\n        ")}
+        ${committeeRelevant.map((t) => renderTradeCard(t, exchangeMap, memberPageFiles, tradePageFiles, symbolPageUrls)).join("\n        ")}
       </div>
     </section>
   </div>
@@ -787,7 +1066,7 @@ export function buildHtmlReport(opts: HtmlReportOptions): string {
         <table>
           <thead><tr><th>Date</th><th>Symbol</th><th>Amount</th><th>Trader</th><th>Asset</th></tr></thead>
           <tbody>
-            ${purchaseTrades.map(({ trade, party }) => renderSaleRow(trade, party, exchangeMap, memberPageFiles)).join("\n            ")}
+            ${purchaseTrades.map((t) => renderSaleRow(t, exchangeMap, memberPageFiles, symbolPageUrls)).join("\n            ")}
           </tbody>
         </table>
       </div>
@@ -805,13 +1084,53 @@ export function buildHtmlReport(opts: HtmlReportOptions): string {
         <table>
           <thead><tr><th>Date</th><th>Symbol</th><th>Amount</th><th>Trader</th><th>Asset</th></tr></thead>
           <tbody>
-            ${salesTrades.map(({ trade, party }) => renderSaleRow(trade, party, exchangeMap, memberPageFiles)).join("\n            ")}
+            ${salesTrades.map((t) => renderSaleRow(t, exchangeMap, memberPageFiles, symbolPageUrls)).join("\n            ")}
           </tbody>
         </table>
       </div>
     </section>
   </div>
 
+  ${clusters.length > 0 ? `
+  <!-- Tab: Coordinated Activity -->
+  <div class="tab-panel" id="tab-clusters" role="tabpanel">
+    <section class="section">
+      <div class="section-header">
+        <h2 class="section-title">Coordinated Activity</h2>
+        <span class="section-count">${clusters.length} clusters — different members trading the same stock in the same direction within ${report.config.cluster.windowDays} days</span>
+      </div>
+      <div class="sales-table-wrap">
+        <table>
+          <thead><tr><th>Window</th><th>Symbol</th><th>Direction</th><th>Members</th><th>Composition</th></tr></thead>
+          <tbody>
+            ${clusters.map((c) => renderClusterRow(c, exchangeMap, memberPageFiles, symbolPageUrls)).join("\n            ")}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  </div>
+  ` : ""}
+
+  ${lateFilers.length > 0 ? `
+  <!-- Tab: Late Filers -->
+  <div class="tab-panel" id="tab-late" role="tabpanel">
+    <section class="section">
+      <div class="section-header">
+        <h2 class="section-title">Late Filers</h2>
+        <span class="section-count">${lateFilers.length} members — trades disclosed more than ${compliance.getDeadlineDays()} days after the transaction (STOCK Act)</span>
+      </div>
+      <div class="sales-table-wrap">
+        <table>
+          <thead><tr><th>Member</th><th>Late Trades</th><th>Late Filings</th><th>Avg Delay</th><th>Max Delay</th></tr></thead>
+          <tbody>
+            ${lateFilers.map((f) => renderLateFilerRow(f, memberPageFiles)).join("\n            ")}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  </div>
+  ` : ""}
+
 </main>
 
 <footer>
@@ -831,16 +1150,21 @@ export interface MemberPageOptions {
   memberName: string;
   chamber: string; // "Sen." | "Rep."
   party: string | undefined;
-  trades: Array<{ trade: FMPTrade; party: string | undefined }>;
+  trades: MemberTrade[];
   dateLabel: string;
   reportUrl: string;
   indexUrl?: string;
   exchangeMap?: Map<string, string>;
   memberPageFiles?: Set<string>;
+  symbolPageUrls?: Map<string, string>;
+  /** Feeds of this member's high-score trades */
+  feedUrls?: FeedUrls;
+  /** Estimated open positions from the member's recorded trades */
+  holdings?: Holding[];
 }
 
 export function buildMemberPage(opts: MemberPageOptions): string {
-  const { memberName, chamber, party, trades, dateLabel, reportUrl, indexUrl, exchangeMap = new Map(), memberPageFiles } = opts;
+  const { memberName, chamber, party, trades, dateLabel, reportUrl, indexUrl, exchangeMap = new Map(), symbolPageUrls, feedUrls, holdings = [] } = opts;
 
   const purchases = trades
     .filter((t) => { const ty = (t.trade.type || "").toLowerCase(); return ty.includes("purchase") || ty.includes("exchange"); });
@@ -853,8 +1177,26 @@ export function buildMemberPage(opts: MemberPageOptions): string {
   const navLinks = [
     indexUrl ? `<a href="${esc(indexUrl)}">← Archive</a>` : "",
     `<a href="${esc(reportUrl)}">← Report</a>`,
+    feedUrls ? `<a href="${esc(feedUrls.atom)}" title="Atom feed of high-score trades">Feed</a>` : "",
   ].filter(Boolean).join(" &nbsp;·&nbsp; ");
 
+  const holdingRows = holdings.map((h) => {
+    const symCell = symbolLinkHtml(h.symbol, exchangeMap, symbolPageUrls) ?? esc(h.symbol);
+    const range = `${formatDollars(h.value.low)} – ${formatDollars(h.value.high)}`;
+    const unmatched = h.unmatchedSales
+      ? ` <span class="owner-tag" title="Sales with no recorded purchase before them; the position may be larger">${h.unmatchedSales} unmatched sale${h.unmatchedSales === 1 ? "" : "s"}</span>`
+      : "";
+    return `
+          <tr>
+            <td class="sale-sym">${symCell}</td>
+            <td>${esc(h.owner)}</td>
+            <td class="sale-amount">${formatDollars(h.value.mid)} <span class="sale-desc">(${range})</span></td>
+            <td class="sale-date">${esc(h.openedDate ?? "")}</td>
+            <td class="sale-date">${esc(h.lastActivityDate)}</td>
+            <td class="sale-desc">${esc(h.assetDescription ?? "")}${unmatched}</td>
+          </tr>`;
+  }).join("");
+
   function tradeTable(rows: typeof trades, title: string): string {
     if (!rows.length) return "";
     return `
@@ -868,13 +1210,7 @@ export function buildMemberPage(opts: MemberPageOptions): string {
         <thead><tr><th>Date</th><th>Symbol</th><th>Amount</th><th>Asset</th></tr></thead>
         <tbody>
           ${rows.map(({ trade }) => {
-            const rawSym = trade.symbol || "N/A";
-            const sym = esc(rawSym);
-            const exchange = trade.symbol ? exchangeMap.get(trade.symbol) : undefined;
-            const tvUrl = trade.symbol ? tradingViewUrl(trade.symbol, exchange) : null;
-            const symCell = tvUrl
-              ? `<a class="symbol-link" href="${esc(tvUrl)}" target="_blank" rel="noopener noreferrer">${sym}</a>`
-              : sym;
+            const symCell = symbolLinkHtml(trade.symbol, exchangeMap, symbolPageUrls) ?? "N/A";
             const amount = esc(formatAmount(trade.amount));
             const date = esc(trade.transactionDate || "");
             const desc = esc(trade.assetDescription || "");
@@ -899,7 +1235,7 @@ export function buildMemberPage(opts: MemberPageOptions): string {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${esc(chamber)} ${esc(memberName)} — ${esc(dateLabel)}</title>
+  <title>${esc(chamber)} ${esc(memberName)} — ${esc(dateLabel)}</title>${feedLinksHtml(`${chamber} ${memberName}`, feedUrls)}
   <link rel="preconnect" href="https://fonts.googleapis.com">
   <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap">
   <style>${CSS}</style>
@@ -923,6 +1259,420 @@ export function buildMemberPage(opts: MemberPageOptions): string {
     <span class="stat-sep">·</span>
     <span class="stat-item"><strong>${trades.length}</strong> total</span>
   </div>
+  ${holdingRows ? `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Current estimated holdings</h2>
+      <span class="section-count">dollars bought less dollars sold — excludes price changes and anything held before the recorded trades</span>
+    </div>
+    <div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Symbol</th><th>Owner</th><th>Estimated value</th><th>Opened</th><th>Last activity</th><th>Asset</th></tr></thead>
+        <tbody>${holdingRows}
+        </tbody>
+      </table>
+    </div>
+  </section>` : ""}
+  ${tradeTable(purchases, "Purchases")}
+  ${tradeTable(sales, "Sales")}
+</main>
+<footer>
+  Scores reflect uniqueness signals; not investment advice.
+</footer>
+<script>${JS}</script>
+</body>
+</html>`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Trade page builder
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FACTOR_LABELS: Record<ScoringFactor, string> = {
+  marketCap: "Market cap",
+  conviction: "Conviction",
+  rarity: "Rarity",
+  committeeRelevance: "Committee relevance",
+  derivative: "Derivative",
+  ownership: "Ownership",
+  activityProximity: "Committee activity proximity",
+  lateFiling: "Late filing",
+};
+
+export interface TradePageOptions {
+  analyzed: AnalyzedTrade;
+  /** Config the report was scored with, for factor weights */
+  config: ScoringConfig;
+  /** The member's other trades in this symbol */
+  memberTrades: MemberTrade[];
+  /** Other members' trades in this symbol */
+  otherTrades: MemberTrade[];
+  dateLabel: string;
+  reportUrl: string;
+  indexUrl?: string;
+  exchangeMap?: Map<string, string>;
+  memberPageFiles?: Set<string>;
+  symbolPageUrls?: Map<string, string>;
+}
+
+export function buildTradePage(opts: TradePageOptions): string {
+  const { analyzed, config, memberTrades, otherTrades, dateLabel, reportUrl, indexUrl, exchangeMap = new Map(), memberPageFiles, symbolPageUrls } = opts;
+  const { trade, trader, score } = analyzed;
+
+  const rawSym = trade.symbol || "N/A";
+  const symHtml = symbolLinkHtml(trade.symbol, exchangeMap, symbolPageUrls) ?? esc(rawSym);
+  const rawName = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+  const chamber = analyzed.chamber === "senate" ? "Sen." : "Rep.";
+  const memberFile = rawName ? memberPageFile(rawName, trader.bioguideId) : null;
+  const memberUrl = memberFile && memberPageFiles?.has(memberFile) ? memberFile : null;
+  const nameHtml = memberUrl ? `<a href="${esc(memberUrl)}">${esc(rawName)}</a>` : esc(rawName);
+  const pLabel = partyLabel(trader.party);
+  const pClass = partyClass(trader.party);
+  const filingLink = filingLinkHtml(trade);
+
+  const navLinks = [
+    indexUrl ? `<a href="${esc(indexUrl)}">← Archive</a>` : "",
+    `<a href="${esc(reportUrl)}">← Report</a>`,
+  ].filter(Boolean).join(" &nbsp;·&nbsp; ");
+
+  const factorRows = (Object.keys(FACTOR_SCORE_KEYS) as ScoringFactor[])
+    .map((factor) => {
+      const value = score.factors[FACTOR_SCORE_KEYS[factor]] ?? 0;
+      const enabled = config.enabledFactors?.[factor] ?? true;
+      const weight = config.weights?.[factor] ?? 0;
+      return `
+          <tr>
+            <td class="sale-trader">${esc(FACTOR_LABELS[factor])}</td>
+            <td class="sale-amount"><span class="score-badge ${scoreClass(value)}">${value}</span></td>
+            <td class="sale-amount">${enabled ? `${Math.round(weight * 100)}%` : "disabled"}</td>
+          </tr>`;
+    })
+    .join("");
+  const boostRow = score.explanation.cluster
+    ? `
+          <tr>
+            <td class="sale-trader">Cluster boost</td>
+            <td class="sale-amount">+${score.explanation.cluster.boost}</td>
+            <td class="sale-amount"></td>
+          </tr>`
+    : "";
+
+  const details = renderScoreDetails(score, true);
+
+  function tradeTable(rows: MemberTrade[], title: string, empty: string): string {
+    return `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">${esc(title)}</h2>
+      <span class="section-count">${rows.length} trades</span>
+    </div>
+    ${rows.length ? `<div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Date</th><th>Symbol</th><th>Amount</th><th>Trader</th><th>Asset</th></tr></thead>
+        <tbody>
+          ${rows.map((t) => renderSaleRow(t, exchangeMap, memberPageFiles, symbolPageUrls)).join("\n          ")}
+        </tbody>
+      </table>
+    </div>` : `<p class="section-count">${esc(empty)}</p>`}
+  </section>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${esc(rawSym)} ${esc(typeLabel(trade.type))} — ${esc(chamber)} ${esc(rawName)} — ${esc(trade.transactionDate || "")}</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap">
+  <style>${CSS}</style>
+</head>
+<body>
+<header class="site-header">
+  <div>
+    <div class="site-title">${symHtml} <span class="trade-type ${typeClass(trade.type)}">${esc(typeLabel(trade.type))}</span></div>
+    <div class="site-subtitle">${esc(chamber)} ${nameHtml}${pLabel ? ` <span class="party-tag ${pClass}">${esc(pLabel)}</span>` : ""} &nbsp;·&nbsp; ${esc(dateLabel)}</div>
+  </div>
+  <div class="header-right">
+    ${navLinks}
+    <button class="theme-btn" id="theme-btn">☀️ Light</button>
+  </div>
+</header>
+<main>
+  <div class="stats-bar">
+    <span class="stat-item">Score <span class="score-badge ${scoreClass(score.overallScore)}">${score.overallScore}</span></span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item">Traded <strong>${esc(trade.transactionDate || "N/A")}</strong></span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item">Disclosed <strong>${esc(toIsoDate(trade.dateRecieved) ?? "N/A")}</strong></span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${esc(formatAmount(trade.amount))}</strong></span>
+    ${trade.owner ? `<span class="stat-sep">·</span>
+    <span class="stat-item">Owner: ${esc(trade.owner)}</span>` : ""}
+  </div>
+  ${trade.assetDescription || filingLink ? `<p class="asset-desc">${esc(trade.assetDescription || "")}${filingLink ? ` ${filingLink}` : ""}</p>` : ""}
+
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Score Breakdown</h2>
+      <span class="section-count">${config.profile ? `profile ${esc(config.profile.name)} (${esc(config.profile.hash)})` : ""}</span>
+    </div>
+    <div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Factor</th><th>Score</th><th>Weight</th></tr></thead>
+        <tbody>${factorRows}${boostRow}
+        </tbody>
+      </table>
+    </div>
+  </section>
+
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Explanation</h2>
+    </div>
+    ${details.length ? `<ul class="trade-details">${details.join("")}</ul>` : `<p class="section-count">No explanation details for this trade.</p>`}
+  </section>
+
+  ${tradeTable(memberTrades, `${rawName}'s other ${rawSym} trades`, "No other trades in this symbol by this member.")}
+  ${tradeTable(otherTrades, `Other members' ${rawSym} trades`, "No other members traded this symbol.")}
+</main>
+<footer>
+  Scores reflect uniqueness signals; not investment advice.
+</footer>
+<script>${JS}</script>
+</body>
+</html>`;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Symbol page builder
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface SymbolPageOptions {
+  symbol: string;
+  /** Every congressional trade in the symbol (sorted by date descending) */
+  trades: MemberTrade[];
+  /** Congress-wide trading pattern for the symbol */
+  pattern: CongressionalTradingPattern;
+  /** Bioguide ID → current committee IDs */
+  memberCommittees?: Map<string, string[]>;
+  dateLabel: string;
+  reportUrl: string;
+  indexUrl?: string;
+  exchangeMap?: Map<string, string>;
+  memberPageFiles?: Set<string>;
+  /** Path from the symbol page to the member pages, e.g. "../2026-04-13/" */
+  memberPageBase?: string;
+}
+
+interface MonthlyFlow {
+  month: string;
+  buys: number;
+  sells: number;
+  buyLow: number;
+  buyHigh: number;
+  sellLow: number;
+  sellHigh: number;
+}
+
+/** Buy and sell dollar ranges per month, most recent first */
+function monthlyFlows(trades: MemberTrade[]): MonthlyFlow[] {
+  const months = new Map<string, MonthlyFlow>();
+  for (const { trade } of trades) {
+    const direction = getTradeDirection(trade.type);
+    const range = parseAmountRange(trade.amount);
+    if (!direction || !range || !trade.transactionDate) continue;
+
+    const month = trade.transactionDate.slice(0, 7);
+    if (!months.has(month)) {
+      months.set(month, { month, buys: 0, sells: 0, buyLow: 0, buyHigh: 0, sellLow: 0, sellHigh: 0 });
+    }
+    const flow = months.get(month)!;
+    if (direction === "buy") {
+      flow.buys++;
+      flow.buyLow += range.low;
+      flow.buyHigh += range.high;
+    } else {
+      flow.sells++;
+      flow.sellLow += range.low;
+      flow.sellHigh += range.high;
+    }
+  }
+  return [...months.values()].sort((a, b) => b.month.localeCompare(a.month));
+}
+
+function formatDollars(value: number): string {
+  return `${value < 0 ? "−" : ""}$${Math.abs(value).toLocaleString("en-US")}`;
+}
+
+function formatDollarRange(low: number, high: number): string {
+  return low === high ? formatDollars(low) : `${formatDollars(low)} – ${formatDollars(high)}`;
+}
+
+export function buildSymbolPage(opts: SymbolPageOptions): string {
+  const {
+    symbol, trades, pattern, memberCommittees, dateLabel, reportUrl, indexUrl,
+    exchangeMap = new Map(), memberPageFiles, memberPageBase = "",
+  } = opts;
+
+  const purchases = trades.filter((t) => getTradeDirection(t.trade.type) === "buy");
+  const sales = trades.filter((t) => getTradeDirection(t.trade.type) === "sell");
+  const description = trades.find((t) => t.trade.assetDescription)?.trade.assetDescription;
+  const tvUrl = tradingViewUrl(symbol, exchangeMap.get(symbol));
+  const clusters = [...(pattern.clusters ?? [])].sort((a, b) => b.endDate.localeCompare(a.endDate));
+
+  const navLinks = [
+    indexUrl ? `<a href="${esc(indexUrl)}">← Archive</a>` : "",
+    `<a href="${esc(reportUrl)}">← Report</a>`,
+  ].filter(Boolean).join(" &nbsp;·&nbsp; ");
+
+  // Net flow: buys minus sells, as a range since amounts are disclosed in bands
+  const flowRows = monthlyFlows(trades)
+    .map((f) => `
+          <tr>
+            <td class="sale-date">${esc(f.month)}</td>
+            <td class="sale-amount">${f.buys ? `${formatDollarRange(f.buyLow, f.buyHigh)} <span class="section-count">(${f.buys})</span>` : ""}</td>
+            <td class="sale-amount">${f.sells ? `${formatDollarRange(f.sellLow, f.sellHigh)} <span class="section-count">(${f.sells})</span>` : ""}</td>
+            <td class="sale-amount">${formatDollarRange(f.buyLow - f.sellHigh, f.buyHigh - f.sellLow)}</td>
+          </tr>`)
+    .join("");
+
+  // One row per member, keyed like member pages so filing-name variants merge
+  const members = new Map<string, { item: MemberTrade; name: string; buys: number; sells: number; lastDate: string }>();
+  for (const item of trades) {
+    const name = `${item.trade.firstName ?? ""} ${item.trade.lastName ?? ""}`.trim();
+    if (!name) continue;
+    const file = memberPageFile(name, item.bioguideId);
+    if (!members.has(file)) {
+      members.set(file, { item, name, buys: 0, sells: 0, lastDate: "" });
+    }
+    const member = members.get(file)!;
+    const direction = getTradeDirection(item.trade.type);
+    if (direction === "buy") member.buys++;
+    if (direction === "sell") member.sells++;
+    if ((item.trade.transactionDate ?? "") > member.lastDate) member.lastDate = item.trade.transactionDate!;
+  }
+  const memberRows = [...members]
+    .sort(([, a], [, b]) => b.lastDate.localeCompare(a.lastDate))
+    .map(([file, { item, name, buys, sells, lastDate }]) => {
+      const nameHtml = memberPageFiles?.has(file)
+        ? `<a href="${esc(memberPageBase + file)}">${esc(name)}</a>`
+        : esc(name);
+      const chamber = item.chamber ? (item.chamber === "senate" ? "Sen. " : "Rep. ") : "";
+      const pLabel = partyLabel(item.party);
+      const committees = item.bioguideId ? memberCommittees?.get(item.bioguideId) ?? [] : [];
+      return `
+          <tr>
+            <td class="sale-trader">${chamber}${nameHtml}${pLabel ? ` <span class="party-tag ${partyClass(item.party)}">${esc(pLabel)}</span>` : ""}</td>
+            <td class="sale-amount">${buys}</td>
+            <td class="sale-amount">${sells}</td>
+            <td class="sale-date">${esc(lastDate)}</td>
+            <td class="sale-desc">${committeeAbbrsHtml(committees)}</td>
+          </tr>`;
+    })
+    .join("");
+
+  function tradeTable(rows: MemberTrade[], title: string): string {
+    if (!rows.length) return "";
+    return `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">${esc(title)}</h2>
+      <span class="section-count">${rows.length} trades</span>
+    </div>
+    <div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Date</th><th>Symbol</th><th>Amount</th><th>Trader</th><th>Asset</th></tr></thead>
+        <tbody>
+          ${rows.map((t) => renderSaleRow(t, exchangeMap, memberPageFiles, undefined, memberPageBase)).join("\n          ")}
+        </tbody>
+      </table>
+    </div>
+  </section>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${esc(symbol)} — Congressional Trades</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap">
+  <style>${CSS}</style>
+</head>
+<body>
+<header class="site-header">
+  <div>
+    <div class="site-title">${esc(symbol)} <a class="symbol-link" href="${esc(tvUrl)}" target="_blank" rel="noopener noreferrer">TradingView ↗</a></div>
+    <div class="site-subtitle">${description ? `${esc(description)} &nbsp;·&nbsp; ` : ""}${esc(dateLabel)}</div>
+  </div>
+  <div class="header-right">
+    ${navLinks}
+    <button class="theme-btn" id="theme-btn">☀️ Light</button>
+  </div>
+</header>
+<main>
+  <div class="stats-bar">
+    <span class="stat-item"><strong>${pattern.totalTrades}</strong> congress trades</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${pattern.uniqueTraders}</strong> members</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${pattern.recentTrades}</strong> in the last 90 days</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${purchases.length}</strong> purchases</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${sales.length}</strong> sales</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${clusters.length}</strong> clusters</span>
+  </div>
+
+  ${flowRows ? `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Net Buying and Selling</h2>
+      <span class="section-count">by month — ranges, since amounts are disclosed in bands</span>
+    </div>
+    <div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Month</th><th>Bought</th><th>Sold</th><th>Net</th></tr></thead>
+        <tbody>${flowRows}
+        </tbody>
+      </table>
+    </div>
+  </section>` : ""}
+
+  ${memberRows ? `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Members</h2>
+      <span class="section-count">${members.size} members</span>
+    </div>
+    <div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Member</th><th>Buys</th><th>Sells</th><th>Last Trade</th><th>Committees</th></tr></thead>
+        <tbody>${memberRows}
+        </tbody>
+      </table>
+    </div>
+  </section>` : ""}
+
+  ${clusters.length > 0 ? `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Coordinated Activity</h2>
+      <span class="section-count">${clusters.length} clusters</span>
+    </div>
+    <div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Window</th><th>Symbol</th><th>Direction</th><th>Members</th><th>Composition</th></tr></thead>
+        <tbody>
+          ${clusters.map((c) => renderClusterRow(c, exchangeMap, memberPageFiles, undefined, memberPageBase)).join("\n          ")}
+        </tbody>
+      </table>
+    </div>
+  </section>` : ""}
+
   ${tradeTable(purchases, "Purchases")}
   ${tradeTable(sales, "Sales")}
 </main>
@@ -940,16 +1690,19 @@ export function buildMemberPage(opts: MemberPageOptions): string {
 
 export interface PartyPageOptions {
   partyLabel: string; // "Republican" | "Democrat" | "Independent"
-  trades: Array<{ trade: FMPTrade; party: string | undefined }>;
+  trades: MemberTrade[];
   dateLabel: string;
   reportUrl: string;
   indexUrl?: string;
   exchangeMap?: Map<string, string>;
   memberPageFiles?: Set<string>;
+  symbolPageUrls?: Map<string, string>;
+  /** Feeds of this party's high-score trades */
+  feedUrls?: FeedUrls;
 }
 
 export function buildPartyPage(opts: PartyPageOptions): string {
-  const { partyLabel, trades, dateLabel, reportUrl, indexUrl, exchangeMap = new Map(), memberPageFiles } = opts;
+  const { partyLabel, trades, dateLabel, reportUrl, indexUrl, exchangeMap = new Map(), memberPageFiles, symbolPageUrls, feedUrls } = opts;
 
   const purchases = trades
     .filter((t) => { const ty = (t.trade.type || "").toLowerCase(); return ty.includes("purchase") || ty.includes("exchange"); });
@@ -959,6 +1712,7 @@ export function buildPartyPage(opts: PartyPageOptions): string {
   const navLinks = [
     indexUrl ? `<a href="${esc(indexUrl)}">← Archive</a>` : "",
     `<a href="${esc(reportUrl)}">← Report</a>`,
+    feedUrls ? `<a href="${esc(feedUrls.atom)}" title="Atom feed of high-score trades">Feed</a>` : "",
   ].filter(Boolean).join(" &nbsp;·&nbsp; ");
 
   function tradeTable(rows: typeof trades, title: string): string {
@@ -973,7 +1727,7 @@ export function buildPartyPage(opts: PartyPageOptions): string {
       <table>
         <thead><tr><th>Date</th><th>Symbol</th><th>Amount</th><th>Trader</th><th>Asset</th></tr></thead>
         <tbody>
-          ${rows.map(({ trade, party }) => renderSaleRow(trade, party, exchangeMap, memberPageFiles)).join("\n          ")}
+          ${rows.map((t) => renderSaleRow(t, exchangeMap, memberPageFiles, symbolPageUrls)).join("\n          ")}
         </tbody>
       </table>
     </div>
@@ -985,7 +1739,7 @@ export function buildPartyPage(opts: PartyPageOptions): string {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${esc(partyLabel)} Trades — ${esc(dateLabel)}</title>
+  <title>${esc(partyLabel)} Trades — ${esc(dateLabel)}</title>${feedLinksHtml(`${partyLabel} Trades`, feedUrls)}
   <link rel="preconnect" href="https://fonts.googleapis.com">
   <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap">
   <style>${CSS}</style>
@@ -1019,3 +1773,151 @@ export function buildPartyPage(opts: PartyPageOptions): string {
 </body>
 </html>`;
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Report diff page builder
+// ─────────────────────────────────────────────────────────────────────────────
+
+const FLAG_LABELS: Record<FlagName, string> = {
+  isSmallCap: "small cap",
+  isHighConviction: "high conviction",
+  isRareStock: "rare stock",
+  hasCommitteeRelevance: "committee relevance",
+  isDerivative: "derivative",
+  isIndirectOwnership: "indirect ownership",
+  isNearCommitteeActivity: "near committee activity",
+  isLateFiling: "late filing",
+  isClustered: "clustered",
+  isPrivatePlacement: "private placement",
+};
+
+export interface DiffPageOptions {
+  diff: ReportDiff;
+  reportUrl?: string;
+  indexUrl?: string;
+  exchangeMap?: Map<string, string>;
+  symbolPageUrls?: Map<string, string>;
+}
+
+export function buildDiffPage(opts: DiffPageOptions): string {
+  const { diff, reportUrl, indexUrl, exchangeMap = new Map(), symbolPageUrls } = opts;
+  const factorLabels = new Map(
+    (Object.keys(FACTOR_SCORE_KEYS) as ScoringFactor[]).map((factor) => [FACTOR_SCORE_KEYS[factor], FACTOR_LABELS[factor]])
+  );
+
+  const navLinks = [
+    indexUrl ? `<a href="${esc(indexUrl)}">← Archive</a>` : "",
+    reportUrl ? `<a href="${esc(reportUrl)}">← Report</a>` : "",
+  ].filter(Boolean).join(" &nbsp;·&nbsp; ");
+
+  function reportLabel(summary: ReportSummary): string {
+    return `${summary.generatedAt.split("T")[0]}${summary.profile ? ` · ${summary.profile}` : ""}`;
+  }
+
+  function deltaHtml(delta: number): string {
+    if (delta === 0) return "±0";
+    return `<span class="${delta > 0 ? "delta-up" : "delta-down"}">${delta > 0 ? "+" : "−"}${Math.abs(delta)}</span>`;
+  }
+
+  function tradeCells(analyzed: AnalyzedTrade): string {
+    const { trade } = analyzed;
+    const name = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+    const chamber = analyzed.chamber === "senate" ? "Sen." : "Rep.";
+    return `
+            <td class="sale-date">${esc(trade.transactionDate || "")}</td>
+            <td class="sale-sym">${symbolLinkHtml(trade.symbol, exchangeMap, symbolPageUrls) ?? "N/A"}</td>
+            <td><span class="trade-type ${typeClass(trade.type)}">${esc(typeLabel(trade.type))}</span></td>
+            <td class="sale-trader">${esc(chamber)} ${esc(name)}</td>`;
+  }
+
+  function tradeTable(rows: AnalyzedTrade[], title: string, empty: string): string {
+    return `
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">${esc(title)}</h2>
+      <span class="section-count">${rows.length} trades</span>
+    </div>
+    ${rows.length ? `<div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Date</th><th>Symbol</th><th>Type</th><th>Trader</th><th>Score</th></tr></thead>
+        <tbody>${rows.map((t) => `
+          <tr>${tradeCells(t)}
+            <td class="sale-amount"><span class="score-badge ${scoreClass(t.score.overallScore)}">${t.score.overallScore}</span></td>
+          </tr>`).join("")}
+        </tbody>
+      </table>
+    </div>` : `<p class="section-count">${esc(empty)}</p>`}
+  </section>`;
+  }
+
+  const changeRows = diff.changed.map((change) => {
+    const factors = Object.entries(change.factors)
+      .map(([field, d]) => `${esc(factorLabels.get(field as keyof typeof change.factors) ?? field)} ${d.before} → ${d.after} (${deltaHtml(d.delta)})`)
+      .join("<br>");
+    const flags = [
+      ...change.flagsSet.map((flag) => `<span class="delta-up">+ ${esc(FLAG_LABELS[flag] ?? flag)}</span>`),
+      ...change.flagsCleared.map((flag) => `<span class="delta-down">− ${esc(FLAG_LABELS[flag] ?? flag)}</span>`),
+    ].join("<br>");
+    return `
+          <tr>${tradeCells(change.after)}
+            <td class="sale-amount">${change.overall.before} → <span class="score-badge ${scoreClass(change.overall.after)}">${change.overall.after}</span> ${deltaHtml(change.overall.delta)}</td>
+            <td class="sale-desc">${factors}</td>
+            <td class="sale-desc">${flags}</td>
+          </tr>`;
+  }).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en" data-theme="dark">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Report Changes — ${esc(reportLabel(diff.before))} → ${esc(reportLabel(diff.after))}</title>
+  <link rel="preconnect" href="https://fonts.googleapis.com">
+  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap">
+  <style>${CSS}</style>
+</head>
+<body>
+<header class="site-header">
+  <div>
+    <div class="site-title">Report Changes</div>
+    <div class="site-subtitle">${esc(reportLabel(diff.before))} → ${esc(reportLabel(diff.after))}</div>
+  </div>
+  <div class="header-right">
+    ${navLinks}
+    <button class="theme-btn" id="theme-btn">☀️ Light</button>
+  </div>
+</header>
+<main>
+  <div class="stats-bar">
+    <span class="stat-item"><strong>${diff.added.length}</strong> new</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${diff.dropped.length}</strong> dropped</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${diff.changed.length}</strong> rescored</span>
+    <span class="stat-sep">·</span>
+    <span class="stat-item"><strong>${diff.unchanged}</strong> unchanged</span>
+  </div>
+  ${tradeTable(diff.added, "New Trades", "No new trades.")}
+  ${tradeTable(diff.dropped, "Dropped Trades", "No trades dropped out.")}
+
+  <section class="section">
+    <div class="section-header">
+      <h2 class="section-title">Score Changes</h2>
+      <span class="section-count">${diff.changed.length} trades</span>
+    </div>
+    ${changeRows ? `<div class="sales-table-wrap">
+      <table>
+        <thead><tr><th>Date</th><th>Symbol</th><th>Type</th><th>Trader</th><th>Score</th><th>Factors</th><th>Flags</th></tr></thead>
+        <tbody>${changeRows}
+        </tbody>
+      </table>
+    </div>` : `<p class="section-count">No score or flag changes.</p>`}
+  </section>
+</main>
+<footer>
+  Scores reflect uniqueness signals; not investment advice.
+</footer>
+<script>${JS}</script>
+</body>
+</html>`;
+}
@@ -7,6 +7,7 @@ export interface ReportManifestEntry {
   file: string;        // Relative filename, e.g. "report-2026-04-18.html"
   totalTrades: number;
   topSymbols: string[]; // Up to 8 top symbols as preview
+  reportGeneratedAt?: string; // generatedAt of the rendered analysis (absent in older manifests)
 }
 
 const MANIFEST_FILE = "manifest.json";
@@ -32,6 +33,15 @@ async function writeManifest(webDir: string, entries: ReportManifestEntry[]): Pr
   );
 }
 
+/**
+ * Date directory of the weekly report that rendered an analysis, or null if
+ * no manifest entry records it
+ */
+export async function findReportDate(webDir: string, reportGeneratedAt: string): Promise<string | null> {
+  const entry = (await loadManifest(webDir)).find((e) => e.reportGeneratedAt === reportGeneratedAt);
+  return entry?.date ?? null;
+}
+
 /**
  * Remove manifest entries whose HTML files no longer exist on disk.
  */
@@ -212,6 +222,8 @@ export function buildIndexPage(entries: ReportManifestEntry[]): string {
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Congress Trades \u2014 Report Archive</title>
+  <link rel="alternate" type="application/atom+xml" title="Congress Trades" href="feeds/reports.atom">
+  <link rel="alternate" type="application/feed+json" title="Congress Trades" href="feeds/reports.feed.json">
   <link rel="preconnect" href="https://fonts.googleapis.com">
   <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700;800&display=swap">
   <style>${INDEX_CSS}</style>
@@ -234,7 +246,7 @@ export function buildIndexPage(entries: ReportManifestEntry[]): string {
 </main>
 
 <footer>
-  Not investment advice.
+  <a href="feeds/reports.atom">Atom feed</a> \u00b7 <a href="feeds/reports.feed.json">JSON Feed</a> \u00b7 Not investment advice.
 </footer>
 
 <script>${INDEX_JS}</script>
@@ -18,10 +18,20 @@ const MIME_TYPES: Record<string, string> = {
   ".css":  "text/css; charset=utf-8",
   ".js":   "text/javascript; charset=utf-8",
   ".txt":  "text/plain; charset=utf-8",
+  ".atom": "application/atom+xml; charset=utf-8",
 };
 
-function mimeType(file: string): string {
-  return MIME_TYPES[path.extname(file).toLowerCase()] ?? "application/octet-stream";
+/** Double extensions that need a more specific type than their last part */
+const COMPOUND_MIME_TYPES: Record<string, string> = {
+  ".feed.json": "application/feed+json; charset=utf-8",
+};
+
+export function mimeType(file: string): string {
+  const lower = file.toLowerCase();
+  for (const [ext, type] of Object.entries(COMPOUND_MIME_TYPES)) {
+    if (lower.endsWith(ext)) return type;
+  }
+  return MIME_TYPES[path.extname(lower)] ?? "application/octet-stream";
 }
 
 function md5(file: string): string {
@@ -9,6 +9,45 @@
 // Input Types - What the scorer needs
 // ============================================
 
+/**
+ * Option contract terms parsed from a trade's asset description
+ */
+export interface OptionDetails {
+  kind: "call" | "put" | null;
+  strike: number | null;
+  /** Expiration date (YYYY-MM-DD) */
+  expiration: string | null;
+  contracts: number | null;
+}
+
+/**
+ * Normalized asset class of a trade, from the filed asset type and description
+ */
+export type AssetClass =
+  | "stock"
+  | "option"
+  | "fund"
+  | "treasury"
+  | "municipalBond"
+  | "corporateBond"
+  | "crypto"
+  | "privateEquity"
+  | "realEstate"
+  | "other";
+
+export const ASSET_CLASS_LABELS: Record<AssetClass, string> = {
+  stock: "Stock",
+  option: "Option",
+  fund: "ETF / Mutual Fund",
+  treasury: "Treasury",
+  municipalBond: "Municipal Bond",
+  corporateBond: "Corporate Bond",
+  crypto: "Crypto",
+  privateEquity: "Private Placement",
+  realEstate: "Real Estate",
+  other: "Other",
+};
+
 /**
  * A trade to be scored
  */
@@ -20,20 +59,42 @@ export interface TradeInput {
   amount: { low: number; high: number } | null;
   transactionDate: string | null;
   owner: string | null; // "Self", "Spouse", "Child", "Joint"
+  /** Date the filing was received (YYYY-MM-DD), used for late filing scoring */
+  disclosureDate?: string | null;
+  /** Option contract terms, for option trades whose description could be parsed */
+  option?: OptionDetails | null;
+  /** Underlying's close on or before the transaction date, used for option moneyness */
+  underlyingClose?: number | null;
+  /** Normalized asset class (treated as stock when absent) */
+  assetClass?: AssetClass;
 }
 
 /**
  * Information about the trader
  */
 export interface TraderInput {
+  /** Bioguide ID when the member was resolved, else "<chamber>-<first>-<last>" */
   id: string;
+  bioguideId?: string;
   firstName: string;
   lastName: string;
   chamber: "senate" | "house";
   committees: string[]; // Committee IDs
+  /** Leadership roles by committee ID; committees not listed are plain membership */
+  committeeRoles?: Record<string, CommitteeRole>;
   party?: string; // "Republican", "Democrat", etc.
 }
 
+/** A member's role on a committee, from its roster title and rank */
+export type CommitteeRole = "chair" | "rankingMember" | "viceChair" | "member";
+
+export const COMMITTEE_ROLE_LABELS: Record<CommitteeRole, string> = {
+  chair: "Chair",
+  rankingMember: "Ranking Member",
+  viceChair: "Vice Chair",
+  member: "Member",
+};
+
 /**
  * Historical context for a trader
  */
@@ -53,6 +114,37 @@ export interface MarketData {
   averageVolume: number | null;
   /** Exchange short name from FMP (e.g. "NASDAQ", "NYSE", "AMEX") */
   exchange?: string | null;
+  /** Latest share price */
+  price?: number | null;
+}
+
+/**
+ * A member taking part in a trading cluster
+ */
+export interface ClusterMember {
+  firstName: string;
+  lastName: string;
+  bioguideId?: string;
+  party?: string;
+  committees: string[];
+}
+
+/**
+ * A burst of different members buying (or selling) the same stock within a short window
+ */
+export interface TradingCluster {
+  symbol: string;
+  direction: "buy" | "sell";
+  /** First and last transaction dates in the cluster (YYYY-MM-DD) */
+  startDate: string;
+  endDate: string;
+  members: ClusterMember[];
+  tradeCount: number;
+  /** Distinct known parties among the members */
+  parties: string[];
+  isCrossParty: boolean;
+  /** Committees with two or more members of the cluster */
+  sharedCommittees: string[];
 }
 
 /**
@@ -63,6 +155,8 @@ export interface CongressionalTradingPattern {
   totalTrades: number; // How many times has congress traded this?
   uniqueTraders: number; // How many different members have traded it?
   recentTrades: number; // Trades in last 90 days
+  /** Bursts of different members trading this stock in the same direction */
+  clusters?: TradingCluster[];
 }
 
 /**
@@ -74,10 +168,47 @@ export interface CommitteeSectorMap {
   getCommitteeSectors(committeeId: string): string[];
   /** Get FMP industries a committee has jurisdiction over */
   getCommitteeIndustries(committeeId: string): string[];
+  /** Get a committee or subcommittee name */
+  getCommitteeName(committeeId: string): string | null;
+  /** Get the parent of a mapped subcommittee (null for full committees) */
+  getParentCommittee(committeeId: string): string | null;
   /** Check if a committee has jurisdiction over a stock's sector/industry */
   hasOverlap(committeeId: string, sector: string | null, industry: string | null): boolean;
 }
 
+/**
+ * A trader's committee with jurisdiction over a traded stock. Subcommittee
+ * matches come from the subcommittee's own, narrower jurisdiction.
+ */
+export interface CommitteeMatch {
+  committeeId: string;
+  name: string | null;
+  level: "committee" | "subcommittee";
+  /** The trader's role on this committee (absent in older reports) */
+  role?: CommitteeRole;
+}
+
+/**
+ * A dated committee event (hearing, markup, or published report)
+ */
+export interface CommitteeActivity {
+  /** Committee thomas ID, e.g. "HSIF", or subcommittee ID, e.g. "HSIF14" */
+  committeeId: string;
+  type: "hearing" | "markup" | "report";
+  /** Event date (YYYY-MM-DD) */
+  date: string;
+  title: string;
+  url?: string;
+}
+
+/**
+ * Optional extra context for scoring; each field enables the factor that uses it
+ */
+export interface ScoringContext {
+  /** Activity of the trader's committees, used for activity proximity scoring */
+  committeeActivity?: CommitteeActivity[];
+}
+
 // ============================================
 // Output Types - What the scorer produces
 // ============================================
@@ -103,6 +234,12 @@ export interface FactorScores {
 
   /** Spouse/family trades may indicate distancing */
   ownershipScore: number;
+
+  /** Trade falls close to a hearing/markup/report by a relevant committee */
+  activityProximityScore: number;
+
+  /** Trade was disclosed after the STOCK Act deadline */
+  lateFilingScore: number;
 }
 
 /**
@@ -128,15 +265,66 @@ export interface ScoreExplanation {
     stockSector: string | null;
     stockIndustry: string | null;
     overlappingCommittees: string[];
+    /** Each overlapping committee, subcommittees first (absent in older reports) */
+    matches?: CommitteeMatch[];
+    /** The trader's most heavily weighted leadership role among the matches, if any */
+    role?: {
+      committeeId: string;
+      name: string | null;
+      role: CommitteeRole;
+      multiplier: number;
+    };
   };
   derivative?: {
     assetType: string;
     isDerivative: boolean;
+    option?: OptionDetails & {
+      /** Days from trade to expiration */
+      daysToExpiry: number | null;
+      /** Strike distance from the trade-date close, positive = out of the money */
+      moneyness: number | null;
+    };
   };
   ownership?: {
     owner: string;
     isIndirect: boolean;
   };
+  activityProximity?: {
+    committeeId: string;
+    activityType: CommitteeActivity["type"];
+    activityDate: string;
+    title: string;
+    url?: string;
+    /** Days from trade to activity; positive = activity came after the trade */
+    daysFromTrade: number;
+  };
+  lateFiling?: {
+    transactionDate: string;
+    disclosureDate: string;
+    delayDays: number;
+    deadlineDays: number;
+    /** Days past the deadline (0 if filed on time) */
+    daysLate: number;
+  };
+  /** Set for trades outside plain stock and options */
+  assetClass?: {
+    assetClass: AssetClass;
+    /** Overall score forced to 0 */
+    excluded: boolean;
+    /** Applied to the overall score */
+    multiplier: number;
+  };
+  cluster?: {
+    direction: TradingCluster["direction"];
+    startDate: string;
+    endDate: string;
+    /** Names of the other members in the cluster */
+    otherMembers: string[];
+    isCrossParty: boolean;
+    sharedCommittees: string[];
+    /** Points added to the overall score */
+    boost: number;
+  };
 }
 
 /**
@@ -160,6 +348,11 @@ export interface UniquenessResult {
     hasCommitteeRelevance: boolean;
     isDerivative: boolean;
     isIndirectOwnership: boolean;
+    isNearCommitteeActivity: boolean;
+    isLateFiling: boolean;
+    isClustered: boolean;
+    /** Not publicly traded: private stock, private equity and hedge fund interests */
+    isPrivatePlacement: boolean;
   };
 }
 
@@ -167,6 +360,25 @@ export interface UniquenessResult {
 // Configuration
 // ============================================
 
+/** Names of the scoring factors, as used in weights and enabledFactors */
+export type ScoringFactor =
+  | "marketCap"
+  | "conviction"
+  | "rarity"
+  | "committeeRelevance"
+  | "derivative"
+  | "ownership"
+  | "activityProximity"
+  | "lateFiling";
+
+/** How trades of one asset class are scored */
+export interface AssetClassRule {
+  /** Score 0 overall; factors are still reported */
+  exclude: boolean;
+  /** Multiplier on the overall score (after the cluster boost) */
+  multiplier: number;
+}
+
 export interface ScoringConfig {
   /** Market cap thresholds in dollars */
   marketCap: {
@@ -188,14 +400,59 @@ export interface ScoringConfig {
     uncommon: number; // Trades <= this = uncommon
   };
 
+  /** Max days between a trade and relevant committee activity to count as close */
+  activityProximity: {
+    windowDays: number;
+  };
+
+  /** Days after the transaction a disclosure is due (STOCK Act: 45) */
+  lateFiling: {
+    deadlineDays: number;
+  };
+
+  /** Tickers resolved for trades filed without one are only used at or above this confidence */
+  symbolResolution: {
+    minConfidence: number;
+  };
+
+  /**
+   * Committee relevance multipliers by the trader's role on the overlapping
+   * committee (the highest applies). A role lifts the base score toward 100 by
+   * its share of the largest multiplier, so the top role always scores 100.
+   */
+  committeeRole: Record<CommitteeRole, number>;
+
+  /** Cluster detection and the overall score boost for clustered trades */
+  cluster: {
+    /** Max days between the first and last trade of a cluster */
+    windowDays: number;
+    /** Distinct members needed to form a cluster */
+    minMembers: number;
+    /** Points added to the overall score of a clustered trade */
+    boost: number;
+    /** Extra points when the cluster is cross-party or shares a committee */
+    compositionBoost: number;
+  };
+
+  /** Per-asset-class scoring rules */
+  assetClasses: Record<AssetClass, AssetClassRule>;
+
   /** Weight of each factor in overall score (should sum to 1) */
-  weights: {
-    marketCap: number;
-    conviction: number;
-    rarity: number;
-    committeeRelevance: number;
-    derivative: number;
-    ownership: number;
+  weights: Record<ScoringFactor, number>;
+
+  /**
+   * Disabled factors score 0 and their weight is redistributed
+   * proportionally across the enabled factors
+   */
+  enabledFactors: Record<ScoringFactor, boolean>;
+
+  /** Profile the config was loaded from, recorded in reports for reproducibility */
+  profile?: {
+    name: string;
+    /** Short hash of the resolved config (excluding this field) */
+    hash: string;
+    /** Profile file path, if loaded from a file */
+    file?: string;
   };
 }
 
@@ -214,12 +471,59 @@ export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
     rare: 3,      // 3 or fewer trades
     uncommon: 10, // 10 or fewer trades
   },
+  activityProximity: {
+    windowDays: 14,
+  },
+  lateFiling: {
+    deadlineDays: 45,
+  },
+  symbolResolution: {
+    minConfidence: 0.8, // Exact and spelled-out matches; ambiguous listings and most fuzzy matches fall below
+  },
+  committeeRole: {
+    chair: 1.3,         // Sets the agenda
+    rankingMember: 1.2, // Leads the minority
+    viceChair: 1.1,
+    member: 1,
+  },
+  cluster: {
+    windowDays: 14,
+    minMembers: 2,
+    boost: 10,
+    compositionBoost: 5,
+  },
+  assetClasses: {
+    stock: { exclude: false, multiplier: 1 },
+    option: { exclude: false, multiplier: 1 },
+    fund: { exclude: false, multiplier: 0.75 },        // Diversified; says little about one company
+    treasury: { exclude: true, multiplier: 1 },        // T-bills are cash management, not a signal
+    municipalBond: { exclude: false, multiplier: 0.5 },
+    corporateBond: { exclude: false, multiplier: 1 },
+    crypto: { exclude: false, multiplier: 1 },
+    privateEquity: { exclude: false, multiplier: 1 },
+    realEstate: { exclude: false, multiplier: 1 },
+    other: { exclude: false, multiplier: 1 },
+  },
   weights: {
-    marketCap: 0.20,
-    conviction: 0.25,
-    rarity: 0.25,
-    committeeRelevance: 0.15,
-    derivative: 0.10,
-    ownership: 0.05,
+    // The six original factors keep their 20/25/25/15/10/5 split scaled by 0.95, so
+    // dropping proximity (no activity file) renormalizes back to exactly that split
+    marketCap: 0.19,
+    conviction: 0.2375,
+    rarity: 0.2375,
+    committeeRelevance: 0.1425,
+    derivative: 0.095,
+    ownership: 0.0475,
+    activityProximity: 0.05,
+    lateFiling: 0, // Reported but not weighted by default; weight it in a profile
+  },
+  enabledFactors: {
+    marketCap: true,
+    conviction: true,
+    rarity: true,
+    committeeRelevance: true,
+    derivative: true,
+    ownership: true,
+    activityProximity: true,
+    lateFiling: true,
   },
 };
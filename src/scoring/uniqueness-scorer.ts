@@ -12,12 +12,35 @@ import type {
   MarketData,
   CongressionalTradingPattern,
   CommitteeSectorMap,
+  CommitteeMatch,
   FactorScores,
   ScoreExplanation,
   UniquenessResult,
   ScoringConfig,
+  ScoringContext,
+  ScoringFactor,
+  CommitteeActivity,
+  TradingCluster,
+  ClusterMember,
+  OptionDetails,
 } from "./types.js";
 import { DEFAULT_SCORING_CONFIG } from "./types.js";
+import { getFilingDelayDays } from "../utils/dates.js";
+import { getTradeDirection } from "../utils/trades.js";
+
+/** Factor score field for each scoring factor */
+export const FACTOR_SCORE_KEYS: Record<ScoringFactor, keyof FactorScores> = {
+  marketCap: "marketCapScore",
+  conviction: "convictionScore",
+  rarity: "rarityScore",
+  committeeRelevance: "committeeRelevanceScore",
+  derivative: "derivativeScore",
+  ownership: "ownershipScore",
+  activityProximity: "activityProximityScore",
+  lateFiling: "lateFilingScore",
+};
+
+const SCORING_FACTORS = Object.keys(FACTOR_SCORE_KEYS) as ScoringFactor[];
 
 /**
  * Score a single trade for uniqueness
@@ -29,15 +52,27 @@ export function scoreTrade(
   marketData: MarketData | null,
   tradingPattern: CongressionalTradingPattern | null,
   sectorMap: CommitteeSectorMap | null,
-  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  context: ScoringContext = {}
 ): UniquenessResult {
+  const nearestActivity = findNearestRelevantActivity(
+    trade,
+    trader,
+    marketData,
+    sectorMap,
+    context.committeeActivity ?? [],
+    config
+  );
+
   const factors: FactorScores = {
     marketCapScore: scoreMarketCap(marketData, config),
     convictionScore: scoreConviction(trade, traderHistory, config),
     rarityScore: scoreRarity(tradingPattern, config),
-    committeeRelevanceScore: scoreCommitteeRelevance(trader, marketData, sectorMap),
+    committeeRelevanceScore: scoreCommitteeRelevance(trader, marketData, sectorMap, config),
     derivativeScore: scoreDerivative(trade),
     ownershipScore: scoreOwnership(trade),
+    activityProximityScore: scoreActivityProximity(nearestActivity),
+    lateFilingScore: scoreLateFiling(trade, config),
   };
 
   const explanation = buildExplanation(
@@ -47,9 +82,44 @@ export function scoreTrade(
     marketData,
     tradingPattern,
     sectorMap,
-    config
+    config,
+    nearestActivity
   );
 
+  const cluster = findTraderCluster(trade, trader, tradingPattern);
+  const clusterBoost = cluster ? getClusterBoost(cluster, config) : 0;
+  if (cluster && clusterBoost > 0) {
+    explanation.cluster = {
+      direction: cluster.direction,
+      startDate: cluster.startDate,
+      endDate: cluster.endDate,
+      otherMembers: cluster.members
+        .filter((m) => !isSameMember(m, trader))
+        .map((m) => `${m.firstName} ${m.lastName}`),
+      isCrossParty: cluster.isCrossParty,
+      sharedCommittees: cluster.sharedCommittees,
+      boost: clusterBoost,
+    };
+  }
+
+  const assetClass = trade.assetClass ?? "stock";
+  const assetRule = config.assetClasses[assetClass];
+  if (assetClass !== "stock" && assetClass !== "option") {
+    explanation.assetClass = {
+      assetClass,
+      excluded: assetRule.exclude,
+      multiplier: assetRule.multiplier,
+    };
+  }
+
+  // Disabled factors neither score nor explain
+  for (const factor of SCORING_FACTORS) {
+    if (!config.enabledFactors[factor]) {
+      factors[FACTOR_SCORE_KEYS[factor]] = 0;
+      delete explanation[factor];
+    }
+  }
+
   const flags = {
     isSmallCap: factors.marketCapScore >= 50,
     isHighConviction: factors.convictionScore >= 50,
@@ -57,9 +127,17 @@ export function scoreTrade(
     hasCommitteeRelevance: factors.committeeRelevanceScore >= 50,
     isDerivative: factors.derivativeScore >= 50,
     isIndirectOwnership: factors.ownershipScore >= 50,
+    isNearCommitteeActivity: factors.activityProximityScore >= 50,
+    isLateFiling: factors.lateFilingScore >= 50,
+    isClustered: clusterBoost > 0,
+    isPrivatePlacement: assetClass === "privateEquity",
   };
 
-  const overallScore = calculateOverallScore(factors, config);
+  // Clustered trades get a flat boost on top of the weighted factors; the
+  // asset class rule applies to the total
+  const overallScore = assetRule.exclude
+    ? 0
+    : Math.min(100, Math.round((calculateOverallScore(factors, config) + clusterBoost) * assetRule.multiplier));
 
   return {
     overallScore,
@@ -70,21 +148,27 @@ export function scoreTrade(
 }
 
 /**
- * Calculate overall score from weighted factors
+ * Calculate overall score from weighted factors.
+ * Weights are normalized over enabled factors so scores still span 0-100.
  */
 function calculateOverallScore(
   factors: FactorScores,
   config: ScoringConfig
 ): number {
-  const weighted =
-    factors.marketCapScore * config.weights.marketCap +
-    factors.convictionScore * config.weights.conviction +
-    factors.rarityScore * config.weights.rarity +
-    factors.committeeRelevanceScore * config.weights.committeeRelevance +
-    factors.derivativeScore * config.weights.derivative +
-    factors.ownershipScore * config.weights.ownership;
-
-  return Math.round(weighted);
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const factor of SCORING_FACTORS) {
+    if (!config.enabledFactors[factor]) continue;
+    weighted += factors[FACTOR_SCORE_KEYS[factor]] * config.weights[factor];
+    totalWeight += config.weights[factor];
+  }
+
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  return Math.round(weighted / totalWeight);
 }
 
 // ============================================
@@ -180,14 +264,85 @@ function scoreRarity(
   return Math.min(100, tradeScore + traderBonus);
 }
 
+/**
+ * The trader's committees with jurisdiction over a stock, subcommittees first
+ */
+function findCommitteeMatches(
+  trader: TraderInput,
+  sector: string | null,
+  industry: string | null,
+  sectorMap: CommitteeSectorMap
+): CommitteeMatch[] {
+  const matches: CommitteeMatch[] = [];
+  for (const committeeId of trader.committees) {
+    if (sectorMap.hasOverlap(committeeId, sector, industry)) {
+      matches.push({
+        committeeId,
+        name: sectorMap.getCommitteeName(committeeId),
+        level: sectorMap.getParentCommittee(committeeId) ? "subcommittee" : "committee",
+        role: trader.committeeRoles?.[committeeId] ?? "member",
+      });
+    }
+  }
+  return matches.sort((a, b) => (a.level === b.level ? 0 : a.level === "subcommittee" ? -1 : 1));
+}
+
+/**
+ * The match whose role carries the highest multiplier
+ */
+function findLeadingRole(
+  matches: CommitteeMatch[],
+  config: ScoringConfig
+): { match: CommitteeMatch; multiplier: number } | null {
+  let best: { match: CommitteeMatch; multiplier: number } | null = null;
+  for (const match of matches) {
+    const multiplier = config.committeeRole[match.role ?? "member"];
+    if (!best || multiplier > best.multiplier) {
+      best = { match, multiplier };
+    }
+  }
+  return best;
+}
+
+/**
+ * Committee relevance before the member's role is applied
+ */
+function getCommitteeBaseScore(matches: CommitteeMatch[]): number {
+  if (matches.length === 0) {
+    return 0;
+  } else if (matches.some((m) => m.level === "subcommittee")) {
+    return 100; // Subcommittee with direct jurisdiction
+  } else if (matches.length >= 2) {
+    return 100; // Multiple committee overlaps
+  }
+  return 75; // Single committee overlap
+}
+
+/**
+ * Lift a base score into its headroom below 100 by the role's multiplier,
+ * relative to the largest configured one. A member keeps the base and the
+ * top role reaches 100, so roles reorder trades without deflating members.
+ */
+function applyRoleWeight(base: number, multiplier: number, config: ScoringConfig): number {
+  const maxMultiplier = Math.max(...Object.values(config.committeeRole));
+  if (base === 0 || maxMultiplier <= 1 || multiplier <= 1) {
+    return base;
+  }
+  const share = Math.min(1, (multiplier - 1) / (maxMultiplier - 1));
+  return Math.round(base + (100 - base) * share);
+}
+
 /**
  * Score based on committee relevance - trading in sectors you regulate = higher score
- * Uses FMP sector/industry data from MarketData
+ * Uses FMP sector/industry data from MarketData. A subcommittee's narrower
+ * jurisdiction is a stronger signal than a broad parent-committee match, and
+ * chairs and ranking members are weighted above rank-and-file members.
  */
 function scoreCommitteeRelevance(
   trader: TraderInput,
   marketData: MarketData | null,
-  sectorMap: CommitteeSectorMap | null
+  sectorMap: CommitteeSectorMap | null,
+  config: ScoringConfig
 ): number {
   if (!sectorMap || trader.committees.length === 0) {
     return 0;
@@ -201,25 +356,76 @@ function scoreCommitteeRelevance(
     return 0;
   }
 
-  // Count how many of the trader's committees have jurisdiction
-  let overlappingCommittees = 0;
-  for (const committeeId of trader.committees) {
-    if (sectorMap.hasOverlap(committeeId, sector, industry)) {
-      overlappingCommittees++;
+  const matches = findCommitteeMatches(trader, sector, industry, sectorMap);
+  const multiplier = findLeadingRole(matches, config)?.multiplier ?? 1;
+  return applyRoleWeight(getCommitteeBaseScore(matches), multiplier, config);
+}
+
+/**
+ * Days to expiry and moneyness of an option contract at the time of the trade.
+ * Moneyness needs the underlying's trade-date close; it is null without one.
+ */
+function getOptionTerms(trade: TradeInput): { daysToExpiry: number | null; moneyness: number | null } {
+  const option = trade.option;
+  if (!option) {
+    return { daysToExpiry: null, moneyness: null };
+  }
+
+  let daysToExpiry: number | null = null;
+  if (option.expiration && trade.transactionDate) {
+    const expiry = new Date(option.expiration).getTime();
+    const traded = new Date(trade.transactionDate).getTime();
+    if (!isNaN(expiry) && !isNaN(traded)) {
+      daysToExpiry = Math.round((expiry - traded) / MS_PER_DAY);
     }
   }
 
-  if (overlappingCommittees === 0) {
-    return 0;
-  } else if (overlappingCommittees >= 2) {
-    return 100; // Multiple committee overlaps
-  } else {
-    return 75; // Single committee overlap
+  let moneyness: number | null = null;
+  const price = trade.underlyingClose;
+  if (option.strike && option.kind && price) {
+    // Positive = out of the money: a call struck above the price, a put below it
+    moneyness = option.kind === "call" ? option.strike / price - 1 : 1 - option.strike / price;
+  }
+
+  return { daysToExpiry, moneyness };
+}
+
+/**
+ * Score a parsed option contract - short-dated, out-of-the-money calls are
+ * the most timing-sensitive; long-dated puts look more like hedges. Without
+ * a known expiry or moneyness it scores like any other option (100).
+ */
+function scoreOptionContract(option: OptionDetails, daysToExpiry: number | null, moneyness: number | null): number {
+  if (daysToExpiry === null && moneyness === null) {
+    return 100;
+  }
+
+  let score = option.kind === "put" ? 50 : 75;
+
+  if (daysToExpiry !== null) {
+    if (daysToExpiry <= 30) {
+      score += 25; // Expires within a month
+    } else if (daysToExpiry <= 90) {
+      score += 10;
+    } else if (daysToExpiry > 365) {
+      score -= 25; // LEAPS
+    }
   }
+
+  if (moneyness !== null) {
+    if (moneyness > 0.05) {
+      score += 15; // Out of the money: pays off only on a sizable move
+    } else if (moneyness < -0.1) {
+      score -= 10; // Deep in the money: behaves like stock
+    }
+  }
+
+  return Math.max(25, Math.min(100, score));
 }
 
 /**
- * Score based on asset type - derivatives indicate timing sensitivity
+ * Score based on asset type - derivatives indicate timing sensitivity.
+ * Options with parsed contract terms are scored on expiry and moneyness.
  */
 function scoreDerivative(trade: TradeInput): number {
   if (!trade.assetType) {
@@ -228,7 +434,10 @@ function scoreDerivative(trade: TradeInput): number {
 
   const assetType = trade.assetType.toLowerCase();
 
-  if (
+  if (trade.option) {
+    const { daysToExpiry, moneyness } = getOptionTerms(trade);
+    return scoreOptionContract(trade.option, daysToExpiry, moneyness);
+  } else if (
     assetType.includes("option") ||
     assetType.includes("warrant") ||
     assetType.includes("right")
@@ -265,6 +474,151 @@ function scoreOwnership(trade: TradeInput): number {
   }
 }
 
+interface ActivityMatch {
+  activity: CommitteeActivity;
+  /** Days from trade to activity; positive = activity came after the trade */
+  daysFromTrade: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Find the committee activity closest to the trade date, among activity by
+ * the trader's committees (or their subcommittees) that have jurisdiction
+ * over the stock's sector/industry and fall within the configured window.
+ */
+function findNearestRelevantActivity(
+  trade: TradeInput,
+  trader: TraderInput,
+  marketData: MarketData | null,
+  sectorMap: CommitteeSectorMap | null,
+  activities: CommitteeActivity[],
+  config: ScoringConfig
+): ActivityMatch | null {
+  if (!sectorMap || !trade.transactionDate || activities.length === 0) {
+    return null;
+  }
+
+  const tradeTime = new Date(trade.transactionDate).getTime();
+  if (isNaN(tradeTime)) return null;
+
+  const sector = marketData?.sector ?? null;
+  const industry = marketData?.industry ?? null;
+  if (!sector && !industry) return null;
+
+  let best: ActivityMatch | null = null;
+
+  for (const activity of activities) {
+    // Subcommittee IDs extend the parent ID (e.g. "HSIF14" under "HSIF");
+    // jurisdiction is mapped at the parent committee level
+    const parentId = activity.committeeId.slice(0, 4);
+    const onCommittee = trader.committees.some(
+      (id) => id === activity.committeeId || id === parentId
+    );
+    if (!onCommittee) continue;
+    if (!sectorMap.hasOverlap(parentId, sector, industry)) continue;
+
+    const activityTime = new Date(activity.date).getTime();
+    if (isNaN(activityTime)) continue;
+
+    const daysFromTrade = Math.round((activityTime - tradeTime) / MS_PER_DAY);
+    if (Math.abs(daysFromTrade) > config.activityProximity.windowDays) continue;
+
+    if (!best || Math.abs(daysFromTrade) < Math.abs(best.daysFromTrade)) {
+      best = { activity, daysFromTrade };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Score based on proximity to relevant committee activity - closer = higher score
+ */
+function scoreActivityProximity(match: ActivityMatch | null): number {
+  if (!match) {
+    return 0;
+  }
+
+  const days = Math.abs(match.daysFromTrade);
+
+  if (days <= 3) {
+    return 100; // Trade within days of a hearing/markup/report
+  } else if (days <= 7) {
+    return 75;
+  } else {
+    return 50; // Within the configured window
+  }
+}
+
+/**
+ * Score based on disclosure lag - the later past the deadline, the higher the score
+ */
+function scoreLateFiling(trade: TradeInput, config: ScoringConfig): number {
+  const delay = getFilingDelayDays(trade.transactionDate, trade.disclosureDate);
+  const deadline = config.lateFiling.deadlineDays;
+
+  if (delay === null || delay <= deadline) {
+    return 0; // On time, or unknown
+  } else if (delay <= deadline * 2) {
+    return 50;
+  } else if (delay <= deadline * 4) {
+    return 75;
+  } else {
+    return 100; // Months late
+  }
+}
+
+/**
+ * Match by bioguide ID when both sides have one (filings spell names
+ * inconsistently), otherwise by name
+ */
+function isSameMember(member: ClusterMember, trader: TraderInput): boolean {
+  if (member.bioguideId && trader.bioguideId) return member.bioguideId === trader.bioguideId;
+  return (
+    member.firstName.toLowerCase() === trader.firstName.toLowerCase() &&
+    member.lastName.toLowerCase() === trader.lastName.toLowerCase()
+  );
+}
+
+/**
+ * Find the cluster this trade belongs to: same direction, the trader is a
+ * member, and the transaction date falls within the cluster's window
+ */
+function findTraderCluster(
+  trade: TradeInput,
+  trader: TraderInput,
+  tradingPattern: CongressionalTradingPattern | null
+): TradingCluster | null {
+  const direction = getTradeDirection(trade.type);
+  if (!direction || !trade.transactionDate || !tradingPattern?.clusters) {
+    return null;
+  }
+
+  const date = trade.transactionDate;
+  return (
+    tradingPattern.clusters.find(
+      (c) =>
+        c.direction === direction &&
+        date >= c.startDate &&
+        date <= c.endDate &&
+        c.members.some((m) => isSameMember(m, trader))
+    ) ?? null
+  );
+}
+
+/**
+ * Overall score boost for a clustered trade - more for cross-party or same-committee clusters
+ */
+function getClusterBoost(cluster: TradingCluster, config: ScoringConfig): number {
+  if (config.cluster.boost <= 0) {
+    return 0;
+  }
+
+  const coordinated = cluster.isCrossParty || cluster.sharedCommittees.length > 0;
+  return config.cluster.boost + (coordinated ? config.cluster.compositionBoost : 0);
+}
+
 // ============================================
 // Explanation Builder
 // ============================================
@@ -276,7 +630,8 @@ function buildExplanation(
   marketData: MarketData | null,
   tradingPattern: CongressionalTradingPattern | null,
   sectorMap: CommitteeSectorMap | null,
-  config: ScoringConfig
+  config: ScoringConfig,
+  nearestActivity: ActivityMatch | null
 ): ScoreExplanation {
   const explanation: ScoreExplanation = {};
 
@@ -330,20 +685,26 @@ function buildExplanation(
     const sector = marketData?.sector ?? null;
     const industry = marketData?.industry ?? null;
 
-    const overlappingCommittees: string[] = [];
-    for (const committeeId of trader.committees) {
-      if (sectorMap.hasOverlap(committeeId, sector, industry)) {
-        overlappingCommittees.push(committeeId);
-      }
-    }
+    const matches = findCommitteeMatches(trader, sector, industry, sectorMap);
 
-    if (overlappingCommittees.length > 0) {
+    if (matches.length > 0) {
       explanation.committeeRelevance = {
         traderCommittees: trader.committees,
         stockSector: sector,
         stockIndustry: industry,
-        overlappingCommittees,
+        overlappingCommittees: matches.map((m) => m.committeeId),
+        matches,
       };
+
+      const leading = findLeadingRole(matches, config);
+      if (leading && leading.match.role && leading.match.role !== "member") {
+        explanation.committeeRelevance.role = {
+          committeeId: leading.match.committeeId,
+          name: leading.match.name,
+          role: leading.match.role,
+          multiplier: leading.multiplier,
+        };
+      }
     }
   }
 
@@ -356,6 +717,9 @@ function buildExplanation(
       assetType: trade.assetType,
       isDerivative,
     };
+    if (trade.option) {
+      explanation.derivative.option = { ...trade.option, ...getOptionTerms(trade) };
+    }
   }
 
   // Ownership explanation
@@ -369,6 +733,32 @@ function buildExplanation(
     };
   }
 
+  // Committee activity proximity explanation
+  if (nearestActivity) {
+    const { activity, daysFromTrade } = nearestActivity;
+    explanation.activityProximity = {
+      committeeId: activity.committeeId,
+      activityType: activity.type,
+      activityDate: activity.date,
+      title: activity.title,
+      url: activity.url,
+      daysFromTrade,
+    };
+  }
+
+  // Late filing explanation
+  const delayDays = getFilingDelayDays(trade.transactionDate, trade.disclosureDate);
+  if (delayDays !== null) {
+    const deadlineDays = config.lateFiling.deadlineDays;
+    explanation.lateFiling = {
+      transactionDate: trade.transactionDate!,
+      disclosureDate: trade.disclosureDate!,
+      delayDays,
+      deadlineDays,
+      daysLate: Math.max(0, delayDays - deadlineDays),
+    };
+  }
+
   return explanation;
 }
 
@@ -382,6 +772,7 @@ export interface BatchScoreInput {
   traderHistory: TraderHistory;
   marketData: MarketData | null;
   tradingPattern: CongressionalTradingPattern | null;
+  context?: ScoringContext;
 }
 
 /**
@@ -400,7 +791,8 @@ export function scoreTrades(
       input.marketData,
       input.tradingPattern,
       sectorMap,
-      config
+      config,
+      input.context
     )
   );
 }
@@ -13,18 +13,40 @@ import type {
   MarketData,
   UniquenessResult,
   ScoringConfig,
+  ScoringContext,
+  CommitteeActivity,
+  CongressionalTradingPattern,
+  TradingCluster,
+  CommitteeRole,
 } from "../scoring/types.js";
-import { scoreTrade, DEFAULT_SCORING_CONFIG } from "../scoring/index.js";
-import type { MarketDataProvider } from "../data/types.js";
-import { CongressionalPatternAnalyzer } from "../data/pattern-analyzer.js";
+import { scoreTrade, DEFAULT_SCORING_CONFIG, COMMITTEE_ROLE_LABELS, ASSET_CLASS_LABELS } from "../scoring/index.js";
+import type {
+  MarketDataProvider,
+  CommitteeActivityProvider,
+  PriceHistoryProvider,
+  TradingPatternAnalyzer,
+} from "../data/types.js";
+import { closeOnOrBefore } from "../data/price-history-provider.js";
+import { CongressionalPatternAnalyzer, getDisclosureDate } from "../data/pattern-analyzer.js";
 import { createSectorMap } from "../data/sector-map.js";
+import { parseOptionDetails } from "../data/option-parser.js";
+import { classifyAsset } from "../data/asset-classifier.js";
 import {
-  findMemberByName,
-  getMemberCommittees,
+  getCommitteeById,
+  getMemberCommitteesOn,
+  getMemberCommitteeRolesOn,
   getMemberParty,
   buildPartyMap,
+  loadMemberResolver,
 } from "./committee-service.js";
+import { createMemberResolver, type MemberResolver } from "../data/member-resolver.js";
+import type { SymbolResolution, SymbolResolver } from "../data/symbol-resolver.js";
+import { loadSymbolResolver } from "./symbol-service.js";
+import { hashScoringConfig } from "./profile-service.js";
 import { saveReport } from "../utils/storage.js";
+import { openTradeStore } from "../data/trade-store.js";
+import { toIsoDate } from "../utils/dates.js";
+import { parseAmountRange } from "../utils/trades.js";
 
 // ============================================
 // Types for analysis results
@@ -35,6 +57,8 @@ export interface AnalyzedTrade {
   chamber: "senate" | "house";
   trader: TraderInput;
   score: UniquenessResult;
+  /** Ticker resolved from the asset description when the filing had none */
+  symbolResolution?: SymbolResolution;
 }
 
 export interface AnalysisReport {
@@ -46,6 +70,8 @@ export interface AnalysisReport {
     topByScore: AnalyzedTrade[];
     byRarity: AnalyzedTrade[];
     byCommitteeRelevance: AnalyzedTrade[];
+    /** Clusters of members trading the same stock in a short window, most recent first */
+    clusters: TradingCluster[];
     symbolStats: {
       totalSymbols: number;
       uniqueSymbols: number;
@@ -59,48 +85,35 @@ export interface AnalysisReport {
 // ============================================
 
 /**
- * Parse FMP amount string to numeric range
- */
-function parseAmountRange(
-  amount: string | undefined
-): { low: number; high: number } | null {
-  if (!amount) return null;
-
-  const cleaned = amount.replace(/[$,]/g, "");
-  const numbers = cleaned.match(/(\d+)/g);
-
-  if (!numbers || numbers.length === 0) return null;
-
-  if (numbers.length === 1) {
-    const value = parseInt(numbers[0], 10);
-    return { low: value, high: value };
-  }
-
-  return {
-    low: parseInt(numbers[0], 10),
-    high: parseInt(numbers[1], 10),
-  };
-}
-
-/**
- * Convert FMP trade to TradeInput
+ * Convert FMP trade to TradeInput, filling in a resolved ticker if the filing had none
  */
-function toTradeInput(trade: FMPTrade): TradeInput {
+function toTradeInput(
+  trade: FMPTrade,
+  symbolResolver?: SymbolResolver,
+  underlyingClose: number | null = null
+): TradeInput {
   return {
-    symbol: trade.symbol || null,
+    symbol: symbolResolver ? symbolResolver.getSymbol(trade) : trade.symbol || null,
     assetDescription: trade.assetDescription || null,
     assetType: trade.assetType || null,
     type: trade.type || null,
     amount: parseAmountRange(trade.amount),
     transactionDate: trade.transactionDate || null,
     owner: trade.owner || null,
+    disclosureDate: toIsoDate(trade.dateRecieved),
+    option: parseOptionDetails(trade.assetDescription, trade.assetType),
+    underlyingClose,
+    assetClass: classifyAsset(trade.assetType, trade.assetDescription),
   };
 }
 
 /**
- * Create trader ID from trade
+ * Create trader ID from trade: the member's bioguide ID, or the filing name
+ * if it couldn't be resolved
  */
-function getTraderId(trade: FMPTrade, chamber: "senate" | "house"): string {
+function getTraderId(trade: FMPTrade, chamber: "senate" | "house", resolver: MemberResolver): string {
+  const bioguideId = resolver.resolve(trade, chamber);
+  if (bioguideId) return bioguideId;
   const first = (trade.firstName || "").toLowerCase().trim();
   const last = (trade.lastName || "").toLowerCase().trim();
   return `${chamber}-${first}-${last}`;
@@ -115,7 +128,9 @@ export async function analyzeTrades(
   houseTrades: FMPTrade[],
   committeeData: CommitteeData | null,
   marketDataProvider: MarketDataProvider | null,
-  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  activityProvider: CommitteeActivityProvider | null = null,
+  priceProvider: PriceHistoryProvider | null = null
 ): Promise<AnalysisReport> {
   const allTrades = [
     ...senateTrades.map((t) => ({ trade: t, chamber: "senate" as const })),
@@ -124,88 +139,103 @@ export async function analyzeTrades(
 
   console.log(`Analyzing ${allTrades.length} total trades...`);
 
+  const resolver = await loadMemberResolver(committeeData);
+  const symbolResolver = await loadSymbolResolver(undefined, config.symbolResolution.minConfidence);
+
   // Build trading pattern analyzer from all trades
-  const patternAnalyzer = new CongressionalPatternAnalyzer([
-    ...senateTrades,
-    ...houseTrades,
-  ]);
+  const patternAnalyzer = createPatternAnalyzer(allTrades, committeeData, config, resolver, symbolResolver);
   const patternStats = patternAnalyzer.getStats();
+  const clusters = patternAnalyzer.getClusters();
   console.log(
     `  Symbol stats: ${patternStats.uniqueSymbols} unique, ${patternStats.rareSymbols} rare, ${patternStats.commonSymbols} common`
   );
+  console.log(`  Found ${clusters.length} trading clusters (${config.cluster.windowDays}-day window)`);
 
-  // Build sector map (uses FMP sector/industry taxonomy)
-  const sectorMap = createSectorMap();
-
-  // Build party map from legislators data
-  const partyMap: LegislatorPartyMap | null = committeeData?.legislators
-    ? buildPartyMap(committeeData.legislators)
-    : null;
-
-  // Build trader histories
-  const traderHistories = buildTraderHistories(allTrades);
-  console.log(`  Built histories for ${traderHistories.size} traders`);
-
-  // Get unique symbols for market data fetch
+  // Get unique symbols for market data fetch, including resolved ones
   const symbols = [
     ...new Set(
       allTrades
-        .map((t) => t.trade.symbol)
+        .map((t) => symbolResolver.getSymbol(t.trade))
         .filter((s): s is string => !!s && s.length > 0)
     ),
   ];
+  const resolvedSymbols = allTrades.filter((t) => symbolResolver.resolve(t.trade)).length;
+  if (resolvedSymbols > 0) {
+    console.log(`  Resolved tickers for ${resolvedSymbols} trades filed without one`);
+  }
 
   // Fetch market data if provider available
   let marketDataMap = new Map<string, MarketData>();
   if (marketDataProvider) {
     console.log(`  Fetching market data from ${marketDataProvider.getName()}...`);
     marketDataMap = await marketDataProvider.getMarketDataBatch(symbols);
+
+    // Keep a dated snapshot of market data alongside the trades
+    if (marketDataMap.size > 0) {
+      const store = await openTradeStore();
+      try {
+        store.saveMarketDataSnapshots(marketDataMap);
+      } finally {
+        store.close();
+      }
+    }
   } else {
     console.log(`  No market data provider - skipping market cap scoring`);
   }
 
-  // Score each trade
-  console.log(`  Scoring trades...`);
-  const scoredTrades: AnalyzedTrade[] = [];
-
-  for (const { trade, chamber } of allTrades) {
-    const traderId = getTraderId(trade, chamber);
-    const traderHistory = traderHistories.get(traderId);
-
-    if (!traderHistory) continue;
+  // Load committee activity (hearings, markups, reports) if provider available
+  let activities: CommitteeActivity[] = [];
+  if (activityProvider) {
+    console.log(`  Loading committee activity from ${activityProvider.getName()}...`);
+    activities = await activityProvider.getActivities();
+    console.log(`  Loaded ${activities.length} committee activity records`);
+  } else if (config.enabledFactors.activityProximity) {
+    console.log(`  No committee activity - activity proximity disabled, its weight spread over the other factors`);
+    config = withoutActivityProximity(config);
+  }
 
-    // Build trader info
-    const trader = buildTraderInput(trade, chamber, committeeData, partyMap);
+  // Trade-date closes of option underlyings, for moneyness
+  let underlyingCloses = new Map<FMPTrade, number>();
+  if (priceProvider) {
+    underlyingCloses = await loadUnderlyingCloses(allTrades, priceProvider, symbolResolver);
+    if (underlyingCloses.size > 0) {
+      console.log(`  Loaded trade-date closes for ${underlyingCloses.size} option trades from ${priceProvider.getName()}`);
+    }
+  }
 
-    // Get market data
-    const marketData = trade.symbol
-      ? marketDataMap.get(trade.symbol) || null
-      : null;
+  const inputs = buildScoringInputs(
+    allTrades,
+    committeeData,
+    patternAnalyzer,
+    marketDataMap,
+    activities,
+    resolver,
+    symbolResolver,
+    underlyingCloses
+  );
+  console.log(`  Built histories for ${new Set(inputs.map((i) => i.trader.id)).size} traders`);
 
-    // Get trading pattern
-    const pattern = trade.symbol
-      ? patternAnalyzer.getPattern(trade.symbol)
-      : null;
+  const unresolved = resolver.getUnresolved();
+  if (unresolved.length > 0) {
+    const unresolvedPath = await saveReport("unresolved-members", unresolved);
+    console.log(`  ⚠️  ${unresolved.length} filing names not matched to a bioguide ID (see ${unresolvedPath})`);
+  }
 
-    // Score the trade
-    const score = scoreTrade(
-      toTradeInput(trade),
-      trader,
-      traderHistory,
-      marketData,
-      pattern,
-      sectorMap,
-      config
+  const unresolvedSymbols = symbolResolver.getUnresolved();
+  if (unresolvedSymbols.length > 0) {
+    const unresolvedPath = await saveReport("unresolved-symbols", unresolvedSymbols);
+    const lowConfidence = unresolvedSymbols.filter((u) => u.candidate).length;
+    console.log(
+      `  ⚠️  ${unresolvedSymbols.length} asset descriptions not matched to a ticker` +
+      (lowConfidence > 0 ? `, ${lowConfidence} below ${config.symbolResolution.minConfidence} confidence` : "") +
+      ` (see ${unresolvedPath})`
     );
-
-    scoredTrades.push({
-      trade,
-      chamber,
-      trader,
-      score,
-    });
   }
 
+  // Score each trade
+  console.log(`  Scoring trades...`);
+  const scoredTrades = scoreInputs(inputs, config);
+
   // Sort by date descending (most recent first)
   scoredTrades.sort((a, b) => {
     const dateA = a.trade.transactionDate || "";
@@ -239,6 +269,7 @@ export async function analyzeTrades(
       topByScore,
       byRarity,
       byCommitteeRelevance,
+      clusters,
       symbolStats: patternStats,
     },
   };
@@ -250,84 +281,326 @@ export async function analyzeTrades(
   return report;
 }
 
+// ============================================
+// Scoring inputs
+// ============================================
+
+/**
+ * Build the pattern analyzer, keying members on bioguide ID and resolving
+ * each member's party and committees so clusters can report cross-party
+ * and same-committee composition
+ */
+export function createPatternAnalyzer(
+  trades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  committeeData: CommitteeData | null,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG,
+  resolver: MemberResolver = createMemberResolver(committeeData),
+  symbolResolver?: SymbolResolver
+): CongressionalPatternAnalyzer {
+  const partyMap: LegislatorPartyMap | null = committeeData?.legislators
+    ? buildPartyMap(committeeData.legislators)
+    : null;
+  const chambers = new Map(trades.map(({ trade, chamber }) => [trade, chamber]));
+
+  return new CongressionalPatternAnalyzer(
+    trades.map((t) => t.trade),
+    {
+      clusterWindowDays: config.cluster.windowDays,
+      minClusterMembers: config.cluster.minMembers,
+      getTraderId: (trade) => getTraderId(trade, chambers.get(trade)!, resolver),
+      getSymbol: symbolResolver ? (trade) => symbolResolver.getSymbol(trade) : undefined,
+      resolveMember: committeeData
+        ? (trade) => buildTraderInput(trade, chambers.get(trade)!, committeeData, partyMap, resolver)
+        : undefined,
+    }
+  );
+}
+
+/**
+ * Close of each option trade's underlying on or before its transaction date,
+ * for moneyness. Options without a strike, or whose underlying has no price
+ * history around the trade date, are left out.
+ */
+export async function loadUnderlyingCloses(
+  trades: { trade: FMPTrade }[],
+  priceProvider: PriceHistoryProvider,
+  symbolResolver?: SymbolResolver
+): Promise<Map<FMPTrade, number>> {
+  const closes = new Map<FMPTrade, number>();
+  for (const { trade } of trades) {
+    const option = parseOptionDetails(trade.assetDescription, trade.assetType);
+    const symbol = symbolResolver ? symbolResolver.getSymbol(trade) : trade.symbol;
+    if (!option?.strike || !option.kind || !symbol || !trade.transactionDate) continue;
+
+    const history = await priceProvider.getPriceHistory(symbol);
+    const close = history ? closeOnOrBefore(history, trade.transactionDate) : null;
+    if (close) closes.set(trade, close.close);
+  }
+  return closes;
+}
+
+/**
+ * Everything scoreTrade needs for one trade, independent of ScoringConfig
+ */
+export interface ScoringInput {
+  trade: FMPTrade;
+  chamber: "senate" | "house";
+  trader: TraderInput;
+  tradeInput: TradeInput;
+  traderHistory: TraderHistory;
+  marketData: MarketData | null;
+  pattern: CongressionalTradingPattern | null;
+  context: ScoringContext;
+  symbolResolution?: SymbolResolution;
+}
+
+/**
+ * Build scoring inputs for all trades. Inputs can be re-scored under
+ * different configs without rebuilding histories, patterns or committees.
+ * With pointInTime, each trade's pattern (rarity and clusters) and its
+ * trader's history are built only from trades disclosed by the day it was,
+ * as a backtest must.
+ */
+export function buildScoringInputs(
+  allTrades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  committeeData: CommitteeData | null,
+  patternAnalyzer: TradingPatternAnalyzer,
+  marketDataMap: Map<string, MarketData>,
+  activities: CommitteeActivity[] = [],
+  resolver: MemberResolver = createMemberResolver(committeeData),
+  symbolResolver?: SymbolResolver,
+  underlyingCloses: Map<FMPTrade, number> = new Map(),
+  pointInTime = false
+): ScoringInput[] {
+  // Build party map from legislators data
+  const partyMap: LegislatorPartyMap | null = committeeData?.legislators
+    ? buildPartyMap(committeeData.legislators)
+    : null;
+
+  // Build trader histories
+  const traderHistories = pointInTime ? null : buildTraderHistories(allTrades, resolver, symbolResolver);
+  const pointInTimeHistories = pointInTime
+    ? buildPointInTimeTraderHistories(allTrades, resolver, symbolResolver)
+    : null;
+
+  // Index activity under the parent committee so subcommittee activity is found too
+  const activityByCommittee = new Map<string, CommitteeActivity[]>();
+  for (const activity of activities) {
+    const parentId = activity.committeeId.slice(0, 4);
+    if (!activityByCommittee.has(parentId)) {
+      activityByCommittee.set(parentId, []);
+    }
+    activityByCommittee.get(parentId)!.push(activity);
+  }
+
+  const inputs: ScoringInput[] = [];
+
+  for (const { trade, chamber } of allTrades) {
+    const traderId = getTraderId(trade, chamber, resolver);
+    const traderHistory = pointInTimeHistories?.get(trade) ?? traderHistories?.get(traderId);
+
+    if (!traderHistory) continue;
+
+    // Build trader info
+    const trader = buildTraderInput(trade, chamber, committeeData, partyMap, resolver);
+
+    // Filed ticker, or one resolved from the asset description
+    const symbolResolution = symbolResolver?.resolve(trade) ?? undefined;
+    const symbol = trade.symbol || symbolResolution?.symbol;
+
+    // Get market data
+    const marketData = symbol
+      ? marketDataMap.get(symbol) || null
+      : null;
+
+    // Get trading pattern
+    const asOf = pointInTime ? getDisclosureDate(trade) : undefined;
+    const pattern = symbol && asOf !== null
+      ? patternAnalyzer.getPattern(symbol, asOf)
+      : null;
+
+    // Activity of the trader's committees
+    const committeeActivity = [
+      ...new Set(trader.committees.map((id) => id.slice(0, 4))),
+    ].flatMap((id) => activityByCommittee.get(id) ?? []);
+
+    inputs.push({
+      trade,
+      chamber,
+      trader,
+      tradeInput: toTradeInput(trade, symbolResolver, underlyingCloses.get(trade) ?? null),
+      traderHistory,
+      marketData,
+      pattern,
+      context: { committeeActivity },
+      symbolResolution,
+    });
+  }
+
+  return inputs;
+}
+
+/**
+ * Turn off activity proximity when no committee activity is loaded. It would
+ * score every trade 0 and cost relevant trades its weight; disabled, its
+ * weight is redistributed across the other enabled factors.
+ */
+export function withoutActivityProximity(config: ScoringConfig): ScoringConfig {
+  const adjusted = { ...config, enabledFactors: { ...config.enabledFactors, activityProximity: false } };
+  // Re-tag so a saved report's profile hash matches the config it was scored with
+  return config.profile
+    ? { ...adjusted, profile: { ...config.profile, hash: hashScoringConfig(adjusted) } }
+    : adjusted;
+}
+
+/**
+ * Score prepared inputs under a scoring config
+ */
+export function scoreInputs(
+  inputs: ScoringInput[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): AnalyzedTrade[] {
+  // Build sector map (uses FMP sector/industry taxonomy)
+  const sectorMap = createSectorMap();
+
+  return inputs.map((input) => ({
+    trade: input.trade,
+    chamber: input.chamber,
+    trader: input.trader,
+    score: scoreTrade(
+      input.tradeInput,
+      input.trader,
+      input.traderHistory,
+      input.marketData,
+      input.pattern,
+      sectorMap,
+      config,
+      input.context
+    ),
+    symbolResolution: input.symbolResolution,
+  }));
+}
+
 // ============================================
 // Helper functions
 // ============================================
 
 function buildTraderHistories(
-  trades: { trade: FMPTrade; chamber: "senate" | "house" }[]
+  trades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  resolver: MemberResolver,
+  symbolResolver?: SymbolResolver
 ): Map<string, TraderHistory> {
   const histories = new Map<string, TraderHistory>();
+  for (const [traderId, traderTrades] of groupTradesByTrader(trades, resolver, symbolResolver)) {
+    histories.set(traderId, summarizeTraderHistory(traderTrades.map((t) => t.input)));
+  }
+  return histories;
+}
+
+/**
+ * Trader histories as they stood on each trade's disclosure date: only the
+ * trader's trades disclosed by then count toward their average size. A trade
+ * without a usable disclosure date sees only itself.
+ */
+function buildPointInTimeTraderHistories(
+  trades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  resolver: MemberResolver,
+  symbolResolver?: SymbolResolver
+): Map<FMPTrade, TraderHistory> {
+  const histories = new Map<FMPTrade, TraderHistory>();
+  for (const traderTrades of groupTradesByTrader(trades, resolver, symbolResolver).values()) {
+    const byDate = new Map<string, TraderHistory>();
+    for (const { trade, input, disclosedOn } of traderTrades) {
+      if (disclosedOn === null) {
+        histories.set(trade, summarizeTraderHistory([input]));
+        continue;
+      }
+      let history = byDate.get(disclosedOn);
+      if (!history) {
+        const visible = traderTrades.filter((t) => t.disclosedOn !== null && t.disclosedOn <= disclosedOn);
+        history = summarizeTraderHistory(visible.map((t) => t.input));
+        byDate.set(disclosedOn, history);
+      }
+      histories.set(trade, history);
+    }
+  }
+  return histories;
+}
 
-  // Group trades by trader
-  const traderTrades = new Map<string, TradeInput[]>();
+function groupTradesByTrader(
+  trades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  resolver: MemberResolver,
+  symbolResolver?: SymbolResolver
+): Map<string, { trade: FMPTrade; input: TradeInput; disclosedOn: string | null }[]> {
+  const traderTrades = new Map<string, { trade: FMPTrade; input: TradeInput; disclosedOn: string | null }[]>();
 
   for (const { trade, chamber } of trades) {
-    const traderId = getTraderId(trade, chamber);
+    const traderId = getTraderId(trade, chamber, resolver);
 
     if (!traderTrades.has(traderId)) {
       traderTrades.set(traderId, []);
     }
-    traderTrades.get(traderId)!.push(toTradeInput(trade));
-  }
-
-  // Build histories
-  for (const [traderId, tradeInputs] of traderTrades) {
-    const amounts = tradeInputs
-      .map((t) => (t.amount ? (t.amount.low + t.amount.high) / 2 : null))
-      .filter((a): a is number => a !== null);
-
-    const averageTradeSize =
-      amounts.length > 0
-        ? amounts.reduce((a, b) => a + b, 0) / amounts.length
-        : null;
-
-    histories.set(traderId, {
-      visibleTrades: tradeInputs,
-      averageTradeSize,
-      totalTradeCount: tradeInputs.length,
+    traderTrades.get(traderId)!.push({
+      trade,
+      input: toTradeInput(trade, symbolResolver),
+      disclosedOn: getDisclosureDate(trade),
     });
   }
 
-  return histories;
+  return traderTrades;
+}
+
+function summarizeTraderHistory(tradeInputs: TradeInput[]): TraderHistory {
+  const amounts = tradeInputs
+    .map((t) => (t.amount ? (t.amount.low + t.amount.high) / 2 : null))
+    .filter((a): a is number => a !== null);
+
+  const averageTradeSize =
+    amounts.length > 0
+      ? amounts.reduce((a, b) => a + b, 0) / amounts.length
+      : null;
+
+  return {
+    visibleTrades: tradeInputs,
+    averageTradeSize,
+    totalTradeCount: tradeInputs.length,
+  };
 }
 
 function buildTraderInput(
   trade: FMPTrade,
   chamber: "senate" | "house",
   committeeData: CommitteeData | null,
-  partyMap: LegislatorPartyMap | null
+  partyMap: LegislatorPartyMap | null,
+  resolver: MemberResolver
 ): TraderInput {
-  const traderId = getTraderId(trade, chamber);
+  const traderId = getTraderId(trade, chamber, resolver);
+  const bioguideId = resolver.resolve(trade, chamber) ?? undefined;
 
-  // Find committees and party
+  // Find committees and roles (as of the trade date) and party
   let committees: string[] = [];
+  let committeeRoles: Record<string, CommitteeRole> | undefined;
   let party: string | undefined;
-  if (committeeData && trade.firstName && trade.lastName) {
-    const bioguideId = findMemberByName(
-      trade.firstName,
-      trade.lastName,
-      committeeData.membership,
-      committeeData.legislators
-    );
-    if (bioguideId) {
-      committees = getMemberCommittees(bioguideId, committeeData.membership);
-      party = getMemberParty(bioguideId, partyMap);
-    }
+  if (committeeData && bioguideId) {
+    committees = getMemberCommitteesOn(bioguideId, committeeData, trade.transactionDate);
+    committeeRoles = getMemberCommitteeRolesOn(bioguideId, committeeData, trade.transactionDate);
+    party = getMemberParty(bioguideId, partyMap);
   }
 
   return {
     id: traderId,
+    bioguideId,
     firstName: trade.firstName || "",
     lastName: trade.lastName || "",
     chamber,
     committees,
+    committeeRoles,
     party,
   };
 }
 
 /**
- * Get committee name from ID
+ * Get committee (or subcommittee) name from ID
  */
 function getCommitteeName(
   committeeId: string,
@@ -335,13 +608,7 @@ function getCommitteeName(
 ): string | null {
   if (!committeeData) return null;
 
-  const committee = committeeData.committees.find(
-    (c) => c.thomas_id === committeeId ||
-           c.house_committee_id === committeeId ||
-           c.senate_committee_id === committeeId
-  );
-
-  return committee?.name || null;
+  return getCommitteeById(committeeId, committeeData.committees)?.name || null;
 }
 
 /**
@@ -360,6 +627,26 @@ export function getCommitteeNames(
 // Report formatting
 // ============================================
 
+/**
+ * Summarize parsed option terms, e.g. "call $150 exp 2026-01-16 (21d), 8% OTM, 20 contracts"
+ */
+export function formatOptionTerms(
+  option: NonNullable<NonNullable<UniquenessResult["explanation"]["derivative"]>["option"]>
+): string {
+  const parts: string[] = [];
+  const contract = [option.kind, option.strike !== null ? `$${option.strike}` : null].filter(Boolean).join(" ");
+  if (contract) parts.push(contract);
+  if (option.expiration) {
+    parts.push(`exp ${option.expiration}${option.daysToExpiry !== null ? ` (${option.daysToExpiry}d)` : ""}`);
+  }
+  if (option.moneyness !== null) {
+    const pct = Math.round(Math.abs(option.moneyness) * 100);
+    parts.push(pct === 0 ? "at the money" : `${pct}% ${option.moneyness > 0 ? "OTM" : "ITM"}`);
+  }
+  if (option.contracts !== null) parts.push(`${option.contracts} contracts`);
+  return parts.join(", ");
+}
+
 export function formatTradeReport(analyzed: AnalyzedTrade, committeeData?: CommitteeData | null): string {
   const { trade, chamber, trader, score } = analyzed;
 
@@ -415,6 +702,17 @@ export function formatTradeReport(analyzed: AnalyzedTrade, committeeData?: Commi
 
     lines.push(`     ⚠️  Committee Relevance: ${committeesDisplay}`);
 
+    if (rel.role) {
+      const name = getCommitteeNames([rel.role.committeeId], committeeData || null)[0] ?? rel.role.name ?? rel.role.committeeId;
+      lines.push(`        Role: ${COMMITTEE_ROLE_LABELS[rel.role.role]}, ${name} (${rel.role.multiplier}x)`);
+    }
+
+    // Name subcommittees with direct jurisdiction
+    for (const match of rel.matches?.filter((m) => m.level === "subcommittee") ?? []) {
+      const name = getCommitteeNames([match.committeeId], committeeData || null)[0] ?? match.name ?? match.committeeId;
+      lines.push(`        Subcommittee: ${name}`);
+    }
+
     // Add sector/industry info
     const sectorParts: string[] = [];
     if (rel.stockSector) sectorParts.push(`Sector: ${rel.stockSector}`);
@@ -424,10 +722,45 @@ export function formatTradeReport(analyzed: AnalyzedTrade, committeeData?: Commi
     }
   }
 
+  // Committee activity proximity
+  if (score.flags.isNearCommitteeActivity && score.explanation.activityProximity) {
+    const act = score.explanation.activityProximity;
+    const committeeName = getCommitteeNames([act.committeeId], committeeData || null)[0] || act.committeeId;
+    const timing = act.daysFromTrade === 0
+      ? "same day as trade"
+      : act.daysFromTrade > 0
+        ? `${act.daysFromTrade}d after trade`
+        : `${-act.daysFromTrade}d before trade`;
+    lines.push(`     ⚠️  Near Committee ${act.activityType}: ${committeeName} (${act.activityDate}, ${timing})`);
+    lines.push(`        ${act.title}`);
+  }
+
+  // Trading cluster
+  if (score.flags.isClustered && score.explanation.cluster) {
+    const cl = score.explanation.cluster;
+    const composition = [
+      cl.isCrossParty ? "cross-party" : "",
+      cl.sharedCommittees.length > 0 ? `shared committees: ${getCommitteeNames(cl.sharedCommittees, committeeData || null).join(", ") || cl.sharedCommittees.join(", ")}` : "",
+    ].filter(Boolean).join("; ");
+    lines.push(
+      `     ⚠️  Cluster: ${cl.otherMembers.length} other member(s) ${cl.direction === "buy" ? "bought" : "sold"} ${cl.startDate} – ${cl.endDate}${composition ? ` (${composition})` : ""}`
+    );
+    lines.push(`        ${cl.otherMembers.join(", ")}`);
+  }
+
+  // Late filing
+  if (score.flags.isLateFiling && score.explanation.lateFiling) {
+    const late = score.explanation.lateFiling;
+    lines.push(
+      `     ⚠️  Late Filing: disclosed ${late.disclosureDate}, ${late.delayDays}d after trade (${late.daysLate}d past ${late.deadlineDays}-day deadline)`
+    );
+  }
+
   // Derivative
   if (score.flags.isDerivative && score.explanation.derivative) {
+    const option = score.explanation.derivative.option;
     lines.push(
-      `     - Derivative: ${score.explanation.derivative.assetType}`
+      `     - Derivative: ${score.explanation.derivative.assetType}${option ? ` (${formatOptionTerms(option)})` : ""}`
     );
   }
 
@@ -438,5 +771,12 @@ export function formatTradeReport(analyzed: AnalyzedTrade, committeeData?: Commi
     );
   }
 
+  // Asset class
+  if (score.explanation.assetClass) {
+    const ac = score.explanation.assetClass;
+    const rule = ac.excluded ? "excluded from scoring" : ac.multiplier !== 1 ? `score ×${ac.multiplier}` : "";
+    lines.push(`     - Asset Class: ${ASSET_CLASS_LABELS[ac.assetClass]}${rule ? ` (${rule})` : ""}`);
+  }
+
   return lines.join("\n");
 }
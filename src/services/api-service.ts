@@ -0,0 +1,430 @@
+/**
+ * API Service
+ *
+ * Read-only JSON API over the trade store, committee data and the latest
+ * saved analysis report, for internal dashboards. Routing is a plain
+ * function (handleApiRequest) so it can be exercised without a socket;
+ * startApiServer wires it to node:http.
+ */
+
+import * as http from "node:http";
+import { createHash } from "node:crypto";
+import type { CommitteeData, Legislator } from "../types/index.js";
+import type { SqliteTradeStore, StoredMember, TradeQuery } from "../data/trade-store.js";
+import type { AnalysisReport, AnalyzedTrade } from "./analysis-service.js";
+import type { MemberResolver } from "../data/member-resolver.js";
+import { getCommitteeById, getMemberCommittees } from "./committee-service.js";
+import { getLatestReport, loadData } from "../utils/storage.js";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const ROUTES = [
+  "GET /trades?symbol=&member=&chamber=&type=&since=&until=&page=&pageSize=",
+  "GET /members/:bioguide",
+  "GET /scores/top?chamber=&minScore=&page=&pageSize=",
+  "GET /committees/:id/trades?symbol=&since=&until=&page=&pageSize=",
+];
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Data the API serves. Loaders are called per request; each source decides
+ * what it caches (see createApiSources).
+ */
+export interface ApiSources {
+  store: SqliteTradeStore;
+  loadCommitteeData(): Promise<CommitteeData | null>;
+  loadMemberResolver(): Promise<MemberResolver>;
+  /** Stored filing names grouped by the bioguide ID they resolve to */
+  loadMemberIndex(): Promise<Map<string, StoredMember[]>>;
+  loadReport(): Promise<AnalysisReport | null>;
+}
+
+export interface ApiResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface Pagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// ============================================
+// Parameter parsing
+// ============================================
+
+function parseDateParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new ApiError(400, `Invalid ${name}: ${value}. Use YYYY-MM-DD.`);
+  }
+  return value;
+}
+
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ApiError(400, `Invalid path segment: ${segment}. Check its percent-encoding.`);
+  }
+}
+
+function parseChamberParam(params: URLSearchParams): "senate" | "house" | undefined {
+  const value = params.get("chamber")?.toLowerCase();
+  if (!value) return undefined;
+  if (value !== "senate" && value !== "house") {
+    throw new ApiError(400, `Invalid chamber: ${value}. Use senate or house.`);
+  }
+  return value;
+}
+
+function parsePositiveInt(params: URLSearchParams, name: string, fallback: number): number {
+  const value = params.get(name);
+  if (value === null) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ApiError(400, `Invalid ${name}: ${value}. Must be a positive integer.`);
+  }
+  return parsed;
+}
+
+function parsePagination(params: URLSearchParams): { page: number; pageSize: number } {
+  return {
+    page: parsePositiveInt(params, "page", 1),
+    pageSize: Math.min(parsePositiveInt(params, "pageSize", DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE),
+  };
+}
+
+function buildPagination(page: number, pageSize: number, total: number): Pagination {
+  return { page, pageSize, total, totalPages: Math.ceil(total / pageSize) };
+}
+
+// ============================================
+// Member resolution
+// ============================================
+
+/** Stored members grouped by the bioguide ID their filing names resolve to */
+export function indexMembersByBioguide(members: StoredMember[], resolver: MemberResolver): Map<string, StoredMember[]> {
+  const index = new Map<string, StoredMember[]>();
+  for (const member of members) {
+    const bioguide = resolver.resolveName(member.firstName, member.lastName, member.chamber)?.bioguide;
+    if (!bioguide) continue;
+    const list = index.get(bioguide) ?? [];
+    list.push(member);
+    index.set(bioguide, list);
+  }
+  return index;
+}
+
+function requireCommitteeData(committeeData: CommitteeData | null): CommitteeData {
+  if (!committeeData) {
+    throw new ApiError(503, "No committee data. Run 'fetch:committees' first.");
+  }
+  return committeeData;
+}
+
+function describeLegislator(legislator: Legislator | undefined) {
+  if (!legislator) return null;
+  const term = legislator.terms[legislator.terms.length - 1];
+  return {
+    name: legislator.name.official_full ?? `${legislator.name.first} ${legislator.name.last}`,
+    party: term?.party ?? null,
+    state: term?.state ?? null,
+    chamber: term ? (term.type === "sen" ? "senate" : "house") : null,
+  };
+}
+
+// ============================================
+// Routes
+// ============================================
+
+function queryTradePage(store: SqliteTradeStore, query: TradeQuery, params: URLSearchParams) {
+  const { page, pageSize } = parsePagination(params);
+  const total = store.countTrades(query);
+  const data = store.queryTrades({ ...query, order: "desc", limit: pageSize, offset: (page - 1) * pageSize });
+  return { data, pagination: buildPagination(page, pageSize, total) };
+}
+
+async function getTrades(sources: ApiSources, params: URLSearchParams) {
+  const query: TradeQuery = {
+    chamber: parseChamberParam(params),
+    symbol: params.get("symbol") || undefined,
+    type: params.get("type") || undefined,
+    since: parseDateParam(params, "since"),
+    until: parseDateParam(params, "until"),
+  };
+
+  // A bioguide ID matches every filing name that resolves to it; anything else is a name search
+  const member = params.get("member");
+  if (member && /^[A-Z]\d{6}$/i.test(member)) {
+    const index = await sources.loadMemberIndex();
+    query.members = index.get(member.toUpperCase()) ?? [];
+  } else if (member) {
+    query.trader = member;
+  }
+
+  return queryTradePage(sources.store, query, params);
+}
+
+async function getMember(sources: ApiSources, bioguide: string) {
+  const committeeData = requireCommitteeData(await sources.loadCommitteeData());
+  const id = bioguide.toUpperCase();
+
+  const resolver = await sources.loadMemberResolver();
+  const legislator = resolver.getLegislator(id);
+  const committeeIds = getMemberCommittees(id, committeeData.membership);
+  const storedNames = (await sources.loadMemberIndex()).get(id) ?? [];
+
+  if (!legislator && committeeIds.length === 0 && storedNames.length === 0) {
+    throw new ApiError(404, `Unknown member: ${bioguide}`);
+  }
+
+  // Reports saved before member resolution have no bioguideId, so fall back to filing names
+  const report = await sources.loadReport();
+  const isMember = ({ trader }: AnalyzedTrade) =>
+    trader.bioguideId === id ||
+    storedNames.some(
+      (m) => m.chamber === trader.chamber && m.firstName === trader.firstName && m.lastName === trader.lastName
+    );
+
+  return {
+    bioguide: id,
+    ...describeLegislator(legislator),
+    filingNames: storedNames,
+    committees: committeeIds.map((committeeId) => ({
+      id: committeeId,
+      name: getCommitteeById(committeeId, committeeData.committees)?.name ?? null,
+    })),
+    tradeCount: sources.store.countTrades({ members: storedNames }),
+    recentTrades: sources.store.queryTrades({ members: storedNames, order: "desc", limit: 10 }),
+    topScores: report
+      ? report.scoredTrades
+          .filter(isMember)
+          .sort((a, b) => b.score.overallScore - a.score.overallScore)
+          .slice(0, 10)
+      : [],
+  };
+}
+
+async function getTopScores(sources: ApiSources, params: URLSearchParams) {
+  const report = await sources.loadReport();
+  if (!report) {
+    throw new ApiError(503, "No saved analysis. Run 'analyze' first.");
+  }
+
+  const chamber = parseChamberParam(params);
+  const minScoreParam = params.get("minScore");
+  const minScore = minScoreParam === null ? 0 : Number(minScoreParam);
+  if (isNaN(minScore)) {
+    throw new ApiError(400, `Invalid minScore: ${minScoreParam}`);
+  }
+
+  const { page, pageSize } = parsePagination(params);
+  const ranked = report.scoredTrades
+    .filter((t) => (!chamber || t.chamber === chamber) && t.score.overallScore >= minScore)
+    .sort((a, b) => b.score.overallScore - a.score.overallScore);
+
+  return {
+    generatedAt: report.generatedAt,
+    data: ranked.slice((page - 1) * pageSize, page * pageSize),
+    pagination: buildPagination(page, pageSize, ranked.length),
+  };
+}
+
+async function getCommitteeTrades(sources: ApiSources, committeeId: string, params: URLSearchParams) {
+  const committeeData = requireCommitteeData(await sources.loadCommitteeData());
+  const id = committeeId.toUpperCase();
+  const roster = committeeData.membership[id];
+  const committee = getCommitteeById(id, committeeData.committees);
+  if (!roster && !committee) {
+    throw new ApiError(404, `Unknown committee: ${committeeId}`);
+  }
+
+  const bioguides = new Set((roster ?? []).map((m) => m.bioguide).filter((b): b is string => !!b));
+  const index = await sources.loadMemberIndex();
+  const members = [...bioguides].flatMap((bioguide) => index.get(bioguide) ?? []);
+
+  return {
+    committee: { id, name: committee?.name ?? null, memberCount: bioguides.size },
+    ...queryTradePage(
+      sources.store,
+      {
+        members,
+        symbol: params.get("symbol") || undefined,
+        since: parseDateParam(params, "since"),
+        until: parseDateParam(params, "until"),
+      },
+      params
+    ),
+  };
+}
+
+async function route(sources: ApiSources, pathname: string, params: URLSearchParams): Promise<unknown> {
+  const segments = pathname.split("/").filter(Boolean).map(decodePathSegment);
+
+  if (segments.length === 0) {
+    const report = await sources.loadReport();
+    return {
+      routes: ROUTES,
+      trades: sources.store.countTrades(),
+      reportGeneratedAt: report?.generatedAt ?? null,
+    };
+  }
+  if (segments.length === 1 && segments[0] === "trades") {
+    return getTrades(sources, params);
+  }
+  if (segments.length === 2 && segments[0] === "members") {
+    return getMember(sources, segments[1]);
+  }
+  if (segments.length === 2 && segments[0] === "scores" && segments[1] === "top") {
+    return getTopScores(sources, params);
+  }
+  if (segments.length === 3 && segments[0] === "committees" && segments[2] === "trades") {
+    return getCommitteeTrades(sources, segments[1], params);
+  }
+  throw new ApiError(404, `Not found: ${pathname}`);
+}
+
+// ============================================
+// Request handling
+// ============================================
+
+function computeEtag(body: string): string {
+  return `"${createHash("sha1").update(body).digest("base64url")}"`;
+}
+
+function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * Handle one API request. Successful responses carry an ETag; a matching
+ * If-None-Match gets a 304 with no body.
+ */
+export async function handleApiRequest(
+  sources: ApiSources,
+  method: string,
+  url: string,
+  ifNoneMatch?: string
+): Promise<ApiResponse> {
+  const headers: Record<string, string> = { "Content-Type": "application/json; charset=utf-8" };
+
+  if (method !== "GET" && method !== "HEAD") {
+    return {
+      status: 405,
+      headers: { ...headers, Allow: "GET, HEAD" },
+      body: JSON.stringify({ error: `Method not allowed: ${method}` }),
+    };
+  }
+
+  const { pathname, searchParams } = new URL(url, "http://localhost");
+
+  try {
+    const body = JSON.stringify(await route(sources, pathname, searchParams));
+    const etag = computeEtag(body);
+    const cacheHeaders = { ETag: etag, "Cache-Control": "no-cache" };
+
+    if (etagMatches(ifNoneMatch, etag)) {
+      return { status: 304, headers: cacheHeaders, body: "" };
+    }
+    return { status: 200, headers: { ...headers, ...cacheHeaders }, body };
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return { status: error.status, headers, body: JSON.stringify({ error: error.message }) };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Default sources: committee data and the member resolver are loaded once for
+ * the server's lifetime (restart after 'fetch:committees'). The member index
+ * is rebuilt only when a fetch stores new filing names, and the analysis
+ * report is reloaded whenever a newer one is saved.
+ */
+export function createApiSources(
+  store: SqliteTradeStore,
+  committeeData: CommitteeData | null,
+  resolver: MemberResolver
+): ApiSources {
+  let cachedReport: { filename: string; report: AnalysisReport } | null = null;
+  let cachedIndex: { members: number; index: Map<string, StoredMember[]> } | null = null;
+
+  return {
+    store,
+    loadCommitteeData: async () => committeeData,
+    loadMemberResolver: async () => resolver,
+    loadMemberIndex: async () => {
+      // Filing names are only ever added, so the count shows when a fetch stored new ones
+      const members = store.listMembers();
+      if (cachedIndex?.members !== members.length) {
+        cachedIndex = { members: members.length, index: indexMembersByBioguide(members, resolver) };
+      }
+      return cachedIndex.index;
+    },
+    loadReport: async () => {
+      const filename = await getLatestReport("unique-trades");
+      if (!filename) return null;
+      if (cachedReport?.filename !== filename) {
+        const stored = await loadData<AnalysisReport>(filename, "reports");
+        cachedReport = stored?.data ? { filename, report: stored.data } : null;
+      }
+      return cachedReport?.report ?? null;
+    },
+  };
+}
+
+/**
+ * Start the HTTP server. Resolves once it is listening.
+ */
+export function startApiServer(
+  sources: ApiSources,
+  port: number,
+  host = "127.0.0.1",
+  corsOrigin?: string
+): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const ifNoneMatch = req.headers["if-none-match"];
+    handleApiRequest(sources, req.method ?? "GET", req.url ?? "/", Array.isArray(ifNoneMatch) ? ifNoneMatch.join(",") : ifNoneMatch)
+      .then((response) => {
+        const headers = corsOrigin ? { ...response.headers, "Access-Control-Allow-Origin": corsOrigin } : response.headers;
+        res.writeHead(response.status, headers);
+        res.end(req.method === "HEAD" ? undefined : response.body);
+      })
+      .catch((error) => {
+        console.error(`❌ ${req.method} ${req.url}:`, error);
+        res.writeHead(500, { "Content-Type": "application/json; charset=utf-8" });
+        res.end(JSON.stringify({ error: "Internal server error" }));
+      });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve(server);
+    });
+  });
+}
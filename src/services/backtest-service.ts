@@ -0,0 +1,157 @@
+/**
+ * Backtest Service
+ *
+ * Replays stored trades through scoreTrade under candidate ScoringConfigs and
+ * measures how well each config's top-scored trades match ground truth labels
+ * (from a label file or realized forward returns).
+ */
+
+import * as fs from "node:fs/promises";
+import { z } from "zod";
+import type { ScoringConfig } from "../scoring/types.js";
+import { scoreInputs } from "./analysis-service.js";
+import type { ScoringInput } from "./analysis-service.js";
+import type { TradePerformance } from "./performance-service.js";
+import { getTradeKey } from "../data/trade-store.js";
+
+// ============================================
+// Types for backtest results
+// ============================================
+
+export interface BacktestCandidate {
+  name: string;
+  config: ScoringConfig;
+  /**
+   * The trades to rank, replayed under this config's own symbol resolution
+   * and cluster settings
+   */
+  inputs: ScoringInput[];
+}
+
+export interface PrecisionAtK {
+  k: number;
+  /** Positive trades among the top K */
+  hits: number;
+  precision: number;
+}
+
+export interface CandidateResult {
+  name: string;
+  config: ScoringConfig;
+  precisionAtK: PrecisionAtK[];
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  labelSource: string;
+  totalTrades: number;
+  labeledTrades: number;
+  positives: number;
+  /** Share of labeled trades that are positive - precision of a random pick */
+  baseRate: number;
+  results: CandidateResult[];
+}
+
+// ============================================
+// Ground truth labels
+// ============================================
+
+const LabelFileSchema = z.array(
+  z.object({
+    tradeKey: z.string(),
+    label: z.union([z.boolean(), z.number()]),
+  })
+);
+
+/**
+ * Load trade labels keyed by getTradeKey().
+ * Accepts JSON ([{ "tradeKey": "...", "label": true }]) or CSV with a
+ * "tradeKey,label" header (label 1/0 or true/false).
+ */
+export async function loadTradeLabels(filePath: string): Promise<Map<string, boolean>> {
+  const content = await fs.readFile(filePath, "utf-8");
+  const labels = new Map<string, boolean>();
+
+  if (filePath.toLowerCase().endsWith(".csv")) {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    for (const line of lines.slice(1)) {
+      // Trade keys contain commas via the amount ("$1,001 - $15,000"), so split on the last comma only
+      const idx = line.lastIndexOf(",");
+      if (idx < 0) continue;
+      const key = line.slice(0, idx).replace(/^"|"$/g, "");
+      const value = line.slice(idx + 1).trim().toLowerCase();
+      labels.set(key, value === "1" || value === "true");
+    }
+    return labels;
+  }
+
+  for (const { tradeKey, label } of LabelFileSchema.parse(JSON.parse(content))) {
+    labels.set(tradeKey, label === true || label === 1);
+  }
+  return labels;
+}
+
+/**
+ * Label trades positive when their realized excess return at the horizon
+ * exceeds a threshold. Trades without a realized horizon are left unlabeled.
+ */
+export function labelsFromPerformance(
+  performances: TradePerformance[],
+  horizonDays: number,
+  minExcessReturn: number = 0
+): Map<string, boolean> {
+  const labels = new Map<string, boolean>();
+  for (const perf of performances) {
+    const horizonReturn = perf.returns.find((r) => r.horizonDays === horizonDays);
+    if (!horizonReturn) continue;
+    labels.set(getTradeKey(perf.trade), horizonReturn.excessReturn > minExcessReturn);
+  }
+  return labels;
+}
+
+// ============================================
+// Backtest
+// ============================================
+
+/**
+ * Score each candidate's inputs under its config and compute precision@K over
+ * labeled trades. Ties in score are broken by most recent transaction date.
+ * Trade counts are reported from the first candidate (the baseline).
+ */
+export function runBacktest(
+  candidates: BacktestCandidate[],
+  labels: Map<string, boolean>,
+  labelSource: string,
+  ks: number[]
+): BacktestReport {
+  const isLabeled = (input: ScoringInput) => labels.has(getTradeKey(input.trade));
+  const baseline = candidates[0]?.inputs ?? [];
+  const labeledInputs = baseline.filter(isLabeled);
+  const positives = labeledInputs.filter((input) => labels.get(getTradeKey(input.trade))).length;
+
+  const results: CandidateResult[] = candidates.map(({ name, config, inputs }) => {
+    const ranked = scoreInputs(inputs.filter(isLabeled), config).sort(
+      (a, b) =>
+        b.score.overallScore - a.score.overallScore ||
+        (b.trade.transactionDate || "").localeCompare(a.trade.transactionDate || "")
+    );
+
+    const precisionAtK = ks.map((k) => {
+      const top = ranked.slice(0, k);
+      const hits = top.filter((t) => labels.get(getTradeKey(t.trade))).length;
+      return { k, hits, precision: top.length > 0 ? hits / top.length : 0 };
+    });
+
+    return { name, config, precisionAtK };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    labelSource,
+    totalTrades: baseline.length,
+    labeledTrades: labeledInputs.length,
+    positives,
+    baseRate: labeledInputs.length > 0 ? positives / labeledInputs.length : 0,
+    results,
+  };
+}
@@ -1,16 +1,24 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
 import {
   CommitteesResponseSchema,
   CommitteeMembershipResponseSchema,
   LegislatorsResponseSchema,
   type Committee,
   type CommitteeMembershipResponse,
+  type CommitteeMembershipSnapshot,
   type CommitteeData,
   type CommitteeSectorMapping,
   type Legislator,
   type LegislatorPartyMap,
 } from "../types/index.js";
 import { mapCommitteeToSectors } from "../mappings/committee-sectors.js";
-import { saveData, loadData } from "../utils/storage.js";
+import { createMemberResolver, type MemberOverride, type MemberResolver } from "../data/member-resolver.js";
+import { createCommitteeHistory, type CommitteeHistory } from "../data/committee-history.js";
+import type { CommitteeRole } from "../scoring/types.js";
+import { saveData, loadData, getDataFilePath } from "../utils/storage.js";
 
 const COMMITTEES_URL =
   "https://unitedstates.github.io/congress-legislators/committees-current.json";
@@ -23,6 +31,9 @@ const COMMITTEES_FILE = "committees.json";
 const MEMBERSHIP_FILE = "membership.json";
 const LEGISLATORS_FILE = "legislators.json";
 const COMMITTEE_DATA_FILE = "committee-data.json";
+export const MEMBER_OVERRIDES_FILE = "member-overrides.json";
+/** Directory under data/ holding dated membership snapshots */
+const MEMBERSHIP_HISTORY_DIR = "committee-history";
 
 /**
  * Fetch current committees from congress-legislators
@@ -61,6 +72,7 @@ export async function fetchMembership(): Promise<CommitteeMembershipResponse> {
   const membership = CommitteeMembershipResponseSchema.parse(data);
 
   await saveData(MEMBERSHIP_FILE, membership);
+  await saveMembershipSnapshot(membership);
 
   const totalMembers = Object.values(membership).reduce(
     (sum, members) => sum + members.length,
@@ -73,6 +85,59 @@ export async function fetchMembership(): Promise<CommitteeMembershipResponse> {
   return membership;
 }
 
+/**
+ * Archive a membership file as data/committee-history/membership-<asOf>.json.
+ * A snapshot for the same date is replaced.
+ */
+export async function saveMembershipSnapshot(
+  membership: CommitteeMembershipResponse,
+  asOf: string = new Date().toISOString().slice(0, 10)
+): Promise<string> {
+  await fs.mkdir(await getDataFilePath(MEMBERSHIP_HISTORY_DIR), { recursive: true });
+  return saveData(path.join(MEMBERSHIP_HISTORY_DIR, `membership-${asOf}.json`), membership);
+}
+
+/**
+ * Load archived membership snapshots, oldest first
+ */
+export async function loadMembershipSnapshots(): Promise<CommitteeMembershipSnapshot[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(await getDataFilePath(MEMBERSHIP_HISTORY_DIR));
+  } catch {
+    return [];
+  }
+
+  const snapshots: CommitteeMembershipSnapshot[] = [];
+  for (const file of files.sort()) {
+    const match = file.match(/^membership-(\d{4}-\d{2}-\d{2})\.json$/);
+    if (!match) continue;
+    const stored = await loadData<CommitteeMembershipResponse>(path.join(MEMBERSHIP_HISTORY_DIR, file));
+    if (stored) {
+      snapshots.push({ asOf: match[1], membership: stored.data });
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Import an archived committee-membership file (JSON or YAML, e.g. an old
+ * committee-membership-current.yaml from congress-legislators' git history)
+ * as the snapshot for a date
+ */
+export async function importMembershipSnapshot(file: string, asOf: string): Promise<CommitteeMembershipSnapshot> {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    throw new Error(`Invalid snapshot date "${asOf}" (expected YYYY-MM-DD)`);
+  }
+
+  const content = await fs.readFile(file, "utf-8");
+  const raw = file.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+  const membership = CommitteeMembershipResponseSchema.parse(raw);
+
+  await saveMembershipSnapshot(membership, asOf);
+  return { asOf, membership };
+}
+
 /**
  * Fetch current legislators from congress-legislators
  */
@@ -154,7 +219,7 @@ export function generateSectorMappings(
         const subCommittee: Committee = {
           type: committee.type,
           name: `${committee.name} - ${sub.name}`,
-          thomas_id: sub.thomas_id,
+          thomas_id: getSubcommitteeId(committee, sub.thomas_id),
         };
         const subMapping = mapCommitteeToSectors(subCommittee);
         // Inherit parent sectors if subcommittee has none
@@ -209,7 +274,8 @@ export async function fetchAllCommitteeData(): Promise<CommitteeData> {
   await saveData(COMMITTEE_DATA_FILE, committeeData);
   console.log("Committee data saved to", COMMITTEE_DATA_FILE);
 
-  return committeeData;
+  const history = await loadMembershipSnapshots();
+  return { ...committeeData, history };
 }
 
 /**
@@ -217,7 +283,10 @@ export async function fetchAllCommitteeData(): Promise<CommitteeData> {
  */
 export async function loadCommitteeData(): Promise<CommitteeData | null> {
   const stored = await loadData<CommitteeData>(COMMITTEE_DATA_FILE);
-  return stored?.data || null;
+  if (!stored) return null;
+
+  const history = await loadMembershipSnapshots();
+  return history.length > 0 ? { ...stored.data, history } : stored.data;
 }
 
 /**
@@ -239,93 +308,92 @@ export function getMemberCommittees(
   return committees;
 }
 
+const committeeHistories = new WeakMap<CommitteeData, CommitteeHistory>();
+
 /**
- * Check if a first name matches, handling initials
- * e.g., "J." matches "James", "James" matches "James"
+ * Find which committees a congress member belonged to on a date, using the
+ * archived membership snapshots (or current membership if there are none)
  */
-function firstNameMatches(searchName: string, memberName: string): boolean {
-  const search = searchName.toLowerCase().trim();
-  const member = memberName.toLowerCase().trim();
-
-  // Exact match
-  if (member.includes(search)) return true;
-
-  // Check if member name starts with search initial
-  // e.g., search="james", member="j." or "j. french"
-  const searchInitial = search.charAt(0);
-  const memberParts = member.split(/[\s.]+/);
-  for (const part of memberParts) {
-    if (part.length === 1 && part === searchInitial) return true;
-  }
-
-  // Check if search name is an initial that matches member
-  // e.g., search="j", member="james"
-  if (search.length <= 2 && member.startsWith(search.replace(".", ""))) {
-    return true;
-  }
-
-  return false;
+export function getMemberCommitteesOn(
+  bioguideId: string,
+  committeeData: CommitteeData,
+  date: string | null | undefined
+): string[] {
+  return getCommitteeHistory(committeeData).getCommittees(bioguideId, date);
 }
 
 /**
- * Find congress member by name in membership data
- * Returns bioguide ID if found
+ * Find a congress member's leadership roles (chair, ranking member, vice
+ * chair) by committee on a date
  */
-export function findMemberByName(
-  firstName: string,
-  lastName: string,
-  membership: CommitteeMembershipResponse,
-  legislators?: Legislator[]
-): string | null {
-  const normalizedFirst = firstName.toLowerCase().trim();
-  const normalizedLast = lastName.toLowerCase().trim();
-
-  // First, search committee membership
-  for (const members of Object.values(membership)) {
-    for (const member of members) {
-      const memberName = member.name.toLowerCase();
-
-      // Must have last name
-      if (!memberName.includes(normalizedLast)) continue;
-
-      // Check first name with initial handling
-      if (firstNameMatches(normalizedFirst, memberName)) {
-        return member.bioguide || null;
-      }
-    }
+export function getMemberCommitteeRolesOn(
+  bioguideId: string,
+  committeeData: CommitteeData,
+  date: string | null | undefined
+): Record<string, CommitteeRole> {
+  return getCommitteeHistory(committeeData).getRoles(bioguideId, date);
+}
+
+function getCommitteeHistory(committeeData: CommitteeData): CommitteeHistory {
+  let history = committeeHistories.get(committeeData);
+  if (!history) {
+    history = createCommitteeHistory(committeeData);
+    committeeHistories.set(committeeData, history);
   }
+  return history;
+}
 
-  // If not found in membership, search legislators directly
-  // (handles members not on any committees)
-  if (legislators) {
-    for (const legislator of legislators) {
-      const legFirst = (legislator.name.first || "").toLowerCase();
-      const legLast = (legislator.name.last || "").toLowerCase();
-      const legOfficial = (legislator.name.official_full || "").toLowerCase();
-
-      // Must have last name match
-      if (legLast !== normalizedLast && !legOfficial.includes(normalizedLast)) {
-        continue;
-      }
+const MemberOverridesSchema = z.array(
+  z
+    .object({
+      firstName: z.string(),
+      lastName: z.string(),
+      chamber: z.enum(["senate", "house"]).optional(),
+      bioguide: z.string().regex(/^[A-Z]\d{6}$/, "expected a bioguide ID like P000197"),
+    })
+    .strict()
+);
 
-      // Try exact match on first name
-      if (legFirst === normalizedFirst) {
-        return legislator.id.bioguide;
-      }
+/**
+ * Load manual filing-name overrides from data/member-overrides.json.
+ * Returns an empty list if the file doesn't exist.
+ */
+export async function loadMemberOverrides(): Promise<MemberOverride[]> {
+  const filePath = await getDataFilePath(MEMBER_OVERRIDES_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return [];
+  }
 
-      // Try initial match
-      if (firstNameMatches(normalizedFirst, legFirst) ||
-          firstNameMatches(normalizedFirst, legOfficial)) {
-        return legislator.id.bioguide;
-      }
-    }
+  const result = MemberOverridesSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid member overrides ${filePath}:\n${issues}`);
   }
+  return result.data;
+}
 
-  return null;
+/**
+ * Build a member resolver from committee data plus the manual overrides file
+ */
+export async function loadMemberResolver(committeeData: CommitteeData | null): Promise<MemberResolver> {
+  return createMemberResolver(committeeData, await loadMemberOverrides());
+}
+
+/**
+ * Membership and activity data key subcommittees by the parent's thomas_id
+ * followed by the subcommittee's own ("HSIF" + "14" = "HSIF14")
+ */
+export function getSubcommitteeId(parent: Committee, subcommitteeThomasId: string | undefined): string {
+  return `${parent.thomas_id ?? ""}${subcommitteeThomasId ?? ""}`;
 }
 
 /**
- * Get committee details by ID
+ * Get committee details by ID (subcommittees by their full ID, e.g. "HSIF14")
  */
 export function getCommitteeById(
   committeeId: string,
@@ -344,11 +412,11 @@ export function getCommitteeById(
     // Check subcommittees
     if (committee.subcommittees) {
       for (const sub of committee.subcommittees) {
-        if (sub.thomas_id === committeeId) {
+        if (getSubcommitteeId(committee, sub.thomas_id) === committeeId) {
           return {
             ...committee,
             name: `${committee.name} - ${sub.name}`,
-            thomas_id: sub.thomas_id,
+            thomas_id: committeeId,
           };
         }
       }
@@ -0,0 +1,173 @@
+/**
+ * Report Diff Service
+ *
+ * Compares two saved AnalysisReports trade by trade: trades that newly appear,
+ * trades that dropped out, and per-factor score and flag changes for trades
+ * in both. Trades are matched on getTradeKey; repeated keys (identical lots
+ * on one day) pair in report order.
+ */
+
+import type { FactorScores, UniquenessResult } from "../scoring/types.js";
+import { FACTOR_SCORE_KEYS } from "../scoring/uniqueness-scorer.js";
+import { getTradeKey } from "../data/trade-store.js";
+import type { AnalysisReport, AnalyzedTrade } from "./analysis-service.js";
+
+// ============================================
+// Types for diff results
+// ============================================
+
+export type FlagName = keyof UniquenessResult["flags"];
+
+export interface ScoreDelta {
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface TradeChange {
+  key: string;
+  before: AnalyzedTrade;
+  after: AnalyzedTrade;
+  overall: ScoreDelta;
+  /** Only the factors whose score changed */
+  factors: Partial<Record<keyof FactorScores, ScoreDelta>>;
+  flagsSet: FlagName[];
+  flagsCleared: FlagName[];
+}
+
+export interface ReportSummary {
+  /** Saved report filename or path */
+  source: string;
+  generatedAt: string;
+  profile?: string;
+  totalTrades: number;
+}
+
+export interface ReportDiff {
+  generatedAt: string;
+  before: ReportSummary;
+  after: ReportSummary;
+  /** In the newer report only, highest score first */
+  added: AnalyzedTrade[];
+  /** In the older report only, highest score first */
+  dropped: AnalyzedTrade[];
+  /** In both with a score or flag change, largest overall change first */
+  changed: TradeChange[];
+  unchanged: number;
+}
+
+export interface DiffOptions {
+  /** Score changes at or below this are ignored (default 0 - any change) */
+  minDelta?: number;
+}
+
+// ============================================
+// Diff
+// ============================================
+
+function summarize(report: AnalysisReport, source: string): ReportSummary {
+  const profile = report.config.profile;
+  return {
+    source,
+    generatedAt: report.generatedAt,
+    profile: profile ? `${profile.name} (${profile.hash})` : undefined,
+    totalTrades: report.scoredTrades.length,
+  };
+}
+
+function byScore(a: AnalyzedTrade, b: AnalyzedTrade): number {
+  return b.score.overallScore - a.score.overallScore;
+}
+
+function delta(before: number | undefined, after: number | undefined): ScoreDelta {
+  // Factors added after a report was saved are missing from it; count them as 0
+  const b = before ?? 0;
+  const a = after ?? 0;
+  return { before: b, after: a, delta: Math.round((a - b) * 100) / 100 };
+}
+
+/**
+ * Compare a trade that appears in both reports, or null if nothing changed
+ */
+function compareTrade(key: string, before: AnalyzedTrade, after: AnalyzedTrade, minDelta: number): TradeChange | null {
+  const overall = delta(before.score.overallScore, after.score.overallScore);
+
+  const factors: TradeChange["factors"] = {};
+  for (const field of Object.values(FACTOR_SCORE_KEYS)) {
+    const d = delta(before.score.factors[field], after.score.factors[field]);
+    if (Math.abs(d.delta) > minDelta) factors[field] = d;
+  }
+
+  const flagNames = new Set([
+    ...Object.keys(before.score.flags ?? {}),
+    ...Object.keys(after.score.flags ?? {}),
+  ]) as Set<FlagName>;
+  const flagsSet: FlagName[] = [];
+  const flagsCleared: FlagName[] = [];
+  for (const flag of flagNames) {
+    const was = before.score.flags?.[flag] ?? false;
+    const is = after.score.flags?.[flag] ?? false;
+    if (!was && is) flagsSet.push(flag);
+    if (was && !is) flagsCleared.push(flag);
+  }
+
+  if (Math.abs(overall.delta) <= minDelta && Object.keys(factors).length === 0 && !flagsSet.length && !flagsCleared.length) {
+    return null;
+  }
+  return { key, before, after, overall, factors, flagsSet, flagsCleared };
+}
+
+/**
+ * Trades keyed by trade key and occurrence, so identical lots stay distinct
+ */
+function keyByOccurrence(trades: AnalyzedTrade[]): Map<string, AnalyzedTrade> {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, AnalyzedTrade>();
+  for (const trade of trades) {
+    const key = getTradeKey(trade.trade);
+    const occurrence = seen.get(key) ?? 0;
+    seen.set(key, occurrence + 1);
+    keyed.set(`${key}#${occurrence}`, trade);
+  }
+  return keyed;
+}
+
+/**
+ * Diff two reports - `before` is the older one
+ */
+export function diffReports(
+  before: { report: AnalysisReport; source: string },
+  after: { report: AnalysisReport; source: string },
+  options: DiffOptions = {}
+): ReportDiff {
+  const minDelta = options.minDelta ?? 0;
+  const beforeTrades = keyByOccurrence(before.report.scoredTrades);
+  const afterTrades = keyByOccurrence(after.report.scoredTrades);
+
+  const added: AnalyzedTrade[] = [];
+  const changed: TradeChange[] = [];
+  let unchanged = 0;
+
+  for (const [key, trade] of afterTrades) {
+    const previous = beforeTrades.get(key);
+    if (!previous) {
+      added.push(trade);
+      continue;
+    }
+    const change = compareTrade(getTradeKey(trade.trade), previous, trade, minDelta);
+    if (change) changed.push(change);
+    else unchanged++;
+  }
+
+  const dropped = [...beforeTrades].filter(([key]) => !afterTrades.has(key)).map(([, trade]) => trade);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    before: summarize(before.report, before.source),
+    after: summarize(after.report, after.source),
+    added: added.sort(byScore),
+    dropped: dropped.sort(byScore),
+    changed: changed.sort((a, b) => Math.abs(b.overall.delta) - Math.abs(a.overall.delta)),
+    unchanged,
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Export Service
+ *
+ * Flattens scored trades into tables with stable, documented columns and
+ * serializes them as CSV, NDJSON or XLSX. Column order and names are part of
+ * the export format: add new columns at the end and never rename existing
+ * ones. NDJSON rows carry every column (null when empty) with consistent
+ * types, so they load into Parquet or a DataFrame without schema inference
+ * surprises.
+ */
+
+import type { AnalyzedTrade } from "./analysis-service.js";
+import { getMemberCommittees } from "./committee-service.js";
+import { getTradeKey } from "../data/trade-store.js";
+import { toIsoDate } from "../utils/dates.js";
+import { classifyAsset } from "../data/asset-classifier.js";
+import type { MemberResolver } from "../data/member-resolver.js";
+import { FACTOR_SCORE_KEYS } from "../scoring/uniqueness-scorer.js";
+import { getTradeDirection, parseAmountRange } from "../utils/trades.js";
+import type { CommitteeMatch, UniquenessResult } from "../scoring/types.js";
+import type { CommitteeData } from "../types/index.js";
+import { buildXlsx, type XlsxCell } from "../output/xlsx.js";
+
+export const EXPORT_FORMATS = ["csv", "ndjson", "xlsx"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_DATASETS = ["scored-trades", "trades", "members", "committee-relevance"] as const;
+export type ExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export interface ExportColumn<T> {
+  name: string;
+  type: "string" | "number" | "boolean";
+  value: (row: T) => XlsxCell | undefined;
+}
+
+export interface ExportTable {
+  dataset: ExportDataset;
+  columns: Array<{ name: string; type: ExportColumn<unknown>["type"] }>;
+  rows: XlsxCell[][];
+}
+
+/** Members aggregated across their exported trades */
+export interface ExportMember {
+  bioguideId: string | null;
+  name: string;
+  chamber: string;
+  party: string | null;
+  state: string | null;
+  committees: string[];
+  trades: AnalyzedTrade[];
+}
+
+/** One committee match behind a trade's committee relevance score */
+export interface ExportCommitteeMatch {
+  analyzed: AnalyzedTrade;
+  match: CommitteeMatch;
+}
+
+// ============================================
+// Columns
+// ============================================
+
+function memberName(analyzed: AnalyzedTrade): string {
+  return `${analyzed.trade.firstName ?? ""} ${analyzed.trade.lastName ?? ""}`.trim();
+}
+
+function toSnakeCase(key: string): string {
+  return key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+}
+
+const FLAG_KEYS: Array<keyof UniquenessResult["flags"]> = [
+  "isSmallCap",
+  "isHighConviction",
+  "isRareStock",
+  "hasCommitteeRelevance",
+  "isDerivative",
+  "isIndirectOwnership",
+  "isNearCommitteeActivity",
+  "isLateFiling",
+  "isClustered",
+];
+
+const TRADE_COLUMNS: ExportColumn<AnalyzedTrade>[] = [
+  { name: "trade_key", type: "string", value: (t) => getTradeKey(t.trade) },
+  { name: "chamber", type: "string", value: (t) => t.chamber },
+  { name: "first_name", type: "string", value: (t) => t.trade.firstName },
+  { name: "last_name", type: "string", value: (t) => t.trade.lastName },
+  { name: "bioguide_id", type: "string", value: (t) => t.trader.bioguideId },
+  { name: "office", type: "string", value: (t) => t.trade.office },
+  { name: "symbol", type: "string", value: (t) => t.trade.symbol },
+  { name: "asset_description", type: "string", value: (t) => t.trade.assetDescription },
+  { name: "asset_type", type: "string", value: (t) => t.trade.assetType },
+  { name: "type", type: "string", value: (t) => t.trade.type },
+  { name: "amount", type: "string", value: (t) => t.trade.amount },
+  { name: "amount_low", type: "number", value: (t) => parseAmountRange(t.trade.amount)?.low },
+  { name: "amount_high", type: "number", value: (t) => parseAmountRange(t.trade.amount)?.high },
+  { name: "owner", type: "string", value: (t) => t.trade.owner },
+  { name: "transaction_date", type: "string", value: (t) => t.trade.transactionDate },
+  { name: "disclosure_date", type: "string", value: (t) => toIsoDate(t.trade.dateRecieved) },
+  { name: "comment", type: "string", value: (t) => t.trade.comment },
+  { name: "link", type: "string", value: (t) => t.trade.link },
+  { name: "asset_class", type: "string", value: (t) => classifyAsset(t.trade.assetType, t.trade.assetDescription) },
+  { name: "provenance", type: "string", value: (t) => t.trade.provenance ?? "filing" },
+];
+
+const SCORED_TRADE_COLUMNS: ExportColumn<AnalyzedTrade>[] = [
+  { name: "trade_key", type: "string", value: (t) => getTradeKey(t.trade) },
+  { name: "chamber", type: "string", value: (t) => t.chamber },
+  { name: "member", type: "string", value: memberName },
+  { name: "bioguide_id", type: "string", value: (t) => t.trader.bioguideId },
+  { name: "party", type: "string", value: (t) => t.trader.party },
+  { name: "symbol", type: "string", value: (t) => t.trade.symbol },
+  { name: "type", type: "string", value: (t) => t.trade.type },
+  { name: "direction", type: "string", value: (t) => getTradeDirection(t.trade.type) },
+  { name: "amount_low", type: "number", value: (t) => parseAmountRange(t.trade.amount)?.low },
+  { name: "amount_high", type: "number", value: (t) => parseAmountRange(t.trade.amount)?.high },
+  { name: "owner", type: "string", value: (t) => t.trade.owner },
+  { name: "transaction_date", type: "string", value: (t) => t.trade.transactionDate },
+  { name: "disclosure_date", type: "string", value: (t) => toIsoDate(t.trade.dateRecieved) },
+  { name: "overall_score", type: "number", value: (t) => t.score.overallScore },
+  ...Object.values(FACTOR_SCORE_KEYS).map((key): ExportColumn<AnalyzedTrade> => ({
+    name: toSnakeCase(key),
+    type: "number",
+    value: (t) => t.score.factors[key],
+  })),
+  ...FLAG_KEYS.map((key): ExportColumn<AnalyzedTrade> => ({
+    name: toSnakeCase(key),
+    type: "boolean",
+    value: (t) => t.score.flags[key],
+  })),
+  { name: "market_cap", type: "number", value: (t) => t.score.explanation.marketCap?.value },
+  { name: "stock_sector", type: "string", value: (t) => t.score.explanation.committeeRelevance?.stockSector },
+  { name: "stock_industry", type: "string", value: (t) => t.score.explanation.committeeRelevance?.stockIndustry },
+  {
+    name: "overlapping_committees",
+    type: "string",
+    value: (t) => t.score.explanation.committeeRelevance?.overlappingCommittees.join(";"),
+  },
+  { name: "cluster_boost", type: "number", value: (t) => t.score.explanation.cluster?.boost ?? 0 },
+  { name: "link", type: "string", value: (t) => t.trade.link },
+  { name: "resolved_symbol", type: "string", value: (t) => t.symbolResolution?.symbol },
+  { name: "symbol_source", type: "string", value: (t) => t.symbolResolution?.source },
+  { name: "symbol_confidence", type: "number", value: (t) => t.symbolResolution?.confidence },
+  { name: "asset_class", type: "string", value: (t) => classifyAsset(t.trade.assetType, t.trade.assetDescription) },
+  { name: "is_private_placement", type: "boolean", value: (t) => t.score.flags.isPrivatePlacement },
+];
+
+const MEMBER_COLUMNS: ExportColumn<ExportMember>[] = [
+  { name: "bioguide_id", type: "string", value: (m) => m.bioguideId },
+  { name: "name", type: "string", value: (m) => m.name },
+  { name: "chamber", type: "string", value: (m) => m.chamber },
+  { name: "party", type: "string", value: (m) => m.party },
+  { name: "state", type: "string", value: (m) => m.state },
+  { name: "committees", type: "string", value: (m) => m.committees.join(";") },
+  { name: "trades", type: "number", value: (m) => m.trades.length },
+  { name: "purchases", type: "number", value: (m) => m.trades.filter((t) => getTradeDirection(t.trade.type) === "buy").length },
+  { name: "sales", type: "number", value: (m) => m.trades.filter((t) => getTradeDirection(t.trade.type) === "sell").length },
+  { name: "first_trade_date", type: "string", value: (m) => tradeDates(m)[0] },
+  { name: "last_trade_date", type: "string", value: (m) => tradeDates(m).at(-1) },
+  {
+    name: "average_score",
+    type: "number",
+    value: (m) => Math.round(m.trades.reduce((sum, t) => sum + t.score.overallScore, 0) / m.trades.length),
+  },
+  { name: "max_score", type: "number", value: (m) => Math.max(...m.trades.map((t) => t.score.overallScore)) },
+  { name: "committee_relevant_trades", type: "number", value: (m) => m.trades.filter((t) => t.score.flags.hasCommitteeRelevance).length },
+  { name: "late_filings", type: "number", value: (m) => m.trades.filter((t) => t.score.flags.isLateFiling).length },
+];
+
+const COMMITTEE_RELEVANCE_COLUMNS: ExportColumn<ExportCommitteeMatch>[] = [
+  { name: "trade_key", type: "string", value: (r) => getTradeKey(r.analyzed.trade) },
+  { name: "member", type: "string", value: (r) => memberName(r.analyzed) },
+  { name: "bioguide_id", type: "string", value: (r) => r.analyzed.trader.bioguideId },
+  { name: "symbol", type: "string", value: (r) => r.analyzed.trade.symbol },
+  { name: "transaction_date", type: "string", value: (r) => r.analyzed.trade.transactionDate },
+  { name: "committee_id", type: "string", value: (r) => r.match.committeeId },
+  { name: "committee_name", type: "string", value: (r) => r.match.name },
+  { name: "level", type: "string", value: (r) => r.match.level },
+  { name: "role", type: "string", value: (r) => r.match.role ?? "member" },
+  { name: "stock_sector", type: "string", value: (r) => r.analyzed.score.explanation.committeeRelevance?.stockSector },
+  { name: "stock_industry", type: "string", value: (r) => r.analyzed.score.explanation.committeeRelevance?.stockIndustry },
+  { name: "committee_relevance_score", type: "number", value: (r) => r.analyzed.score.factors.committeeRelevanceScore },
+  { name: "overall_score", type: "number", value: (r) => r.analyzed.score.overallScore },
+];
+
+function tradeDates(member: ExportMember): string[] {
+  return member.trades
+    .map((t) => t.trade.transactionDate)
+    .filter((d): d is string => !!d)
+    .sort();
+}
+
+/** Column names per dataset, in export order */
+export function getExportColumns(dataset: ExportDataset): string[] {
+  return columnsFor(dataset).map((c) => c.name);
+}
+
+function columnsFor(dataset: ExportDataset): ExportColumn<never>[] {
+  switch (dataset) {
+    case "scored-trades": return SCORED_TRADE_COLUMNS;
+    case "trades": return TRADE_COLUMNS;
+    case "members": return MEMBER_COLUMNS;
+    case "committee-relevance": return COMMITTEE_RELEVANCE_COLUMNS;
+  }
+}
+
+// ============================================
+// Tables
+// ============================================
+
+function buildTable<T>(dataset: ExportDataset, columns: ExportColumn<T>[], rows: T[]): ExportTable {
+  return {
+    dataset,
+    columns: columns.map(({ name, type }) => ({ name, type })),
+    rows: rows.map((row) => columns.map((c) => c.value(row) ?? null)),
+  };
+}
+
+/**
+ * Aggregate trades by member (bioguide ID, or filing name if unresolved)
+ */
+function buildExportMembers(
+  trades: AnalyzedTrade[],
+  committeeData: CommitteeData | null,
+  resolver: MemberResolver
+): ExportMember[] {
+  const members = new Map<string, ExportMember>();
+
+  for (const analyzed of trades) {
+    const bioguideId = analyzed.trader.bioguideId ?? null;
+    const key = bioguideId ?? `${analyzed.chamber}|${memberName(analyzed).toLowerCase()}`;
+    if (!members.has(key)) {
+      const legislator = bioguideId ? resolver.getLegislator(bioguideId) : undefined;
+      const term = legislator?.terms[legislator.terms.length - 1];
+      members.set(key, {
+        bioguideId,
+        name: legislator?.name.official_full ?? memberName(analyzed),
+        chamber: analyzed.chamber,
+        party: analyzed.trader.party ?? term?.party ?? null,
+        state: term?.state ?? null,
+        committees: bioguideId && committeeData ? getMemberCommittees(bioguideId, committeeData.membership) : [],
+        trades: [],
+      });
+    }
+    members.get(key)!.trades.push(analyzed);
+  }
+
+  return [...members.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Build the requested datasets from scored trades
+ */
+export function buildExportTables(
+  trades: AnalyzedTrade[],
+  datasets: readonly ExportDataset[],
+  committeeData: CommitteeData | null,
+  resolver: MemberResolver
+): ExportTable[] {
+  return datasets.map((dataset) => {
+    switch (dataset) {
+      case "scored-trades":
+        return buildTable(dataset, SCORED_TRADE_COLUMNS, trades);
+      case "trades":
+        return buildTable(dataset, TRADE_COLUMNS, trades);
+      case "members":
+        return buildTable(dataset, MEMBER_COLUMNS, buildExportMembers(trades, committeeData, resolver));
+      case "committee-relevance":
+        return buildTable(
+          dataset,
+          COMMITTEE_RELEVANCE_COLUMNS,
+          trades.flatMap((analyzed) =>
+            (analyzed.score.explanation.committeeRelevance?.matches ?? []).map((match) => ({ analyzed, match }))
+          )
+        );
+    }
+  });
+}
+
+// ============================================
+// Serializers
+// ============================================
+
+function csvField(value: XlsxCell): string {
+  if (value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row; empty values are empty fields */
+export function toCsv(table: ExportTable): string {
+  const lines = [table.columns.map((c) => c.name), ...table.rows].map((row) => row.map(csvField).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
+
+/** One JSON object per line with every column present (null when empty) */
+export function toNdjson(table: ExportTable): string {
+  return table.rows
+    .map((row) => JSON.stringify(Object.fromEntries(table.columns.map((c, i) => [c.name, row[i]]))))
+    .join("\n") + (table.rows.length ? "\n" : "");
+}
+
+/** A workbook with one sheet per dataset */
+export function toXlsx(tables: ExportTable[]): Buffer {
+  return buildXlsx(
+    tables.map((table) => ({
+      name: table.dataset,
+      header: table.columns.map((c) => c.name),
+      rows: table.rows,
+    }))
+  );
+}
@@ -0,0 +1,352 @@
+/**
+ * Source Parity Service
+ *
+ * Compares trade snapshots from two TradeSourceProviders (a baseline and a
+ * candidate) transaction by transaction: trades missing from the candidate,
+ * extra trades only the candidate has, field disagreements on matched trades
+ * (amount, date, ticker, owner) and per-member coverage.
+ *
+ * Trades are matched on a normalized key (chamber, member name, transaction
+ * date, ticker, transaction type), then on the same key with the member's
+ * bioguide ID where both sides' filing names resolve. Trades left over are
+ * then paired when they share member, type and either ticker (within
+ * DATE_TOLERANCE_DAYS) or date, which is how a date or ticker disagreement
+ * shows up.
+ */
+
+import type { FMPTrade, TradeData } from "../types/index.js";
+import type { MemberResolver } from "../data/member-resolver.js";
+import { toIsoDate } from "../utils/dates.js";
+import { getHoldingOwner } from "../data/holdings-engine.js";
+import { parseAmountRange } from "../utils/trades.js";
+
+// ============================================
+// Types for parity results
+// ============================================
+
+/** Trades a few days apart in the same ticker are the same transaction misdated */
+export const DATE_TOLERANCE_DAYS = 7;
+
+export const PARITY_FIELDS = ["amount", "date", "ticker", "owner"] as const;
+
+export type ParityField = (typeof PARITY_FIELDS)[number];
+
+type Chamber = "senate" | "house";
+
+export interface SourceSnapshot {
+  name: string;
+  data: TradeData;
+}
+
+export interface ParityTrade {
+  chamber: Chamber;
+  member: string;
+  trade: FMPTrade;
+}
+
+export interface FieldDisagreement {
+  field: ParityField;
+  chamber: Chamber;
+  member: string;
+  baseline: string | null;
+  candidate: string | null;
+  baselineTrade: FMPTrade;
+  candidateTrade: FMPTrade;
+}
+
+export interface MemberCoverage {
+  member: string;
+  chamber: Chamber;
+  baselineTrades: number;
+  candidateTrades: number;
+  matched: number;
+  /** Matched trades over the larger side's count (1 = full parity) */
+  coverage: number;
+}
+
+export interface SourceParityReport {
+  generatedAt: string;
+  /** Earliest transaction date compared, if limited */
+  since?: string;
+  baseline: { name: string; senateTrades: number; houseTrades: number };
+  candidate: { name: string; senateTrades: number; houseTrades: number };
+  matched: number;
+  /** Matched trades where every compared field agrees */
+  identical: number;
+  /** In the baseline only */
+  missing: ParityTrade[];
+  /** In the candidate only */
+  extra: ParityTrade[];
+  disagreements: FieldDisagreement[];
+  disagreementCounts: Record<ParityField, number>;
+  /** Lowest coverage first */
+  members: MemberCoverage[];
+}
+
+export interface ParityOptions {
+  /** Only compare transactions on or after this date (YYYY-MM-DD) */
+  since?: string;
+  /**
+   * Also match members by bioguide ID where both sources' filing names
+   * resolve, so spelling differences between sources still pair. Trades are
+   * matched on the normalized name first either way.
+   */
+  resolver?: MemberResolver;
+}
+
+// ============================================
+// Normalization
+// ============================================
+
+const NAME_SUFFIXES = new Set(["jr", "sr", "ii", "iii", "iv"]);
+const NAME_TITLES = new Set(["hon", "honorable", "dr", "mr", "mrs", "ms", "rep", "sen"]);
+
+function nameTokens(value: string | undefined): string[] {
+  return (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter((t) => t && !NAME_SUFFIXES.has(t) && !NAME_TITLES.has(t));
+}
+
+/** "Hon. Nancy Pelosi" and "Nancy P. Pelosi" → "pelosi|n" */
+function normalizeMember(trade: FMPTrade): string {
+  const last = nameTokens(trade.lastName).pop() ?? "";
+  const first = nameTokens(trade.firstName)[0]?.charAt(0) ?? "";
+  return `${last}|${first}`;
+}
+
+export function normalizeTicker(symbol: string | undefined): string | null {
+  const s = (symbol ?? "").trim().toUpperCase().replace(/^\$/, "");
+  return s && s !== "--" && s !== "N/A" ? s : null;
+}
+
+function normalizeType(type: string | undefined): string {
+  const t = (type ?? "").toLowerCase();
+  if (t.includes("purchase")) return "purchase";
+  if (t.includes("sale")) return "sale";
+  if (t.includes("exchange")) return "exchange";
+  return t.trim();
+}
+
+function normalizeAmount(amount: string | undefined): string | null {
+  const range = parseAmountRange(amount);
+  return range ? `${range.low}-${range.high}` : null;
+}
+
+interface NormalizedTrade {
+  chamber: Chamber;
+  /** Chamber and normalized name */
+  memberKey: string;
+  bioguideId: string | null;
+  member: string;
+  date: string | null;
+  ticker: string | null;
+  type: string;
+  amount: string | null;
+  owner: string;
+  trade: FMPTrade;
+}
+
+function normalize(trade: FMPTrade, chamber: Chamber, resolver?: MemberResolver): NormalizedTrade {
+  return {
+    chamber,
+    memberKey: `${chamber}|${normalizeMember(trade)}`,
+    bioguideId: resolver?.resolve(trade, chamber) ?? null,
+    member: `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim(),
+    date: toIsoDate(trade.transactionDate),
+    ticker: normalizeTicker(trade.symbol),
+    type: normalizeType(trade.type),
+    amount: normalizeAmount(trade.amount),
+    owner: getHoldingOwner(trade.owner),
+    trade,
+  };
+}
+
+function parityKey(t: NormalizedTrade, member: string = t.memberKey): string {
+  return [member, t.date ?? "", t.ticker ?? (t.trade.assetDescription ?? "").toLowerCase(), t.type].join("|");
+}
+
+/** The same key with the member's bioguide ID, when their name resolved */
+function bioguideParityKey(t: NormalizedTrade): string | null {
+  return t.bioguideId ? parityKey(t, `${t.chamber}|${t.bioguideId}`) : null;
+}
+
+/** The normalized key transactions are matched on */
+export function getParityKey(trade: FMPTrade, chamber: Chamber): string {
+  return parityKey(normalize(trade, chamber));
+}
+
+function isSameMember(a: NormalizedTrade, b: NormalizedTrade): boolean {
+  return a.memberKey === b.memberKey || (a.chamber === b.chamber && !!a.bioguideId && a.bioguideId === b.bioguideId);
+}
+
+function daysApart(a: string | null, b: string | null): number {
+  if (!a || !b) return Infinity;
+  return Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000;
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+function snapshotTrades(snapshot: SourceSnapshot, options: ParityOptions): NormalizedTrade[] {
+  const trades = [
+    ...snapshot.data.senateTrades.map((t) => normalize(t, "senate", options.resolver)),
+    ...snapshot.data.houseTrades.map((t) => normalize(t, "house", options.resolver)),
+  ];
+  return options.since ? trades.filter((t) => !t.date || t.date >= options.since!) : trades;
+}
+
+function countByChamber(trades: NormalizedTrade[], name: string) {
+  return {
+    name,
+    senateTrades: trades.filter((t) => t.chamber === "senate").length,
+    houseTrades: trades.filter((t) => t.chamber === "house").length,
+  };
+}
+
+/**
+ * Pair trades with equal keys. Repeated keys (several lots on one day) pair
+ * with an equal amount first. Trades without a key are left unmatched.
+ */
+function matchExact(
+  baseTrades: NormalizedTrade[],
+  candTrades: NormalizedTrade[],
+  keyOf: (t: NormalizedTrade) => string | null,
+  pairs: Array<[NormalizedTrade, NormalizedTrade]>
+): { leftover: NormalizedTrade[]; remaining: NormalizedTrade[] } {
+  const unmatchedCand = new Map<string, NormalizedTrade[]>();
+  const remaining: NormalizedTrade[] = [];
+  for (const t of candTrades) {
+    const key = keyOf(t);
+    if (key === null) {
+      remaining.push(t);
+      continue;
+    }
+    if (!unmatchedCand.has(key)) unmatchedCand.set(key, []);
+    unmatchedCand.get(key)!.push(t);
+  }
+
+  const leftover: NormalizedTrade[] = [];
+  for (const t of baseTrades) {
+    const key = keyOf(t);
+    const candidates = key === null ? [] : unmatchedCand.get(key) ?? [];
+    if (candidates.length === 0) {
+      leftover.push(t);
+      continue;
+    }
+    const sameAmount = candidates.findIndex((c) => c.amount === t.amount);
+    pairs.push([t, candidates.splice(Math.max(0, sameAmount), 1)[0]]);
+  }
+
+  return { leftover, remaining: [...remaining, ...[...unmatchedCand.values()].flat()] };
+}
+
+/**
+ * Compare a candidate source's snapshot against a baseline's
+ */
+export function compareSources(
+  baseline: SourceSnapshot,
+  candidate: SourceSnapshot,
+  options: ParityOptions = {}
+): SourceParityReport {
+  const baseTrades = snapshotTrades(baseline, options);
+  const candTrades = snapshotTrades(candidate, options);
+
+  // Pass 1: exact key on the member's name, then on their bioguide ID where
+  // both sides resolve
+  const pairs: Array<[NormalizedTrade, NormalizedTrade]> = [];
+  const byName = matchExact(baseTrades, candTrades, parityKey, pairs);
+  const byBioguide = matchExact(byName.leftover, byName.remaining, bioguideParityKey, pairs);
+
+  // Pass 2: same member and type, with the same ticker on a nearby date or
+  // the same date with a different ticker
+  const remaining = byBioguide.remaining;
+  const missing: NormalizedTrade[] = [];
+  for (const t of byBioguide.leftover) {
+    let best = -1;
+    let bestDays = Infinity;
+    remaining.forEach((c, i) => {
+      if (!isSameMember(c, t) || c.type !== t.type) return;
+      const days = daysApart(t.date, c.date);
+      const sameTicker = !!t.ticker && t.ticker === c.ticker;
+      const sameDay = !!t.date && t.date === c.date && (c.amount === t.amount || !t.ticker || !c.ticker);
+      if ((sameTicker && days <= DATE_TOLERANCE_DAYS) || sameDay) {
+        if (days < bestDays) { best = i; bestDays = days; }
+      }
+    });
+    if (best >= 0) pairs.push([t, remaining.splice(best, 1)[0]]);
+    else missing.push(t);
+  }
+
+  const disagreements: FieldDisagreement[] = [];
+  let identical = 0;
+  for (const [b, c] of pairs) {
+    const fields: Array<[ParityField, string | null, string | null]> = [
+      ["amount", b.amount, c.amount],
+      ["date", b.date, c.date],
+      ["ticker", b.ticker, c.ticker],
+      ["owner", b.owner, c.owner],
+    ];
+    let agrees = true;
+    for (const [field, bv, cv] of fields) {
+      if (bv === cv) continue;
+      agrees = false;
+      disagreements.push({
+        field,
+        chamber: b.chamber,
+        member: b.member,
+        baseline: bv,
+        candidate: cv,
+        baselineTrade: b.trade,
+        candidateTrade: c.trade,
+      });
+    }
+    if (agrees) identical++;
+  }
+
+  // Per-member coverage, under the bioguide ID where either side's name resolved
+  const resolvedNames = new Map<string, string>();
+  for (const t of [...baseTrades, ...candTrades]) {
+    if (t.bioguideId && !resolvedNames.has(t.memberKey)) {
+      resolvedNames.set(t.memberKey, `${t.chamber}|${t.bioguideId}`);
+    }
+  }
+  const members = new Map<string, MemberCoverage>();
+  const memberEntry = (t: NormalizedTrade) => {
+    const key = t.bioguideId ? `${t.chamber}|${t.bioguideId}` : resolvedNames.get(t.memberKey) ?? t.memberKey;
+    if (!members.has(key)) {
+      members.set(key, { member: t.member, chamber: t.chamber, baselineTrades: 0, candidateTrades: 0, matched: 0, coverage: 0 });
+    }
+    return members.get(key)!;
+  };
+  for (const t of baseTrades) memberEntry(t).baselineTrades++;
+  for (const t of candTrades) memberEntry(t).candidateTrades++;
+  for (const [b] of pairs) memberEntry(b).matched++;
+  for (const m of members.values()) {
+    m.coverage = m.matched / Math.max(m.baselineTrades, m.candidateTrades);
+  }
+
+  const disagreementCounts = Object.fromEntries(PARITY_FIELDS.map((f) => [f, 0])) as Record<ParityField, number>;
+  for (const d of disagreements) disagreementCounts[d.field]++;
+
+  const toParityTrade = ({ chamber, member, trade }: NormalizedTrade): ParityTrade => ({ chamber, member, trade });
+  const byDate = (a: NormalizedTrade, b: NormalizedTrade) => (b.date ?? "").localeCompare(a.date ?? "");
+
+  return {
+    generatedAt: new Date().toISOString(),
+    since: options.since,
+    baseline: countByChamber(baseTrades, baseline.name),
+    candidate: countByChamber(candTrades, candidate.name),
+    matched: pairs.length,
+    identical,
+    missing: missing.sort(byDate).map(toParityTrade),
+    extra: remaining.sort(byDate).map(toParityTrade),
+    disagreements,
+    disagreementCounts,
+    members: [...members.values()].sort((a, b) => a.coverage - b.coverage || a.member.localeCompare(b.member)),
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Performance Service
+ *
+ * Measures whether analyzed trades "paid off": forward returns after the
+ * transaction date and excess return against a benchmark ticker.
+ */
+
+import type { PriceHistoryProvider, PricePoint } from "../data/types.js";
+import type { AnalyzedTrade } from "./analysis-service.js";
+
+// ============================================
+// Types for performance results
+// ============================================
+
+export const PERFORMANCE_HORIZONS = [30, 90, 180];
+
+export const DEFAULT_BENCHMARK = "SPY";
+
+export interface HorizonReturn {
+  horizonDays: number;
+  exitDate: string;
+  exitPrice: number;
+  /** Raw stock return over the horizon (0.1 = +10%) */
+  return: number;
+  benchmarkReturn: number;
+  /**
+   * Stock return minus benchmark return, in the direction of the trade:
+   * positive means a purchase beat the benchmark or a sale avoided underperformance
+   */
+  excessReturn: number;
+}
+
+export interface TradePerformance {
+  trade: AnalyzedTrade["trade"];
+  chamber: AnalyzedTrade["chamber"];
+  trader: AnalyzedTrade["trader"];
+  overallScore: number;
+  direction: "long" | "short";
+  entryDate: string;
+  entryPrice: number;
+  /** Realized horizons only - horizons that haven't elapsed yet are omitted */
+  returns: HorizonReturn[];
+}
+
+export interface GroupPerformance {
+  label: string;
+  trades: number;
+  avgReturn: number;
+  avgExcessReturn: number;
+  /** Share of trades with positive excess return */
+  hitRate: number;
+}
+
+export interface PerformanceReport {
+  generatedAt: string;
+  benchmark: string;
+  horizonDays: number;
+  tradesMeasured: number;
+  byMember: GroupPerformance[];
+  byScoreBucket: GroupPerformance[];
+  trades: TradePerformance[];
+}
+
+// ============================================
+// Price helpers
+// ============================================
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(date).getTime() + days * MS_PER_DAY).toISOString().split("T")[0];
+}
+
+/**
+ * First close on or after a date (next trading day for weekends/holidays)
+ */
+function priceOnOrAfter(history: PricePoint[], date: string): PricePoint | null {
+  return history.find((p) => p.date >= date) ?? null;
+}
+
+function getDirection(type: string | undefined): "long" | "short" | null {
+  const normalized = (type || "").toLowerCase();
+  if (normalized.includes("purchase") || normalized.includes("exchange")) return "long";
+  if (normalized.includes("sale")) return "short";
+  return null;
+}
+
+// ============================================
+// Main performance functions
+// ============================================
+
+/**
+ * Compute forward returns for each analyzed trade.
+ * Trades without a symbol, a buy/sell direction, or price history are skipped.
+ */
+export async function computeTradePerformance(
+  scoredTrades: AnalyzedTrade[],
+  priceProvider: PriceHistoryProvider,
+  benchmark: string = DEFAULT_BENCHMARK,
+  horizons: number[] = PERFORMANCE_HORIZONS
+): Promise<TradePerformance[]> {
+  const benchmarkHistory = await priceProvider.getPriceHistory(benchmark);
+  if (!benchmarkHistory || benchmarkHistory.length === 0) {
+    throw new Error(`No price history for benchmark ${benchmark} (${priceProvider.getName()})`);
+  }
+
+  const results: TradePerformance[] = [];
+
+  for (const analyzed of scoredTrades) {
+    const { trade } = analyzed;
+    const direction = getDirection(trade.type);
+    if (!trade.symbol || !trade.transactionDate || !direction) continue;
+
+    const history = await priceProvider.getPriceHistory(trade.symbol);
+    if (!history || history.length === 0) continue;
+
+    const entry = priceOnOrAfter(history, trade.transactionDate);
+    const benchmarkEntry = entry ? priceOnOrAfter(benchmarkHistory, entry.date) : null;
+    if (!entry || !benchmarkEntry) continue;
+
+    const returns: HorizonReturn[] = [];
+    for (const horizonDays of horizons) {
+      const target = addDays(entry.date, horizonDays);
+      const exit = priceOnOrAfter(history, target);
+      const benchmarkExit = priceOnOrAfter(benchmarkHistory, target);
+      if (!exit || !benchmarkExit) continue; // Horizon not realized yet
+
+      const stockReturn = exit.close / entry.close - 1;
+      const benchmarkReturn = benchmarkExit.close / benchmarkEntry.close - 1;
+      const sign = direction === "long" ? 1 : -1;
+
+      returns.push({
+        horizonDays,
+        exitDate: exit.date,
+        exitPrice: exit.close,
+        return: stockReturn,
+        benchmarkReturn,
+        excessReturn: sign * (stockReturn - benchmarkReturn),
+      });
+    }
+
+    results.push({
+      trade,
+      chamber: analyzed.chamber,
+      trader: analyzed.trader,
+      overallScore: analyzed.score.overallScore,
+      direction,
+      entryDate: entry.date,
+      entryPrice: entry.close,
+      returns,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Get the score bucket label for an overall score (0-19, 20-39, ... 80-100)
+ */
+export function getScoreBucket(score: number): string {
+  const low = Math.min(80, Math.floor(score / 20) * 20);
+  return low === 80 ? "80-100" : `${low}-${low + 19}`;
+}
+
+function summarizeGroup(label: string, horizonReturns: HorizonReturn[]): GroupPerformance {
+  const n = horizonReturns.length;
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  return {
+    label,
+    trades: n,
+    avgReturn: sum(horizonReturns.map((r) => r.return)) / n,
+    avgExcessReturn: sum(horizonReturns.map((r) => r.excessReturn)) / n,
+    hitRate: horizonReturns.filter((r) => r.excessReturn > 0).length / n,
+  };
+}
+
+/**
+ * Rank members and score buckets by average realized excess return at a horizon
+ */
+export function buildPerformanceReport(
+  performances: TradePerformance[],
+  benchmark: string,
+  horizonDays: number,
+  minTrades: number = 1
+): PerformanceReport {
+  const byMember = new Map<string, { label: string; returns: HorizonReturn[] }>();
+  const byBucket = new Map<string, HorizonReturn[]>();
+  let tradesMeasured = 0;
+
+  for (const perf of performances) {
+    const horizonReturn = perf.returns.find((r) => r.horizonDays === horizonDays);
+    if (!horizonReturn) continue;
+    tradesMeasured++;
+
+    const member = byMember.get(perf.trader.id) ?? {
+      label: `${perf.trader.firstName} ${perf.trader.lastName} (${perf.chamber})`,
+      returns: [],
+    };
+    member.returns.push(horizonReturn);
+    byMember.set(perf.trader.id, member);
+
+    const bucket = getScoreBucket(perf.overallScore);
+    if (!byBucket.has(bucket)) {
+      byBucket.set(bucket, []);
+    }
+    byBucket.get(bucket)!.push(horizonReturn);
+  }
+
+  const memberRanking = [...byMember.values()]
+    .filter((m) => m.returns.length >= minTrades)
+    .map((m) => summarizeGroup(m.label, m.returns))
+    .sort((a, b) => b.avgExcessReturn - a.avgExcessReturn);
+
+  const bucketRanking = [...byBucket.entries()]
+    .map(([label, returns]) => summarizeGroup(label, returns))
+    .sort((a, b) => b.avgExcessReturn - a.avgExcessReturn);
+
+  return {
+    generatedAt: new Date().toISOString(),
+    benchmark,
+    horizonDays,
+    tradesMeasured,
+    byMember: memberRanking,
+    byScoreBucket: bucketRanking,
+    trades: performances,
+  };
+}
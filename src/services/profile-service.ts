@@ -0,0 +1,261 @@
+/**
+ * Scoring Profile Service
+ *
+ * Loads named scoring profiles (YAML or JSON) that override the default
+ * thresholds, weights and enabled factors. Profiles are validated with zod
+ * and merged onto DEFAULT_SCORING_CONFIG; the resolved config is tagged with
+ * the profile name and a hash so reports can be reproduced.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { AssetClass, ScoringConfig } from "../scoring/types.js";
+import { ASSET_CLASS_LABELS, DEFAULT_SCORING_CONFIG } from "../scoring/types.js";
+
+const ASSET_CLASSES = Object.keys(ASSET_CLASS_LABELS) as AssetClass[];
+
+export const PROFILES_DIR = path.join(process.cwd(), "profiles");
+
+const PROFILE_EXTENSIONS = [".yaml", ".yml", ".json"];
+
+// ============================================
+// Profile schema
+// ============================================
+
+const FactorNumbersSchema = z
+  .object({
+    marketCap: z.number().min(0),
+    conviction: z.number().min(0),
+    rarity: z.number().min(0),
+    committeeRelevance: z.number().min(0),
+    derivative: z.number().min(0),
+    ownership: z.number().min(0),
+    activityProximity: z.number().min(0),
+    lateFiling: z.number().min(0),
+  })
+  .partial()
+  .strict();
+
+const FactorFlagsSchema = z
+  .object({
+    marketCap: z.boolean(),
+    conviction: z.boolean(),
+    rarity: z.boolean(),
+    committeeRelevance: z.boolean(),
+    derivative: z.boolean(),
+    ownership: z.boolean(),
+    activityProximity: z.boolean(),
+    lateFiling: z.boolean(),
+  })
+  .partial()
+  .strict();
+
+const AssetClassRuleSchema = z
+  .object({ exclude: z.boolean(), multiplier: z.number().min(0) })
+  .partial()
+  .strict();
+
+export const ScoringProfileSchema = z
+  .object({
+    name: z.string().optional(),
+    description: z.string().optional(),
+    marketCap: z
+      .object({ micro: z.number().positive(), small: z.number().positive(), mid: z.number().positive() })
+      .partial()
+      .strict()
+      .optional(),
+    conviction: z
+      .object({ high: z.number().positive(), veryHigh: z.number().positive() })
+      .partial()
+      .strict()
+      .optional(),
+    rarity: z
+      .object({ unique: z.number().int().min(0), rare: z.number().int().min(0), uncommon: z.number().int().min(0) })
+      .partial()
+      .strict()
+      .optional(),
+    activityProximity: z
+      .object({ windowDays: z.number().int().positive() })
+      .partial()
+      .strict()
+      .optional(),
+    lateFiling: z
+      .object({ deadlineDays: z.number().int().positive() })
+      .partial()
+      .strict()
+      .optional(),
+    symbolResolution: z
+      .object({ minConfidence: z.number().min(0).max(1) })
+      .partial()
+      .strict()
+      .optional(),
+    committeeRole: z
+      .object({
+        chair: z.number().min(0),
+        rankingMember: z.number().min(0),
+        viceChair: z.number().min(0),
+        member: z.number().min(0),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    cluster: z
+      .object({
+        windowDays: z.number().int().positive(),
+        minMembers: z.number().int().min(2),
+        boost: z.number().min(0),
+        compositionBoost: z.number().min(0),
+      })
+      .partial()
+      .strict()
+      .optional(),
+    assetClasses: z
+      .object({
+        stock: AssetClassRuleSchema,
+        option: AssetClassRuleSchema,
+        fund: AssetClassRuleSchema,
+        treasury: AssetClassRuleSchema,
+        municipalBond: AssetClassRuleSchema,
+        corporateBond: AssetClassRuleSchema,
+        crypto: AssetClassRuleSchema,
+        privateEquity: AssetClassRuleSchema,
+        realEstate: AssetClassRuleSchema,
+        other: AssetClassRuleSchema,
+      })
+      .partial()
+      .strict()
+      .optional(),
+    weights: FactorNumbersSchema.optional(),
+    enabledFactors: FactorFlagsSchema.optional(),
+  })
+  .strict();
+
+export type ScoringProfile = z.infer<typeof ScoringProfileSchema>;
+
+// ============================================
+// Resolving profiles
+// ============================================
+
+/**
+ * Serialize with sorted keys so the hash doesn't depend on key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Short hash of a resolved scoring config (the profile tag itself is excluded)
+ */
+export function hashScoringConfig(config: ScoringConfig): string {
+  const { profile: _profile, ...rest } = config;
+  return createHash("sha256").update(stableStringify(rest)).digest("hex").slice(0, 12);
+}
+
+/**
+ * Merge a validated profile onto the default config and tag it
+ */
+export function resolveScoringProfile(
+  profile: ScoringProfile,
+  name: string,
+  file?: string
+): ScoringConfig {
+  const base = DEFAULT_SCORING_CONFIG;
+
+  const config: ScoringConfig = {
+    marketCap: { ...base.marketCap, ...profile.marketCap },
+    conviction: { ...base.conviction, ...profile.conviction },
+    rarity: { ...base.rarity, ...profile.rarity },
+    activityProximity: { ...base.activityProximity, ...profile.activityProximity },
+    lateFiling: { ...base.lateFiling, ...profile.lateFiling },
+    symbolResolution: { ...base.symbolResolution, ...profile.symbolResolution },
+    committeeRole: { ...base.committeeRole, ...profile.committeeRole },
+    cluster: { ...base.cluster, ...profile.cluster },
+    assetClasses: Object.fromEntries(
+      ASSET_CLASSES.map((c) => [c, { ...base.assetClasses[c], ...profile.assetClasses?.[c] }])
+    ) as ScoringConfig["assetClasses"],
+    weights: { ...base.weights, ...profile.weights },
+    enabledFactors: { ...base.enabledFactors, ...profile.enabledFactors },
+  };
+
+  const weightSum = Object.values(config.weights).reduce((a, b) => a + b, 0);
+  if (Math.abs(weightSum - 1) > 0.001) {
+    throw new Error(`Scoring profile "${name}": weights sum to ${weightSum.toFixed(3)}, expected 1`);
+  }
+  if (config.marketCap.micro >= config.marketCap.small || config.marketCap.small >= config.marketCap.mid) {
+    throw new Error(`Scoring profile "${name}": marketCap thresholds must satisfy micro < small < mid`);
+  }
+
+  return {
+    ...config,
+    profile: { name, hash: hashScoringConfig(config), file },
+  };
+}
+
+/**
+ * Default scoring config, tagged as the "default" profile
+ */
+export function getDefaultScoringConfig(): ScoringConfig {
+  return resolveScoringProfile({}, "default");
+}
+
+/**
+ * Find a profile file: an explicit path, or a name in the profiles/ directory
+ */
+async function findProfileFile(nameOrPath: string): Promise<string> {
+  const candidates = [
+    path.resolve(nameOrPath),
+    ...PROFILE_EXTENSIONS.map((ext) => path.join(PROFILES_DIR, `${nameOrPath}${ext}`)),
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      const stat = await fs.stat(candidate);
+      if (stat.isFile()) return candidate;
+    } catch {
+      // Try next candidate
+    }
+  }
+
+  throw new Error(
+    `Scoring profile not found: ${nameOrPath} (looked for a file or profiles/${nameOrPath}{${PROFILE_EXTENSIONS.join(",")}})`
+  );
+}
+
+/**
+ * Load and validate a scoring profile by file path or profile name
+ */
+export async function loadScoringProfile(nameOrPath: string): Promise<ScoringConfig> {
+  const file = await findProfileFile(nameOrPath);
+  const content = await fs.readFile(file, "utf-8");
+  const raw = file.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+
+  const result = ScoringProfileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid scoring profile ${file}:\n${issues}`);
+  }
+
+  const name = result.data.name ?? path.basename(file, path.extname(file));
+  return resolveScoringProfile(result.data, name, path.relative(process.cwd(), file));
+}
+
+/**
+ * Resolve the --profile option: a named/file profile, or the default config
+ */
+export async function resolveProfileOption(profile: string | undefined): Promise<ScoringConfig> {
+  return profile ? loadScoringProfile(profile) : getDefaultScoringConfig();
+}
@@ -0,0 +1,100 @@
+/**
+ * Paper Filing Review Service
+ *
+ * Validates transactions entered by hand for filings in the review queue
+ * (scanned Senate paper PTRs the government provider can't parse). Entries
+ * come from a JSON file or the review:enter prompts and are checked against
+ * the fields and value ranges printed on the PTR form.
+ */
+
+import * as fs from "node:fs/promises";
+import { z } from "zod";
+import { toIsoDate } from "../utils/dates.js";
+import type { FMPTrade } from "../types/index.js";
+
+export const OWNERS = ["Self", "Spouse", "Joint", "Dependent Child"] as const;
+
+export const TRANSACTION_TYPES = ["Purchase", "Sale (Full)", "Sale (Partial)", "Exchange"] as const;
+
+/** Amount ranges as printed on the PTR form */
+export const AMOUNT_RANGES = [
+  "$1,001 - $15,000",
+  "$15,001 - $50,000",
+  "$50,001 - $100,000",
+  "$100,001 - $250,000",
+  "$250,001 - $500,000",
+  "$500,001 - $1,000,000",
+  "$1,000,001 - $5,000,000",
+  "$5,000,001 - $25,000,000",
+  "$25,000,001 - $50,000,000",
+  "Over $50,000,000",
+  // Spouse and dependent child assets may be reported in a single bracket
+  "Over $1,000,000",
+] as const;
+
+export const ManualTransactionSchema = z
+  .object({
+    transactionDate: z
+      .string()
+      .refine((date) => toIsoDate(date) !== null, "expected YYYY-MM-DD or MM/DD/YYYY")
+      .transform((date) => toIsoDate(date)!),
+    owner: z.enum(OWNERS),
+    symbol: z
+      .string()
+      .regex(/^[A-Za-z][A-Za-z0-9.-]{0,9}$/, "expected a ticker like AAPL or BRK-B")
+      .transform((symbol) => symbol.toUpperCase())
+      .optional(),
+    assetDescription: z.string().min(1),
+    assetType: z.string().min(1).default("Stock"),
+    type: z.enum(TRANSACTION_TYPES),
+    amount: z.enum(AMOUNT_RANGES),
+    comment: z.string().min(1).optional(),
+  })
+  .strict();
+
+function toTrade(tx: z.output<typeof ManualTransactionSchema>): FMPTrade {
+  const trade: FMPTrade = { ...tx };
+  if (trade.symbol === undefined) delete trade.symbol;
+  if (trade.comment === undefined) delete trade.comment;
+  return trade;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+/**
+ * Validate one hand-entered transaction. Returns the trade fields (without
+ * member, link or filing date, which come from the queued filing) or the
+ * formatted validation issues.
+ */
+export function parseManualTransaction(
+  input: unknown
+): { trade: FMPTrade; issues?: undefined } | { trade?: undefined; issues: string } {
+  const result = ManualTransactionSchema.safeParse(input);
+  if (!result.success) return { issues: formatIssues(result.error) };
+  return { trade: toTrade(result.data) };
+}
+
+/**
+ * Validate a list of hand-entered transactions, e.g. the contents of a
+ * review:enter --file
+ */
+export function parseManualTransactions(input: unknown, source = "transactions"): FMPTrade[] {
+  const result = z.array(ManualTransactionSchema).min(1).safeParse(input);
+  if (!result.success) {
+    throw new Error(`Invalid ${source}:\n${formatIssues(result.error)}`);
+  }
+  return result.data.map(toTrade);
+}
+
+/**
+ * Load hand-entered transactions from a JSON file holding an array of
+ * { transactionDate, owner, symbol?, assetDescription, assetType?, type, amount, comment? }
+ */
+export async function loadManualTransactions(filePath: string): Promise<FMPTrade[]> {
+  const content = await fs.readFile(filePath, "utf-8");
+  return parseManualTransactions(JSON.parse(content), `transactions file ${filePath}`);
+}
@@ -0,0 +1,76 @@
+/**
+ * Symbol Resolution Service
+ *
+ * Loads the inputs of the SymbolResolver: EDGAR company names cached by the
+ * EDGAR market data provider (data/edgar-company-tickers.json) and the manual
+ * correction table (data/symbol-corrections.json).
+ */
+
+import * as fs from "node:fs/promises";
+import { z } from "zod";
+import { COMPANY_TICKERS_FILE } from "../data/edgar-provider.js";
+import {
+  createSymbolResolver,
+  type CompanyTicker,
+  type SymbolCorrection,
+  type SymbolResolver,
+} from "../data/symbol-resolver.js";
+import { DEFAULT_SCORING_CONFIG } from "../scoring/types.js";
+import { loadData, getDataFilePath } from "../utils/storage.js";
+
+export const SYMBOL_CORRECTIONS_FILE = "symbol-corrections.json";
+
+const SymbolCorrectionsSchema = z.array(
+  z
+    .object({
+      assetDescription: z.string().min(1),
+      symbol: z
+        .string()
+        .regex(/^[A-Za-z][A-Za-z0-9.-]{0,9}$/, "expected a ticker like AAPL or BRK-B")
+        .nullable(),
+    })
+    .strict()
+);
+
+/**
+ * Load manual symbol corrections from data/symbol-corrections.json.
+ * Returns an empty list if the file doesn't exist.
+ */
+export async function loadSymbolCorrections(): Promise<SymbolCorrection[]> {
+  const filePath = await getDataFilePath(SYMBOL_CORRECTIONS_FILE);
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return [];
+  }
+
+  const result = SymbolCorrectionsSchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid symbol corrections ${filePath}:\n${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Load EDGAR company names from the local cache (empty until the EDGAR
+ * provider has fetched company_tickers.json)
+ */
+export async function loadCompanyTickers(): Promise<CompanyTicker[]> {
+  const stored = await loadData<CompanyTicker[]>(COMPANY_TICKERS_FILE);
+  return stored?.data ?? [];
+}
+
+/**
+ * Build a symbol resolver from cached EDGAR company names plus the corrections
+ * file. Matches below minConfidence are reported as unresolved.
+ */
+export async function loadSymbolResolver(
+  companies?: CompanyTicker[],
+  minConfidence = DEFAULT_SCORING_CONFIG.symbolResolution.minConfidence
+): Promise<SymbolResolver> {
+  return createSymbolResolver(companies ?? (await loadCompanyTickers()), await loadSymbolCorrections(), minConfidence);
+}
@@ -1,9 +1,12 @@
 import type { FMPTrade, TradeData } from "../types/index.js";
+import type { MarketData } from "../scoring/types.js";
 import type { TradeSourceProvider } from "../data/trade-source.js";
 import { HouseDataUnavailableError } from "../data/stock-watcher-provider.js";
-import { saveData, loadData } from "../utils/storage.js";
+import { openTradeStore, TRADE_DB_FILE, type StoredTrade, type TradeQuery } from "../data/trade-store.js";
+import { toIsoDate } from "../utils/dates.js";
+import { alertWatchlistMatches, loadWatchlist } from "./watch-service.js";
 
-const TRADES_FILE = "trades.json";
+export { getTradeKey } from "../data/trade-store.js";
 
 /**
  * Get the default target date (1 year ago for refresh mode)
@@ -15,54 +18,10 @@ export function getDefaultTargetDate(): Date {
 }
 
 /**
- * Generate a unique key for a trade to detect duplicates
- */
-export function getTradeKey(trade: FMPTrade): string {
-  return [
-    trade.firstName || "",
-    trade.lastName || "",
-    trade.transactionDate || "",
-    trade.symbol || "",
-    trade.type || "",
-    trade.amount || "",
-    trade.owner || "",
-  ].join("|");
-}
-
-/**
- * Get the most recent trade date from an array of trades
- */
-function getMostRecentTradeDate(trades: FMPTrade[]): Date | null {
-  if (trades.length === 0) return null;
-
-  const dates = trades
-    .map((t) => t.transactionDate)
-    .filter((d): d is string => !!d)
-    .map((d) => new Date(d))
-    .filter((d) => !isNaN(d.getTime()));
-
-  if (dates.length === 0) return null;
-
-  return new Date(Math.max(...dates.map((d) => d.getTime())));
-}
-
-/**
- * Merge new trades with existing trades, removing duplicates
- */
-function mergeTrades(existing: FMPTrade[], newTrades: FMPTrade[]): FMPTrade[] {
-  const existingKeys = new Set(existing.map(getTradeKey));
-  const uniqueNewTrades = newTrades.filter((trade) => {
-    const key = getTradeKey(trade);
-    return !existingKeys.has(key);
-  });
-
-  return [...existing, ...uniqueNewTrades];
-}
-
-/**
- * Fetch trades from FMP, with support for incremental updates
+ * Fetch trades from the provider into the SQLite trade store, with support
+ * for incremental updates
  *
- * @param fmpClient - FMP client for API calls
+ * @param provider - Trade source to fetch from
  * @param targetDate - Date to fetch back to (for refresh mode)
  * @param limit - Number of trades per page
  * @param refresh - If true, clears existing data and fetches from targetDate. If false (default), fetches only new trades since most recent existing trade
@@ -74,27 +33,22 @@ export async function fetchTrades(
   _limit = 100,
   refresh = false
 ): Promise<TradeData> {
-  let existingData: TradeData | null = null;
-  let startDate: Date;
-
-  if (refresh) {
-    startDate = targetDate;
-    console.log(`🔄 Refresh mode: Fetching all trades since ${startDate.toISOString().split("T")[0]}`);
-  } else {
-    existingData = await loadTrades();
+  const store = await openTradeStore();
+  try {
+    let startDate: Date;
+    const before = store.getStats();
 
-    if (!existingData) {
+    if (refresh) {
+      startDate = targetDate;
+      console.log(`🔄 Refresh mode: Fetching all trades since ${startDate.toISOString().split("T")[0]}`);
+    } else if (before.transactions === 0) {
       startDate = targetDate;
       console.log(`📥 No existing data found. Fetching trades since ${startDate.toISOString().split("T")[0]}`);
     } else {
-      const senateMostRecent = getMostRecentTradeDate(existingData.senateTrades);
-      const houseMostRecent = getMostRecentTradeDate(existingData.houseTrades);
+      const latest = store.getMostRecentTransactionDate();
+      const mostRecentDate = latest ? new Date(latest) : null;
 
-      const mostRecentDate = [senateMostRecent, houseMostRecent]
-        .filter((d): d is Date => d !== null)
-        .reduce((latest, current) => (current > latest ? current : latest), new Date(0));
-
-      if (mostRecentDate.getTime() === 0) {
+      if (!mostRecentDate || isNaN(mostRecentDate.getTime())) {
         startDate = targetDate;
         console.log(`⚠️  No valid dates in existing data. Fetching since ${startDate.toISOString().split("T")[0]}`);
       } else {
@@ -106,66 +60,146 @@ export async function fetchTrades(
         );
       }
     }
-  }
 
-  console.log(`\nFetching new trades via ${provider.getName()}...`);
+    console.log(`\nFetching new trades via ${provider.getName()}...`);
 
-  const newSenateTrades = await provider.fetchSenateTrades(startDate);
+    const newSenateTrades = await provider.fetchSenateTrades(startDate);
 
-  let newHouseTrades: FMPTrade[];
-  try {
-    newHouseTrades = await provider.fetchHouseTrades(startDate);
-  } catch (err) {
-    if (err instanceof HouseDataUnavailableError) {
-      console.warn(`\n⚠️  ${err.message}`);
-      console.warn("   Using cached House trade data unchanged.\n");
-      newHouseTrades = existingData?.houseTrades ?? [];
+    let newHouseTrades: FMPTrade[];
+    let houseCached = false;
+    try {
+      newHouseTrades = await provider.fetchHouseTrades(startDate);
+    } catch (err) {
+      if (err instanceof HouseDataUnavailableError) {
+        console.warn(`\n⚠️  ${err.message}`);
+        console.warn("   Using cached House trade data unchanged.\n");
+        newHouseTrades = refresh ? store.loadTradeData().houseTrades : [];
+        houseCached = true;
+      } else {
+        throw err;
+      }
+    }
+
+    console.log(`\nFetched:`);
+    console.log(`  Senate: ${newSenateTrades.length} trades`);
+    console.log(`  House: ${newHouseTrades.length} trades (${houseCached ? "cached" : "fetched"})`);
+
+    // Amended filings are stored last, replacing the filings they supersede
+    const amendments = [...(provider.getAmendments?.() ?? [])].sort((a, b) =>
+      (toIsoDate(a.filingDate) ?? "").localeCompare(toIsoDate(b.filingDate) ?? "")
+    );
+    const amendmentLinks = new Set(amendments.map((a) => a.link));
+    const isOriginal = (t: FMPTrade) => !t.link || !amendmentLinks.has(t.link);
+    const senateOriginals = newSenateTrades.filter(isOriginal);
+    const houseOriginals = newHouseTrades.filter(isOriginal);
+
+    // Newly ingested trades, checked against the watchlist on incremental runs.
+    // The watchlist is validated before anything is written to the store.
+    const incremental = !refresh && before.transactions > 0;
+    const watchlist = incremental ? await loadWatchlist() : null;
+    const ingested: { trade: FMPTrade; chamber: "senate" | "house" }[] = [];
+
+    if (incremental) {
+      console.log(`\n🔗 Merging with existing data...`);
+      console.log(`  Existing: ${before.senateTransactions} Senate, ${before.houseTransactions} House`);
+
+      const senateAdded = store.insertNewTrades("senate", senateOriginals);
+      const houseAdded = store.insertNewTrades("house", houseOriginals);
+      ingested.push(
+        ...senateAdded.map((trade) => ({ trade, chamber: "senate" as const })),
+        ...houseAdded.map((trade) => ({ trade, chamber: "house" as const }))
+      );
+
+      console.log(`  Added: ${senateAdded.length} new Senate trades, ${houseAdded.length} new House trades`);
     } else {
-      throw err;
+      store.replaceAllTrades({ senateTrades: senateOriginals, houseTrades: houseOriginals });
     }
-  }
 
-  console.log(`\nFetched:`);
-  console.log(`  Senate: ${newSenateTrades.length} trades`);
-  console.log(`  House: ${newHouseTrades.length} trades (${existingData?.houseTrades?.length === newHouseTrades.length ? "cached" : "fetched"})`);
+    if (amendments.length > 0) {
+      console.log(`\n📝 Reconciling ${amendments.length} amended filing(s)...`);
+      const audits = amendments.map((amendment) => {
+        const trades = (amendment.chamber === "senate" ? newSenateTrades : newHouseTrades).filter(
+          (t) => t.link === amendment.link
+        );
+        const { addedTrades, ...audit } = store.applyAmendment(amendment, trades);
+        ingested.push(...addedTrades.map((trade) => ({ trade, chamber: amendment.chamber })));
+        const target = audit.supersededLink ? "replaced earlier filing" : "no earlier filing matched";
+        console.log(
+          `  ${audit.member}: ${target} (${audit.removed.length} removed, ${audit.added.length} added, ${audit.unchanged} unchanged)`
+        );
+        return audit;
+      });
+      provider.recordAmendmentAudit?.(audits);
+    }
 
-  let finalSenateTrades: FMPTrade[];
-  let finalHouseTrades: FMPTrade[];
+    // Unparseable (scanned paper) filings wait in the review queue for manual entry
+    const paperFilings = provider.getPaperFilings?.() ?? [];
+    if (paperFilings.length > 0) {
+      const queued = store.queuePaperFilings(paperFilings);
+      const pending = store.getStats().pendingPaperFilings;
+      console.log(`\n📄 Queued ${queued} paper filing(s) for manual entry (${pending} pending — run review:list)`);
+    }
 
-  if (!refresh && existingData) {
-    console.log(`\n🔗 Merging with existing data...`);
-    console.log(`  Existing: ${existingData.senateTrades.length} Senate, ${existingData.houseTrades.length} House`);
+    if (incremental) {
+      const after = store.getStats();
+      console.log(`  Final: ${after.senateTransactions} Senate, ${after.houseTransactions} House`);
+    }
 
-    finalSenateTrades = mergeTrades(existingData.senateTrades, newSenateTrades);
-    finalHouseTrades = mergeTrades(existingData.houseTrades, newHouseTrades);
+    console.log(`\n💾 Trades saved to ${TRADE_DB_FILE}`);
+    await provider.saveRunReport?.();
 
-    const senateAdded = finalSenateTrades.length - existingData.senateTrades.length;
-    const houseAdded = finalHouseTrades.length - existingData.houseTrades.length;
+    if (watchlist) {
+      await alertWatchlistMatches(ingested, watchlist.file);
+    }
 
-    console.log(`  Added: ${senateAdded} new Senate trades, ${houseAdded} new House trades`);
-    console.log(`  Final: ${finalSenateTrades.length} Senate, ${finalHouseTrades.length} House`);
-  } else {
-    finalSenateTrades = newSenateTrades;
-    finalHouseTrades = newHouseTrades;
+    return store.loadTradeData();
+  } finally {
+    store.close();
   }
+}
 
-  const tradeData: TradeData = {
-    senateTrades: finalSenateTrades,
-    houseTrades: finalHouseTrades,
-  };
-
-  await saveData(TRADES_FILE, tradeData);
-  console.log(`\n💾 Trades saved to ${TRADES_FILE}`);
+/**
+ * Load all stored trade data, split by chamber
+ */
+export async function loadTrades(): Promise<TradeData | null> {
+  const store = await openTradeStore();
+  try {
+    if (store.isEmpty()) return null;
+    return store.loadTradeData();
+  } finally {
+    store.close();
+  }
+}
 
-  return tradeData;
+/**
+ * Query stored trades with filters (chamber, trader, symbol, type, date range)
+ * without loading the full history. Returns null if nothing has been fetched yet.
+ */
+export async function queryTrades(query: TradeQuery): Promise<StoredTrade[] | null> {
+  const store = await openTradeStore();
+  try {
+    if (store.isEmpty()) return null;
+    return store.queryTrades(query);
+  } finally {
+    store.close();
+  }
 }
 
 /**
- * Load cached trade data
+ * Load the latest stored market data snapshot for each symbol (no API calls)
  */
-export async function loadTrades(): Promise<TradeData | null> {
-  const stored = await loadData<TradeData>(TRADES_FILE);
-  return stored?.data || null;
+export async function loadStoredMarketData(symbols: string[]): Promise<Map<string, MarketData>> {
+  const store = await openTradeStore();
+  try {
+    const result = new Map<string, MarketData>();
+    for (const symbol of symbols) {
+      const data = store.getLatestMarketData(symbol);
+      if (data) result.set(symbol, data);
+    }
+    return result;
+  } finally {
+    store.close();
+  }
 }
 
 /**
@@ -0,0 +1,280 @@
+/**
+ * Watchlist Service
+ *
+ * Matches newly ingested trades against a watchlist of members (bioguide
+ * IDs), tickers, sectors and committees, and writes alerts to the console,
+ * a JSON report and a templated markdown/email body.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { CommitteeData, FMPTrade } from "../types/index.js";
+import type { MarketData } from "../scoring/types.js";
+import { openTradeStore } from "../data/trade-store.js";
+import { createMemberResolver, type MemberResolver } from "../data/member-resolver.js";
+import { loadCommitteeData, loadMemberResolver, getMemberCommitteesOn } from "./committee-service.js";
+import { getDataFilePath, saveReport } from "../utils/storage.js";
+
+const WATCHLIST_FILES = ["watchlist.yaml", "watchlist.yml", "watchlist.json"];
+
+const DEFAULT_TEMPLATE = `Subject: {{subject}}
+
+# {{subject}}
+
+{{count}} trade(s) matched the **{{watchlist}}** watchlist ({{generatedAt}}).
+
+{{matches}}
+`;
+
+// ============================================
+// Watchlist schema
+// ============================================
+
+export const WatchlistSchema = z
+  .object({
+    name: z.string().optional(),
+    /** Bioguide IDs, e.g. "P000197" */
+    members: z.array(z.string()).default([]),
+    symbols: z.array(z.string()).default([]),
+    /** Sectors as reported by market data, e.g. "Technology" */
+    sectors: z.array(z.string()).default([]),
+    /** Committee thomas IDs, e.g. "HSIF"; subcommittees match their parent */
+    committees: z.array(z.string()).default([]),
+    /** Markdown template for the alert body (path relative to the watchlist file) */
+    template: z.string().optional(),
+    subject: z.string().optional(),
+  })
+  .strict();
+
+export type Watchlist = z.infer<typeof WatchlistSchema> & {
+  /** File the watchlist was loaded from */
+  file: string;
+};
+
+export interface WatchMatch {
+  trade: FMPTrade;
+  chamber: "senate" | "house";
+  bioguideId: string | null;
+  /** Why the trade matched, e.g. "member P000197", "symbol NVDA" */
+  reasons: string[];
+}
+
+export interface WatchAlertReport {
+  generatedAt: string;
+  watchlist: string;
+  tradesChecked: number;
+  matches: WatchMatch[];
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Find the watchlist: an explicit file, or data/watchlist.{yaml,yml,json}.
+ * Returns null if no watchlist is configured.
+ */
+async function findWatchlistFile(file?: string): Promise<string | null> {
+  if (file) return path.resolve(file);
+
+  for (const name of WATCHLIST_FILES) {
+    const candidate = await getDataFilePath(name);
+    try {
+      await fs.access(candidate);
+      return candidate;
+    } catch {
+      // Try next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Load and validate a watchlist (YAML or JSON). Returns null if no file is
+ * given and none exists in data/.
+ */
+export async function loadWatchlist(file?: string): Promise<Watchlist | null> {
+  const resolved = await findWatchlistFile(file);
+  if (!resolved) return null;
+
+  const content = await fs.readFile(resolved, "utf-8");
+  const raw = resolved.endsWith(".json") ? JSON.parse(content) : parseYaml(content);
+
+  const result = WatchlistSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `  ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("\n");
+    throw new Error(`Invalid watchlist ${resolved}:\n${issues}`);
+  }
+
+  return { ...result.data, file: resolved };
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Match trades against a watchlist. Members and committees are resolved
+ * from committee data; sectors from stored market data snapshots.
+ */
+export function matchWatchlist(
+  trades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  watchlist: Watchlist,
+  committeeData: CommitteeData | null,
+  marketData: Map<string, MarketData>,
+  resolver: MemberResolver = createMemberResolver(committeeData)
+): WatchMatch[] {
+  const members = new Set(watchlist.members.map((m) => m.toUpperCase()));
+  const symbols = new Set(watchlist.symbols.map((s) => s.toUpperCase()));
+  const sectors = new Set(watchlist.sectors.map((s) => s.toLowerCase()));
+  const committees = new Set(watchlist.committees.map((c) => c.toUpperCase()));
+
+  const matches: WatchMatch[] = [];
+
+  for (const { trade, chamber } of trades) {
+    const bioguideId = resolver.resolve(trade, chamber);
+
+    const reasons: string[] = [];
+
+    if (bioguideId && members.has(bioguideId.toUpperCase())) {
+      reasons.push(`member ${bioguideId}`);
+    }
+
+    const symbol = (trade.symbol || "").toUpperCase();
+    if (symbol && symbols.has(symbol)) {
+      reasons.push(`symbol ${symbol}`);
+    }
+
+    const sector = symbol ? marketData.get(symbol)?.sector : null;
+    if (sector && sectors.has(sector.toLowerCase())) {
+      reasons.push(`sector ${sector}`);
+    }
+
+    if (bioguideId && committeeData && committees.size > 0) {
+      const memberCommittees = getMemberCommitteesOn(bioguideId, committeeData, trade.transactionDate);
+      const watched = [
+        ...new Set(
+          memberCommittees
+            .filter((id) => committees.has(id.toUpperCase()) || committees.has(id.slice(0, 4).toUpperCase()))
+            .map((id) => (committees.has(id.toUpperCase()) ? id.toUpperCase() : id.slice(0, 4).toUpperCase()))
+        ),
+      ];
+      for (const id of watched) {
+        reasons.push(`committee ${id}`);
+      }
+    }
+
+    if (reasons.length > 0) {
+      matches.push({ trade, chamber, bioguideId, reasons });
+    }
+  }
+
+  return matches;
+}
+
+// ============================================
+// Alert output
+// ============================================
+
+function formatMatchLine(match: WatchMatch): string {
+  const { trade, chamber } = match;
+  const who = `${trade.firstName ?? ""} ${trade.lastName ?? ""}`.trim();
+  return [
+    `${trade.transactionDate || "?"} ${trade.symbol || "N/A"} ${trade.type || "?"} ${trade.amount || "?"}`,
+    `${chamber === "senate" ? "Sen." : "Rep."} ${who}`,
+    `(${match.reasons.join(", ")})`,
+  ].join(" — ");
+}
+
+/**
+ * Render the markdown/email alert body from the watchlist's template
+ */
+export function renderWatchAlert(report: WatchAlertReport, template = DEFAULT_TEMPLATE, subject?: string): string {
+  const matchList = report.matches
+    .map((m) => {
+      const line = `- ${formatMatchLine(m)}`;
+      return m.trade.link ? `${line} [filing](${m.trade.link})` : line;
+    })
+    .join("\n");
+
+  const values: Record<string, string> = {
+    subject: subject ?? `Watchlist: ${report.matches.length} matching trade(s)`,
+    watchlist: report.watchlist,
+    generatedAt: report.generatedAt,
+    count: String(report.matches.length),
+    matches: matchList,
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Check trades against the watchlist and write alerts for any matches.
+ * Does nothing if no watchlist is configured.
+ */
+export async function alertWatchlistMatches(
+  trades: { trade: FMPTrade; chamber: "senate" | "house" }[],
+  watchlistFile?: string
+): Promise<WatchAlertReport | null> {
+  const watchlist = await loadWatchlist(watchlistFile);
+  if (!watchlist) return null;
+
+  const name = watchlist.name ?? path.basename(watchlist.file, path.extname(watchlist.file));
+  console.log(`\n👀 Checking ${trades.length} trade(s) against watchlist "${name}"...`);
+
+  const committeeData = await loadCommitteeData();
+  if (!committeeData && (watchlist.members.length > 0 || watchlist.committees.length > 0)) {
+    console.warn("   ⚠️  No committee data - member and committee entries can't be matched. Run 'fetch:committees'.");
+  }
+
+  const marketData = new Map<string, MarketData>();
+  if (watchlist.sectors.length > 0) {
+    const store = await openTradeStore();
+    try {
+      for (const symbol of new Set(trades.map((t) => t.trade.symbol).filter((s): s is string => !!s))) {
+        const data = store.getLatestMarketData(symbol);
+        if (data) marketData.set(symbol.toUpperCase(), data);
+      }
+    } finally {
+      store.close();
+    }
+  }
+
+  const report: WatchAlertReport = {
+    generatedAt: new Date().toISOString(),
+    watchlist: name,
+    tradesChecked: trades.length,
+    matches: matchWatchlist(trades, watchlist, committeeData, marketData, await loadMemberResolver(committeeData)),
+  };
+
+  if (report.matches.length === 0) {
+    console.log("   No new watchlist matches.");
+    return report;
+  }
+
+  console.log(`   🔔 ${report.matches.length} match(es):`);
+  for (const match of report.matches) {
+    console.log(`     • ${formatMatchLine(match)}`);
+  }
+
+  const reportPath = await saveReport("watch-alerts", report);
+  console.log(`   Alert report saved to ${reportPath}`);
+
+  const template = watchlist.template
+    ? await fs.readFile(path.resolve(path.dirname(watchlist.file), watchlist.template), "utf-8")
+    : DEFAULT_TEMPLATE;
+  const body = renderWatchAlert(report, template, watchlist.subject);
+
+  const reportsDir = path.join(process.cwd(), "formatted-reports");
+  await fs.mkdir(reportsDir, { recursive: true });
+  const timestamp = report.generatedAt.replace(/[:.]/g, "-").slice(0, 19);
+  const outFile = `watch-alerts-${timestamp}.md`;
+  await fs.writeFile(path.join(reportsDir, outFile), body);
+  console.log(`   📁 Alert body saved to formatted-reports/${outFile}`);
+
+  return report;
+}
@@ -50,6 +50,13 @@ export type CommitteeMembershipResponse = z.infer<
   typeof CommitteeMembershipResponseSchema
 >;
 
+// A committee membership file as it stood on a date
+export interface CommitteeMembershipSnapshot {
+  /** Date the snapshot was taken (YYYY-MM-DD) */
+  asOf: string;
+  membership: CommitteeMembershipResponse;
+}
+
 // ============================================
 // Legislator Types (from congress-legislators)
 // ============================================
@@ -167,6 +174,7 @@ export const FMPTradeSchema = z.object({
   amount: z.string().optional(),
   comment: z.string().optional(),
   symbol: z.string().optional(),
+  provenance: z.enum(["manual"]).optional(), // Entered by hand from a paper filing (see review:enter)
 });
 
 export type FMPTrade = z.infer<typeof FMPTradeSchema>;
@@ -278,6 +286,8 @@ export interface CommitteeData {
   membership: CommitteeMembershipResponse;
   sectorMappings: CommitteeSectorMapping[];
   legislators?: Legislator[];
+  /** Archived membership snapshots, attached on load (not stored in committee-data.json) */
+  history?: CommitteeMembershipSnapshot[];
 }
 
 // Lookup map: bioguide ID -> party name
@@ -0,0 +1,30 @@
+/**
+ * Date helpers shared by the data and scoring layers
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Normalize "M/D/YYYY" or "YYYY-MM-DD" to "YYYY-MM-DD" so filing dates compare as strings */
+export function toIsoDate(date: string | null | undefined): string | null {
+  if (!date) return null;
+  const us = date.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  return /^\d{4}-\d{2}-\d{2}/.test(date) ? date.slice(0, 10) : null;
+}
+
+/**
+ * Days between a transaction and its disclosure (both YYYY-MM-DD), or null
+ * if either date is missing or invalid
+ */
+export function getFilingDelayDays(
+  transactionDate: string | null | undefined,
+  disclosureDate: string | null | undefined
+): number | null {
+  if (!transactionDate || !disclosureDate) return null;
+
+  const tradeTime = new Date(transactionDate).getTime();
+  const disclosureTime = new Date(disclosureDate).getTime();
+  if (isNaN(tradeTime) || isNaN(disclosureTime)) return null;
+
+  return Math.round((disclosureTime - tradeTime) / MS_PER_DAY);
+}
@@ -16,6 +16,14 @@ async function ensureDir(dir: string): Promise<void> {
   }
 }
 
+/**
+ * Resolve a path inside the data directory, creating the directory if needed
+ */
+export async function getDataFilePath(filename: string): Promise<string> {
+  await ensureDir(DATA_DIR);
+  return path.join(DATA_DIR, filename);
+}
+
 /**
  * Save data to a JSON file with timestamp
  */
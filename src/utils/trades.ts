@@ -0,0 +1,39 @@
+/**
+ * Trade helpers shared by the data, scoring and output layers
+ */
+
+export type TradeDirection = "buy" | "sell";
+
+/**
+ * Buy/sell direction of a trade type, or null for other types
+ */
+export function getTradeDirection(type: string | null | undefined): TradeDirection | null {
+  const t = (type || "").toLowerCase();
+  if (t.includes("purchase") || t.includes("exchange")) return "buy";
+  if (t.includes("sale")) return "sell";
+  return null;
+}
+
+/**
+ * Parse a disclosed amount range ("$1,001 - $15,000") to numbers
+ */
+export function parseAmountRange(
+  amount: string | null | undefined
+): { low: number; high: number } | null {
+  if (!amount) return null;
+
+  const cleaned = amount.replace(/[$,]/g, "");
+  const numbers = cleaned.match(/(\d+)/g);
+
+  if (!numbers || numbers.length === 0) return null;
+
+  if (numbers.length === 1) {
+    const value = parseInt(numbers[0], 10);
+    return { low: value, high: value };
+  }
+
+  return {
+    low: parseInt(numbers[0], 10),
+    high: parseInt(numbers[1], 10),
+  };
+}
@@ -0,0 +1,111 @@
+import { test, expect } from "@playwright/test";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { createSectorMap } from "../src/data/sector-map.js";
+import { parseCommitteeActivity } from "../src/data/committee-activity-provider.js";
+import { withoutActivityProximity } from "../src/services/analysis-service.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import { getDefaultScoringConfig, hashScoringConfig } from "../src/services/profile-service.js";
+import type { TradeInput, TraderInput, TraderHistory, MarketData, CommitteeActivity } from "../src/scoring/types.js";
+
+const TRADE: TradeInput = {
+  symbol: "INTC",
+  assetDescription: "Intel Corporation",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: { low: 15001, high: 50000 },
+  transactionDate: "2026-03-10",
+  owner: "Self",
+};
+
+const TRADER: TraderInput = {
+  id: "house-jane-smith",
+  firstName: "Jane",
+  lastName: "Smith",
+  chamber: "house",
+  committees: ["HSIF"],
+};
+
+const HISTORY: TraderHistory = { visibleTrades: [TRADE], averageTradeSize: 32500, totalTradeCount: 1 };
+
+const MARKET: MarketData = {
+  marketCap: 90_000_000_000,
+  sector: "Technology",
+  industry: "Semiconductors",
+  averageVolume: null,
+  exchange: "NASDAQ",
+};
+
+function score(committeeActivity: CommitteeActivity[]) {
+  return scoreTrade(TRADE, TRADER, HISTORY, MARKET, null, createSectorMap(), undefined, { committeeActivity });
+}
+
+test("scores and explains the closest relevant committee activity", () => {
+  const result = score([
+    { committeeId: "HSIF", type: "report", date: "2026-03-20", title: "Later report" },
+    { committeeId: "HSIF14", type: "hearing", date: "2026-03-12", title: "Chip supply chains" },
+  ]);
+
+  expect(result.factors.activityProximityScore).toBe(100);
+  expect(result.flags.isNearCommitteeActivity).toBe(true);
+  expect(result.explanation.activityProximity).toMatchObject({
+    committeeId: "HSIF14",
+    activityType: "hearing",
+    title: "Chip supply chains",
+    daysFromTrade: 2,
+  });
+});
+
+test("ignores activity outside the window or without jurisdiction", () => {
+  const result = score([
+    { committeeId: "HSIF", type: "markup", date: "2026-04-30", title: "Too late" },
+    { committeeId: "HSAG", type: "hearing", date: "2026-03-10", title: "Not the trader's committee" },
+  ]);
+
+  expect(result.factors.activityProximityScore).toBe(0);
+  expect(result.explanation.activityProximity).toBeUndefined();
+  expect(score([]).factors.activityProximityScore).toBe(0);
+});
+
+test("without activity data the factor's weight goes to the other factors", () => {
+  const withFactor = score([]);
+  const withoutFactor = scoreTrade(
+    TRADE, TRADER, HISTORY, MARKET, null, createSectorMap(), withoutActivityProximity(DEFAULT_SCORING_CONFIG), { committeeActivity: [] }
+  );
+
+  expect(withFactor.factors.activityProximityScore).toBe(0);
+  expect(withoutFactor.overallScore).toBeGreaterThan(withFactor.overallScore);
+});
+
+test("dropping the factor re-tags the profile hash to match the adjusted config", () => {
+  const config = getDefaultScoringConfig();
+  const adjusted = withoutActivityProximity(config);
+
+  expect(adjusted.profile?.name).toBe(config.profile?.name);
+  expect(adjusted.profile?.hash).toBe(hashScoringConfig(adjusted));
+  expect(adjusted.profile?.hash).not.toBe(config.profile?.hash);
+});
+
+test("parses a Congress.gov committee meeting and report export", () => {
+  const activities = parseCommitteeActivity({
+    committeeMeetings: [
+      {
+        date: "2026-03-12T14:00:00Z",
+        title: "Chip supply chains",
+        type: "Hearing",
+        committees: [{ systemCode: "hsif14", name: "Communications and Technology" }],
+      },
+    ],
+    committeeReports: [
+      {
+        issueDate: "2026-03-20T04:00:00Z",
+        citation: "H. Rept. 119-100",
+        committees: [{ systemCode: "hsif00" }],
+      },
+    ],
+  });
+
+  expect(activities).toEqual([
+    { committeeId: "HSIF14", type: "hearing", date: "2026-03-12", title: "Chip supply chains", url: undefined },
+    { committeeId: "HSIF", type: "report", date: "2026-03-20", title: "H. Rept. 119-100", url: undefined },
+  ]);
+});
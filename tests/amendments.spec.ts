@@ -0,0 +1,98 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SqliteTradeStore } from "../src/data/trade-store.js";
+import type { FilingAmendment } from "../src/data/trade-source.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+function tempStore(): { store: SqliteTradeStore; dir: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "amendments-"));
+  return { store: new SqliteTradeStore(path.join(dir, "trades.db")), dir };
+}
+
+const ORIGINAL_LINK = "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030001.pdf";
+const AMENDMENT_LINK = "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030002.pdf";
+
+const ORIGINAL_NVDA: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  link: ORIGINAL_LINK,
+  dateRecieved: "3/02/2026",
+  transactionDate: "2026-02-20",
+  owner: "Spouse",
+  assetDescription: "NVIDIA Corporation",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$1,001 - $15,000",
+  symbol: "NVDA",
+};
+
+const ORIGINAL_MSFT: FMPTrade = { ...ORIGINAL_NVDA, assetDescription: "Microsoft Corporation", symbol: "MSFT" };
+
+const AMENDMENT: FilingAmendment = {
+  chamber: "house",
+  link: AMENDMENT_LINK,
+  docId: "20030002",
+  firstName: "Jane",
+  lastName: "Smith",
+  filingDate: "3/16/2026",
+};
+
+// The amendment corrects the NVDA amount and keeps MSFT as filed
+const AMENDED_NVDA: FMPTrade = {
+  ...ORIGINAL_NVDA,
+  link: AMENDMENT_LINK,
+  dateRecieved: "3/16/2026",
+  amount: "$50,001 - $100,000",
+};
+const AMENDED_MSFT: FMPTrade = { ...ORIGINAL_MSFT, link: AMENDMENT_LINK, dateRecieved: "3/16/2026" };
+
+test("replaces the superseded filing's transactions and audits the change", () => {
+  const { store, dir } = tempStore();
+  try {
+    store.insertTrades("house", [ORIGINAL_NVDA, ORIGINAL_MSFT]);
+
+    const audit = store.applyAmendment(AMENDMENT, [AMENDED_NVDA, AMENDED_MSFT]);
+
+    expect(audit.supersededLink).toBe(ORIGINAL_LINK);
+    expect(audit.removed).toEqual(["2026-02-20 NVDA Purchase $1,001 - $15,000 (Spouse)"]);
+    expect(audit.added).toEqual(["2026-02-20 NVDA Purchase $50,001 - $100,000 (Spouse)"]);
+    expect(audit.addedTrades).toEqual([AMENDED_NVDA]);
+    expect(audit.unchanged).toBe(1);
+
+    const { houseTrades } = store.loadTradeData();
+    expect(houseTrades).toHaveLength(2);
+    expect(houseTrades.every((t) => t.link === AMENDMENT_LINK)).toBe(true);
+    expect(store.getStats().amendments).toBe(1);
+
+    // Re-applying on a later run is a no-op
+    const again = store.applyAmendment(AMENDMENT, [AMENDED_NVDA, AMENDED_MSFT]);
+    expect(again.supersededLink).toBe(ORIGINAL_LINK);
+    expect(again.removed).toEqual([]);
+    expect(again.added).toEqual([]);
+    expect(again.addedTrades).toEqual([]);
+    expect(store.loadTradeData().houseTrades).toHaveLength(2);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("stores an unmatched amendment as new trades", () => {
+  const { store, dir } = tempStore();
+  try {
+    store.insertTrades("house", [ORIGINAL_NVDA]);
+    const unrelated: FMPTrade = { ...AMENDED_NVDA, transactionDate: "2026-03-10", symbol: "AAPL", assetDescription: "Apple Inc" };
+
+    const audit = store.applyAmendment(AMENDMENT, [unrelated]);
+
+    expect(audit.supersededLink).toBeNull();
+    expect(audit.removed).toEqual([]);
+    expect(audit.added).toHaveLength(1);
+    expect(store.loadTradeData().houseTrades).toHaveLength(2);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
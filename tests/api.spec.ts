@@ -0,0 +1,163 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SqliteTradeStore } from "../src/data/trade-store.js";
+import { createMemberResolver } from "../src/data/member-resolver.js";
+import { createApiSources, handleApiRequest, indexMembersByBioguide, type ApiSources } from "../src/services/api-service.js";
+import type { AnalysisReport, AnalyzedTrade } from "../src/services/analysis-service.js";
+import type { CommitteeData, FMPTrade } from "../src/types/index.js";
+
+const BASE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  link: "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030001.pdf",
+  transactionDate: "2026-03-02",
+  owner: "Self",
+  assetDescription: "Acme Corp",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$1,001 - $15,000",
+  symbol: "ACME",
+};
+
+const COMMITTEE_DATA: CommitteeData = {
+  committees: [{ type: "house", name: "Energy and Commerce", thomas_id: "HSIF" }],
+  sectorMappings: [],
+  membership: {
+    HSIF: [{ name: "Jane Smith", bioguide: "S000001" }],
+    HSAG: [{ name: "John Doe", bioguide: "D000002" }],
+  },
+};
+
+function scored(trade: FMPTrade, overallScore: number): AnalyzedTrade {
+  return {
+    trade,
+    chamber: "house",
+    trader: { id: "house-x", firstName: trade.firstName!, lastName: trade.lastName!, chamber: "house", committees: [] },
+    score: { overallScore },
+  } as unknown as AnalyzedTrade;
+}
+
+function createSources(): { sources: ApiSources; dir: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "api-"));
+  const store = new SqliteTradeStore(path.join(dir, "trades.db"));
+  const trades = [
+    BASE,
+    { ...BASE, symbol: "NVDA", transactionDate: "2026-03-05" },
+    { ...BASE, symbol: "MSFT", transactionDate: "2026-03-09" },
+    { ...BASE, firstName: "John", lastName: "Doe", symbol: "ACME", transactionDate: "2026-03-07" },
+  ];
+  store.insertTrades("house", trades);
+  const resolver = createMemberResolver(COMMITTEE_DATA);
+
+  const report = {
+    generatedAt: "2026-03-10T00:00:00.000Z",
+    scoredTrades: [scored(trades[0], 40), scored(trades[1], 90), scored(trades[3], 70)],
+  } as unknown as AnalysisReport;
+
+  return {
+    dir,
+    sources: {
+      store,
+      loadCommitteeData: async () => COMMITTEE_DATA,
+      loadMemberResolver: async () => resolver,
+      loadMemberIndex: async () => indexMembersByBioguide(store.listMembers(), resolver),
+      loadReport: async () => report,
+    },
+  };
+}
+
+async function getJson(sources: ApiSources, url: string) {
+  const response = await handleApiRequest(sources, "GET", url);
+  return { status: response.status, body: JSON.parse(response.body) };
+}
+
+test("filters and paginates trades by symbol, member and date", async () => {
+  const { sources, dir } = createSources();
+  try {
+    const page1 = await getJson(sources, "/trades?member=S000001&pageSize=2");
+    expect(page1.body.pagination).toEqual({ page: 1, pageSize: 2, total: 3, totalPages: 2 });
+    expect(page1.body.data.map((t: { trade: FMPTrade }) => t.trade.symbol)).toEqual(["MSFT", "NVDA"]);
+
+    const page2 = await getJson(sources, "/trades?member=S000001&pageSize=2&page=2");
+    expect(page2.body.data.map((t: { trade: FMPTrade }) => t.trade.symbol)).toEqual(["ACME"]);
+
+    const acme = await getJson(sources, "/trades?symbol=acme&since=2026-03-03");
+    expect(acme.body.data.map((t: { trade: FMPTrade }) => t.trade.lastName)).toEqual(["Doe"]);
+
+    expect((await getJson(sources, "/trades?member=doe")).body.pagination.total).toBe(1);
+    expect((await getJson(sources, "/trades?since=March")).status).toBe(400);
+  } finally {
+    sources.store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("serves members, top scores and committee trades", async () => {
+  const { sources, dir } = createSources();
+  try {
+    const member = await getJson(sources, "/members/s000001");
+    expect(member.body).toMatchObject({
+      bioguide: "S000001",
+      committees: [{ id: "HSIF", name: "Energy and Commerce" }],
+      tradeCount: 3,
+    });
+    expect(member.body.topScores.map((t: AnalyzedTrade) => t.score.overallScore)).toEqual([90, 40]);
+    expect((await getJson(sources, "/members/X000009")).status).toBe(404);
+    const malformed = await getJson(sources, "/members/%E0%A4%A");
+    expect(malformed.status).toBe(400);
+    expect(malformed.body.error).toContain("percent-encoding");
+
+    const top = await getJson(sources, "/scores/top?minScore=50");
+    expect(top.body.data.map((t: AnalyzedTrade) => t.score.overallScore)).toEqual([90, 70]);
+
+    const committee = await getJson(sources, "/committees/hsag/trades");
+    expect(committee.body.committee).toMatchObject({ id: "HSAG", memberCount: 1 });
+    expect(committee.body.data).toHaveLength(1);
+    expect((await getJson(sources, "/committees/ZZZZ/trades")).status).toBe(404);
+  } finally {
+    sources.store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("returns 304 when the ETag still matches", async () => {
+  const { sources, dir } = createSources();
+  try {
+    const first = await handleApiRequest(sources, "GET", "/scores/top");
+    expect(first.headers.ETag).toBeTruthy();
+
+    const cached = await handleApiRequest(sources, "GET", "/scores/top", first.headers.ETag);
+    expect(cached.status).toBe(304);
+    expect(cached.body).toBe("");
+
+    sources.store.insertTrades("house", [{ ...BASE, symbol: "AAPL" }]);
+    const changed = await handleApiRequest(sources, "GET", "/trades", first.headers.ETag);
+    expect(changed.status).toBe(200);
+
+    expect((await handleApiRequest(sources, "POST", "/trades")).status).toBe(405);
+  } finally {
+    sources.store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("default sources index members once until new filing names are stored", async () => {
+  const { sources, dir } = createSources();
+  try {
+    const resolver = createMemberResolver(COMMITTEE_DATA);
+    const live = createApiSources(sources.store, COMMITTEE_DATA, resolver);
+
+    const index = await live.loadMemberIndex();
+    const unresolved = resolver.getUnresolved().map((u) => u.occurrences);
+    expect(await live.loadMemberIndex()).toBe(index);
+    expect(resolver.getUnresolved().map((u) => u.occurrences)).toEqual(unresolved);
+
+    sources.store.insertTrades("house", [{ ...BASE, firstName: "Ann", lastName: "Lee" }]);
+    expect(await live.loadMemberIndex()).not.toBe(index);
+  } finally {
+    sources.store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,110 @@
+import { test, expect } from "@playwright/test";
+import { classifyAsset } from "../src/data/asset-classifier.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { AssetClass, TradeInput, TraderInput } from "../src/scoring/types.js";
+import { resolveScoringProfile } from "../src/services/profile-service.js";
+import { buildHtmlReport } from "../src/output/html.js";
+import type { AnalysisReport } from "../src/services/analysis-service.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+test("classifies House codes, Senate types and generic stock descriptions", () => {
+  expect(classifyAsset("Government Securities and Agency Debt", "US Treasury Bill")).toBe("treasury");
+  expect(classifyAsset("Hedge Funds & Private Equity Funds (non-EIF)", "Sequoia Fund XII")).toBe("privateEquity");
+  expect(classifyAsset("Stock (Not Publicly Traded)", "Acme Robotics Series B")).toBe("privateEquity");
+  expect(classifyAsset("Exchange Traded Funds (ETF)", "SPDR S&P 500")).toBe("fund");
+  expect(classifyAsset("Municipal Security", "Cook County IL GO")).toBe("municipalBond");
+  expect(classifyAsset("Corporate Bond", "Apple Inc 3.85% 05/04/2043")).toBe("corporateBond");
+  expect(classifyAsset("Cryptocurrency", "Bitcoin")).toBe("crypto");
+  expect(classifyAsset("Real Estate Invest. Trust (REIT)", "Realty Income")).toBe("realEstate");
+  expect(classifyAsset("Stock Option", "NVDA call options")).toBe("option");
+  expect(classifyAsset("Bank Accounts, Money Market Accounts and CDs", "Chase Savings")).toBe("other");
+
+  // Generic types are refined from the description
+  expect(classifyAsset("Stock", "United States Treasury Bill 0% 08/15/2026")).toBe("treasury");
+  expect(classifyAsset("Other Securities", "iShares 0-3 Month Treasury Bond ETF")).toBe("fund");
+  expect(classifyAsset("Stock", "Boeing Co 2.7% Notes Due 2027")).toBe("corporateBond");
+  expect(classifyAsset(undefined, "Apple Inc. - Common Stock")).toBe("stock");
+  expect(classifyAsset("Stock", "NVIDIA Corporation")).toBe("stock");
+});
+
+const trader: TraderInput = { id: "house-jane-smith", firstName: "Jane", lastName: "Smith", chamber: "house", committees: [] };
+const onlyOwnership = {
+  ...DEFAULT_SCORING_CONFIG,
+  enabledFactors: {
+    marketCap: false,
+    conviction: false,
+    rarity: false,
+    committeeRelevance: false,
+    derivative: false,
+    ownership: true,
+    activityProximity: false,
+    lateFiling: false,
+  },
+};
+
+function score(assetClass: AssetClass, config = onlyOwnership) {
+  const trade: TradeInput = {
+    symbol: null,
+    assetDescription: "Asset",
+    assetType: null,
+    type: "Purchase",
+    amount: null,
+    transactionDate: "2026-01-05",
+    owner: "Spouse",
+    assetClass,
+  };
+  return scoreTrade(trade, trader, { visibleTrades: [trade], averageTradeSize: null, totalTradeCount: 1 }, null, null, null, config);
+}
+
+test("asset class rules exclude treasuries, scale funds and flag private placements", () => {
+  expect(score("stock").overallScore).toBe(75);
+  expect(score("stock").explanation.assetClass).toBeUndefined();
+
+  const treasury = score("treasury");
+  expect(treasury.overallScore).toBe(0);
+  expect(treasury.factors.ownershipScore).toBe(75);
+  expect(treasury.explanation.assetClass).toEqual({ assetClass: "treasury", excluded: true, multiplier: 1 });
+
+  expect(score("fund").overallScore).toBe(56);
+  expect(score("municipalBond").overallScore).toBe(38);
+
+  const privateEquity = score("privateEquity");
+  expect(privateEquity.flags.isPrivatePlacement).toBe(true);
+  expect(privateEquity.overallScore).toBe(75);
+});
+
+test("profiles override asset class rules per class", () => {
+  const config = resolveScoringProfile({ assetClasses: { treasury: { exclude: false, multiplier: 0.5 } } }, "treasuries");
+  expect(config.assetClasses.treasury).toEqual({ exclude: false, multiplier: 0.5 });
+  expect(config.assetClasses.fund).toEqual(DEFAULT_SCORING_CONFIG.assetClasses.fund);
+  expect(score("treasury", { ...config, enabledFactors: onlyOwnership.enabledFactors }).overallScore).toBe(38);
+});
+
+test("HTML report tags rows with their asset class and offers filters", () => {
+  const stock: FMPTrade = { firstName: "Jane", lastName: "Smith", transactionDate: "2026-03-10", type: "Purchase", assetType: "Stock", assetDescription: "NVIDIA Corporation", symbol: "NVDA" };
+  const bill: FMPTrade = { ...stock, assetDescription: "United States Treasury Bill", symbol: "" };
+  const report: AnalysisReport = {
+    generatedAt: "2026-03-15T12:00:00.000Z",
+    config: DEFAULT_SCORING_CONFIG,
+    totalTradesAnalyzed: 2,
+    scoredTrades: [],
+    summary: {
+      topByScore: [], byRarity: [], byCommitteeRelevance: [], clusters: [],
+      symbolStats: { totalSymbols: 0, uniqueSymbols: 0, rareSymbols: 0 },
+    },
+  };
+
+  const html = buildHtmlReport({
+    report,
+    purchaseTrades: [{ trade: stock, party: "Democrat" }, { trade: bill, party: "Democrat" }],
+    salesTrades: [],
+    dateLabel: "Week of March 9, 2026",
+  });
+  expect(html).toContain('<tr data-asset-class="treasury">');
+  expect(html).toContain('<button class="asset-filter-btn" data-asset-filter="treasury">Treasury (1)</button>');
+  expect(html).toContain('<button class="asset-filter-btn" data-asset-filter="stock">Stock (1)</button>');
+
+  const single = buildHtmlReport({ report, purchaseTrades: [{ trade: stock, party: "Democrat" }], salesTrades: [], dateLabel: "Week of March 9, 2026" });
+  expect(single).not.toContain("asset-filter-btn\"");
+});
@@ -0,0 +1,114 @@
+import { test, expect } from "@playwright/test";
+import { buildScoringInputs } from "../src/services/analysis-service.js";
+import { runBacktest } from "../src/services/backtest-service.js";
+import { CongressionalPatternAnalyzer } from "../src/data/pattern-analyzer.js";
+import { getTradeKey } from "../src/data/trade-store.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+const OPTION_TRADE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  transactionDate: "2026-01-05",
+  owner: "Spouse",
+  assetDescription: "Acme Corp - Call Options",
+  assetType: "Options",
+  type: "Purchase",
+  amount: "$15,001 - $50,000",
+  symbol: "ACME",
+};
+
+const STOCK_TRADE: FMPTrade = {
+  ...OPTION_TRADE,
+  transactionDate: "2026-01-06",
+  owner: "Self",
+  assetDescription: "Widget Inc",
+  assetType: "Stock",
+  symbol: "WDGT",
+};
+
+test("compares precision@K across candidate configs", () => {
+  const trades = [OPTION_TRADE, STOCK_TRADE];
+  const inputs = buildScoringInputs(
+    trades.map((trade) => ({ trade, chamber: "house" as const })),
+    null,
+    new CongressionalPatternAnalyzer(trades),
+    new Map()
+  );
+  const labels = new Map([
+    [getTradeKey(OPTION_TRADE), false],
+    [getTradeKey(STOCK_TRADE), true],
+  ]);
+  const ignoreDerivatives = {
+    ...DEFAULT_SCORING_CONFIG,
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, derivative: 0, ownership: 0, rarity: 0.4 },
+  };
+
+  const report = runBacktest(
+    [
+      { name: "default", config: DEFAULT_SCORING_CONFIG, inputs },
+      { name: "ignore-derivatives", config: ignoreDerivatives, inputs },
+    ],
+    labels,
+    "test labels",
+    [1, 2]
+  );
+
+  expect(report.labeledTrades).toBe(2);
+  expect(report.baseRate).toBe(0.5);
+  expect(report.results.map((r) => r.precisionAtK[0].precision)).toEqual([0, 1]);
+  expect(report.results.map((r) => r.precisionAtK[1].precision)).toEqual([0.5, 0.5]);
+});
+
+test("point-in-time patterns only count trades disclosed by each trade's disclosure", () => {
+  const first: FMPTrade = { ...STOCK_TRADE, dateRecieved: "2026-01-20" };
+  // Another member buys the next week, but files a month later
+  const later: FMPTrade = { ...first, firstName: "John", lastName: "Doe", transactionDate: "2026-01-12", dateRecieved: "2026-02-20" };
+  const trades = [first, later];
+  const analyzer = new CongressionalPatternAnalyzer(trades);
+
+  expect(analyzer.getPattern("WDGT").totalTrades).toBe(2);
+  expect(analyzer.getPattern("WDGT", "2026-01-20")).toMatchObject({ totalTrades: 1, uniqueTraders: 1, clusters: [] });
+  expect(analyzer.getPattern("WDGT", "2026-01-19").totalTrades).toBe(0);
+
+  const build = (pointInTime: boolean) =>
+    buildScoringInputs(
+      trades.map((trade) => ({ trade, chamber: "house" as const })),
+      null,
+      analyzer,
+      new Map(),
+      [],
+      undefined,
+      undefined,
+      new Map(),
+      pointInTime
+    );
+  const [replayFirst, replayLater] = build(true);
+  expect(replayFirst.pattern?.totalTrades).toBe(1);
+  expect(replayFirst.pattern?.clusters).toEqual([]);
+  expect(replayLater.pattern?.totalTrades).toBe(2);
+  expect(replayLater.pattern?.clusters).toHaveLength(1);
+  expect(build(false)[0].pattern?.clusters).toHaveLength(1);
+});
+
+test("point-in-time trader histories only count the trader's trades disclosed by then", () => {
+  const first: FMPTrade = { ...STOCK_TRADE, dateRecieved: "2026-01-20" };
+  const larger: FMPTrade = { ...first, symbol: "ACME", amount: "$250,001 - $500,000", dateRecieved: "2026-03-01" };
+  const trades = [first, larger];
+
+  const [replayFirst, replayLarger] = buildScoringInputs(
+    trades.map((trade) => ({ trade, chamber: "house" as const })),
+    null,
+    new CongressionalPatternAnalyzer(trades),
+    new Map(),
+    [],
+    undefined,
+    undefined,
+    new Map(),
+    true
+  );
+
+  expect(replayFirst.traderHistory.totalTradeCount).toBe(1);
+  expect(replayFirst.traderHistory.averageTradeSize).toBe(32500.5);
+  expect(replayLarger.traderHistory.totalTradeCount).toBe(2);
+});
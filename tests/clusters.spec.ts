@@ -0,0 +1,118 @@
+import { test, expect } from "@playwright/test";
+import { CongressionalPatternAnalyzer } from "../src/data/pattern-analyzer.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { TradeInput, TraderInput } from "../src/scoring/types.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+const BASE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  transactionDate: "2026-03-02",
+  owner: "Self",
+  assetDescription: "Acme Corp",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$1,001 - $15,000",
+  symbol: "ACME",
+};
+
+const MEMBERS: Record<string, { party: string; committees: string[] }> = {
+  Smith: { party: "Democrat", committees: ["HSIF", "HSAG"] },
+  Doe: { party: "Republican", committees: ["HSIF"] },
+  Roe: { party: "Republican", committees: ["HSBA"] },
+};
+
+const TRADES: FMPTrade[] = [
+  BASE,
+  { ...BASE, firstName: "John", lastName: "Doe", transactionDate: "2026-03-09" },
+  { ...BASE, firstName: "Jane", lastName: "Smith", transactionDate: "2026-03-10" },
+  // Outside the 14-day window of the first buy
+  { ...BASE, firstName: "Rick", lastName: "Roe", transactionDate: "2026-03-20" },
+  // Sales never cluster with buys
+  { ...BASE, firstName: "Rick", lastName: "Roe", transactionDate: "2026-03-03", type: "Sale (Full)" },
+];
+
+test("finds bursts of different members trading the same symbol and direction", () => {
+  const analyzer = new CongressionalPatternAnalyzer(TRADES, {
+    resolveMember: (trade) => MEMBERS[trade.lastName ?? ""] ?? null,
+  });
+
+  const [cluster, ...rest] = analyzer.getPattern("acme").clusters ?? [];
+  expect(rest).toEqual([]);
+  expect(cluster).toMatchObject({
+    symbol: "ACME",
+    direction: "buy",
+    startDate: "2026-03-02",
+    endDate: "2026-03-10",
+    tradeCount: 3,
+    parties: ["Democrat", "Republican"],
+    isCrossParty: true,
+    sharedCommittees: ["HSIF"],
+  });
+  expect(cluster.members.map((m) => m.lastName)).toEqual(["Smith", "Doe"]);
+
+  // A wider window pulls in the later buy
+  const wide = new CongressionalPatternAnalyzer(TRADES, { clusterWindowDays: 30 });
+  expect(wide.getClusters()[0].members).toHaveLength(3);
+});
+
+test("boosts the overall score of clustered trades", () => {
+  const analyzer = new CongressionalPatternAnalyzer(TRADES, {
+    resolveMember: (trade) => MEMBERS[trade.lastName ?? ""] ?? null,
+  });
+  const trade: TradeInput = {
+    symbol: "ACME",
+    assetDescription: "Acme Corp",
+    assetType: "Stock",
+    type: "Purchase",
+    amount: null,
+    transactionDate: "2026-03-09",
+    owner: "Self",
+  };
+  const doe: TraderInput = { id: "house-john-doe", firstName: "John", lastName: "Doe", chamber: "house", committees: ["HSIF"] };
+  const roe: TraderInput = { ...doe, id: "house-rick-roe", firstName: "Rick", lastName: "Roe" };
+  const history = { visibleTrades: [trade], averageTradeSize: null, totalTradeCount: 1 };
+  const pattern = analyzer.getPattern("ACME");
+
+  const clustered = scoreTrade(trade, doe, history, null, pattern, null);
+  const outside = scoreTrade({ ...trade, transactionDate: "2026-03-20" }, roe, history, null, pattern, null);
+
+  expect(clustered.flags.isClustered).toBe(true);
+  expect(clustered.explanation.cluster).toMatchObject({ otherMembers: ["Jane Smith"], isCrossParty: true, boost: 15 });
+  expect(outside.flags.isClustered).toBe(false);
+  expect(clustered.overallScore).toBe(outside.overallScore + 15);
+
+  const noBoost = { ...DEFAULT_SCORING_CONFIG, cluster: { ...DEFAULT_SCORING_CONFIG.cluster, boost: 0 } };
+  expect(scoreTrade(trade, doe, history, null, pattern, null, noBoost).flags.isClustered).toBe(false);
+});
+
+test("recognizes the trader in a cluster by bioguide ID before name", () => {
+  const ids: Record<string, string> = { Smith: "S000001", Doe: "D000001", Roe: "R000001" };
+  const analyzer = new CongressionalPatternAnalyzer(TRADES, {
+    resolveMember: (trade) => ({ ...MEMBERS[trade.lastName ?? ""], bioguideId: ids[trade.lastName ?? ""] }),
+  });
+  const trade: TradeInput = {
+    symbol: "ACME",
+    assetDescription: "Acme Corp",
+    assetType: "Stock",
+    type: "Purchase",
+    amount: null,
+    transactionDate: "2026-03-09",
+    owner: "Self",
+  };
+  const history = { visibleTrades: [trade], averageTradeSize: null, totalTradeCount: 1 };
+  const pattern = analyzer.getPattern("ACME");
+
+  // Filed under a nickname: the ID still places them in the cluster
+  const johnny: TraderInput = {
+    id: "house-johnny-doe", firstName: "Johnny", lastName: "Doe", bioguideId: "D000001", chamber: "house", committees: ["HSIF"],
+  };
+  const clustered = scoreTrade(trade, johnny, history, null, pattern, null);
+  expect(clustered.flags.isClustered).toBe(true);
+  expect(clustered.explanation.cluster?.otherMembers).toEqual(["Jane Smith"]);
+
+  // Same name, different member
+  const namesake: TraderInput = { ...johnny, id: "house-john-doe-2", firstName: "John", bioguideId: "D000002" };
+  expect(scoreTrade(trade, namesake, history, null, pattern, null).flags.isClustered).toBe(false);
+});
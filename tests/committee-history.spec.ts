@@ -0,0 +1,70 @@
+import { test, expect } from "@playwright/test";
+import { CommitteeHistory, createCommitteeHistory } from "../src/data/committee-history.js";
+import { buildScoringInputs } from "../src/services/analysis-service.js";
+import { CongressionalPatternAnalyzer } from "../src/data/pattern-analyzer.js";
+import type { CommitteeData, CommitteeMembershipSnapshot, FMPTrade } from "../src/types/index.js";
+
+const SMITH = { name: "Jane Smith", bioguide: "S000001" };
+
+const SNAPSHOTS: CommitteeMembershipSnapshot[] = [
+  { asOf: "2024-01-15", membership: { HSBA: [SMITH], HSAG: [SMITH] } },
+  { asOf: "2025-01-15", membership: { HSBA: [SMITH], HSAG: [] } },
+  { asOf: "2026-01-15", membership: { HSBA: [], HSIF: [SMITH] } },
+];
+
+test("builds assignments with start and end dates from snapshots", () => {
+  const history = new CommitteeHistory(SNAPSHOTS);
+
+  expect(history.getAssignments("S000001")).toEqual([
+    { bioguide: "S000001", committeeId: "HSBA", start: null, end: "2026-01-15", role: "member" },
+    { bioguide: "S000001", committeeId: "HSAG", start: null, end: "2025-01-15", role: "member" },
+    { bioguide: "S000001", committeeId: "HSIF", start: "2026-01-15", end: null, role: "member" },
+  ]);
+  expect(history.getCoverage()).toEqual({ from: "2024-01-15", to: "2026-01-15", snapshots: 3 });
+
+  expect(history.getCommittees("S000001", "2023-06-01")).toEqual(["HSBA", "HSAG"]);
+  expect(history.getCommittees("S000001", "2024-07-01")).toEqual(["HSBA", "HSAG"]);
+  expect(history.getCommittees("S000001", "2025-07-01")).toEqual(["HSBA"]);
+  expect(history.getCommittees("S000001", "2026-03-01")).toEqual(["HSIF"]);
+  expect(history.getCommittees("S000001")).toEqual(["HSIF"]);
+});
+
+test("falls back to current membership without archived snapshots", () => {
+  const history = createCommitteeHistory({ membership: { HSBA: [SMITH] } });
+  expect(history.getCommittees("S000001", "2020-01-01")).toEqual(["HSBA"]);
+  expect(history.getCommittees("S000002", "2020-01-01")).toEqual([]);
+});
+
+test("scores committee relevance on the trade's transaction date", () => {
+  const committeeData: CommitteeData = {
+    committees: [],
+    membership: SNAPSHOTS[2].membership,
+    sectorMappings: [],
+    legislators: [
+      {
+        id: { bioguide: "S000001" },
+        name: { first: "Jane", last: "Smith" },
+        terms: [{ type: "rep", start: "2023-01-03", end: "2027-01-03", state: "CA", party: "Democrat", district: 1 }],
+      },
+    ],
+    history: SNAPSHOTS,
+  };
+  const trade = (transactionDate: string): FMPTrade => ({
+    firstName: "Jane",
+    lastName: "Smith",
+    transactionDate,
+    type: "Purchase",
+    amount: "$1,001 - $15,000",
+    symbol: "JPM",
+  });
+  const trades = [trade("2024-06-03"), trade("2026-02-02")];
+
+  const inputs = buildScoringInputs(
+    trades.map((t) => ({ trade: t, chamber: "house" as const })),
+    committeeData,
+    new CongressionalPatternAnalyzer(trades),
+    new Map()
+  );
+
+  expect(inputs.map((i) => i.trader.committees)).toEqual([["HSBA", "HSAG"], ["HSIF"]]);
+});
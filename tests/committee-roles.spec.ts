@@ -0,0 +1,91 @@
+import { test, expect } from "@playwright/test";
+import { CommitteeHistory, getCommitteeRole } from "../src/data/committee-history.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { createSectorMap } from "../src/data/sector-map.js";
+import { resolveScoringProfile } from "../src/services/profile-service.js";
+import type { TradeInput, TraderInput, TraderHistory, MarketData } from "../src/scoring/types.js";
+
+const TRADE: TradeInput = {
+  symbol: "JPM",
+  assetDescription: "JPMorgan Chase & Co.",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: { low: 15001, high: 50000 },
+  transactionDate: "2026-03-10",
+  owner: "Self",
+};
+
+const HISTORY: TraderHistory = { visibleTrades: [TRADE], averageTradeSize: 32500, totalTradeCount: 1 };
+
+const MARKET: MarketData = {
+  marketCap: 600_000_000_000,
+  sector: "Financial Services",
+  industry: "Banks - Diversified",
+  averageVolume: null,
+  exchange: "NYSE",
+};
+
+function trader(committeeRoles?: TraderInput["committeeRoles"]): TraderInput {
+  return { id: "S000001", firstName: "Jane", lastName: "Smith", chamber: "senate", committees: ["SSBK"], committeeRoles };
+}
+
+test("classifies roster titles and untitled rank-1 members", () => {
+  expect(getCommitteeRole({ name: "A", title: "Chairman", rank: 1, party: "majority" })).toBe("chair");
+  expect(getCommitteeRole({ name: "B", title: "Chairwoman" })).toBe("chair");
+  expect(getCommitteeRole({ name: "C", title: "Ranking Member", rank: 1, party: "minority" })).toBe("rankingMember");
+  expect(getCommitteeRole({ name: "D", title: "Vice Chair" })).toBe("viceChair");
+  expect(getCommitteeRole({ name: "E", rank: 1, party: "minority" })).toBe("rankingMember");
+  expect(getCommitteeRole({ name: "F", title: "Ex Officio", rank: 1, party: "majority" })).toBe("member");
+  expect(getCommitteeRole({ name: "G", rank: 4, party: "majority" })).toBe("member");
+});
+
+test("tracks role changes as separate dated assignments", () => {
+  const history = new CommitteeHistory([
+    { asOf: "2024-01-15", membership: { SSBK: [{ name: "Jane Smith", bioguide: "S000001", rank: 3, party: "majority" }] } },
+    { asOf: "2025-01-15", membership: { SSBK: [{ name: "Jane Smith", bioguide: "S000001", rank: 1, party: "majority", title: "Chairman" }] } },
+  ]);
+
+  expect(history.getRoles("S000001", "2024-06-01")).toEqual({});
+  expect(history.getRoles("S000001", "2025-06-01")).toEqual({ SSBK: "chair" });
+  expect(history.getCommittees("S000001", "2024-06-01")).toEqual(["SSBK"]);
+  expect(history.getCommittees("S000001", "2025-06-01")).toEqual(["SSBK"]);
+});
+
+test("weights chairs and ranking members above rank-and-file members", () => {
+  const member = scoreTrade(TRADE, trader(), HISTORY, MARKET, null, createSectorMap());
+  const chair = scoreTrade(TRADE, trader({ SSBK: "chair" }), HISTORY, MARKET, null, createSectorMap());
+  const ranking = scoreTrade(TRADE, trader({ SSBK: "rankingMember" }), HISTORY, MARKET, null, createSectorMap());
+
+  expect(member.factors.committeeRelevanceScore).toBe(75);
+  expect(chair.factors.committeeRelevanceScore).toBe(100);
+  expect(ranking.factors.committeeRelevanceScore).toBe(92);
+
+  expect(member.explanation.committeeRelevance?.role).toBeUndefined();
+  expect(chair.explanation.committeeRelevance?.role).toEqual({
+    committeeId: "SSBK",
+    name: "Banking, Housing, and Urban Affairs",
+    role: "chair",
+    multiplier: 1.3,
+  });
+
+  const flat = resolveScoringProfile({ committeeRole: { chair: 1 } }, "flat");
+  const flatChair = scoreTrade(TRADE, trader({ SSBK: "chair" }), HISTORY, MARKET, null, createSectorMap(), flat);
+  expect(flatChair.factors.committeeRelevanceScore).toBe(75);
+});
+
+test("a chair with one overlap outranks a member with one overlap, who keeps the base score", () => {
+  const member = scoreTrade(TRADE, trader(), HISTORY, MARKET, null, createSectorMap());
+  const chair = scoreTrade(TRADE, trader({ SSBK: "chair" }), HISTORY, MARKET, null, createSectorMap());
+  const memberOfTwo = scoreTrade(TRADE, { ...trader(), committees: ["SSBK", "SSFI"] }, HISTORY, MARKET, null, createSectorMap());
+
+  expect(member.factors.committeeRelevanceScore).toBe(75);
+  expect(chair.factors.committeeRelevanceScore).toBeGreaterThan(member.factors.committeeRelevanceScore);
+  expect(chair.factors.committeeRelevanceScore).toBeGreaterThanOrEqual(memberOfTwo.factors.committeeRelevanceScore);
+
+  // A steeper profile spreads the other roles out below the chair
+  const steep = resolveScoringProfile({ committeeRole: { chair: 2 } }, "steep");
+  const steepRanking = scoreTrade(TRADE, trader({ SSBK: "rankingMember" }), HISTORY, MARKET, null, createSectorMap(), steep);
+  const steepChair = scoreTrade(TRADE, trader({ SSBK: "chair" }), HISTORY, MARKET, null, createSectorMap(), steep);
+  expect(steepRanking.factors.committeeRelevanceScore).toBe(80);
+  expect(steepChair.factors.committeeRelevanceScore).toBe(100);
+});
@@ -0,0 +1,85 @@
+import { test, expect } from "@playwright/test";
+import { FilingComplianceAnalyzer } from "../src/data/compliance-analyzer.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { TradeInput, TraderInput } from "../src/scoring/types.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+const ON_TIME: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  link: "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030001.pdf",
+  dateRecieved: "2/15/2026",
+  transactionDate: "2026-01-20",
+  owner: "Self",
+  assetDescription: "NVIDIA Corporation",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$1,001 - $15,000",
+  symbol: "NVDA",
+};
+
+const LATE: FMPTrade = {
+  ...ON_TIME,
+  link: "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030002.pdf",
+  dateRecieved: "2026-06-01",
+  symbol: "MSFT",
+};
+
+const SENATE_LATE: FMPTrade = {
+  ...ON_TIME,
+  firstName: "John",
+  lastName: "Doe",
+  link: "https://efdsearch.senate.gov/search/view/ptr/abc-123/",
+  dateRecieved: "03/20/2026",
+};
+
+test("aggregates filing delays per member and chamber", () => {
+  const analyzer = new FilingComplianceAnalyzer([
+    { trade: ON_TIME, chamber: "house" },
+    { trade: LATE, chamber: "house" },
+    { trade: SENATE_LATE, chamber: "senate" },
+    { trade: { ...ON_TIME, dateRecieved: undefined }, chamber: "house" },
+  ]);
+
+  expect(analyzer.getDelays().map((d) => d.delayDays)).toEqual([26, 132, 59]);
+
+  const [smith, doe] = analyzer.getLateFilers();
+  expect(smith).toMatchObject({ member: "Jane Smith", chamber: "house", transactions: 2, lateTransactions: 1, lateFilings: 1, maxDelayDays: 132 });
+  expect(smith.lateRate).toBe(0.5);
+  expect(doe).toMatchObject({ member: "John Doe", chamber: "senate", lateTransactions: 1 });
+
+  const chambers = analyzer.getChamberStats();
+  expect(chambers.house).toMatchObject({ transactions: 2, lateTransactions: 1, averageDelayDays: 79 });
+  expect(chambers.senate).toMatchObject({ transactions: 1, lateTransactions: 1 });
+});
+
+test("scores late disclosures without changing the default overall score", () => {
+  const trade: TradeInput = {
+    symbol: "MSFT",
+    assetDescription: "Microsoft Corporation",
+    assetType: "Stock",
+    type: "Purchase",
+    amount: null,
+    transactionDate: "2026-01-20",
+    owner: "Self",
+  };
+  const trader: TraderInput = { id: "house-jane-smith", firstName: "Jane", lastName: "Smith", chamber: "house", committees: [] };
+  const history = { visibleTrades: [trade], averageTradeSize: null, totalTradeCount: 1 };
+
+  const onTime = scoreTrade(trade, trader, history, null, null, null);
+  const late = scoreTrade({ ...trade, disclosureDate: "2026-06-01" }, trader, history, null, null, null);
+
+  expect(onTime.factors.lateFilingScore).toBe(0);
+  expect(late.factors.lateFilingScore).toBe(75);
+  expect(late.flags.isLateFiling).toBe(true);
+  expect(late.explanation.lateFiling).toMatchObject({ delayDays: 132, daysLate: 87 });
+  expect(late.overallScore).toBe(onTime.overallScore);
+
+  const weighted = {
+    ...DEFAULT_SCORING_CONFIG,
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, rarity: 0.15, lateFiling: 0.1 },
+  };
+  const weightedLate = scoreTrade({ ...trade, disclosureDate: "2026-06-01" }, trader, history, null, null, null, weighted);
+  expect(weightedLate.overallScore).toBeGreaterThan(scoreTrade(trade, trader, history, null, null, null, weighted).overallScore);
+});
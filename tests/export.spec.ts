@@ -0,0 +1,92 @@
+import { test, expect } from "@playwright/test";
+import { inflateRawSync } from "node:zlib";
+import { buildExportTables, getExportColumns, toCsv, toNdjson, toXlsx } from "../src/services/export-service.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { createSectorMap } from "../src/data/sector-map.js";
+import { createMemberResolver } from "../src/data/member-resolver.js";
+import type { AnalyzedTrade } from "../src/services/analysis-service.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+const TRADE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  transactionDate: "2026-03-10",
+  dateRecieved: "2026-04-01",
+  owner: "Spouse",
+  assetDescription: 'Acme "Class A", Inc.',
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$15,001 - $50,000",
+  symbol: "ACME",
+};
+
+function analyzed(trade: FMPTrade): AnalyzedTrade {
+  const trader = { id: "S000001", bioguideId: "S000001", firstName: "Jane", lastName: "Smith", chamber: "senate" as const, committees: ["SSBK"], party: "Democrat" };
+  const score = scoreTrade(
+    {
+      symbol: trade.symbol ?? null,
+      assetDescription: trade.assetDescription ?? null,
+      assetType: trade.assetType ?? null,
+      type: trade.type ?? null,
+      amount: { low: 15001, high: 50000 },
+      transactionDate: trade.transactionDate ?? null,
+      owner: trade.owner ?? null,
+    },
+    trader,
+    { visibleTrades: [], averageTradeSize: 32500, totalTradeCount: 1 },
+    { marketCap: 600_000_000_000, sector: "Financial Services", industry: "Banks - Diversified", averageVolume: null, exchange: "NYSE" },
+    null,
+    createSectorMap()
+  );
+  return { trade, chamber: "senate", trader, score };
+}
+
+test("scored trade columns are stable and flatten factor scores and flags", () => {
+  expect(getExportColumns("scored-trades")).toEqual([
+    "trade_key", "chamber", "member", "bioguide_id", "party", "symbol", "type", "direction",
+    "amount_low", "amount_high", "owner", "transaction_date", "disclosure_date", "overall_score",
+    "market_cap_score", "conviction_score", "rarity_score", "committee_relevance_score", "derivative_score",
+    "ownership_score", "activity_proximity_score", "late_filing_score",
+    "is_small_cap", "is_high_conviction", "is_rare_stock", "has_committee_relevance", "is_derivative",
+    "is_indirect_ownership", "is_near_committee_activity", "is_late_filing", "is_clustered",
+    "market_cap", "stock_sector", "stock_industry", "overlapping_committees", "cluster_boost", "link",
+    "resolved_symbol", "symbol_source", "symbol_confidence", "asset_class", "is_private_placement",
+  ]);
+});
+
+test("CSV quotes fields and NDJSON keeps every column with typed values", () => {
+  const [trades, relevance] = buildExportTables([analyzed(TRADE)], ["trades", "committee-relevance"], null, createMemberResolver(null));
+
+  const csv = toCsv(trades).split("\r\n");
+  expect(csv[0]).toBe(getExportColumns("trades").join(","));
+  expect(csv[1]).toContain('"Acme ""Class A"", Inc."');
+  expect(csv[1]).toContain(",15001,50000,Spouse,2026-03-10,2026-04-01,");
+
+  const row = JSON.parse(toNdjson(trades).trim());
+  expect(Object.keys(row)).toEqual(getExportColumns("trades"));
+  expect(row).toMatchObject({ amount_low: 15001, amount_high: 50000, office: null, link: null });
+
+  const match = JSON.parse(toNdjson(relevance).trim());
+  expect(match).toMatchObject({ committee_id: "SSBK", level: "committee", role: "member", committee_relevance_score: 75 });
+});
+
+test("XLSX workbook has one sheet per dataset", () => {
+  const tables = buildExportTables([analyzed(TRADE)], ["scored-trades", "members"], null, createMemberResolver(null));
+  const xlsx = toXlsx(tables);
+
+  // Walk the zip's local file headers
+  const files = new Map<string, string>();
+  for (let offset = 0; xlsx.readUInt32LE(offset) === 0x04034b50; ) {
+    const size = xlsx.readUInt32LE(offset + 18);
+    const nameLength = xlsx.readUInt16LE(offset + 26);
+    const name = xlsx.toString("utf-8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength;
+    files.set(name, inflateRawSync(xlsx.subarray(start, start + size)).toString("utf-8"));
+    offset = start + size;
+  }
+
+  expect(files.get("xl/workbook.xml")).toContain('<sheet name="scored-trades" sheetId="1" r:id="rId1"/>');
+  expect(files.get("xl/workbook.xml")).toContain('<sheet name="members" sheetId="2" r:id="rId2"/>');
+  expect(files.get("xl/worksheets/sheet2.xml")).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">bioguide_id</t></is></c>');
+  expect(files.get("xl/worksheets/sheet1.xml")).toContain('t="b"><v>1</v></c>');
+});
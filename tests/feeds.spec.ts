@@ -0,0 +1,74 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  reportFeedChannel,
+  upsertFeedItems,
+  partyFeedName,
+  type FeedChannel,
+  type FeedItem,
+} from "../src/output/feeds.js";
+import { mimeType } from "../src/publish.js";
+
+const ENTRIES = [
+  { date: "2026-04-11", dateLabel: "Week of April 6, 2026", file: "2026-04-11/report.html", totalTrades: 38, topSymbols: ["NVDA"] },
+  { date: "2026-04-18", dateLabel: "Week of April 13, 2026", file: "2026-04-18/report.html", totalTrades: 42, topSymbols: ["AAPL", "MSFT"] },
+];
+
+function item(id: string, date: string): FeedItem {
+  return { id, title: `Trade ${id}`, path: `2026-04-18/trade-${id}.html`, date, summary: "" };
+}
+
+test("report feed lists manifest entries newest first in Atom and JSON Feed", () => {
+  const channel = reportFeedChannel(ENTRIES);
+
+  const atom = buildAtomFeed("reports", channel, "https://trades.example.com");
+  expect(atom).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+  expect(atom).toContain('<link rel="self" type="application/atom+xml" href="https://trades.example.com/feeds/reports.atom"/>');
+  expect(atom).toContain("<updated>2026-04-18T00:00:00.000Z</updated>");
+  expect(atom.indexOf("Week of April 13, 2026")).toBeLessThan(atom.indexOf("Week of April 6, 2026"));
+
+  const json = JSON.parse(buildJsonFeed("reports", channel));
+  expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+  expect(json.feed_url).toBe("../feeds/reports.feed.json");
+  expect(json.items[0]).toMatchObject({
+    id: "urn:congress-trades:report:2026-04-18",
+    url: "../2026-04-18/report.html",
+    summary: "42 trades analyzed — top: AAPL, MSFT",
+  });
+});
+
+test("trade feeds accumulate across runs without duplicating or re-dating items", async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "feeds-"));
+  const channel = (items: FeedItem[]): FeedChannel => ({ title: "Jane Smith", description: "", path: "x.html", items });
+  try {
+    await upsertFeedItems(dir, new Map([["member-s000001", channel([item("a", "2026-04-11T12:00:00.000Z")])]]));
+    const feeds = await upsertFeedItems(
+      dir,
+      new Map([["member-s000001", channel([item("a", "2026-04-18T12:00:00.000Z"), item("b", "2026-04-18T12:00:00.000Z")])]])
+    );
+
+    expect(feeds.get("member-s000001")!.items.map((i) => [i.id, i.date])).toEqual([
+      ["b", "2026-04-18T12:00:00.000Z"],
+      ["a", "2026-04-11T12:00:00.000Z"],
+    ]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("party feeds match party page names", () => {
+  expect(partyFeedName("Republican")).toBe("party-republican");
+  expect(partyFeedName("Democrat")).toBe("party-democrat");
+  expect(partyFeedName("Independent")).toBe("party-independent");
+  expect(partyFeedName(undefined)).toBeNull();
+});
+
+test("feeds publish with feed content types", () => {
+  expect(mimeType("feeds/reports.atom")).toBe("application/atom+xml; charset=utf-8");
+  expect(mimeType("feeds/reports.feed.json")).toBe("application/feed+json; charset=utf-8");
+  expect(mimeType("manifest.json")).toBe("application/json");
+});
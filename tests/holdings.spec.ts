@@ -0,0 +1,91 @@
+import { test, expect } from "@playwright/test";
+import { HoldingsEngine, getHoldingOwner } from "../src/data/holdings-engine.js";
+import { buildMemberPage } from "../src/output/html.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+function trade(overrides: Partial<FMPTrade>): FMPTrade {
+  return {
+    firstName: "Jane",
+    lastName: "Smith",
+    transactionDate: "2026-01-10",
+    owner: "self",
+    assetDescription: "Acme Corp",
+    type: "Purchase",
+    amount: "$1,001 - $15,000",
+    symbol: "ACME",
+    ...overrides,
+  };
+}
+
+function engine(trades: FMPTrade[]): HoldingsEngine {
+  return new HoldingsEngine(trades.map((t) => ({ trade: t, chamber: "senate" as const, bioguideId: "S000001" })));
+}
+
+test("owners normalize to self, spouse, joint and dependent", () => {
+  expect(["self", "--", undefined, "SP", "Spouse", "JT", "Joint", "DC", "Dependent Child"].map(getHoldingOwner))
+    .toEqual(["Self", "Self", "Self", "Spouse", "Spouse", "Joint", "Joint", "Dependent", "Dependent"]);
+});
+
+test("purchases add ranges, partial sales subtract and full sales close", () => {
+  const holdings = engine([
+    trade({ transactionDate: "2026-01-10" }),
+    trade({ transactionDate: "2026-02-10", amount: "$15,001 - $50,000" }),
+    trade({ transactionDate: "2026-03-10", type: "Sale (Partial)" }),
+    trade({ symbol: "NVDA", transactionDate: "2026-01-05" }),
+    trade({ symbol: "NVDA", transactionDate: "2026-04-01", type: "Sale (Full)" }),
+  ]);
+
+  const [acme] = holdings.getHoldings();
+  expect(holdings.getHoldings().map((h) => h.symbol)).toEqual(["ACME"]);
+  // Bought 16,002–65,000 (mids 8,001 + 32,501); sold 1,001–15,000 (mid 8,001)
+  expect(acme.value).toEqual({ low: 1002, mid: 32501, high: 63999 });
+  expect(acme.openedDate).toBe("2026-01-10");
+  expect(acme.lastActivityDate).toBe("2026-03-10");
+
+  const nvda = holdings.getHoldings({ includeClosed: true }).find((h) => h.symbol === "NVDA")!;
+  expect(nvda.isOpen).toBe(false);
+  expect(nvda.events.map((e) => e.action)).toEqual(["buy", "sellAll"]);
+
+  // Replaying only up to a date leaves the NVDA position open
+  expect(holdings.getHoldings({ asOf: "2026-03-31" }).map((h) => h.symbol)).toEqual(["ACME", "NVDA"]);
+});
+
+test("owners are tracked separately and sales without a prior purchase are flagged", () => {
+  const holdings = engine([
+    trade({ owner: "Spouse", transactionDate: "2026-01-10" }),
+    trade({ owner: "self", transactionDate: "2026-02-10", type: "Sale (Partial)" }),
+    // Same-day purchase replays before the sale
+    trade({ symbol: "MSFT", transactionDate: "2026-03-01", type: "Sale (Partial)" }),
+    trade({ symbol: "MSFT", transactionDate: "2026-03-01" }),
+  ]);
+
+  const unmatched = holdings.getUnmatchedSales();
+  expect(unmatched).toHaveLength(1);
+  expect(unmatched[0]).toMatchObject({ date: "2026-02-10", holding: { symbol: "ACME", owner: "Self" } });
+
+  const open = holdings.getHoldings();
+  expect(open.map((h) => `${h.symbol}/${h.owner}`)).toEqual(["ACME/Spouse", "MSFT/Self"]);
+});
+
+test("member page shows current estimated holdings", () => {
+  const holdings = engine([
+    trade({ transactionDate: "2026-01-10" }),
+    trade({ transactionDate: "2026-02-10", type: "Sale (Partial)", owner: "Spouse" }),
+  ]).getHoldings({ includeClosed: true });
+
+  const html = buildMemberPage({
+    memberName: "Jane Smith",
+    chamber: "Sen.",
+    party: "Democrat",
+    trades: [],
+    dateLabel: "Week of Mar 2, 2026",
+    reportUrl: "report.html",
+    holdings,
+  });
+
+  expect(html).toContain("Current estimated holdings");
+  expect(html).toContain("$8,001 <span class=\"sale-desc\">($1,001 – $15,000)</span>");
+  expect(html).toContain("1 unmatched sale<");
+  expect(buildMemberPage({ memberName: "Jane Smith", chamber: "Sen.", party: undefined, trades: [], dateLabel: "", reportUrl: "report.html" }))
+    .not.toContain("Current estimated holdings");
+});
@@ -0,0 +1,70 @@
+import { test, expect } from "@playwright/test";
+import { MemberResolver } from "../src/data/member-resolver.js";
+import type { FMPTrade, Legislator } from "../src/types/index.js";
+
+function legislator(
+  bioguide: string,
+  name: Legislator["name"],
+  type: "sen" | "rep",
+  state: string,
+  district?: number
+): Legislator {
+  return {
+    id: { bioguide },
+    name,
+    terms: [{ type, start: "2025-01-03", end: "2027-01-03", state, party: "Independent", district }],
+  };
+}
+
+const LEGISLATORS: Legislator[] = [
+  legislator("T000278", { first: "Tommy", last: "Tuberville", official_full: "Tommy Tuberville" }, "sen", "AL"),
+  legislator("Y000067", { first: "Rudy", last: "Yakym", suffix: "III", official_full: "Rudy Yakym III" }, "rep", "IN", 2),
+  legislator("M000355", { first: "Addison", middle: "Mitchell", nickname: "Mitch", last: "McConnell" }, "sen", "KY"),
+  legislator("W000797", { first: "Debbie", last: "Wasserman Schultz" }, "rep", "FL", 25),
+  legislator("J000001", { first: "Mike", last: "Johnson" }, "rep", "LA", 4),
+  legislator("J000002", { first: "Mike", last: "Johnson" }, "rep", "SD", 0),
+];
+
+function trade(firstName: string, lastName: string, office?: string): FMPTrade {
+  return { firstName, lastName, office, symbol: "ACME", transactionDate: "2026-03-02" };
+}
+
+test("resolves name variants, nicknames, suffixes and titles to one bioguide ID", () => {
+  const resolver = new MemberResolver(LEGISLATORS);
+
+  expect(resolver.resolveName("Thomas H.", "Tuberville", "senate")).toEqual({ bioguide: "T000278", method: "nickname" });
+  expect(resolver.resolve(trade("Hon. Tommy", "Tuberville"), "senate")).toBe("T000278");
+  expect(resolver.resolve(trade("Rudy", "Yakym III"), "house")).toBe("Y000067");
+  expect(resolver.resolve(trade("A. Mitchell", "McConnell, Jr."), "senate")).toBe("M000355");
+  expect(resolver.resolve(trade("Mitch", "McConnell"), "senate")).toBe("M000355");
+  expect(resolver.resolve(trade("Debbie", "Wasserman-Schultz"), "house")).toBe("W000797");
+
+  // Chamber rules out a same-name member of the other chamber
+  expect(resolver.resolve(trade("Tommy", "Tuberville"), "house")).toBeNull();
+});
+
+test("uses the filing's state/district to separate same-name members", () => {
+  const resolver = new MemberResolver(LEGISLATORS);
+
+  expect(resolver.resolve(trade("Mike", "Johnson"), "house")).toBeNull();
+  expect(resolver.resolve(trade("Mike", "Johnson", "LA04"), "house")).toBe("J000001");
+  expect(resolver.resolveName("Mike", "Johnson", "house", "SDAL")).toEqual({ bioguide: "J000002", method: "name" });
+});
+
+test("applies manual overrides and reports unresolved names with candidates", () => {
+  const resolver = new MemberResolver(LEGISLATORS, {}, [
+    { firstName: "Mike", lastName: "Johnson", chamber: "house", bioguide: "J000001" },
+  ]);
+  expect(resolver.resolveName("Mike", "Johnson", "house")).toEqual({ bioguide: "J000001", method: "override" });
+
+  const first = trade("Jim", "Johnson");
+  resolver.resolve(first, "house");
+  resolver.resolve(first, "house"); // the same trade is only counted once
+  resolver.resolve(trade("Jim", "Johnson"), "house");
+  resolver.resolve(trade("Pat", "Nobody"), "senate");
+
+  expect(resolver.getUnresolved()).toEqual([
+    { chamber: "house", firstName: "Jim", lastName: "Johnson", office: null, occurrences: 2, candidates: ["J000001", "J000002"] },
+    { chamber: "senate", firstName: "Pat", lastName: "Nobody", office: null, occurrences: 1, candidates: [] },
+  ]);
+});
@@ -0,0 +1,85 @@
+import { test, expect } from "@playwright/test";
+import { parseOptionDetails } from "../src/data/option-parser.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { closeOnOrBefore } from "../src/data/price-history-provider.js";
+import type { MarketData, TradeInput, TraderInput } from "../src/scoring/types.js";
+
+test("parses House and Senate option descriptions", () => {
+  expect(
+    parseOptionDetails(
+      "NVIDIA Corporation - Common Stock (NVDA) DESCRIPTION: Purchased 20 call options with a strike price of $120 and an expiration date of 1/16/2026.",
+      "Options"
+    )
+  ).toEqual({ kind: "call", strike: 120, expiration: "2026-01-16", contracts: 20 });
+
+  expect(
+    parseOptionDetails("Apple Inc. Option Type: Put Strike price: $185.00 Expires: 06/21/2027", "Stock Option")
+  ).toEqual({ kind: "put", strike: 185, expiration: "2027-06-21", contracts: null });
+
+  expect(parseOptionDetails("Tesla, Inc. - Call Options", "Options")).toEqual({
+    kind: "call",
+    strike: null,
+    expiration: null,
+    contracts: null,
+  });
+
+  // Not an option: no option asset type and no "call/put options" text
+  expect(parseOptionDetails("Callaway Golf Company", "Stock")).toBeNull();
+});
+
+test("short-dated out-of-the-money calls outscore long-dated puts", () => {
+  const trader: TraderInput = { id: "house-jane-smith", firstName: "Jane", lastName: "Smith", chamber: "house", committees: [] };
+  const base: TradeInput = {
+    symbol: "NVDA",
+    assetDescription: null,
+    assetType: "Options",
+    type: "Purchase",
+    amount: null,
+    transactionDate: "2026-01-02",
+    owner: "Self",
+  };
+  const history = { visibleTrades: [base], averageTradeSize: null, totalTradeCount: 1 };
+  // The latest price is not the trade-date close and is ignored for moneyness
+  const marketData: MarketData = { marketCap: null, sector: null, industry: null, averageVolume: null, price: 400 };
+
+  const shortCall = scoreTrade(
+    { ...base, underlyingClose: 100, option: { kind: "call", strike: 115, expiration: "2026-01-23", contracts: 10 } },
+    trader, history, marketData, null, null
+  );
+  const longPut = scoreTrade(
+    { ...base, underlyingClose: 100, option: { kind: "put", strike: 90, expiration: "2027-06-18", contracts: 10 } },
+    trader, history, marketData, null, null
+  );
+
+  expect(shortCall.factors.derivativeScore).toBe(100);
+  expect(longPut.factors.derivativeScore).toBeLessThan(50);
+  expect(shortCall.explanation.derivative?.option).toMatchObject({ daysToExpiry: 21 });
+  expect(shortCall.explanation.derivative?.option?.moneyness).toBeCloseTo(0.15);
+  expect(shortCall.overallScore).toBeGreaterThan(longPut.overallScore);
+
+  const noClose = scoreTrade(
+    { ...base, option: { kind: "call", strike: 115, expiration: "2026-01-23", contracts: 10 } },
+    trader, history, marketData, null, null
+  );
+  expect(noClose.explanation.derivative?.option?.moneyness).toBeNull();
+
+  // No expiry and no trade-date close: scored like any other option
+  for (const kind of ["call", "put"] as const) {
+    const bare = scoreTrade(
+      { ...base, assetDescription: "Tesla, Inc. - Call Options", option: { kind, strike: null, expiration: null, contracts: null } },
+      trader, history, marketData, null, null
+    );
+    expect(bare.factors.derivativeScore).toBe(100);
+  }
+});
+
+test("moneyness uses the close on or before the trade date", () => {
+  const history = [
+    { date: "2025-12-30", close: 95 },
+    { date: "2025-12-31", close: 100 },
+    { date: "2026-01-05", close: 130 },
+  ];
+  expect(closeOnOrBefore(history, "2026-01-02")).toEqual({ date: "2025-12-31", close: 100 });
+  expect(closeOnOrBefore(history, "2026-01-05")?.close).toBe(130);
+  expect(closeOnOrBefore(history, "2025-12-01")).toBeNull();
+});
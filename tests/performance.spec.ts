@@ -0,0 +1,60 @@
+import { test, expect } from "@playwright/test";
+import { computeTradePerformance, buildPerformanceReport, getScoreBucket } from "../src/services/performance-service.js";
+import { parsePriceCsv } from "../src/data/price-history-provider.js";
+import type { AnalyzedTrade } from "../src/services/analysis-service.js";
+import type { PriceHistoryProvider, PricePoint } from "../src/data/types.js";
+
+function prices(points: Record<string, number>): PricePoint[] {
+  return Object.entries(points).map(([date, close]) => ({ date, close }));
+}
+
+const HISTORY: Record<string, PricePoint[]> = {
+  SPY: prices({ "2026-01-02": 100, "2026-02-02": 102, "2026-04-02": 105 }),
+  INTC: prices({ "2026-01-02": 20, "2026-02-02": 25, "2026-04-02": 30 }),
+};
+
+const provider: PriceHistoryProvider = {
+  getName: () => "test prices",
+  getPriceHistory: async (symbol) => HISTORY[symbol] ?? null,
+};
+
+function analyzed(type: string, overallScore: number, lastName = "Smith"): AnalyzedTrade {
+  return {
+    trade: { firstName: "Jane", lastName, symbol: "INTC", type, transactionDate: "2026-01-01" },
+    chamber: "house",
+    trader: { id: `house-jane-${lastName.toLowerCase()}`, firstName: "Jane", lastName, chamber: "house", committees: [] },
+    score: { overallScore } as AnalyzedTrade["score"],
+  };
+}
+
+test("computes realized forward and excess returns from the next trading day", async () => {
+  const [perf] = await computeTradePerformance([analyzed("Purchase", 65)], provider);
+
+  expect(perf.entryDate).toBe("2026-01-02");
+  expect(perf.returns.map((r) => r.horizonDays)).toEqual([30, 90]); // 180 days not realized yet
+
+  const r30 = perf.returns[0];
+  expect(r30.exitDate).toBe("2026-02-02");
+  expect(r30.return).toBeCloseTo(0.25);
+  expect(r30.benchmarkReturn).toBeCloseTo(0.02);
+  expect(r30.excessReturn).toBeCloseTo(0.23);
+});
+
+test("signs excess return by direction and ranks members and score buckets", async () => {
+  const perfs = await computeTradePerformance(
+    [analyzed("Purchase", 85, "Buyer"), analyzed("Sale (Full)", 30, "Seller")],
+    provider
+  );
+  const report = buildPerformanceReport(perfs, "SPY", 90);
+
+  expect(report.tradesMeasured).toBe(2);
+  expect(report.byMember.map((m) => m.label)).toEqual(["Jane Buyer (house)", "Jane Seller (house)"]);
+  expect(report.byMember[1].avgExcessReturn).toBeCloseTo(-(0.5 - 0.05));
+  expect(report.byScoreBucket.map((b) => b.label)).toEqual(["80-100", "20-39"]);
+  expect(getScoreBucket(100)).toBe("80-100");
+});
+
+test("parses price CSV exports, preferring adjusted close", () => {
+  const csv = "Date,Open,High,Low,Close,Adj Close,Volume\n2026-01-05,1,1,1,10,9.5,100\n2026-01-02,1,1,1,11,null,100\n";
+  expect(parsePriceCsv(csv)).toEqual([{ date: "2026-01-05", close: 9.5 }]);
+});
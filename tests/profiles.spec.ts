@@ -0,0 +1,71 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadScoringProfile, getDefaultScoringConfig } from "../src/services/profile-service.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { TradeInput, TraderInput } from "../src/scoring/types.js";
+
+async function withProfileFile<T>(filename: string, content: string, fn: (file: string) => Promise<T>): Promise<T> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "profile-"));
+  const file = path.join(dir, filename);
+  fs.writeFileSync(file, content);
+  try {
+    return await fn(file);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test("loads a YAML profile merged onto the defaults and tags it with name and hash", async () => {
+  const config = await withProfileFile(
+    "rarity-heavy.yaml",
+    "weights:\n  rarity: 0.3375\n  conviction: 0.1375\nenabledFactors:\n  ownership: false\n",
+    loadScoringProfile
+  );
+
+  expect(config.weights.rarity).toBe(0.3375);
+  expect(config.marketCap).toEqual(DEFAULT_SCORING_CONFIG.marketCap);
+  expect(config.enabledFactors.ownership).toBe(false);
+  expect(config.profile?.name).toBe("rarity-heavy");
+  expect(config.profile?.hash).toMatch(/^[0-9a-f]{12}$/);
+  expect(config.profile?.hash).not.toBe(getDefaultScoringConfig().profile?.hash);
+});
+
+test("rejects unknown keys and weights that don't sum to 1", async () => {
+  await expect(withProfileFile("typo.json", '{"weigths": {}}', loadScoringProfile)).rejects.toThrow(/weigths/);
+  await expect(withProfileFile("heavy.yaml", "weights:\n  rarity: 0.9\n", loadScoringProfile)).rejects.toThrow(/sum to/);
+});
+
+test("disabled factors score 0 and their weight is redistributed", () => {
+  const trade: TradeInput = {
+    symbol: "ACME",
+    assetDescription: "Acme Corp",
+    assetType: "Stock",
+    type: "Purchase",
+    amount: null,
+    transactionDate: "2026-01-05",
+    owner: "Spouse",
+  };
+  const trader: TraderInput = { id: "house-jane-smith", firstName: "Jane", lastName: "Smith", chamber: "house", committees: [] };
+  const history = { visibleTrades: [trade], averageTradeSize: null, totalTradeCount: 1 };
+  const onlyOwnership = {
+    ...DEFAULT_SCORING_CONFIG,
+    enabledFactors: {
+      marketCap: false,
+      conviction: false,
+      rarity: false,
+      committeeRelevance: false,
+      derivative: false,
+      ownership: true,
+      activityProximity: false,
+      lateFiling: false,
+    },
+  };
+
+  const result = scoreTrade(trade, trader, history, null, null, null, onlyOwnership);
+  expect(result.factors.rarityScore).toBe(0);
+  expect(result.explanation.rarity).toBeUndefined();
+  expect(result.overallScore).toBe(75); // Spouse ownership score, at full weight
+});
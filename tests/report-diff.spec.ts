@@ -0,0 +1,131 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { diffReports } from "../src/services/diff-service.js";
+import { buildDiffPage } from "../src/output/html.js";
+import { findReportDate, upsertManifest } from "../src/output/index-page.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { AnalysisReport, AnalyzedTrade } from "../src/services/analysis-service.js";
+import type { FactorScores } from "../src/scoring/types.js";
+
+const FACTORS: FactorScores = {
+  marketCapScore: 40,
+  convictionScore: 50,
+  rarityScore: 60,
+  committeeRelevanceScore: 0,
+  derivativeScore: 0,
+  ownershipScore: 0,
+  activityProximityScore: 0,
+  lateFilingScore: 0,
+};
+
+function analyzed(symbol: string, overallScore: number, overrides: Partial<AnalyzedTrade["score"]> = {}): AnalyzedTrade {
+  return {
+    trade: { firstName: "Jane", lastName: "Smith", transactionDate: "2026-03-10", type: "Purchase", amount: "$1,001 - $15,000", symbol },
+    chamber: "senate",
+    trader: { id: "S000001", firstName: "Jane", lastName: "Smith", chamber: "senate", committees: [] },
+    score: {
+      overallScore,
+      factors: FACTORS,
+      explanation: {},
+      flags: {
+        isSmallCap: false, isHighConviction: false, isRareStock: false, hasCommitteeRelevance: false, isDerivative: false,
+        isIndirectOwnership: false, isNearCommitteeActivity: false, isLateFiling: false, isClustered: false,
+      },
+      ...overrides,
+    },
+  } as AnalyzedTrade;
+}
+
+function report(generatedAt: string, scoredTrades: AnalyzedTrade[]): AnalysisReport {
+  return {
+    generatedAt,
+    config: { ...DEFAULT_SCORING_CONFIG, profile: { name: "default", hash: "abc123" } },
+    totalTradesAnalyzed: scoredTrades.length,
+    scoredTrades,
+    summary: {
+      topByScore: [], byRarity: [], byCommitteeRelevance: [], clusters: [],
+      symbolStats: { totalSymbols: 0, uniqueSymbols: 0, rareSymbols: 0 },
+    },
+  };
+}
+
+const before = report("2026-04-06T12:00:00.000Z", [analyzed("ACME", 40), analyzed("OLD", 30), analyzed("SAME", 20)]);
+const rescored = analyzed("ACME", 55, {
+  factors: { ...FACTORS, rarityScore: 90 },
+  flags: { ...analyzed("ACME", 0).score.flags, isRareStock: true },
+});
+const after = report("2026-04-13T12:00:00.000Z", [rescored, analyzed("NEW", 70), analyzed("SAME", 20)]);
+
+test("diff lists new, dropped and rescored trades with factor and flag changes", () => {
+  const diff = diffReports({ report: before, source: "a.json" }, { report: after, source: "b.json" });
+
+  expect(diff.added.map((t) => t.trade.symbol)).toEqual(["NEW"]);
+  expect(diff.dropped.map((t) => t.trade.symbol)).toEqual(["OLD"]);
+  expect(diff.unchanged).toBe(1);
+  expect(diff.changed).toHaveLength(1);
+  expect(diff.changed[0]).toMatchObject({
+    overall: { before: 40, after: 55, delta: 15 },
+    factors: { rarityScore: { before: 60, after: 90, delta: 30 } },
+    flagsSet: ["isRareStock"],
+    flagsCleared: [],
+  });
+  expect(Object.keys(diff.changed[0].factors)).toEqual(["rarityScore"]);
+});
+
+test("min delta ignores small score changes", () => {
+  const diff = diffReports({ report: before, source: "a.json" }, { report: after, source: "b.json" }, { minDelta: 30 });
+  // Rarity moved exactly 30 but the flag still changed
+  expect(diff.changed[0].factors).toEqual({});
+  expect(diff.changed[0].flagsSet).toEqual(["isRareStock"]);
+
+  const quiet = diffReports({ report: before, source: "a.json" }, { report: before, source: "a.json" });
+  expect(quiet.changed).toEqual([]);
+  expect(quiet.unchanged).toBe(3);
+});
+
+test("identical lots are matched one for one instead of collapsing", () => {
+  const lots = report("2026-04-06T12:00:00.000Z", [analyzed("LOT", 40), analyzed("LOT", 40)]);
+  const moreLots = report("2026-04-13T12:00:00.000Z", [analyzed("LOT", 40), analyzed("LOT", 40), analyzed("LOT", 45)]);
+  const diff = diffReports({ report: lots, source: "a.json" }, { report: moreLots, source: "b.json" });
+
+  expect(diff.unchanged).toBe(2);
+  expect(diff.added.map((t) => t.score.overallScore)).toEqual([45]);
+
+  const fewer = diffReports({ report: moreLots, source: "b.json" }, { report: lots, source: "a.json" });
+  expect(fewer.dropped).toHaveLength(1);
+  expect(fewer.unchanged).toBe(2);
+});
+
+test("diff page shows each section", () => {
+  const html = buildDiffPage({ diff: diffReports({ report: before, source: "a.json" }, { report: after, source: "b.json" }), reportUrl: "report.html" });
+
+  expect(html).toContain("2026-04-06 · default (abc123)");
+  expect(html).toContain("<strong>1</strong> new");
+  expect(html).toContain("Rarity 60 → 90 (<span class=\"delta-up\">+30</span>)");
+  expect(html).toContain("<span class=\"delta-up\">+ rare stock</span>");
+  expect(html).toContain("Dropped Trades");
+});
+
+test("finds the weekly report directory that rendered an analysis", async () => {
+  const webDir = fs.mkdtempSync(path.join(os.tmpdir(), "report-diff-"));
+  try {
+    // Rendered a week after the analysis ran
+    fs.mkdirSync(path.join(webDir, "2026-04-13"));
+    fs.writeFileSync(path.join(webDir, "2026-04-13", "report.html"), "");
+    await upsertManifest(webDir, {
+      date: "2026-04-13",
+      dateLabel: "Week of April 13, 2026",
+      file: "2026-04-13/report.html",
+      totalTrades: 2,
+      topSymbols: [],
+      reportGeneratedAt: after.generatedAt,
+    });
+
+    expect(await findReportDate(webDir, after.generatedAt)).toBe("2026-04-13");
+    expect(await findReportDate(webDir, before.generatedAt)).toBeNull();
+  } finally {
+    fs.rmSync(webDir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,118 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SqliteTradeStore } from "../src/data/trade-store.js";
+import type { PaperFiling } from "../src/data/trade-source.js";
+import { parseManualTransaction, parseManualTransactions } from "../src/services/review-service.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+function tempStore(): { store: SqliteTradeStore; dir: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "review-queue-"));
+  return { store: new SqliteTradeStore(path.join(dir, "trades.db")), dir };
+}
+
+const PAPER: PaperFiling = {
+  chamber: "senate",
+  docId: "0d6b0a3e-1c2f-4b8e-9a51-7f3c2e1d9b40",
+  firstName: "Jane",
+  lastName: "Smith",
+  link: "https://efdsearch.senate.gov/search/view/paper/0d6b0a3e-1c2f-4b8e-9a51-7f3c2e1d9b40/",
+  filedDate: "03/12/2026",
+  reason: "Paper filing (scanned images)",
+};
+
+const ELECTRONIC: FMPTrade = {
+  firstName: "John",
+  lastName: "Doe",
+  link: "https://efdsearch.senate.gov/search/view/ptr/5e1f2a7b-0c3d-4e9f-8a21-6b4d3c2e1f00/",
+  dateRecieved: "03/05/2026",
+  transactionDate: "2026-02-27",
+  owner: "Self",
+  assetDescription: "Microsoft Corporation",
+  assetType: "Stock",
+  type: "Sale (Full)",
+  amount: "$15,001 - $50,000",
+  symbol: "MSFT",
+};
+
+test("hand-entered transactions are validated against the PTR form", () => {
+  const [trade] = parseManualTransactions([
+    { transactionDate: "02/24/2026", owner: "Spouse", symbol: "nvda", assetDescription: "NVIDIA Corporation", type: "Purchase", amount: "$1,001 - $15,000" },
+  ]);
+  expect(trade).toEqual({
+    transactionDate: "2026-02-24",
+    owner: "Spouse",
+    symbol: "NVDA",
+    assetDescription: "NVIDIA Corporation",
+    assetType: "Stock",
+    type: "Purchase",
+    amount: "$1,001 - $15,000",
+  });
+
+  const invalid = parseManualTransaction({ transactionDate: "Feb 24", owner: "Self", assetDescription: "NVIDIA", type: "Buy", amount: "$2,000" });
+  expect(invalid.issues).toContain("transactionDate: expected YYYY-MM-DD or MM/DD/YYYY");
+  expect(invalid.issues).toContain("type:");
+  expect(invalid.issues).toContain("amount:");
+  expect(() => parseManualTransactions([], "transactions file")).toThrow(/Invalid transactions file/);
+});
+
+test("paper filings are queued once and entered with manual provenance", () => {
+  const { store, dir } = tempStore();
+  try {
+    expect(store.queuePaperFilings([PAPER])).toBe(1);
+    expect(store.queuePaperFilings([PAPER])).toBe(0);
+
+    const [queued] = store.listPaperFilings("pending");
+    expect(queued).toMatchObject({ ...PAPER, status: "pending", reviewedAt: null, transactionsEntered: 0 });
+    expect(store.getStats().pendingPaperFilings).toBe(1);
+
+    const trades = parseManualTransactions([
+      { transactionDate: "2026-02-24", owner: "Spouse", symbol: "NVDA", assetDescription: "NVIDIA Corporation", type: "Purchase", amount: "$1,001 - $15,000" },
+      { transactionDate: "2026-02-25", owner: "Self", assetDescription: "Smith Family Farm LLC", assetType: "Farm", type: "Sale (Partial)", amount: "$50,001 - $100,000", comment: "Partial interest" },
+    ]);
+    expect(store.enterPaperFilingTrades(queued.id, trades)).toHaveLength(2);
+    expect(store.enterPaperFilingTrades(queued.id, trades.slice(0, 1))).toHaveLength(0);
+
+    const stored = store.loadTradeData().senateTrades;
+    expect(stored[0]).toEqual({
+      ...trades[0],
+      firstName: "Jane",
+      lastName: "Smith",
+      link: PAPER.link,
+      dateRecieved: "03/12/2026",
+      provenance: "manual",
+    });
+    expect(store.getPaperFiling(queued.id)).toMatchObject({ status: "entered", transactionsEntered: 2 });
+    expect(store.listPaperFilings("pending")).toHaveLength(0);
+    expect(store.getStats()).toMatchObject({ manualTransactions: 2, pendingPaperFilings: 0 });
+
+    expect(() => store.enterPaperFilingTrades(99, trades)).toThrow(/No paper filing #99/);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("refresh keeps manual transactions and skipped filings leave the queue", () => {
+  const { store, dir } = tempStore();
+  try {
+    store.queuePaperFilings([PAPER, { ...PAPER, docId: "paper-2", link: `${PAPER.link}2/` }]);
+    const [first, second] = store.listPaperFilings();
+    store.enterPaperFilingTrades(first.id, parseManualTransactions([
+      { transactionDate: "2026-02-24", owner: "Joint", symbol: "AAPL", assetDescription: "Apple Inc.", type: "Purchase", amount: "$1,001 - $15,000" },
+    ]));
+    store.skipPaperFiling(second.id);
+
+    store.replaceAllTrades({ senateTrades: [ELECTRONIC], houseTrades: [] });
+    const senate = store.loadTradeData().senateTrades;
+    expect(senate.map((t) => t.symbol)).toEqual(["MSFT", "AAPL"]);
+    expect(senate[0].provenance).toBeUndefined();
+    expect(senate[1]).toMatchObject({ provenance: "manual", firstName: "Jane", link: PAPER.link });
+
+    expect(store.listPaperFilings().map((f) => f.status)).toEqual(["entered", "skipped"]);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,113 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { compareSources, getParityKey } from "../src/services/parity-service.js";
+import { FixtureTradeSource } from "../src/data/fixture-provider.js";
+import { createMemberResolver } from "../src/data/member-resolver.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+function trade(overrides: Partial<FMPTrade>): FMPTrade {
+  return {
+    firstName: "Jane",
+    lastName: "Smith",
+    transactionDate: "2026-09-01",
+    symbol: "ACME",
+    type: "Purchase",
+    amount: "$1,001 - $15,000",
+    owner: "Self",
+    ...overrides,
+  };
+}
+
+test("parity key normalizes names, dates, tickers and types", () => {
+  expect(getParityKey(trade({ firstName: "Hon. Jane", lastName: "Smith Jr.", transactionDate: "09/01/2026", symbol: "$acme", type: "purchase" }), "senate"))
+    .toBe(getParityKey(trade({}), "senate"));
+  expect(getParityKey(trade({}), "senate")).not.toBe(getParityKey(trade({}), "house"));
+});
+
+test("reports missing, extra, field disagreements and member coverage", () => {
+  const report = compareSources(
+    {
+      name: "baseline",
+      data: {
+        senateTrades: [
+          trade({}),
+          trade({ symbol: "MSFT", transactionDate: "2026-09-05", type: "Sale (Full)", amount: "$15,001 - $50,000", owner: "Spouse" }),
+          trade({ firstName: "Bob", lastName: "Jones", symbol: "XOM" }),
+          trade({ symbol: "BRK.B", transactionDate: "2026-09-20" }),
+        ],
+        houseTrades: [],
+      },
+    },
+    {
+      name: "candidate",
+      data: {
+        senateTrades: [
+          trade({ owner: "self" }),
+          // Same sale two days later with a different amount band
+          trade({ symbol: "MSFT", transactionDate: "2026-09-07", type: "Sale", amount: "$1,001 - $15,000", owner: "SP" }),
+          // Same day and amount, different ticker
+          trade({ symbol: "BRK-B", transactionDate: "2026-09-20", owner: "Joint" }),
+        ],
+        houseTrades: [trade({ firstName: "Al", lastName: "Green", symbol: "T" })],
+      },
+    }
+  );
+
+  expect(report.matched).toBe(3);
+  expect(report.identical).toBe(1);
+  expect(report.missing.map((t) => t.trade.symbol)).toEqual(["XOM"]);
+  expect(report.extra.map((t) => `${t.chamber}:${t.trade.symbol}`)).toEqual(["house:T"]);
+  expect(report.disagreementCounts).toEqual({ amount: 1, date: 1, ticker: 1, owner: 1 });
+  expect(report.disagreements.find((d) => d.field === "ticker")).toMatchObject({ baseline: "BRK.B", candidate: "BRK-B" });
+  expect(report.disagreements.find((d) => d.field === "date")).toMatchObject({ baseline: "2026-09-05", candidate: "2026-09-07" });
+
+  const jane = report.members.find((m) => m.member === "Jane Smith")!;
+  expect(jane).toMatchObject({ baselineTrades: 3, candidateTrades: 3, matched: 3, coverage: 1 });
+  expect(report.members[0].coverage).toBe(0);
+});
+
+test("matches on the name when only one side resolves, and on the bioguide ID when both do", () => {
+  const resolver = createMemberResolver(null, [
+    { firstName: "Jane", lastName: "Smith", bioguide: "S000001" },
+    { firstName: "Janie", lastName: "Smythe", bioguide: "S000001" },
+  ]);
+  const report = compareSources(
+    { name: "baseline", data: { senateTrades: [trade({}), trade({ symbol: "MSFT" })], houseTrades: [] } },
+    {
+      name: "candidate",
+      data: {
+        senateTrades: [
+          // Doesn't resolve, but normalizes to the same name
+          trade({ firstName: "J." }),
+          // A different spelling that resolves to the same member
+          trade({ firstName: "Janie", lastName: "Smythe", symbol: "MSFT" }),
+        ],
+        houseTrades: [],
+      },
+    },
+    { resolver }
+  );
+
+  expect(report.matched).toBe(2);
+  expect(report.missing).toEqual([]);
+  expect(report.extra).toEqual([]);
+  expect(report.members).toHaveLength(1);
+  expect(report.members[0]).toMatchObject({ baselineTrades: 2, candidateTrades: 2, matched: 2, coverage: 1 });
+});
+
+test("fixture source reads wrapped snapshots and filters by date", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "parity-"));
+  const file = path.join(dir, "snapshot.json");
+  await fs.writeFile(file, JSON.stringify({
+    fetchedAt: "2026-10-01T00:00:00.000Z",
+    data: { senateTrades: [trade({}), trade({ transactionDate: "2026-01-01" })], houseTrades: [] },
+  }));
+
+  const source = new FixtureTradeSource(file);
+  expect(source.getName()).toBe("Fixture (snapshot.json)");
+  expect(await source.fetchSenateTrades(new Date("2026-06-01"))).toHaveLength(1);
+  expect(await source.fetchHouseTrades(new Date("2026-06-01"))).toEqual([]);
+  await fs.rm(dir, { recursive: true });
+});
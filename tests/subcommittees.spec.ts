@@ -0,0 +1,59 @@
+import { test, expect } from "@playwright/test";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { createSectorMap } from "../src/data/sector-map.js";
+import { getCommitteeById } from "../src/services/committee-service.js";
+import type { TradeInput, TraderInput, TraderHistory, MarketData } from "../src/scoring/types.js";
+
+const TRADE: TradeInput = {
+  symbol: "PFE",
+  assetDescription: "Pfizer Inc.",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: { low: 15001, high: 50000 },
+  transactionDate: "2026-03-10",
+  owner: "Self",
+};
+
+const HISTORY: TraderHistory = { visibleTrades: [TRADE], averageTradeSize: 32500, totalTradeCount: 1 };
+
+const MARKET: MarketData = {
+  marketCap: 160_000_000_000,
+  sector: "Healthcare",
+  industry: "Drug Manufacturers - General",
+  averageVolume: null,
+  exchange: "NYSE",
+};
+
+function trader(committees: string[]): TraderInput {
+  return { id: "house-jane-smith", firstName: "Jane", lastName: "Smith", chamber: "house", committees };
+}
+
+test("weights a subcommittee match above a broad parent-committee match", () => {
+  const parentOnly = scoreTrade(TRADE, trader(["HSIF"]), HISTORY, MARKET, null, createSectorMap());
+  const withHealth = scoreTrade(TRADE, trader(["HSIF", "HSIF14"]), HISTORY, MARKET, null, createSectorMap());
+  const otherSubcommittee = scoreTrade(TRADE, trader(["HSIF", "HSIF16"]), HISTORY, MARKET, null, createSectorMap());
+
+  expect(parentOnly.factors.committeeRelevanceScore).toBe(75);
+  expect(withHealth.factors.committeeRelevanceScore).toBe(100);
+  expect(otherSubcommittee.factors.committeeRelevanceScore).toBe(75);
+
+  expect(withHealth.explanation.committeeRelevance?.overlappingCommittees).toEqual(["HSIF14", "HSIF"]);
+  expect(withHealth.explanation.committeeRelevance?.matches).toEqual([
+    { committeeId: "HSIF14", name: "Energy and Commerce - Health", level: "subcommittee", role: "member" },
+    { committeeId: "HSIF", name: "Energy and Commerce", level: "committee", role: "member" },
+  ]);
+});
+
+test("looks up subcommittees by their full membership ID", () => {
+  const committees = [
+    {
+      type: "house",
+      name: "Energy and Commerce",
+      thomas_id: "HSIF",
+      subcommittees: [{ name: "Health", thomas_id: "14" }],
+    },
+  ];
+
+  expect(getCommitteeById("HSIF14", committees)).toMatchObject({ name: "Energy and Commerce - Health", thomas_id: "HSIF14" });
+  expect(getCommitteeById("14", committees)).toBeNull();
+});
@@ -0,0 +1,65 @@
+import { test, expect } from "@playwright/test";
+import { buildSymbolPage, buildPartyPage, symbolPageFile, memberPageFile, type MemberTrade } from "../src/output/html.js";
+import { CongressionalPatternAnalyzer } from "../src/data/pattern-analyzer.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+function trade(firstName: string, lastName: string, transactionDate: string, type: string, amount: string): FMPTrade {
+  return { firstName, lastName, transactionDate, type, amount, symbol: "ACME", assetDescription: "Acme Corp" };
+}
+
+const TRADES: MemberTrade[] = [
+  { trade: trade("John", "Doe", "2026-03-12", "Sale (Full)", "$1,001 - $15,000"), party: "Republican", chamber: "house" },
+  { trade: trade("Jane", "Smith", "2026-03-10", "Purchase", "$15,001 - $50,000"), party: "Democrat", bioguideId: "S000001", chamber: "senate" },
+  { trade: trade("Jane", "Smith", "2026-01-05", "Purchase", "$1,001 - $15,000"), party: "Democrat", bioguideId: "S000001", chamber: "senate" },
+];
+
+test("symbol page filenames are the uppercased ticker", () => {
+  expect(symbolPageFile("acme")).toBe("ACME.html");
+  expect(symbolPageFile("BRK.B")).toBe("BRK.B.html");
+  expect(symbolPageFile("ABC/WS")).toBe("ABC-WS.html");
+});
+
+test("symbol page lists trades, monthly net flows, members and pattern stats", () => {
+  const analyzer = new CongressionalPatternAnalyzer(TRADES.map((t) => t.trade));
+
+  const html = buildSymbolPage({
+    symbol: "ACME",
+    trades: TRADES,
+    pattern: analyzer.getPattern("ACME"),
+    memberCommittees: new Map([["S000001", ["SSBK"]]]),
+    dateLabel: "Week of March 16, 2026",
+    reportUrl: "../2026-03-16/report.html",
+    indexUrl: "../index.html",
+    exchangeMap: new Map([["ACME", "NASDAQ"]]),
+    memberPageFiles: new Set([memberPageFile("Jane Smith", "S000001")]),
+    memberPageBase: "../2026-03-16/",
+  });
+
+  expect(html).toContain("tradingview.com/chart/?symbol=NASDAQ%3AACME");
+  expect(html).toContain("<strong>3</strong> congress trades");
+  expect(html).toContain("<strong>2</strong> members");
+
+  // March: one buy, one sale → net ranges from buy low − sell high to buy high − sell low
+  expect(html).toContain('<td class="sale-date">2026-03</td>');
+  expect(html).toContain("$15,001 – $50,000");
+  expect(html).toContain("$1,001 – $15,000");
+  expect(html).toContain("$1 – $48,999");
+
+  expect(html).toContain('href="../2026-03-16/member-s000001.html"');
+  expect(html).toContain('<abbr class="committee-abbr" title="Banking, Housing, and Urban Affairs">SSBK</abbr>');
+  expect(html).toContain("Sen. ");
+  expect(html).toContain("Rep. John Doe");
+});
+
+test("report pages link symbols to their symbol page when one exists", () => {
+  const html = buildPartyPage({
+    partyLabel: "Democrat",
+    trades: TRADES.slice(1),
+    dateLabel: "Week of March 16, 2026",
+    reportUrl: "report.html",
+    symbolPageUrls: new Map([["ACME", "../symbols/ACME.html"]]),
+  });
+
+  expect(html).toContain('<a class="symbol-link" href="../symbols/ACME.html">ACME</a>');
+  expect(html).not.toContain("tradingview.com");
+});
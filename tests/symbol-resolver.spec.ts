@@ -0,0 +1,98 @@
+import { test, expect } from "@playwright/test";
+import { createSymbolResolver, normalizeCompanyName, getShareClass } from "../src/data/symbol-resolver.js";
+import type { CompanyTicker } from "../src/data/symbol-resolver.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+const COMPANIES: CompanyTicker[] = [
+  { ticker: "AAPL", cik: 320193, title: "Apple Inc." },
+  { ticker: "BRK-B", cik: 1067983, title: "BERKSHIRE HATHAWAY INC" },
+  { ticker: "BRK-A", cik: 1067983, title: "BERKSHIRE HATHAWAY INC" },
+  { ticker: "GOOGL", cik: 1652044, title: "Alphabet Inc." },
+  { ticker: "GOOG", cik: 1652044, title: "Alphabet Inc." },
+  { ticker: "JNJ", cik: 200406, title: "JOHNSON & JOHNSON" },
+  { ticker: "NVDA", cik: 1045810, title: "NVIDIA CORP" },
+];
+
+function trade(assetDescription: string, symbol = "", assetType = "Stock"): FMPTrade {
+  return { firstName: "Jane", lastName: "Smith", transactionDate: "2026-03-10", type: "Purchase", assetDescription, assetType, symbol };
+}
+
+test("descriptions normalize to company names", () => {
+  expect(normalizeCompanyName("Apple Inc. - Common Stock")).toBe("apple");
+  expect(normalizeCompanyName("Berkshire Hathaway Inc. Class B")).toBe("berkshire hathaway");
+  expect(normalizeCompanyName("Johnson & Johnson Common Stock")).toBe("johnson and johnson");
+  expect(getShareClass("Berkshire Hathaway Inc. Class B")).toBe("B");
+  expect(getShareClass("Apple Inc.")).toBeNull();
+});
+
+test("company names that start with security-like words keep them", () => {
+  expect(normalizeCompanyName("New York Times Co. - Class A Common Stock")).toBe("new york times");
+  expect(normalizeCompanyName("American Express Company")).toBe("american express");
+  expect(normalizeCompanyName("Toyota Motor Corp. American Depositary Shares")).toBe("toyota motor");
+
+  const resolver = createSymbolResolver([
+    ...COMPANIES,
+    { ticker: "AXP", cik: 4962, title: "AMERICAN EXPRESS CO" },
+    { ticker: "NYT", cik: 71691, title: "NEW YORK TIMES CO" },
+  ]);
+  expect(resolver.resolve(trade("Express, Inc. - Common Stock"))?.symbol).not.toBe("AXP");
+  expect(resolver.resolve(trade("American Express Company - Common Stock"))).toMatchObject({ symbol: "AXP", source: "name" });
+  expect(resolver.resolve(trade("New York Times Co. - Class A Common Stock"))).toMatchObject({ symbol: "NYT", source: "name" });
+});
+
+test("resolves by spelled ticker, exact name, share class and fuzzy name", () => {
+  const resolver = createSymbolResolver(COMPANIES);
+
+  expect(resolver.resolve(trade("Nvidia Corporation (NVDA)"))).toMatchObject({ symbol: "NVDA", source: "description", confidence: 0.95 });
+  expect(resolver.resolve(trade("Apple Inc. - Common Stock"))).toMatchObject({ symbol: "AAPL", source: "name", confidence: 0.9 });
+  expect(resolver.resolve(trade("Berkshire Hathaway Inc. Class B"))).toMatchObject({ symbol: "BRK-B", confidence: 0.9 });
+  // Two listings and no share class to choose by
+  expect(resolver.resolve(trade("Alphabet Inc."))).toMatchObject({ symbol: "GOOGL", confidence: 0.72 });
+
+  const fuzzy = resolver.resolve(trade("Berkshire Hathway Inc. Class A"));
+  expect(fuzzy).toMatchObject({ symbol: "BRK-A", source: "fuzzy", matchedName: "BERKSHIRE HATHAWAY INC" });
+  expect(fuzzy!.confidence).toBeLessThan(0.85);
+
+  // Filed tickers are left alone
+  expect(resolver.resolve(trade("Apple Inc.", "AAPL"))).toBeNull();
+  expect(resolver.getSymbol(trade("Apple Inc.", "MSFT"))).toBe("MSFT");
+});
+
+test("corrections take precedence and unmatched descriptions are counted", () => {
+  const resolver = createSymbolResolver(COMPANIES, [
+    { assetDescription: "Alphabet Inc. - Class C Capital Stock", symbol: "GOOG" },
+    { assetDescription: "Smith Family Farm LLC", symbol: null },
+  ]);
+
+  expect(resolver.resolve(trade("alphabet inc. - class c capital stock"))).toEqual({ symbol: "GOOG", source: "correction", confidence: 1 });
+  expect(resolver.resolve(trade("Smith Family Farm LLC"))).toBeNull();
+  expect(resolver.resolve(trade("US Treasury Bill", "", "Government Security"))).toBeNull();
+
+  const unknown = trade("Acme Widgets Holdings");
+  resolver.resolve(unknown);
+  resolver.resolve(unknown);
+  resolver.resolve(trade("Acme Widgets Holdings"));
+  expect(resolver.getUnresolved()).toEqual([
+    { assetDescription: "Acme Widgets Holdings", assetType: "Stock", occurrences: 2 },
+  ]);
+});
+
+test("matches below the minimum confidence are reported as unresolved", () => {
+  const resolver = createSymbolResolver(COMPANIES, [], 0.8);
+
+  expect(resolver.resolve(trade("Apple Inc. - Common Stock"))).toMatchObject({ symbol: "AAPL", confidence: 0.9 });
+  const ambiguous = trade("Alphabet Inc.");
+  expect(resolver.resolve(ambiguous)).toBeNull();
+  expect(resolver.getSymbol(ambiguous)).toBeNull();
+  expect(resolver.resolve(trade("Berkshire Hathway Inc. Class A"))).toBeNull();
+
+  expect(resolver.getUnresolved()).toEqual([
+    {
+      assetDescription: "Alphabet Inc.",
+      assetType: "Stock",
+      occurrences: 1,
+      candidate: { symbol: "GOOGL", source: "name", confidence: 0.72, matchedName: "Alphabet Inc." },
+    },
+    expect.objectContaining({ assetDescription: "Berkshire Hathway Inc. Class A", candidate: expect.objectContaining({ symbol: "BRK-A" }) }),
+  ]);
+});
@@ -0,0 +1,75 @@
+import { test, expect } from "@playwright/test";
+import { buildTradePage, tradePageFile, memberPageFile } from "../src/output/html.js";
+import { scoreTrade } from "../src/scoring/uniqueness-scorer.js";
+import { createSectorMap } from "../src/data/sector-map.js";
+import { DEFAULT_SCORING_CONFIG } from "../src/scoring/types.js";
+import type { AnalyzedTrade } from "../src/services/analysis-service.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+const TRADE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  transactionDate: "2026-03-10",
+  dateRecieved: "2026-05-20",
+  owner: "Spouse",
+  assetDescription: "Acme Corp",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$15,001 - $50,000",
+  symbol: "ACME",
+  link: "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030001.pdf",
+};
+
+function analyze(trade: FMPTrade): AnalyzedTrade {
+  const score = scoreTrade(
+    {
+      symbol: trade.symbol ?? null,
+      assetDescription: trade.assetDescription ?? null,
+      assetType: trade.assetType ?? null,
+      type: trade.type ?? null,
+      amount: { low: 15001, high: 50000 },
+      transactionDate: trade.transactionDate ?? null,
+      owner: trade.owner ?? null,
+      disclosureDate: "2026-05-20",
+    },
+    { id: "S000001", bioguideId: "S000001", firstName: "Jane", lastName: "Smith", chamber: "house", committees: [], party: "Democrat" },
+    { visibleTrades: [], averageTradeSize: 32500, totalTradeCount: 1 },
+    null,
+    null,
+    createSectorMap()
+  );
+  return { trade, chamber: "house", trader: { id: "S000001", bioguideId: "S000001", firstName: "Jane", lastName: "Smith", chamber: "house", committees: [] }, score };
+}
+
+test("trade page filenames are stable per trade", () => {
+  expect(tradePageFile(TRADE)).toMatch(/^trade-[0-9a-f]{12}\.html$/);
+  expect(tradePageFile({ ...TRADE })).toBe(tradePageFile(TRADE));
+  expect(tradePageFile({ ...TRADE, amount: "$1,001 - $15,000" })).not.toBe(tradePageFile(TRADE));
+});
+
+test("trade page shows every factor, the explanation, related trades and the filing", () => {
+  const earlier: FMPTrade = { ...TRADE, transactionDate: "2026-01-05", type: "Sale (Full)" };
+  const other: FMPTrade = { ...TRADE, firstName: "John", lastName: "Doe", transactionDate: "2026-03-12" };
+
+  const html = buildTradePage({
+    analyzed: analyze(TRADE),
+    config: DEFAULT_SCORING_CONFIG,
+    memberTrades: [{ trade: earlier, party: "Democrat", bioguideId: "S000001" }],
+    otherTrades: [{ trade: other, party: "Republican" }],
+    dateLabel: "Week of May 18, 2026",
+    reportUrl: "report.html",
+    memberPageFiles: new Set([memberPageFile("Jane Smith", "S000001")]),
+  });
+
+  for (const label of ["Market cap", "Conviction", "Rarity", "Committee relevance", "Derivative", "Ownership", "Committee activity proximity", "Late filing"]) {
+    expect(html).toContain(`<td class="sale-trader">${label}</td>`);
+  }
+  expect(html).toContain("Disclosed 2026-05-20: 71 days after trade (26 days late)");
+  expect(html).toContain("Ownership: Spouse");
+  expect(html).toContain("Jane Smith's other ACME trades");
+  expect(html).toContain("2026-01-05");
+  expect(html).toContain("Other members' ACME trades");
+  expect(html).toContain("John Doe");
+  expect(html).toContain('href="member-s000001.html"');
+  expect(html).toContain(`href="${TRADE.link}"`);
+});
@@ -0,0 +1,154 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { SqliteTradeStore } from "../src/data/trade-store.js";
+import type { FMPTrade } from "../src/types/index.js";
+
+function tempStore(): { store: SqliteTradeStore; dir: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "trade-store-"));
+  return { store: new SqliteTradeStore(path.join(dir, "trades.db")), dir };
+}
+
+const PELOSI_INTC: FMPTrade = {
+  firstName: "Nancy",
+  lastName: "Pelosi",
+  link: "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20034836.pdf",
+  dateRecieved: "5/30/2026",
+  transactionDate: "2026-05-29",
+  owner: "Spouse",
+  assetDescription: "Intel Corporation - Call Options",
+  assetType: "Options",
+  type: "Purchase",
+  amount: "$250,001 - $500,000",
+  symbol: "INTC",
+};
+
+const PELOSI_UBER: FMPTrade = { ...PELOSI_INTC, assetDescription: "Uber Technologies", symbol: "UBER" };
+
+const SMITH_SALE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  link: "https://efdsearch.senate.gov/search/view/ptr/abc-123/",
+  transactionDate: "2026-04-09",
+  owner: "Self",
+  assetDescription: "NVIDIA Corp",
+  assetType: "Stock",
+  type: "Sale (Full)",
+  amount: "$100,001 - $250,000",
+  symbol: "NVDA",
+};
+
+test("round-trips trades per chamber without altering fields", () => {
+  const { store, dir } = tempStore();
+  try {
+    store.insertTrades("house", [PELOSI_INTC, PELOSI_UBER]);
+    store.insertTrades("senate", [SMITH_SALE]);
+
+    const data = store.loadTradeData();
+    expect(data.houseTrades).toEqual([PELOSI_INTC, PELOSI_UBER]);
+    expect(data.senateTrades).toEqual([SMITH_SALE]);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("skips duplicate trades and groups transactions under one filing", () => {
+  const { store, dir } = tempStore();
+  try {
+    expect(store.insertTrades("house", [PELOSI_INTC, PELOSI_UBER])).toBe(2);
+    expect(store.insertTrades("house", [PELOSI_INTC])).toBe(0);
+
+    const stats = store.getStats();
+    expect(stats.transactions).toBe(2);
+    expect(stats.filings).toBe(1);
+    expect(stats.members).toBe(1);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("keeps identical lots within one filing as separate transactions", () => {
+  const { store, dir } = tempStore();
+  try {
+    expect(store.insertTrades("house", [PELOSI_INTC, PELOSI_INTC, PELOSI_UBER])).toBe(3);
+    // Re-fetching the filing adds nothing; a third identical lot is new
+    expect(store.insertTrades("house", [PELOSI_INTC, PELOSI_INTC])).toBe(0);
+    expect(store.insertTrades("house", [PELOSI_INTC, PELOSI_INTC, PELOSI_INTC])).toBe(1);
+    expect(store.queryTrades({ symbol: "INTC" })).toHaveLength(3);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("rebuilds stores keyed without lots", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "trade-store-"));
+  const file = path.join(dir, "trades.db");
+  try {
+    let store = new SqliteTradeStore(file);
+    store.insertTrades("house", [PELOSI_INTC]);
+    store.close();
+
+    // Recreate the transactions table as stores created before lots had it
+    const db = new Database(file);
+    db.exec(`
+      CREATE TABLE old_transactions AS SELECT * FROM transactions;
+      DROP TABLE transactions;
+      CREATE TABLE transactions (
+        id INTEGER PRIMARY KEY, trade_key TEXT NOT NULL, chamber TEXT NOT NULL,
+        member_id INTEGER NOT NULL REFERENCES members(id), filing_id INTEGER NOT NULL REFERENCES filings(id),
+        transaction_date TEXT, owner TEXT, asset_description TEXT, asset_type TEXT, type TEXT,
+        amount TEXT, comment TEXT, symbol TEXT, provenance TEXT,
+        UNIQUE (chamber, trade_key)
+      );
+      INSERT INTO transactions SELECT id, trade_key, chamber, member_id, filing_id, transaction_date, owner,
+        asset_description, asset_type, type, amount, comment, symbol, provenance FROM old_transactions;
+      DROP TABLE old_transactions;
+    `);
+    db.close();
+
+    store = new SqliteTradeStore(file);
+    expect(store.loadTradeData().houseTrades).toEqual([PELOSI_INTC]);
+    expect(store.insertTrades("house", [PELOSI_INTC, PELOSI_INTC])).toBe(1);
+    store.close();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("queries by symbol, trader, type and date without loading everything", () => {
+  const { store, dir } = tempStore();
+  try {
+    store.insertTrades("house", [PELOSI_INTC, PELOSI_UBER]);
+    store.insertTrades("senate", [SMITH_SALE]);
+
+    expect(store.queryTrades({ symbol: "intc" }).map((s) => s.trade.symbol)).toEqual(["INTC"]);
+    expect(store.queryTrades({ trader: "pelosi" })).toHaveLength(2);
+    expect(store.queryTrades({ type: "sale" }).map((s) => s.chamber)).toEqual(["senate"]);
+    expect(store.queryTrades({ since: "2026-05-01" })).toHaveLength(2);
+    expect(store.queryTrades({ order: "desc", limit: 1 })[0].trade.transactionDate).toBe("2026-05-29");
+    expect(store.getMostRecentTransactionDate()).toBe("2026-05-29");
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("keeps the latest market data snapshot per symbol", () => {
+  const { store, dir } = tempStore();
+  try {
+    const base = { sector: "Technology", industry: "Semiconductors", averageVolume: null, exchange: "NASDAQ" };
+    store.saveMarketDataSnapshots(new Map([["INTC", { ...base, marketCap: 90_000_000_000 }]]), "2026-05-01");
+    store.saveMarketDataSnapshots(new Map([["INTC", { ...base, marketCap: 95_000_000_000 }]]), "2026-06-01");
+
+    expect(store.getLatestMarketData("intc")?.marketCap).toBe(95_000_000_000);
+    expect(store.getStats().marketSnapshots).toBe(2);
+  } finally {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,76 @@
+import { test, expect } from "@playwright/test";
+import { matchWatchlist, renderWatchAlert, WatchlistSchema } from "../src/services/watch-service.js";
+import type { MarketData } from "../src/scoring/types.js";
+import type { CommitteeData, FMPTrade } from "../src/types/index.js";
+
+const COMMITTEE_DATA: CommitteeData = {
+  committees: [],
+  sectorMappings: [],
+  membership: {
+    HSIF: [{ name: "Jane Smith", bioguide: "S000001" }],
+    HSAS28: [{ name: "John Doe", bioguide: "D000002" }],
+  },
+};
+
+const TRADE: FMPTrade = {
+  firstName: "Jane",
+  lastName: "Smith",
+  link: "https://disclosures-clerk.house.gov/public_disc/ptr-pdfs/2026/20030001.pdf",
+  transactionDate: "2026-03-02",
+  owner: "Self",
+  assetDescription: "Acme Corp",
+  assetType: "Stock",
+  type: "Purchase",
+  amount: "$1,001 - $15,000",
+  symbol: "ACME",
+};
+
+const TRADES = [
+  { trade: TRADE, chamber: "house" as const },
+  { trade: { ...TRADE, firstName: "John", lastName: "Doe", symbol: "NVDA" }, chamber: "house" as const },
+  { trade: { ...TRADE, firstName: "Rick", lastName: "Roe", symbol: "XOM" }, chamber: "senate" as const },
+];
+
+const MARKET_DATA = new Map<string, MarketData>([
+  ["XOM", { marketCap: null, sector: "Energy", industry: null, averageVolume: null }],
+]);
+
+test("matches trades by member, symbol, sector and committee", () => {
+  const watchlist = {
+    ...WatchlistSchema.parse({ members: ["s000001"], symbols: ["nvda"], sectors: ["energy"], committees: ["HSAS"] }),
+    file: "watchlist.yaml",
+  };
+
+  const matches = matchWatchlist(TRADES, watchlist, COMMITTEE_DATA, MARKET_DATA);
+
+  expect(matches.map((m) => [m.trade.lastName, m.reasons])).toEqual([
+    ["Smith", ["member S000001"]],
+    ["Doe", ["symbol NVDA", "committee HSAS"]],
+    ["Roe", ["sector Energy"]],
+  ]);
+  expect(matches[1].bioguideId).toBe("D000002");
+
+  const symbolsOnly = { ...WatchlistSchema.parse({ symbols: ["ACME"] }), file: "watchlist.yaml" };
+  expect(matchWatchlist(TRADES, symbolsOnly, null, new Map())).toHaveLength(1);
+});
+
+test("rejects unknown watchlist keys and renders alert templates", () => {
+  expect(WatchlistSchema.safeParse({ tickers: ["NVDA"] }).success).toBe(false);
+
+  const body = renderWatchAlert(
+    {
+      generatedAt: "2026-03-05T12:00:00.000Z",
+      watchlist: "defense",
+      tradesChecked: 3,
+      matches: [{ trade: TRADE, chamber: "house", bioguideId: "S000001", reasons: ["member S000001"] }],
+    },
+    "{{subject}} | {{count}} from {{watchlist}} | {{unknown}}\n{{matches}}",
+    "Heads up"
+  );
+
+  expect(body).toBe(
+    "Heads up | 1 from defense | {{unknown}}\n" +
+      "- 2026-03-02 ACME Purchase $1,001 - $15,000 — Rep. Jane Smith — (member S000001) " +
+      `[filing](${TRADE.link})`
+  );
+});